@@ -0,0 +1,64 @@
+import { Link } from "react-router";
+import { formatPlace, getKnockoutPlacements } from "~/lib/bracket";
+import type { BracketFormat, MatchWithPlayers } from "~/lib/types";
+
+interface PodiumProps {
+  knockoutMatches: MatchWithPlayers[];
+  format: BracketFormat;
+}
+
+/**
+ * Podium for the top three, followed by a 1st-4th summary. Places that are
+ * not decided yet are left out; shared places are listed together.
+ */
+export function Podium({ knockoutMatches, format }: PodiumProps) {
+  const playerById = new Map(
+    knockoutMatches.flatMap((m) => [
+      [m.player1_id, m.player1],
+      [m.player2_id, m.player2],
+    ]),
+  );
+  const placements = getKnockoutPlacements(knockoutMatches, format).flatMap(
+    ({ place, playerId }) => {
+      const player = playerById.get(playerId);
+      return player ? [{ place, player }] : [];
+    },
+  );
+  if (placements.length === 0) return null;
+
+  const playersAt = (place: number) =>
+    placements.filter((p) => p.place === place).map((p) => p.player);
+
+  return (
+    <div className="podium">
+      <div className="podium-steps">
+        {[2, 1, 3].map((place) => (
+          <div key={place} className={`podium-step podium-step-${place}`}>
+            <div className="podium-names">
+              {playersAt(place).map((player) => (
+                <Link key={player.id} to={`/player/${player.id}`}>
+                  {player.name}
+                </Link>
+              ))}
+            </div>
+            <div className="podium-block">{formatPlace(place)}</div>
+          </div>
+        ))}
+      </div>
+
+      <ol className="podium-summary">
+        {[1, 2, 3, 4].map((place) => {
+          const players = playersAt(place);
+          if (players.length === 0) return null;
+
+          return (
+            <li key={place}>
+              <span className="podium-summary-place">{formatPlace(place)}</span>
+              <span>{players.map((player) => player.name).join(" & ")}</span>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
@@ -24,12 +24,21 @@ export function Header({ user }: HeaderProps) {
           <Link to="/results" className="nav-link">
             Results
           </Link>
+          <Link to="/schedule" className="nav-link">
+            Schedule
+          </Link>
           <Link to="/players" className="nav-link">
             Players
           </Link>
           <Link to="/bracket" className="nav-link">
             Bracket
           </Link>
+          <Link to="/doubles" className="nav-link">
+            Doubles
+          </Link>
+          <Link to="/ratings" className="nav-link">
+            Ratings
+          </Link>
         </nav>
 
         <div className="header-auth">
@@ -57,11 +66,26 @@ export function Header({ user }: HeaderProps) {
                 </svg>
               </button>
               <div className="dropdown-menu">
+                {user.playerId && (
+                  <Link to="/report" className="dropdown-item">
+                    Report My Result
+                  </Link>
+                )}
                 {canEdit && (
                   <Link to="/editor/matches" className="dropdown-item">
                     Submit Results
                   </Link>
                 )}
+                {canEdit && (
+                  <Link to="/editor/disputes" className="dropdown-item">
+                    Result Disputes
+                  </Link>
+                )}
+                {canEdit && (
+                  <Link to="/editor/schedule" className="dropdown-item">
+                    Book Matches
+                  </Link>
+                )}
                 {isAdmin && (
                   <Link to="/admin" className="dropdown-item">
                     Admin
@@ -0,0 +1,100 @@
+import {
+  MATCH_RESULT_DESCRIPTIONS,
+  MATCH_RESULT_LABELS,
+} from "~/lib/match-result";
+import type { MatchResultType, Player } from "~/lib/types";
+
+interface ResultTypeFieldsProps {
+  player1: Pick<Player, "id" | "name">;
+  player2: Pick<Player, "id" | "name">;
+  resultType: MatchResultType;
+  onResultTypeChange: (resultType: MatchResultType) => void;
+  defaultWinnerId?: string | null;
+  defaultReason?: string | null;
+  disabled?: boolean;
+}
+
+/**
+ * Outcome picker for the record forms. Walkovers, forfeits and retirements
+ * need the winner and a reason; the set inputs stay with the form.
+ */
+export function ResultTypeFields({
+  player1,
+  player2,
+  resultType,
+  onResultTypeChange,
+  defaultWinnerId,
+  defaultReason,
+  disabled,
+}: ResultTypeFieldsProps) {
+  return (
+    <div className="result-type-fields">
+      <div className="form-group">
+        <label htmlFor="result_type" className="form-label">
+          Outcome
+        </label>
+        <select
+          id="result_type"
+          name="result_type"
+          className="form-select"
+          value={resultType}
+          onChange={(e) =>
+            onResultTypeChange(e.target.value as MatchResultType)
+          }
+          disabled={disabled}
+        >
+          {(Object.keys(MATCH_RESULT_LABELS) as MatchResultType[]).map(
+            (type) => (
+              <option key={type} value={type}>
+                {MATCH_RESULT_LABELS[type]}
+              </option>
+            )
+          )}
+        </select>
+        <p className="help-text">{MATCH_RESULT_DESCRIPTIONS[resultType]}</p>
+      </div>
+
+      {resultType !== "normal" && (
+        <>
+          <div className="form-group">
+            <label htmlFor="winner_id" className="form-label">
+              Winner
+            </label>
+            <select
+              id="winner_id"
+              name="winner_id"
+              className="form-select"
+              defaultValue={defaultWinnerId || ""}
+              required
+              disabled={disabled}
+            >
+              <option value="">Select winner...</option>
+              <option value={player1.id}>{player1.name}</option>
+              <option value={player2.id}>{player2.name}</option>
+            </select>
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="result_reason" className="form-label">
+              Reason
+            </label>
+            <input
+              type="text"
+              id="result_reason"
+              name="result_reason"
+              className="form-input"
+              defaultValue={defaultReason || ""}
+              placeholder={
+                resultType === "retired"
+                  ? "e.g. Wrist injury in set 2"
+                  : "e.g. On leave, did not reply to scheduling"
+              }
+              required
+              disabled={disabled}
+            />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
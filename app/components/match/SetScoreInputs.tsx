@@ -0,0 +1,73 @@
+import { describeMatchFormat, getSetsToWin } from "~/lib/match-format";
+import type { MatchFormat, SetScore } from "~/lib/types";
+
+interface SetScoreInputsProps {
+  format: MatchFormat;
+  player1Name: string;
+  player2Name: string;
+  defaultScores?: SetScore[];
+  retired?: boolean;
+  disabled?: boolean;
+}
+
+/**
+ * One score pair per set of the match format (set1_p1, set1_p2, ...). The sets
+ * a winner needs are required for a played match; for a retirement every set
+ * is optional since only completed sets are entered.
+ */
+export function SetScoreInputs({
+  format,
+  player1Name,
+  player2Name,
+  defaultScores = [],
+  retired,
+  disabled,
+}: SetScoreInputsProps) {
+  const setsToWin = getSetsToWin(format.best_of);
+
+  return (
+    <>
+      <p className="help-text">{describeMatchFormat(format)}</p>
+      <div className="sets-input-grid">
+        {Array.from({ length: format.best_of }, (_, index) => {
+          const setNumber = index + 1;
+          const required = !retired && setNumber <= setsToWin;
+
+          return (
+            <div key={setNumber} className="set-input-group">
+              <label className="set-label">
+                Set {setNumber}
+                {retired ? " (if completed)" : required ? "" : " (if needed)"}
+              </label>
+              <div className="set-inputs">
+                <input
+                  type="number"
+                  name={`set${setNumber}_p1`}
+                  min="0"
+                  max="99"
+                  defaultValue={defaultScores[index]?.[0] ?? ""}
+                  placeholder={player1Name.split(" ")[0]}
+                  className="form-input score-input"
+                  required={required}
+                  disabled={disabled}
+                />
+                <span className="score-separator">-</span>
+                <input
+                  type="number"
+                  name={`set${setNumber}_p2`}
+                  min="0"
+                  max="99"
+                  defaultValue={defaultScores[index]?.[1] ?? ""}
+                  placeholder={player2Name.split(" ")[0]}
+                  className="form-input score-input"
+                  required={required}
+                  disabled={disabled}
+                />
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,24 @@
+import { Link } from "react-router";
+import type { FormResult } from "~/lib/types";
+
+/**
+ * W/L badges for recent results, each linking to its match.
+ */
+export function FormBadges({ form }: { form: FormResult[] }) {
+  if (form.length === 0) return <span>-</span>;
+
+  return (
+    <span className="form-badges">
+      {form.map((result) => (
+        <Link
+          key={result.matchId}
+          to={`/match/${result.matchId}`}
+          className={`form-badge ${result.won ? "win" : "loss"}`}
+          title={`${result.won ? "Won" : "Lost"} vs ${result.opponentName}`}
+        >
+          {result.won ? "W" : "L"}
+        </Link>
+      ))}
+    </span>
+  );
+}
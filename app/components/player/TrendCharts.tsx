@@ -0,0 +1,125 @@
+import type { PlayerAnalytics, PointsPerGame } from "~/lib/types";
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 200;
+const CHART_PADDING = 28;
+
+/**
+ * Line chart of average points scored and conceded per set, one point per
+ * match in the order they were played. Drawn as inline SVG so it scales
+ * with its container.
+ */
+export function PointsTrendChart({ games }: { games: PointsPerGame[] }) {
+  if (games.length < 2) {
+    return (
+      <p className="empty">Play at least two matches to see a points trend.</p>
+    );
+  }
+
+  const maxPoints = Math.max(...games.flatMap((g) => [g.scored, g.conceded]));
+  const yMax = Math.max(11, Math.ceil(maxPoints));
+  const plotWidth = CHART_WIDTH - CHART_PADDING * 2;
+  const plotHeight = CHART_HEIGHT - CHART_PADDING * 2;
+
+  const x = (index: number) =>
+    CHART_PADDING + (index / (games.length - 1)) * plotWidth;
+  const y = (points: number) =>
+    CHART_PADDING + plotHeight - (points / yMax) * plotHeight;
+  const toPath = (values: number[]) =>
+    values.map((value, i) => `${x(i)},${y(value)}`).join(" ");
+
+  const gridLines = [0, Math.round(yMax / 2), yMax];
+
+  return (
+    <figure className="trend-chart">
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        role="img"
+        aria-label="Average points scored and conceded per set, by match"
+      >
+        {gridLines.map((points) => (
+          <g key={points}>
+            <line
+              className="trend-grid"
+              x1={CHART_PADDING}
+              x2={CHART_WIDTH - CHART_PADDING}
+              y1={y(points)}
+              y2={y(points)}
+            />
+            <text
+              className="trend-axis"
+              x={CHART_PADDING - 6}
+              y={y(points) + 4}
+              textAnchor="end"
+            >
+              {points}
+            </text>
+          </g>
+        ))}
+        <polyline
+          className="trend-line conceded"
+          points={toPath(games.map((g) => g.conceded))}
+        />
+        <polyline
+          className="trend-line scored"
+          points={toPath(games.map((g) => g.scored))}
+        />
+        {games.map((game, i) => (
+          <circle
+            key={game.matchId}
+            className="trend-dot scored"
+            cx={x(i)}
+            cy={y(game.scored)}
+            r={3.5}
+          >
+            <title>
+              {game.recordedAt
+                ? new Date(game.recordedAt).toLocaleDateString()
+                : "Match"}
+              : {game.scored} scored, {game.conceded} conceded per set
+            </title>
+          </circle>
+        ))}
+      </svg>
+      <figcaption className="trend-legend">
+        <span className="trend-key scored">Scored</span>
+        <span className="trend-key conceded">Conceded</span>
+      </figcaption>
+    </figure>
+  );
+}
+
+/**
+ * Horizontal win-rate bars against each opponent tier.
+ */
+export function TierRecordChart({
+  byTier,
+}: {
+  byTier: PlayerAnalytics["byTier"];
+}) {
+  return (
+    <div className="tier-bars">
+      {byTier.map(({ tier, played, wins }) => {
+        const winRate = played > 0 ? Math.round((wins / played) * 100) : 0;
+        return (
+          <div key={tier} className="tier-bar-row">
+            <span className={`tier-badge tier-${tier}`}>{tier}</span>
+            <div
+              className="tier-bar-track"
+              role="img"
+              aria-label={`Tier ${tier}: ${wins} wins from ${played}`}
+            >
+              <div
+                className={`tier-bar-fill tier-fill-${tier}`}
+                style={{ width: `${winRate}%` }}
+              />
+            </div>
+            <span className="tier-bar-value">
+              {played > 0 ? `${wins}/${played} (${winRate}%)` : "-"}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+import { useSearchParams } from "react-router";
+import type { Season } from "~/lib/types";
+
+interface SeasonSelectorProps {
+  season: Season;
+  seasons: Season[];
+}
+
+export function SeasonSelector({ season, seasons }: SeasonSelectorProps) {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  if (seasons.length < 2 && season.is_active) return null;
+
+  const handleChange = (seasonId: string) => {
+    const next = new URLSearchParams(searchParams);
+    // Player rows are per season, so a player filter never carries over
+    next.delete("player");
+    const selected = seasons.find((s) => s.id === seasonId);
+    if (!selected || selected.is_active) {
+      next.delete("season");
+    } else {
+      next.set("season", seasonId);
+    }
+    setSearchParams(next);
+  };
+
+  return (
+    <>
+      <div className="filter-bar">
+        <label htmlFor="season-filter">Season:</label>
+        <select
+          id="season-filter"
+          value={season.id}
+          onChange={(e) => handleChange(e.target.value)}
+          className="filter-select"
+        >
+          {seasons.map((s) => (
+            <option key={s.id} value={s.id}>
+              {s.name}
+              {s.is_active ? " (current)" : ""}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {!season.is_active && (
+        <div className="season-archived-banner">
+          You are viewing <strong>{season.name}</strong>, an archived season.
+          Results are read-only.
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,155 @@
+import type { AchievementUnlock, Match, Player } from "./types";
+
+// Number of unlocks shown in the home page feed
+export const RECENT_UNLOCK_COUNT = 6;
+
+// How many wins in a row earn the streak badge
+const WIN_STREAK_LENGTH = 5;
+
+interface AchievementContext {
+  player: Player;
+  matches: Match[]; // The player's completed singles matches, oldest first
+  roster: Player[]; // Everyone in the player's season
+  playerById: Map<string, Player>;
+}
+
+export interface Achievement {
+  id: string;
+  name: string;
+  description: string;
+  icon: string;
+  // The match the achievement was first earned in, or null if not earned yet
+  findUnlock: (context: AchievementContext) => Match | null;
+}
+
+/**
+ * Achievement rules, in display order. Each rule replays the player's match
+ * history, so unlocks always reflect the results as they are now and follow
+ * any edits made to them.
+ */
+export const ACHIEVEMENTS: Achievement[] = [
+  {
+    id: "first_win",
+    name: "First Win",
+    description: "Won a match",
+    icon: "🥇",
+    findUnlock: ({ player, matches }) =>
+      matches.find((m) => m.winner_id === player.id) || null,
+  },
+  {
+    id: "giant_killer",
+    name: "Giant Killer",
+    description: "Beat a tier 1 player as a tier 4 player",
+    icon: "🗡️",
+    findUnlock: ({ player, matches, playerById }) =>
+      (player.tier === 4 &&
+        matches.find(
+          (m) =>
+            m.winner_id === player.id &&
+            playerById.get(getOpponentId(m, player.id))?.tier === 1,
+        )) ||
+      null,
+  },
+  {
+    id: "win_streak",
+    name: "On Fire",
+    description: `Won ${WIN_STREAK_LENGTH} matches in a row`,
+    icon: "🔥",
+    findUnlock: ({ player, matches }) => {
+      let streak = 0;
+      for (const match of matches) {
+        streak = match.winner_id === player.id ? streak + 1 : 0;
+        if (streak === WIN_STREAK_LENGTH) return match;
+      }
+      return null;
+    },
+  },
+  {
+    id: "played_everyone",
+    name: "Social Butterfly",
+    description: "Played every other player in the season",
+    icon: "🦋",
+    findUnlock: ({ player, matches, roster }) => {
+      const opponentIds = new Set(
+        roster.filter((p) => p.id !== player.id).map((p) => p.id),
+      );
+      if (opponentIds.size === 0) return null;
+
+      for (const match of matches) {
+        opponentIds.delete(getOpponentId(match, player.id));
+        if (opponentIds.size === 0) return match;
+      }
+      return null;
+    },
+  },
+  {
+    id: "bagel",
+    name: "Bagel",
+    description: "Won a set without conceding a point",
+    icon: "🥯",
+    findUnlock: ({ player, matches }) =>
+      matches.find((m) =>
+        m.set_scores.some(([p1, p2]) =>
+          m.player1_id === player.id ? p1 > 0 && p2 === 0 : p2 > 0 && p1 === 0,
+        ),
+      ) || null,
+  },
+];
+
+/**
+ * Evaluate every achievement rule for every player in a season.
+ */
+export function calculateAchievements(
+  players: Player[],
+  matches: Match[],
+): AchievementUnlock[] {
+  const playerById = new Map(players.map((p) => [p.id, p]));
+  const completed = matches
+    .filter((m) => m.status === "completed")
+    .sort((a, b) => (a.recorded_at || "").localeCompare(b.recorded_at || ""));
+
+  return players.flatMap((player) => {
+    const context: AchievementContext = {
+      player,
+      matches: completed.filter(
+        (m) => m.player1_id === player.id || m.player2_id === player.id,
+      ),
+      roster: players,
+      playerById,
+    };
+
+    return ACHIEVEMENTS.flatMap((achievement) => {
+      const match = achievement.findUnlock(context);
+      return match
+        ? [
+            {
+              achievementId: achievement.id,
+              playerId: player.id,
+              matchId: match.id,
+              unlockedAt: match.recorded_at,
+            },
+          ]
+        : [];
+    });
+  });
+}
+
+/**
+ * The latest unlocks across all players, most recent first.
+ */
+export function getRecentUnlocks(
+  unlocks: AchievementUnlock[],
+  count: number = RECENT_UNLOCK_COUNT,
+): AchievementUnlock[] {
+  return [...unlocks]
+    .sort((a, b) => (b.unlockedAt || "").localeCompare(a.unlockedAt || ""))
+    .slice(0, count);
+}
+
+export function getAchievement(id: string): Achievement | undefined {
+  return ACHIEVEMENTS.find((achievement) => achievement.id === id);
+}
+
+function getOpponentId(match: Match, playerId: string): string {
+  return match.player1_id === playerId ? match.player2_id : match.player1_id;
+}
@@ -0,0 +1,209 @@
+import { createHash } from "node:crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { resolveSeason } from "./seasons.server";
+import type { MatchWithPlayers, Player, PlayerStanding, Season } from "./types";
+
+// Items per page when `per_page` is not given, and the most it may ask for
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Matches with both players embedded, as MatchWithPlayers describes them
+export const MATCH_SELECT = `
+  *,
+  player1:players!matches_player1_id_fkey(*),
+  player2:players!matches_player2_id_fkey(*)
+`;
+
+// Read-only and public, so any site's dashboard may fetch it
+const CORS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Expose-Headers": "ETag",
+};
+
+export interface Pagination {
+  page: number;
+  perPage: number;
+}
+
+/**
+ * A JSON error body, e.g. `{ "error": "Player not found" }`. Loaders throw it
+ * so a bad request stops the loader where it is found.
+ */
+export function apiError(status: number, message: string): Response {
+  return new Response(JSON.stringify({ error: message }), {
+    status,
+    headers: { "Content-Type": "application/json; charset=utf-8", ...CORS },
+  });
+}
+
+/**
+ * Serve a JSON body with an ETag of its content. A client that sends the tag
+ * back in If-None-Match gets an empty 304 until the data changes.
+ */
+export function apiResponse(request: Request, body: unknown): Response {
+  const json = JSON.stringify(body);
+  const etag = `"${createHash("sha1").update(json).digest("base64url")}"`;
+  const headers = {
+    ETag: etag,
+    "Cache-Control": "no-cache",
+    ...CORS,
+  };
+
+  const ifNoneMatch = request.headers.get("If-None-Match");
+  if (ifNoneMatch && matchesEtag(ifNoneMatch, etag)) {
+    return new Response(null, { status: 304, headers });
+  }
+
+  return new Response(json, {
+    headers: { "Content-Type": "application/json; charset=utf-8", ...headers },
+  });
+}
+
+/**
+ * Read `page` (from 1) and `per_page` (up to MAX_PAGE_SIZE) from the query.
+ */
+export function parsePagination(url: URL): Pagination {
+  const page = parsePositiveInt(url.searchParams.get("page"), 1);
+  const perPage = parsePositiveInt(
+    url.searchParams.get("per_page"),
+    DEFAULT_PAGE_SIZE,
+  );
+
+  if (page === null) {
+    throw apiError(400, "page must be a positive whole number");
+  }
+  if (perPage === null || perPage > MAX_PAGE_SIZE) {
+    throw apiError(
+      400,
+      `per_page must be a whole number from 1 to ${MAX_PAGE_SIZE}`,
+    );
+  }
+
+  return { page, perPage };
+}
+
+/**
+ * Row range of a page, for Supabase's `.range(from, to)`.
+ */
+export function getPageRange({ page, perPage }: Pagination): [number, number] {
+  return [(page - 1) * perPage, page * perPage - 1];
+}
+
+/**
+ * The list envelope: one page of items and where it sits in the whole list.
+ */
+export function paginated<T>(
+  items: T[],
+  total: number,
+  { page, perPage }: Pagination,
+) {
+  return {
+    data: items,
+    pagination: {
+      page,
+      per_page: perPage,
+      total,
+      total_pages: Math.ceil(total / perPage),
+    },
+  };
+}
+
+/**
+ * Page an in-memory list, for data worked out in code such as standings.
+ */
+export function paginate<T>(items: T[], pagination: Pagination) {
+  const [from, to] = getPageRange(pagination);
+  return paginated(items.slice(from, to + 1), items.length, pagination);
+}
+
+/**
+ * The season from `?season=`, or the active season. Unlike the pages, an
+ * unknown season is a 404 rather than a quiet fallback.
+ */
+export async function resolveApiSeason(
+  supabase: SupabaseClient,
+  request: Request,
+): Promise<Season> {
+  const seasonId = new URL(request.url).searchParams.get("season");
+  const { season } = await resolveSeason(supabase, request);
+
+  if (seasonId && season.id !== seasonId) {
+    throw apiError(404, "Season not found");
+  }
+
+  return season;
+}
+
+export function isUuid(value: string): boolean {
+  return UUID_PATTERN.test(value);
+}
+
+export function toApiSeason(season: Season) {
+  return {
+    id: season.id,
+    name: season.name,
+    is_active: season.is_active,
+    created_at: season.created_at,
+  };
+}
+
+// Slack handles and person IDs are left out: the API is public
+export function toApiPlayer(player: Player) {
+  return {
+    id: player.id,
+    name: player.name,
+    department: player.department,
+    tier: player.tier,
+    season_id: player.season_id,
+  };
+}
+
+export function toApiMatch(match: MatchWithPlayers) {
+  return {
+    id: match.id,
+    season_id: match.season_id,
+    phase: match.phase,
+    status: match.status,
+    player1: toApiPlayer(match.player1),
+    player2: toApiPlayer(match.player2),
+    winner_id: match.winner_id,
+    set_scores: match.set_scores,
+    result_type: match.result_type,
+    result_reason: match.result_reason,
+    knockout_position: match.knockout_position,
+    scheduled_at: match.scheduled_at,
+    table_label: match.table_label,
+    recorded_at: match.recorded_at,
+  };
+}
+
+export function toApiStanding(standing: PlayerStanding) {
+  return {
+    rank: standing.rank,
+    player: toApiPlayer(standing.player),
+    played: standing.matchesPlayed,
+    wins: standing.wins,
+    losses: standing.losses,
+    points: standing.points,
+    set_diff: standing.setDiff,
+    point_diff: standing.pointDiff,
+    group: standing.group,
+  };
+}
+
+function matchesEtag(header: string, etag: string): boolean {
+  return header
+    .split(",")
+    .map((tag) => tag.trim().replace(/^W\//, ""))
+    .some((tag) => tag === "*" || tag === etag);
+}
+
+function parsePositiveInt(value: string | null, fallback: number) {
+  if (value === null || value === "") return fallback;
+  if (!/^\d+$/.test(value)) return null;
+  const number = parseInt(value);
+  return number >= 1 ? number : null;
+}
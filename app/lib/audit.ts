@@ -0,0 +1,50 @@
+import type { AuditLogEntry, AuditTable } from "./types";
+
+export type AuditFieldChange = {
+  field: string;
+  before: unknown;
+  after: unknown;
+};
+
+export const AUDIT_TABLE_LABELS: Record<AuditTable, string> = {
+  players: "Players",
+  matches: "Matches",
+  users: "Users",
+  tournament_settings: "Settings",
+  weekly_recommendations: "Recommendations",
+  teams: "Doubles teams",
+  doubles_matches: "Doubles matches",
+};
+
+// Bookkeeping columns that change on every write
+const IGNORED_FIELDS = new Set(["created_at", "updated_at"]);
+
+/**
+ * List the fields that differ between the before and after values of an entry.
+ * Creates list every field as new; deletes list every field as removed.
+ */
+export function getAuditFieldChanges(entry: AuditLogEntry): AuditFieldChange[] {
+  const before = entry.before_data || {};
+  const after = entry.after_data || {};
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+  return Array.from(fields)
+    .filter((field) => !IGNORED_FIELDS.has(field))
+    .filter(
+      (field) => JSON.stringify(before[field]) !== JSON.stringify(after[field])
+    )
+    .map((field) => ({
+      field,
+      before: before[field] ?? null,
+      after: after[field] ?? null,
+    }));
+}
+
+/**
+ * Format a stored value for display in the audit log.
+ */
+export function formatAuditValue(value: unknown): string {
+  if (value === null || value === undefined) return "-";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
@@ -0,0 +1,1058 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { validateBracketFormat } from "./bracket";
+import {
+  BEST_OF_OPTIONS,
+  MATCH_FORMAT_STAGES,
+  validateMatchFormat,
+} from "./match-format";
+import { validateLeagueFormat } from "./league-format";
+import { MATCH_RESULT_LABELS } from "./match-result";
+import {
+  DEFAULT_SCHEDULE_SETTINGS,
+  validateScheduleSettings,
+} from "./schedule";
+import type {
+  BackupAvailability,
+  BackupDoublesMatch,
+  BackupMatch,
+  BackupPlayer,
+  BackupRecommendation,
+  BackupSectionDiff,
+  BackupSwissBye,
+  BackupTeam,
+  BackupUserLink,
+  BracketFormat,
+  DoublesMatch,
+  DoublesPhase,
+  LeagueFormat,
+  Match,
+  MatchFormat,
+  MatchFormats,
+  MatchPhase,
+  MatchStatus,
+  Player,
+  PlayerAvailability,
+  ScheduleSettings,
+  Season,
+  SwissBye,
+  Team,
+  TournamentBackup,
+  TournamentBackupDiff,
+  TournamentSettings,
+  WeeklyRecommendation,
+} from "./types";
+
+export const BACKUP_FORMAT = "pd-table-tennis-backup";
+
+// Bump when the file layout changes; older versions must stay importable
+// (2: set scores as a list plus best_of, per-stage match formats;
+// 3: players' starting tier; 4: doubles teams and matches, availability;
+// 5: Swiss byes)
+export const BACKUP_VERSION = 5;
+
+const MATCH_STATUSES: MatchStatus[] = [
+  "scheduled",
+  "completed",
+  "pending_confirmation",
+  "disputed",
+];
+
+const DOUBLES_PHASES: DoublesPhase[] = ["league", "semifinal", "final"];
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Stop listing validation errors after this many
+const MAX_ERRORS = 20;
+
+// Rows asked for per request when exporting
+const EXPORT_PAGE_SIZE = 1000;
+
+/**
+ * Export everything in a season: settings, players (with tiers and
+ * disqualification notes), user links, all matches and weekly recommendations,
+ * doubles teams and matches, player availability and Swiss byes. Throws if a
+ * table can't be read in full, since importing a partial file would delete
+ * the missing rows.
+ */
+export async function exportTournament(
+  supabase: SupabaseClient,
+  season: Season,
+): Promise<TournamentBackup> {
+  const [
+    { data: settings, error: settingsError },
+    players,
+    matches,
+    recommendations,
+    teams,
+    doublesMatches,
+    availability,
+    swissByes,
+    users,
+  ] = await Promise.all([
+    supabase
+      .from("tournament_settings")
+      .select("*")
+      .eq("season_id", season.id)
+      .single(),
+    selectAll<Player>("players", (from, to) =>
+      supabase
+        .from("players")
+        .select("*", { count: "exact" })
+        .eq("season_id", season.id)
+        .order("name")
+        .order("id")
+        .range(from, to),
+    ),
+    selectAll<Match>("matches", (from, to) =>
+      supabase
+        .from("matches")
+        .select("*", { count: "exact" })
+        .eq("season_id", season.id)
+        .order("created_at")
+        .order("id")
+        .range(from, to),
+    ),
+    selectAll<WeeklyRecommendation>("weekly recommendations", (from, to) =>
+      supabase
+        .from("weekly_recommendations")
+        .select("*", { count: "exact" })
+        .eq("season_id", season.id)
+        .order("week_date")
+        .order("id")
+        .range(from, to),
+    ),
+    selectAll<Team>("teams", (from, to) =>
+      supabase
+        .from("teams")
+        .select("*", { count: "exact" })
+        .eq("season_id", season.id)
+        .order("name")
+        .order("id")
+        .range(from, to),
+    ),
+    selectAll<DoublesMatch>("doubles matches", (from, to) =>
+      supabase
+        .from("doubles_matches")
+        .select("*", { count: "exact" })
+        .eq("season_id", season.id)
+        .order("created_at")
+        .order("id")
+        .range(from, to),
+    ),
+    selectAll<PlayerAvailability>("player availability", (from, to) =>
+      supabase
+        .from("player_availability")
+        .select("*", { count: "exact" })
+        .eq("season_id", season.id)
+        .order("starts_at")
+        .order("id")
+        .range(from, to),
+    ),
+    selectAll<SwissBye>("Swiss byes", (from, to) =>
+      supabase
+        .from("swiss_byes")
+        .select("*", { count: "exact" })
+        .eq("season_id", season.id)
+        .order("round")
+        .range(from, to),
+    ),
+    selectUsers(supabase),
+  ]);
+
+  if (settingsError && settingsError.code !== "PGRST116") {
+    throw new Error(`Could not read the settings: ${settingsError.message}`);
+  }
+
+  const seasonPlayers = players;
+  const playerIds = new Set(seasonPlayers.map((p) => p.id));
+  const emailById = new Map(users.map((u) => [u.id, u.email]));
+  const emailOf = (userId: string | null) =>
+    (userId && emailById.get(userId)) || null;
+  const currentSettings = settings as TournamentSettings | null;
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exported_at: new Date().toISOString(),
+    season_name: season.name,
+    settings: {
+      name: currentSettings?.name ?? "PD Table Tennis",
+      league_deadline: currentSettings?.league_deadline ?? null,
+      is_active: currentSettings?.is_active ?? true,
+      bracket_format: currentSettings?.bracket_format ?? null,
+      match_formats: currentSettings?.match_formats ?? null,
+      league_format: currentSettings?.league_format ?? null,
+      schedule_settings: currentSettings?.schedule_settings ?? null,
+    },
+    players: seasonPlayers.map(toBackupPlayer),
+    user_links: users
+      .filter((u) => u.player_id && playerIds.has(u.player_id))
+      .map((u) => ({ email: u.email, player_id: u.player_id! }))
+      .sort((a, b) => a.email.localeCompare(b.email)),
+    matches: matches.map((match) =>
+      toBackupMatch({
+        ...match,
+        recorded_by_email: emailOf(match.recorded_by),
+      }),
+    ),
+    recommendations: recommendations.map((recommendation) =>
+      toBackupRecommendation({
+        ...recommendation,
+        created_by_email: emailOf(recommendation.created_by),
+      }),
+    ),
+    teams: teams.map(toBackupTeam),
+    doubles_matches: doublesMatches.map((match) =>
+      toBackupDoublesMatch({
+        ...match,
+        recorded_by_email: emailOf(match.recorded_by),
+      }),
+    ),
+    availability: availability.map(toBackupAvailability),
+    swiss_byes: swissByes.map(toBackupSwissBye),
+  };
+}
+
+/**
+ * Parse and validate an uploaded backup file.
+ * Returns the normalized backup, or the problems that prevent importing it.
+ */
+export function parseTournamentBackup(
+  text: string,
+):
+  | { backup: TournamentBackup; errors: [] }
+  | { backup: null; errors: string[] } {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { backup: null, errors: ["The file is not valid JSON"] };
+  }
+
+  if (!isRecord(raw) || raw.format !== BACKUP_FORMAT) {
+    return {
+      backup: null,
+      errors: ["The file is not a PD Table Tennis tournament export"],
+    };
+  }
+
+  if (typeof raw.version !== "number" || raw.version > BACKUP_VERSION) {
+    return {
+      backup: null,
+      errors: [
+        `Unsupported export version ${String(raw.version)} (this app reads up to version ${BACKUP_VERSION})`,
+      ],
+    };
+  }
+
+  const errors: string[] = [];
+  const settings = isRecord(raw.settings) ? raw.settings : {};
+  const players = asRecords(raw.players, "players", errors);
+  const matches = asRecords(raw.matches, "matches", errors).map((match) =>
+    raw.version === 1 ? upgradeVersion1Match(match) : match,
+  );
+  const recommendations = asRecords(
+    raw.recommendations,
+    "recommendations",
+    errors,
+  );
+  const userLinks = asRecords(raw.user_links, "user_links", errors);
+  // Files from before version 4 have no doubles or availability
+  const hasDoubles = raw.version >= 4;
+  const teams = hasDoubles ? asRecords(raw.teams, "teams", errors) : [];
+  const doublesMatches = hasDoubles
+    ? asRecords(raw.doubles_matches, "doubles_matches", errors)
+    : [];
+  const availability = hasDoubles
+    ? asRecords(raw.availability, "availability", errors)
+    : [];
+  // Files from before version 5 have no Swiss byes
+  const hasSwissByes = raw.version >= 5;
+  const swissByes = hasSwissByes
+    ? asRecords(raw.swiss_byes, "swiss_byes", errors)
+    : [];
+
+  if (typeof settings.name !== "string" || !settings.name.trim()) {
+    errors.push("Settings: tournament name is required");
+  }
+
+  const bracketFormat = (settings.bracket_format as BracketFormat) ?? null;
+  if (bracketFormat !== null) {
+    const formatError =
+      isRecord(bracketFormat) &&
+      Array.isArray(bracketFormat.seeding_pattern) &&
+      Array.isArray(bracketFormat.bye_pattern)
+        ? // Backups from before double elimination have no style
+          validateBracketFormat({
+            ...bracketFormat,
+            elimination: bracketFormat.elimination ?? "single",
+            bracket_reset: bracketFormat.bracket_reset ?? false,
+            third_place_match: bracketFormat.third_place_match ?? false,
+          })
+        : "is malformed";
+    if (formatError) {
+      errors.push(`Settings: bracket format: ${formatError}`);
+    }
+  }
+
+  const matchFormats = isRecord(settings.match_formats)
+    ? (settings.match_formats as Partial<MatchFormats>)
+    : null;
+  for (const { stage, label } of MATCH_FORMAT_STAGES) {
+    const format = matchFormats?.[stage];
+    if (format === undefined) continue;
+
+    const formatError = isRecord(format)
+      ? validateMatchFormat(format as MatchFormat)
+      : "is malformed";
+    if (formatError) {
+      errors.push(
+        `Settings: ${label.toLowerCase()} match format: ${formatError}`,
+      );
+    }
+  }
+
+  // Files from before Swiss leagues have no league format (a round robin)
+  const leagueFormat = (settings.league_format as LeagueFormat) ?? null;
+  if (leagueFormat !== null) {
+    const formatError = isRecord(leagueFormat)
+      ? validateLeagueFormat(leagueFormat)
+      : "is malformed";
+    if (formatError) {
+      errors.push(`Settings: league format: ${formatError}`);
+    }
+  }
+
+  // Files from before scheduling have no schedule settings (the defaults)
+  const scheduleSettings =
+    (settings.schedule_settings as ScheduleSettings) ?? null;
+  if (scheduleSettings !== null) {
+    const settingsError =
+      isRecord(scheduleSettings) &&
+      Array.isArray(scheduleSettings.tables) &&
+      isRecord(scheduleSettings.round_deadlines)
+        ? // Files from before the time zone setting use the default
+          validateScheduleSettings({
+            ...scheduleSettings,
+            time_zone:
+              scheduleSettings.time_zone ?? DEFAULT_SCHEDULE_SETTINGS.time_zone,
+          })
+        : "is malformed";
+    if (settingsError) {
+      errors.push(`Settings: schedule: ${settingsError}`);
+    }
+  }
+
+  const playerIds = new Set<string>();
+  const slackHandles = new Set<string>();
+  players.forEach((player, index) => {
+    const label = `Player ${index + 1}`;
+    if (!isUuid(player.id) || !isUuid(player.person_id)) {
+      errors.push(`${label}: id and person_id must be UUIDs`);
+    } else if (playerIds.has(player.id as string)) {
+      errors.push(`${label}: duplicate id ${player.id}`);
+    } else {
+      playerIds.add(player.id as string);
+    }
+
+    if (typeof player.name !== "string" || !player.name.trim()) {
+      errors.push(`${label}: name is required`);
+    }
+
+    if (![1, 2, 3, 4].includes(player.tier as number)) {
+      errors.push(`${label}: tier must be 1-4`);
+    }
+
+    // Files from before version 3 start everyone from their current tier
+    if (
+      player.starting_tier !== undefined &&
+      ![1, 2, 3, 4].includes(player.starting_tier as number)
+    ) {
+      errors.push(`${label}: starting tier must be 1-4`);
+    }
+
+    if (typeof player.slack_handle === "string") {
+      if (slackHandles.has(player.slack_handle)) {
+        errors.push(`${label}: duplicate Slack handle @${player.slack_handle}`);
+      }
+      slackHandles.add(player.slack_handle);
+    }
+  });
+
+  const matchIds = new Set<string>();
+  matches.forEach((match, index) => {
+    const label = `Match ${index + 1}`;
+    if (!isUuid(match.id) || matchIds.has(match.id as string)) {
+      errors.push(`${label}: id must be a unique UUID`);
+    } else {
+      matchIds.add(match.id as string);
+    }
+
+    if (
+      !playerIds.has(match.player1_id as string) ||
+      !playerIds.has(match.player2_id as string)
+    ) {
+      errors.push(`${label}: both players must be in the file`);
+    } else if (match.player1_id === match.player2_id) {
+      errors.push(`${label}: a player cannot play themselves`);
+    }
+
+    if (
+      typeof match.phase !== "string" ||
+      !/^(league|semifinal|final|third_place|grand_final|grand_final_reset|(knockout|winners|losers)_r[0-9]+)$/.test(
+        match.phase,
+      )
+    ) {
+      errors.push(`${label}: unknown phase ${String(match.phase)}`);
+    }
+
+    if (
+      match.result_type != null &&
+      !(String(match.result_type) in MATCH_RESULT_LABELS)
+    ) {
+      errors.push(`${label}: unknown result type ${String(match.result_type)}`);
+    }
+
+    if (!MATCH_STATUSES.includes(match.status as MatchStatus)) {
+      errors.push(`${label}: unknown status ${String(match.status)}`);
+    }
+
+    if (
+      match.winner_id != null &&
+      match.winner_id !== match.player1_id &&
+      match.winner_id !== match.player2_id
+    ) {
+      errors.push(`${label}: winner must be one of the players`);
+    }
+
+    if (match.set_scores != null && !isSetScoreList(match.set_scores)) {
+      errors.push(`${label}: set_scores must be a list of [p1, p2] scores`);
+    }
+
+    if (
+      match.best_of != null &&
+      !BEST_OF_OPTIONS.includes(match.best_of as MatchFormat["best_of"])
+    ) {
+      errors.push(`${label}: best_of must be 3, 5 or 7`);
+    }
+
+    if (
+      match.swiss_round != null &&
+      !(Number.isInteger(match.swiss_round) && Number(match.swiss_round) > 0)
+    ) {
+      errors.push(`${label}: swiss_round must be a positive whole number`);
+    }
+
+    if (match.group_name != null && typeof match.group_name !== "string") {
+      errors.push(`${label}: group_name must be text`);
+    }
+
+    if (
+      match.scheduled_at != null &&
+      (typeof match.scheduled_at !== "string" ||
+        Number.isNaN(Date.parse(match.scheduled_at)))
+    ) {
+      errors.push(`${label}: scheduled_at must be a date and time`);
+    }
+
+    if (match.table_label != null && typeof match.table_label !== "string") {
+      errors.push(`${label}: table_label must be text`);
+    }
+  });
+
+  recommendations.forEach((recommendation, index) => {
+    const label = `Recommendation ${index + 1}`;
+    if (!isUuid(recommendation.id)) {
+      errors.push(`${label}: id must be a UUID`);
+    }
+
+    if (
+      typeof recommendation.week_date !== "string" ||
+      !/^\d{4}-\d{2}-\d{2}$/.test(recommendation.week_date)
+    ) {
+      errors.push(`${label}: week_date must be YYYY-MM-DD`);
+    }
+
+    if (
+      !playerIds.has(recommendation.player1_id as string) ||
+      !playerIds.has(recommendation.player2_id as string)
+    ) {
+      errors.push(`${label}: both players must be in the file`);
+    }
+  });
+
+  const teamIds = new Set<string>();
+  teams.forEach((team, index) => {
+    const label = `Team ${index + 1}`;
+    if (!isUuid(team.id) || teamIds.has(team.id as string)) {
+      errors.push(`${label}: id must be a unique UUID`);
+    } else {
+      teamIds.add(team.id as string);
+    }
+
+    if (typeof team.name !== "string" || !team.name.trim()) {
+      errors.push(`${label}: name is required`);
+    }
+
+    if (
+      !playerIds.has(team.player1_id as string) ||
+      !playerIds.has(team.player2_id as string)
+    ) {
+      errors.push(`${label}: both players must be in the file`);
+    } else if (team.player1_id === team.player2_id) {
+      errors.push(`${label}: a team needs two different players`);
+    }
+  });
+
+  const doublesMatchIds = new Set<string>();
+  doublesMatches.forEach((match, index) => {
+    const label = `Doubles match ${index + 1}`;
+    if (!isUuid(match.id) || doublesMatchIds.has(match.id as string)) {
+      errors.push(`${label}: id must be a unique UUID`);
+    } else {
+      doublesMatchIds.add(match.id as string);
+    }
+
+    if (
+      !teamIds.has(match.team1_id as string) ||
+      !teamIds.has(match.team2_id as string)
+    ) {
+      errors.push(`${label}: both teams must be in the file`);
+    } else if (match.team1_id === match.team2_id) {
+      errors.push(`${label}: a team cannot play itself`);
+    }
+
+    if (!DOUBLES_PHASES.includes(match.phase as DoublesPhase)) {
+      errors.push(`${label}: unknown phase ${String(match.phase)}`);
+    }
+
+    if (match.status !== "scheduled" && match.status !== "completed") {
+      errors.push(`${label}: unknown status ${String(match.status)}`);
+    }
+
+    if (
+      match.winner_team_id != null &&
+      match.winner_team_id !== match.team1_id &&
+      match.winner_team_id !== match.team2_id
+    ) {
+      errors.push(`${label}: winner must be one of the teams`);
+    }
+
+    if (match.set_scores != null && !isSetScoreList(match.set_scores)) {
+      errors.push(`${label}: set_scores must be a list of [t1, t2] scores`);
+    }
+
+    if (
+      match.best_of != null &&
+      !BEST_OF_OPTIONS.includes(match.best_of as MatchFormat["best_of"])
+    ) {
+      errors.push(`${label}: best_of must be 3, 5 or 7`);
+    }
+  });
+
+  availability.forEach((window, index) => {
+    const label = `Availability ${index + 1}`;
+    if (!isUuid(window.id)) {
+      errors.push(`${label}: id must be a UUID`);
+    }
+
+    if (!playerIds.has(window.player_id as string)) {
+      errors.push(`${label}: the player must be in the file`);
+    }
+
+    const startsAt =
+      typeof window.starts_at === "string" ? Date.parse(window.starts_at) : NaN;
+    const endsAt =
+      typeof window.ends_at === "string" ? Date.parse(window.ends_at) : NaN;
+    if (Number.isNaN(startsAt) || Number.isNaN(endsAt)) {
+      errors.push(`${label}: starts_at and ends_at must be dates and times`);
+    } else if (endsAt <= startsAt) {
+      errors.push(`${label}: must end after it starts`);
+    }
+  });
+
+  const byeRounds = new Set<number>();
+  swissByes.forEach((bye, index) => {
+    const label = `Swiss bye ${index + 1}`;
+    if (!isUuid(bye.id)) {
+      errors.push(`${label}: id must be a UUID`);
+    }
+
+    if (!(Number.isInteger(bye.round) && Number(bye.round) > 0)) {
+      errors.push(`${label}: round must be a positive whole number`);
+    } else if (byeRounds.has(bye.round as number)) {
+      errors.push(`${label}: round ${bye.round} already has a bye`);
+    } else {
+      byeRounds.add(bye.round as number);
+    }
+
+    if (!playerIds.has(bye.player_id as string)) {
+      errors.push(`${label}: the player must be in the file`);
+    }
+  });
+
+  userLinks.forEach((link, index) => {
+    if (
+      typeof link.email !== "string" ||
+      !playerIds.has(link.player_id as string)
+    ) {
+      errors.push(
+        `User link ${index + 1}: needs an email and a player in the file`,
+      );
+    }
+  });
+
+  if (errors.length > 0) {
+    return {
+      backup: null,
+      errors:
+        errors.length > MAX_ERRORS
+          ? [
+              ...errors.slice(0, MAX_ERRORS),
+              `...and ${errors.length - MAX_ERRORS} more`,
+            ]
+          : errors,
+    };
+  }
+
+  return {
+    backup: {
+      format: BACKUP_FORMAT,
+      version: raw.version,
+      exported_at: String(raw.exported_at ?? ""),
+      season_name: String(raw.season_name ?? ""),
+      settings: {
+        name: (settings.name as string).trim(),
+        league_deadline: (settings.league_deadline as string | null) ?? null,
+        is_active: settings.is_active !== false,
+        bracket_format: bracketFormat,
+        match_formats: matchFormats,
+        league_format: leagueFormat,
+        schedule_settings: scheduleSettings,
+      },
+      players: players.map((p) => toBackupPlayer(p as unknown as BackupPlayer)),
+      user_links: userLinks.map((l) => ({
+        email: l.email as string,
+        player_id: l.player_id as string,
+      })),
+      matches: matches.map((m) => toBackupMatch(m as unknown as BackupMatch)),
+      recommendations: recommendations.map((r) =>
+        toBackupRecommendation(r as unknown as BackupRecommendation),
+      ),
+      teams: hasDoubles
+        ? teams.map((t) => toBackupTeam(t as unknown as BackupTeam))
+        : null,
+      doubles_matches: hasDoubles
+        ? doublesMatches.map((m) =>
+            toBackupDoublesMatch(m as unknown as BackupDoublesMatch),
+          )
+        : null,
+      availability: hasDoubles
+        ? availability.map((a) =>
+            toBackupAvailability(a as unknown as BackupAvailability),
+          )
+        : null,
+      swiss_byes: hasSwissByes
+        ? swissByes.map((b) => toBackupSwissBye(b as unknown as BackupSwissBye))
+        : null,
+    },
+    errors: [],
+  };
+}
+
+/**
+ * Compare the current season with a backup. Rows are matched by id, so
+ * importing the file that was just exported shows no changes.
+ * userEmails are the accounts in this project; links to others are skipped.
+ */
+export function diffTournamentBackup(
+  current: TournamentBackup,
+  incoming: TournamentBackup,
+  userEmails: string[],
+): TournamentBackupDiff {
+  const playerNames = new Map(
+    [...current.players, ...incoming.players].map((p) => [p.id, p.name]),
+  );
+  const nameOf = (id: string) => playerNames.get(id) || "Unknown player";
+  const matchLabel = (m: BackupMatch) =>
+    `${nameOf(m.player1_id)} vs ${nameOf(m.player2_id)} (${m.phase})`;
+  const teamNames = new Map(
+    [...(current.teams || []), ...(incoming.teams || [])].map((t) => [
+      t.id,
+      t.name,
+    ]),
+  );
+  const teamNameOf = (id: string) => teamNames.get(id) || "Unknown team";
+
+  const knownEmails = new Set(userEmails);
+  const warnings: string[] = [];
+
+  const missingLinks = incoming.user_links.filter(
+    (l) => !knownEmails.has(l.email),
+  );
+  if (missingLinks.length > 0) {
+    warnings.push(
+      `${missingLinks.length} player link(s) refer to users who have not signed in here yet and will be skipped: ${missingLinks.map((l) => l.email).join(", ")}`,
+    );
+  }
+
+  const missingRecorders = new Set(
+    [
+      ...incoming.matches.map((m) => m.recorded_by_email),
+      ...incoming.recommendations.map((r) => r.created_by_email),
+      ...(incoming.doubles_matches || []).map((m) => m.recorded_by_email),
+    ].filter((email): email is string => !!email && !knownEmails.has(email)),
+  );
+  if (missingRecorders.size > 0) {
+    warnings.push(
+      `Results recorded by ${Array.from(missingRecorders).join(", ")} will be imported without a recorder because those users do not exist here`,
+    );
+  }
+
+  const settingsChanges = (
+    Object.keys(incoming.settings) as (keyof TournamentBackup["settings"])[]
+  ).filter(
+    (key) =>
+      JSON.stringify(current.settings[key]) !==
+      JSON.stringify(incoming.settings[key]),
+  );
+
+  // An older file leaves doubles, availability and Swiss byes as they are
+  const unchangedIfMissing = <T>(
+    currentRows: T[] | null,
+    incomingRows: T[] | null,
+  ): [T[], T[]] => [currentRows || [], incomingRows ?? currentRows ?? []];
+
+  return {
+    settings: settingsChanges,
+    players: diffById(current.players, incoming.players, (p) => p.name),
+    matches: diffById(current.matches, incoming.matches, matchLabel),
+    recommendations: diffById(
+      current.recommendations,
+      incoming.recommendations,
+      (r) =>
+        `${r.week_date}: ${nameOf(r.player1_id)} vs ${nameOf(r.player2_id)}`,
+    ),
+    teams: diffById(
+      ...unchangedIfMissing(current.teams, incoming.teams),
+      (t) => t.name,
+    ),
+    doublesMatches: diffById(
+      ...unchangedIfMissing(current.doubles_matches, incoming.doubles_matches),
+      (m) =>
+        `${teamNameOf(m.team1_id)} vs ${teamNameOf(m.team2_id)} (${m.phase})`,
+    ),
+    availability: diffById(
+      ...unchangedIfMissing(current.availability, incoming.availability),
+      (a) => `${nameOf(a.player_id)}: ${a.starts_at} – ${a.ends_at}`,
+    ),
+    swissByes: diffById(
+      ...unchangedIfMissing(current.swiss_byes, incoming.swiss_byes),
+      (b) => `Round ${b.round}: ${nameOf(b.player_id)}`,
+    ),
+    userLinks: diffById(
+      current.user_links.map(toLinkRow),
+      incoming.user_links
+        .filter((l) => knownEmails.has(l.email))
+        .map(toLinkRow),
+      (l) => `${l.id} → ${nameOf(l.player_id)}`,
+    ),
+    warnings,
+  };
+}
+
+/**
+ * Replace the active season's data with a backup in one transaction.
+ * Returns an error message, or null on success.
+ */
+export async function importTournament(
+  supabase: SupabaseClient,
+  backup: TournamentBackup,
+): Promise<string | null> {
+  let users: Awaited<ReturnType<typeof selectUsers>>;
+  try {
+    users = await selectUsers(supabase);
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+  const userIdByEmail = new Map(users.map((u) => [u.email, u.id]));
+  const userIdOf = (email: string | null) =>
+    (email && userIdByEmail.get(email)) || null;
+
+  const { error } = await supabase.rpc("import_tournament", {
+    imported_settings: backup.settings,
+    imported_players: backup.players,
+    imported_matches: backup.matches.map(({ recorded_by_email, ...match }) => ({
+      ...match,
+      recorded_by: userIdOf(recorded_by_email),
+    })),
+    imported_recommendations: backup.recommendations.map(
+      ({ created_by_email, ...recommendation }) => ({
+        ...recommendation,
+        created_by: userIdOf(created_by_email),
+      }),
+    ),
+    imported_user_links: backup.user_links
+      .filter((l) => userIdByEmail.has(l.email))
+      .map((l) => ({
+        user_id: userIdByEmail.get(l.email),
+        player_id: l.player_id,
+      })),
+    imported_teams: backup.teams,
+    imported_doubles_matches:
+      backup.doubles_matches?.map(({ recorded_by_email, ...match }) => ({
+        ...match,
+        recorded_by: userIdOf(recorded_by_email),
+      })) ?? null,
+    imported_availability: backup.availability,
+    imported_swiss_byes: backup.swiss_byes,
+  });
+
+  return error ? error.message : null;
+}
+
+/**
+ * Every user's id, email and linked player, for resolving the email
+ * references in a backup.
+ */
+export function selectUsers(
+  supabase: SupabaseClient,
+): Promise<{ id: string; email: string; player_id: string | null }[]> {
+  return selectAll("users", (from, to) =>
+    supabase
+      .from("users")
+      .select("id, email, player_id", { count: "exact" })
+      .order("id")
+      .range(from, to),
+  );
+}
+
+/**
+ * Read every row of a query a page at a time. PostgREST caps each response
+ * (at 1000 rows by default), so pages are read until the count is reached;
+ * a page that comes back short of it starts the next page where it ended.
+ */
+async function selectAll<T>(
+  table: string,
+  page: (
+    from: number,
+    to: number,
+  ) => PromiseLike<{
+    data: T[] | null;
+    count: number | null;
+    error: { message: string } | null;
+  }>,
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (;;) {
+    const { data, count, error } = await page(
+      rows.length,
+      rows.length + EXPORT_PAGE_SIZE - 1,
+    );
+    if (error) {
+      throw new Error(`Could not read ${table}: ${error.message}`);
+    }
+    rows.push(...(data || []));
+
+    if (count === null) {
+      throw new Error(`Could not count ${table}`);
+    }
+    if (rows.length >= count) {
+      return rows;
+    }
+    if (!data?.length) {
+      throw new Error(`Could only read ${rows.length} of ${count} ${table}`);
+    }
+  }
+}
+
+/**
+ * Version 1 files stored best-of-3 set scores in fixed columns
+ * (set1_p1 ... set3_p2); convert them to the set_scores list.
+ */
+function upgradeVersion1Match(
+  match: Record<string, unknown>,
+): Record<string, unknown> {
+  const { set1_p1, set1_p2, set2_p1, set2_p2, set3_p1, set3_p2, ...rest } =
+    match;
+  const setScores = [
+    [set1_p1, set1_p2],
+    [set2_p1, set2_p2],
+    [set3_p1, set3_p2],
+  ].filter(([p1, p2]) => p1 != null && p2 != null);
+
+  return { ...rest, set_scores: setScores, best_of: 3 };
+}
+
+// The normalizers fix the key order so rows can be compared as JSON
+function toBackupPlayer(player: BackupPlayer): BackupPlayer {
+  return {
+    id: player.id,
+    person_id: player.person_id,
+    name: player.name.trim(),
+    department: player.department ?? null,
+    slack_handle: player.slack_handle ?? null,
+    tier: player.tier,
+    starting_tier: player.starting_tier ?? player.tier,
+    disqualified_from_qualification: !!player.disqualified_from_qualification,
+    disqualification_note: player.disqualification_note ?? null,
+    created_at: player.created_at,
+  };
+}
+
+function toBackupMatch(match: BackupMatch): BackupMatch {
+  return {
+    id: match.id,
+    player1_id: match.player1_id,
+    player2_id: match.player2_id,
+    phase: match.phase as MatchPhase,
+    status: match.status,
+    winner_id: match.winner_id ?? null,
+    set_scores: match.set_scores ?? [],
+    best_of: match.best_of ?? 3,
+    knockout_position: match.knockout_position ?? null,
+    swiss_round: match.swiss_round ?? null,
+    group_name: match.group_name ?? null,
+    scheduled_at: match.scheduled_at ?? null,
+    table_label: match.table_label ?? null,
+    recorded_by_email: match.recorded_by_email ?? null,
+    recorded_at: match.recorded_at ?? null,
+    reported_by_player_id: match.reported_by_player_id ?? null,
+    reported_at: match.reported_at ?? null,
+    confirmed_at: match.confirmed_at ?? null,
+    dispute_reason: match.dispute_reason ?? null,
+    result_type: match.result_type ?? "normal",
+    result_reason: match.result_reason ?? null,
+    created_at: match.created_at,
+  };
+}
+
+function toBackupRecommendation(
+  recommendation: BackupRecommendation,
+): BackupRecommendation {
+  return {
+    id: recommendation.id,
+    week_date: recommendation.week_date,
+    player1_id: recommendation.player1_id,
+    player2_id: recommendation.player2_id,
+    is_extra_match: !!recommendation.is_extra_match,
+    created_by_email: recommendation.created_by_email ?? null,
+    created_at: recommendation.created_at,
+  };
+}
+
+function toBackupTeam(team: BackupTeam): BackupTeam {
+  return {
+    id: team.id,
+    name: team.name.trim(),
+    player1_id: team.player1_id,
+    player2_id: team.player2_id,
+    created_at: team.created_at,
+  };
+}
+
+function toBackupDoublesMatch(match: BackupDoublesMatch): BackupDoublesMatch {
+  return {
+    id: match.id,
+    team1_id: match.team1_id,
+    team2_id: match.team2_id,
+    phase: match.phase,
+    status: match.status,
+    winner_team_id: match.winner_team_id ?? null,
+    set_scores: match.set_scores ?? [],
+    best_of: match.best_of ?? 3,
+    knockout_position: match.knockout_position ?? null,
+    recorded_by_email: match.recorded_by_email ?? null,
+    recorded_at: match.recorded_at ?? null,
+    created_at: match.created_at,
+  };
+}
+
+function toBackupAvailability(window: BackupAvailability): BackupAvailability {
+  return {
+    id: window.id,
+    player_id: window.player_id,
+    starts_at: window.starts_at,
+    ends_at: window.ends_at,
+    created_at: window.created_at,
+  };
+}
+
+function toBackupSwissBye(bye: BackupSwissBye): BackupSwissBye {
+  return {
+    id: bye.id,
+    round: bye.round,
+    player_id: bye.player_id,
+    created_at: bye.created_at,
+  };
+}
+
+function toLinkRow(link: BackupUserLink) {
+  return { id: link.email, player_id: link.player_id };
+}
+
+function diffById<T extends { id: string }>(
+  current: T[],
+  incoming: T[],
+  label: (row: T) => string,
+): BackupSectionDiff {
+  const currentById = new Map(current.map((row) => [row.id, row]));
+  const incomingIds = new Set(incoming.map((row) => row.id));
+  const diff: BackupSectionDiff = { added: [], updated: [], removed: [] };
+
+  for (const row of incoming) {
+    const existing = currentById.get(row.id);
+    if (!existing) {
+      diff.added.push(label(row));
+    } else if (JSON.stringify(existing) !== JSON.stringify(row)) {
+      diff.updated.push(label(row));
+    }
+  }
+
+  for (const row of current) {
+    if (!incomingIds.has(row.id)) {
+      diff.removed.push(label(row));
+    }
+  }
+
+  return diff;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function isSetScoreList(value: unknown): boolean {
+  return (
+    Array.isArray(value) &&
+    value.every(
+      (set) =>
+        Array.isArray(set) &&
+        set.length === 2 &&
+        set.every((score) => Number.isInteger(score)),
+    )
+  );
+}
+
+function isUuid(value: unknown): value is string {
+  return typeof value === "string" && UUID_PATTERN.test(value);
+}
+
+function asRecords(
+  value: unknown,
+  section: string,
+  errors: string[],
+): Record<string, unknown>[] {
+  if (!Array.isArray(value)) {
+    errors.push(`The file has no ${section} list`);
+    return [];
+  }
+
+  if (!value.every(isRecord)) {
+    errors.push(`Every entry in ${section} must be an object`);
+    return [];
+  }
+
+  return value;
+}
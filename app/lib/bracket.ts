@@ -0,0 +1,508 @@
+import type {
+  BracketFormat,
+  BracketSlotSource,
+  EliminationStyle,
+  KnockoutPlacement,
+  KnockoutRound,
+  Match,
+  MatchPhase,
+} from "./types";
+
+export type BracketFormatPreset = {
+  id: string;
+  label: string;
+  format: BracketFormat;
+};
+
+export const ELIMINATION_STYLE_LABELS: Record<EliminationStyle, string> = {
+  single: "Single elimination",
+  double: "Double elimination",
+};
+
+export const BRACKET_FORMAT_PRESETS: BracketFormatPreset[] = [
+  {
+    id: "top8",
+    label: "Top 8 (no byes)",
+    format: {
+      qualifier_count: 8,
+      bye_count: 0,
+      seeding_pattern: [1, 8, 4, 5, 2, 7, 3, 6],
+      bye_pattern: [],
+      elimination: "single",
+      bracket_reset: false,
+      third_place_match: false,
+    },
+  },
+  {
+    id: "top10",
+    label: "Top 10 (1st-2nd bye to semifinals)",
+    format: {
+      qualifier_count: 10,
+      bye_count: 2,
+      seeding_pattern: [4, 9, 5, 8, 3, 10, 6, 7],
+      bye_pattern: [1, 2],
+      elimination: "single",
+      bracket_reset: false,
+      third_place_match: false,
+    },
+  },
+  {
+    id: "top12",
+    label: "Top 12 (1st-4th bye to round 2)",
+    format: {
+      qualifier_count: 12,
+      bye_count: 4,
+      seeding_pattern: [8, 9, 5, 12, 6, 11, 7, 10],
+      bye_pattern: [1, 4, 3, 2],
+      elimination: "single",
+      bracket_reset: false,
+      third_place_match: false,
+    },
+  },
+  {
+    id: "top16",
+    label: "Top 16 (no byes)",
+    format: {
+      qualifier_count: 16,
+      bye_count: 0,
+      seeding_pattern: [1, 16, 8, 9, 4, 13, 5, 12, 2, 15, 7, 10, 3, 14, 6, 11],
+      bye_pattern: [],
+      elimination: "single",
+      bracket_reset: false,
+      third_place_match: false,
+    },
+  },
+];
+
+export const DEFAULT_BRACKET_FORMAT: BracketFormat =
+  BRACKET_FORMAT_PRESETS[1].format;
+
+/**
+ * Validate a bracket format. Returns an error message, or null if valid.
+ */
+export function validateBracketFormat(format: BracketFormat): string | null {
+  const { qualifier_count, bye_count, seeding_pattern, bye_pattern } = format;
+
+  if (!Number.isInteger(qualifier_count) || qualifier_count < 2) {
+    return "At least 2 players must qualify for the knockout";
+  }
+
+  if (
+    !Number.isInteger(bye_count) ||
+    bye_count < 0 ||
+    bye_count >= qualifier_count
+  ) {
+    return "Number of byes must be between 0 and the qualifier count";
+  }
+
+  if (seeding_pattern.length !== qualifier_count - bye_count) {
+    return `Round 1 seeding must list ${qualifier_count - bye_count} seeds`;
+  }
+
+  if (bye_pattern.length !== bye_count) {
+    return `Bye seeding must list ${bye_count} seeds`;
+  }
+
+  const seeds = [...seeding_pattern, ...bye_pattern].sort((a, b) => a - b);
+  if (seeds.some((seed, index) => seed !== index + 1)) {
+    return `Seeding must use every seed from 1 to ${qualifier_count} exactly once`;
+  }
+
+  if (!(format.elimination in ELIMINATION_STYLE_LABELS)) {
+    return "Unknown elimination style";
+  }
+
+  if (format.elimination === "double") {
+    const isPowerOfTwo = (qualifier_count & (qualifier_count - 1)) === 0;
+    if (qualifier_count < 4 || !isPowerOfTwo || bye_count > 0) {
+      return "Double elimination needs 4, 8, 16 or 32 qualifiers and no byes";
+    }
+  }
+
+  if (!getRoundSizes(format)) {
+    return "Byes must enter when the remaining winners match their number, and each round must halve the field";
+  }
+
+  if (
+    format.third_place_match &&
+    (format.elimination !== "single" ||
+      !getKnockoutRounds(format).some((round) => round.phase === "semifinal"))
+  ) {
+    return "A third-place match needs single elimination with semifinals";
+  }
+
+  return null;
+}
+
+/**
+ * Read a stored bracket format, falling back to the default top-10 format
+ * when nothing (or something invalid) is stored.
+ */
+export function parseBracketFormat(value: unknown): BracketFormat {
+  if (!value || typeof value !== "object") return DEFAULT_BRACKET_FORMAT;
+
+  const candidate = value as Partial<BracketFormat>;
+  if (
+    typeof candidate.qualifier_count !== "number" ||
+    typeof candidate.bye_count !== "number" ||
+    !Array.isArray(candidate.seeding_pattern) ||
+    !Array.isArray(candidate.bye_pattern)
+  ) {
+    return DEFAULT_BRACKET_FORMAT;
+  }
+
+  const format: BracketFormat = {
+    qualifier_count: candidate.qualifier_count,
+    bye_count: candidate.bye_count,
+    seeding_pattern: candidate.seeding_pattern.map(Number),
+    bye_pattern: candidate.bye_pattern.map(Number),
+    // Formats saved before double elimination have no style
+    elimination: candidate.elimination === "double" ? "double" : "single",
+    bracket_reset: candidate.bracket_reset === true,
+    third_place_match: candidate.third_place_match === true,
+  };
+
+  return validateBracketFormat(format) ? DEFAULT_BRACKET_FORMAT : format;
+}
+
+/**
+ * Derive the knockout rounds for a format, from round 1 to the final.
+ * Byes join in the round where the remaining winners equal the number of byes.
+ * Double elimination lists the winners bracket, then the losers bracket, then
+ * the grand final (and its reset), so every round comes after its feeders.
+ */
+export function getKnockoutRounds(format: BracketFormat): KnockoutRound[] {
+  if (format.elimination === "double") {
+    return getDoubleEliminationRounds(format);
+  }
+
+  const sizes = getRoundSizes(format) || [];
+
+  return sizes.map((size, index) => ({
+    phase: getRoundPhase(index, sizes.length),
+    side: "main",
+    matchCount: size.matchCount,
+    byesEnter: size.byesEnter,
+  }));
+}
+
+/**
+ * Where the two players of a double-elimination slot come from, or null for
+ * winners round 1, which is seeded. Losers bracket rounds alternate between
+ * its own survivors playing each other and those survivors meeting the
+ * players who just lost in the winners bracket. Players dropping down are
+ * taken in reverse order so they don't meet an opponent they just played.
+ */
+export function getDoubleEliminationSources(
+  format: BracketFormat,
+  phase: MatchPhase,
+  position: number,
+): [BracketSlotSource, BracketSlotSource] | null {
+  const winnersRounds = Math.log2(format.qualifier_count);
+  const winnersRound = phase.match(/^winners_r(\d+)$/);
+  const losersRound = phase.match(/^losers_r(\d+)$/);
+
+  if (winnersRound) {
+    const round = Number(winnersRound[1]);
+    if (round === 1) return null;
+
+    const previous: MatchPhase = `winners_r${round - 1}`;
+    return [
+      slotSource("winner", previous, position * 2 - 1),
+      slotSource("winner", previous, position * 2),
+    ];
+  }
+
+  if (losersRound) {
+    const round = Number(losersRound[1]);
+    if (round === 1) {
+      return [
+        slotSource("loser", "winners_r1", position * 2 - 1),
+        slotSource("loser", "winners_r1", position * 2),
+      ];
+    }
+
+    const previous: MatchPhase = `losers_r${round - 1}`;
+    if (round % 2 === 0) {
+      const dropRound = round / 2 + 1;
+      const dropCount = format.qualifier_count / 2 ** dropRound;
+      return [
+        slotSource("winner", previous, position),
+        slotSource("loser", `winners_r${dropRound}`, dropCount + 1 - position),
+      ];
+    }
+
+    return [
+      slotSource("winner", previous, position * 2 - 1),
+      slotSource("winner", previous, position * 2),
+    ];
+  }
+
+  // The grand final and its reset: winners bracket champion first
+  return [
+    slotSource("winner", `winners_r${winnersRounds}`, 1),
+    slotSource("winner", `losers_r${2 * (winnersRounds - 1)}`, 1),
+  ];
+}
+
+/**
+ * Whether winning this match wins the tournament. A grand final only does
+ * when the winners bracket champion (player 1) wins it or no reset is played.
+ */
+export function decidesTournament(
+  match: Pick<Match, "phase" | "winner_id" | "player1_id">,
+  format: BracketFormat,
+): boolean {
+  if (match.phase === "final" || match.phase === "grand_final_reset") {
+    return true;
+  }
+  if (match.phase !== "grand_final") return false;
+
+  return !format.bracket_reset || match.winner_id === match.player1_id;
+}
+
+/**
+ * Knockout finishing positions decided so far: the deciding match gives 1st
+ * and 2nd, the third-place match (or the last two losers bracket rounds)
+ * gives 3rd and 4th. Without a third-place match both semifinal losers are
+ * placed 3rd.
+ */
+export function getKnockoutPlacements(
+  matches: Pick<
+    Match,
+    "phase" | "status" | "winner_id" | "player1_id" | "player2_id"
+  >[],
+  format: BracketFormat,
+): KnockoutPlacement[] {
+  const completed = matches.filter(
+    (m) => m.status === "completed" && m.winner_id,
+  );
+  const placements: KnockoutPlacement[] = [];
+
+  const placeMatch = (
+    match: (typeof completed)[number] | undefined,
+    winnerPlace: number | null,
+    loserPlace: number,
+  ) => {
+    if (!match?.winner_id) return;
+    if (winnerPlace !== null) {
+      placements.push({ place: winnerPlace, playerId: match.winner_id });
+    }
+    placements.push({
+      place: loserPlace,
+      playerId:
+        match.winner_id === match.player1_id
+          ? match.player2_id
+          : match.player1_id,
+    });
+  };
+
+  if (format.elimination === "double") {
+    const decider = completed.find((m) => decidesTournament(m, format));
+    placeMatch(decider, 1, 2);
+
+    const losersRounds = 2 * (Math.log2(format.qualifier_count) - 1);
+    placeMatch(
+      completed.find((m) => m.phase === `losers_r${losersRounds}`),
+      null,
+      3,
+    );
+    placeMatch(
+      completed.find((m) => m.phase === `losers_r${losersRounds - 1}`),
+      null,
+      4,
+    );
+  } else {
+    placeMatch(
+      completed.find((m) => m.phase === "final"),
+      1,
+      2,
+    );
+
+    if (format.third_place_match) {
+      placeMatch(
+        completed.find((m) => m.phase === "third_place"),
+        3,
+        4,
+      );
+    } else {
+      for (const semifinal of completed.filter(
+        (m) => m.phase === "semifinal",
+      )) {
+        placeMatch(semifinal, null, 3);
+      }
+    }
+  }
+
+  return placements.sort((a, b) => a.place - b.place);
+}
+
+/**
+ * A place as an ordinal, e.g. 1 -> "1st", 12 -> "12th", 23 -> "23rd".
+ */
+export function formatPlace(place: number): string {
+  const lastTwo = place % 100;
+  const suffix =
+    lastTwo >= 11 && lastTwo <= 13
+      ? "th"
+      : (["th", "st", "nd", "rd"][place % 10] ?? "th");
+  return `${place}${suffix}`;
+}
+
+export function getRoundLabel(phase: MatchPhase | string): string {
+  if (phase === "final") return "Final";
+  if (phase === "semifinal") return "Semifinal";
+  if (phase === "third_place") return "Third Place";
+  if (phase === "grand_final") return "Grand Final";
+  if (phase === "grand_final_reset") return "Grand Final Reset";
+
+  const round = phase.match(/^knockout_r(\d+)$/);
+  if (round) return `Round ${round[1]}`;
+
+  const sideRound = phase.match(/^(winners|losers)_r(\d+)$/);
+  if (sideRound) {
+    return `${sideRound[1] === "winners" ? "Winners" : "Losers"} Round ${sideRound[2]}`;
+  }
+
+  return phase;
+}
+
+/**
+ * Presets only cover the seeding, so either elimination style matches.
+ */
+export function findBracketFormatPreset(
+  format: BracketFormat,
+): BracketFormatPreset | undefined {
+  const seeding = (f: BracketFormat) =>
+    JSON.stringify([
+      f.qualifier_count,
+      f.bye_count,
+      f.seeding_pattern,
+      f.bye_pattern,
+    ]);
+
+  return BRACKET_FORMAT_PRESETS.find(
+    (preset) => seeding(preset.format) === seeding(format),
+  );
+}
+
+/**
+ * Format a list of seeds as a compact range, e.g. [3, 4, 5, 6] -> "3-6".
+ */
+export function formatSeedRange(seeds: number[]): string {
+  const sorted = [...seeds].sort((a, b) => a - b);
+  if (sorted.length === 0) return "";
+  if (sorted.length === 1) return `${sorted[0]}`;
+
+  const isContiguous = sorted.every(
+    (seed, index) => index === 0 || seed === sorted[index - 1] + 1,
+  );
+  return isContiguous
+    ? `${sorted[0]}-${sorted[sorted.length - 1]}`
+    : sorted.join(", ");
+}
+
+/**
+ * One-line summary of who qualifies and who gets byes.
+ */
+export function describeBracketFormat(format: BracketFormat): string {
+  if (format.elimination === "double") {
+    const reset = format.bracket_reset
+      ? " The grand final is replayed if the losers bracket champion wins it."
+      : "";
+    return `Top ${format.qualifier_count} qualify for a double-elimination playoff.${reset}`;
+  }
+
+  const qualifiers = `Top ${format.qualifier_count} qualify for playoffs.`;
+  const thirdPlace = format.third_place_match
+    ? " The semifinal losers play for third place."
+    : "";
+  const byeRound = getKnockoutRounds(format).find((round) => round.byesEnter);
+  if (!byeRound) return `${qualifiers}${thirdPlace}`;
+
+  return `${qualifiers} Seeds ${formatSeedRange(format.bye_pattern)} get byes to the ${getRoundLabel(byeRound.phase).toLowerCase()}.${thirdPlace}`;
+}
+
+function getRoundSizes(
+  format: BracketFormat,
+): { matchCount: number; byesEnter: boolean }[] | null {
+  const firstRoundMatches = (format.qualifier_count - format.bye_count) / 2;
+  if (!Number.isInteger(firstRoundMatches) || firstRoundMatches < 1) {
+    return null;
+  }
+
+  const sizes = [{ matchCount: firstRoundMatches, byesEnter: false }];
+  let winners = firstRoundMatches;
+  let byesPending = format.bye_count > 0;
+
+  while (winners > 1 || byesPending) {
+    if (byesPending && winners === format.bye_count) {
+      sizes.push({ matchCount: winners, byesEnter: true });
+      byesPending = false;
+      continue;
+    }
+
+    if (winners % 2 !== 0) return null;
+    winners = winners / 2;
+    sizes.push({ matchCount: winners, byesEnter: false });
+  }
+
+  return sizes;
+}
+
+function getRoundPhase(index: number, totalRounds: number): MatchPhase {
+  const roundsFromEnd = totalRounds - index;
+  if (roundsFromEnd === 1) return "final";
+  if (roundsFromEnd === 2) return "semifinal";
+  return `knockout_r${index + 1}`;
+}
+
+function getDoubleEliminationRounds(format: BracketFormat): KnockoutRound[] {
+  const winnersRounds = Math.log2(format.qualifier_count);
+  const rounds: KnockoutRound[] = [];
+
+  for (let round = 1; round <= winnersRounds; round++) {
+    rounds.push({
+      phase: `winners_r${round}`,
+      side: "winners",
+      matchCount: format.qualifier_count / 2 ** round,
+      byesEnter: false,
+    });
+  }
+
+  // Each pair of losers rounds halves the field: one round among the losers
+  // bracket survivors, then one against the players dropping down
+  for (let round = 1; round <= 2 * (winnersRounds - 1); round++) {
+    rounds.push({
+      phase: `losers_r${round}`,
+      side: "losers",
+      matchCount: format.qualifier_count / 2 ** (Math.ceil(round / 2) + 1),
+      byesEnter: false,
+    });
+  }
+
+  rounds.push({
+    phase: "grand_final",
+    side: "grand_final",
+    matchCount: 1,
+    byesEnter: false,
+  });
+  if (format.bracket_reset) {
+    rounds.push({
+      phase: "grand_final_reset",
+      side: "grand_final",
+      matchCount: 1,
+      byesEnter: false,
+    });
+  }
+
+  return rounds;
+}
+
+function slotSource(
+  outcome: BracketSlotSource["outcome"],
+  phase: MatchPhase,
+  position: number,
+): BracketSlotSource {
+  return { outcome, phase, position };
+}
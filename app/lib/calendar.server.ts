@@ -0,0 +1,216 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { getRoundLabel } from "./bracket";
+import { getMatchDeadline, parseScheduleSettings } from "./schedule";
+import type { MatchWithPlayers, Season } from "./types";
+
+export interface CalendarEvent {
+  uid: string;
+  summary: string;
+  description?: string;
+  location?: string;
+  url?: string;
+  start: string; // ISO timestamp, or YYYY-MM-DD for an all-day event
+  end?: string; // Timed events only
+  updatedAt?: string | null;
+}
+
+/**
+ * Events for a season's calendar feed: booked matches, the league deadline
+ * and the knockout round deadlines. Pass a player to only include their own
+ * matches. UIDs come from the match or season id, so a calendar that
+ * refreshes the feed updates its events instead of adding new ones.
+ */
+export async function loadCalendarEvents(
+  supabase: SupabaseClient,
+  season: Pick<Season, "id" | "name">,
+  origin: string,
+  playerId?: string,
+): Promise<CalendarEvent[]> {
+  const host = new URL(origin).host;
+
+  const { data: settings } = await supabase
+    .from("tournament_settings")
+    .select("league_deadline, schedule_settings, updated_at")
+    .eq("season_id", season.id)
+    .single();
+  const scheduleSettings = parseScheduleSettings(settings?.schedule_settings);
+  const leagueDeadline: string | null = settings?.league_deadline ?? null;
+
+  let query = supabase
+    .from("matches")
+    .select(
+      `
+      *,
+      player1:players!matches_player1_id_fkey(*),
+      player2:players!matches_player2_id_fkey(*)
+    `,
+    )
+    .eq("season_id", season.id)
+    .not("scheduled_at", "is", null)
+    .order("scheduled_at", { ascending: true });
+
+  if (playerId) {
+    query = query.or(`player1_id.eq.${playerId},player2_id.eq.${playerId}`);
+  }
+
+  const { data: matches } = await query;
+
+  const events: CalendarEvent[] = ((matches as MatchWithPlayers[]) || []).map(
+    (match) => {
+      const start = new Date(match.scheduled_at!);
+      const end = new Date(
+        start.getTime() + scheduleSettings.slot_minutes * 60_000,
+      );
+      const phase =
+        match.phase === "league" ? "League" : getRoundLabel(match.phase);
+      const deadline = getMatchDeadline(
+        match.phase,
+        scheduleSettings,
+        leagueDeadline,
+      );
+
+      return {
+        uid: `match-${match.id}@${host}`,
+        summary: `${match.player1.name} vs ${match.player2.name} (${phase})`,
+        description: [
+          `${season.name}: ${phase}`,
+          match.status === "completed" ? "Played" : null,
+          deadline ? `Play by ${deadline}` : null,
+        ]
+          .filter(Boolean)
+          .join("\n"),
+        location: match.table_label || undefined,
+        url: `${origin}/match/${match.id}`,
+        start: start.toISOString(),
+        end: end.toISOString(),
+        updatedAt: match.updated_at,
+      };
+    },
+  );
+
+  if (leagueDeadline) {
+    events.push({
+      uid: `league-deadline-${season.id}@${host}`,
+      summary: "League stage deadline",
+      description: `${season.name}: all league matches must be played by today`,
+      url: `${origin}/standings`,
+      start: leagueDeadline,
+      updatedAt: settings?.updated_at,
+    });
+  }
+
+  for (const [phase, date] of Object.entries(
+    scheduleSettings.round_deadlines,
+  )) {
+    if (!date) continue;
+    events.push({
+      uid: `round-${phase}-${season.id}@${host}`,
+      summary: `${getRoundLabel(phase)} deadline`,
+      description: `${season.name}: ${getRoundLabel(phase)} matches must be played by today`,
+      url: `${origin}/bracket`,
+      start: date,
+      updatedAt: settings?.updated_at,
+    });
+  }
+
+  return events;
+}
+
+/**
+ * An iCalendar (RFC 5545) document for a feed.
+ */
+export function renderCalendar(name: string, events: CalendarEvent[]): string {
+  const now = formatTimestamp(new Date().toISOString());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//PD Table Tennis//Tournament//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+  ];
+
+  for (const event of events) {
+    const isAllDay = !event.start.includes("T");
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.uid}`,
+      `DTSTAMP:${event.updatedAt ? formatTimestamp(event.updatedAt) : now}`,
+    );
+
+    if (isAllDay) {
+      lines.push(
+        `DTSTART;VALUE=DATE:${formatDate(event.start)}`,
+        `DTEND;VALUE=DATE:${formatDate(getNextDay(event.start))}`,
+      );
+    } else {
+      lines.push(`DTSTART:${formatTimestamp(event.start)}`);
+      if (event.end) lines.push(`DTEND:${formatTimestamp(event.end)}`);
+    }
+
+    lines.push(`SUMMARY:${escapeText(event.summary)}`);
+    if (event.description) {
+      lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    }
+    if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+    if (event.url) lines.push(`URL:${event.url}`);
+    lines.push("END:VEVENT");
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+/**
+ * A feed as a response calendar apps can subscribe to.
+ */
+export function calendarResponse(body: string, filename: string): Response {
+  return new Response(body, {
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": `inline; filename="${filename}"`,
+      "Cache-Control": "public, max-age=300",
+    },
+  });
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+function formatTimestamp(value: string): string {
+  return new Date(value).toISOString().replace(/[-:]/g, "").split(".")[0] + "Z";
+}
+
+function formatDate(value: string): string {
+  return value.replace(/-/g, "");
+}
+
+function getNextDay(date: string): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next.toISOString().split("T")[0];
+}
+
+// Lines are limited to 75 octets; longer ones continue after a CRLF and space
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = "";
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
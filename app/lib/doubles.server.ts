@@ -0,0 +1,213 @@
+import { countSetsWon } from "./match-format";
+import type {
+  DoublesMatch,
+  Player,
+  PlayerDoublesRecord,
+  TeamStanding,
+  TeamWithPlayers,
+} from "./types";
+
+// The top 4 teams of the doubles league play semifinals (1v4, 2v3) and a final
+export const DOUBLES_QUALIFIER_COUNT = 4;
+
+/**
+ * Default team name from its players' first names, e.g. "Ana & Rui".
+ */
+export function getDefaultTeamName(player1: Player, player2: Player): string {
+  return `${player1.name.split(" ")[0]} & ${player2.name.split(" ")[0]}`;
+}
+
+/**
+ * Calculate the doubles league table from completed league matches.
+ * Doubles has no tiers: teams are ranked on wins, then set difference, then
+ * points scored (in sets).
+ */
+export function calculateDoublesStandings(
+  teams: TeamWithPlayers[],
+  matches: DoublesMatch[],
+): TeamStanding[] {
+  const standingsMap = new Map<string, TeamStanding>();
+
+  for (const team of teams) {
+    standingsMap.set(team.id, {
+      team,
+      rank: 0,
+      matchesPlayed: 0,
+      wins: 0,
+      losses: 0,
+      setsWon: 0,
+      setsLost: 0,
+      setDiff: 0,
+      pointsScored: 0,
+      pointsConceded: 0,
+    });
+  }
+
+  for (const match of matches) {
+    if (match.phase !== "league" || match.status !== "completed") continue;
+
+    const team1Standing = standingsMap.get(match.team1_id);
+    const team2Standing = standingsMap.get(match.team2_id);
+    if (!team1Standing || !team2Standing) continue;
+
+    team1Standing.matchesPlayed++;
+    team2Standing.matchesPlayed++;
+
+    if (match.winner_team_id === match.team1_id) {
+      team1Standing.wins++;
+      team2Standing.losses++;
+    } else {
+      team2Standing.wins++;
+      team1Standing.losses++;
+    }
+
+    const [team1Sets, team2Sets] = countSetsWon(match.set_scores);
+    team1Standing.setsWon += team1Sets;
+    team1Standing.setsLost += team2Sets;
+    team2Standing.setsWon += team2Sets;
+    team2Standing.setsLost += team1Sets;
+
+    for (const [team1Points, team2Points] of match.set_scores) {
+      team1Standing.pointsScored += team1Points;
+      team1Standing.pointsConceded += team2Points;
+      team2Standing.pointsScored += team2Points;
+      team2Standing.pointsConceded += team1Points;
+    }
+  }
+
+  const standings = Array.from(standingsMap.values());
+  for (const standing of standings) {
+    standing.setDiff = standing.setsWon - standing.setsLost;
+  }
+
+  standings.sort(
+    (a, b) =>
+      b.wins - a.wins ||
+      b.setDiff - a.setDiff ||
+      b.pointsScored - a.pointsScored ||
+      a.team.name.localeCompare(b.team.name),
+  );
+  standings.forEach((standing, index) => {
+    standing.rank = index + 1;
+  });
+
+  return standings;
+}
+
+/**
+ * Semifinals for the top teams of the doubles league: 1st vs 4th and 2nd vs
+ * 3rd. The final is added once both semifinals have a winner.
+ */
+export function buildDoublesKnockoutMatches(standings: TeamStanding[]): {
+  team1_id: string;
+  team2_id: string;
+  phase: "semifinal";
+  status: "scheduled";
+  knockout_position: number;
+}[] {
+  const [first, second, third, fourth] = standings;
+
+  return [
+    [first, fourth],
+    [second, third],
+  ].map(([team1, team2], index) => ({
+    team1_id: team1.team.id,
+    team2_id: team2.team.id,
+    phase: "semifinal",
+    status: "scheduled",
+    knockout_position: index + 1,
+  }));
+}
+
+/**
+ * Create the doubles final once both semifinals are decided, replacing a
+ * scheduled final whose teams no longer match (a semifinal result was edited).
+ */
+export function getDoublesFinalUpdates(matches: DoublesMatch[]): {
+  inserts: {
+    team1_id: string;
+    team2_id: string;
+    phase: "final";
+    status: "scheduled";
+  }[];
+  deletes: string[];
+} {
+  const semifinalWinner = (position: number) =>
+    matches.find(
+      (m) =>
+        m.phase === "semifinal" &&
+        m.knockout_position === position &&
+        m.status === "completed",
+    )?.winner_team_id || null;
+
+  const team1Id = semifinalWinner(1);
+  const team2Id = semifinalWinner(2);
+  const finals = matches.filter((m) => m.phase === "final");
+
+  const isExpected = (match: DoublesMatch) =>
+    Boolean(team1Id && team2Id) &&
+    ((match.team1_id === team1Id && match.team2_id === team2Id) ||
+      (match.team1_id === team2Id && match.team2_id === team1Id));
+
+  const deletes = finals
+    .filter((m) => m.status === "scheduled" && !isExpected(m))
+    .map((m) => m.id);
+
+  if (!team1Id || !team2Id || finals.some(isExpected)) {
+    return { inserts: [], deletes };
+  }
+
+  return {
+    inserts: [
+      {
+        team1_id: team1Id,
+        team2_id: team2Id,
+        phase: "final",
+        status: "scheduled",
+      },
+    ],
+    deletes,
+  };
+}
+
+/**
+ * A player's doubles record per team they played in, from completed matches
+ * of any phase.
+ */
+export function calculatePlayerDoublesRecords(
+  playerId: string,
+  teams: TeamWithPlayers[],
+  matches: DoublesMatch[],
+): PlayerDoublesRecord[] {
+  return teams
+    .filter(
+      (team) => team.player1_id === playerId || team.player2_id === playerId,
+    )
+    .map((team) => {
+      const record: PlayerDoublesRecord = {
+        team,
+        partner: team.player1_id === playerId ? team.player2 : team.player1,
+        matchesPlayed: 0,
+        wins: 0,
+        losses: 0,
+        setsWon: 0,
+        setsLost: 0,
+      };
+
+      for (const match of matches) {
+        if (match.status !== "completed") continue;
+        if (match.team1_id !== team.id && match.team2_id !== team.id) continue;
+
+        const isTeam1 = match.team1_id === team.id;
+        const [team1Sets, team2Sets] = countSetsWon(match.set_scores);
+
+        record.matchesPlayed++;
+        if (match.winner_team_id === team.id) record.wins++;
+        else record.losses++;
+        record.setsWon += isTeam1 ? team1Sets : team2Sets;
+        record.setsLost += isTeam1 ? team2Sets : team1Sets;
+      }
+
+      return record;
+    });
+}
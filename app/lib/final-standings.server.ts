@@ -0,0 +1,78 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { getKnockoutPlacements, parseBracketFormat } from "./bracket";
+import { parseLeagueFormat } from "./league-format";
+import {
+  calculateFinalStandings,
+  calculateSeedingStandings,
+} from "./tournament.server";
+import type {
+  FinalStanding,
+  Match,
+  MatchWithPlayers,
+  Player,
+  SwissBye,
+} from "./types";
+
+/**
+ * Load a season's results and place every player. The standings are final
+ * once the tournament winner is known; until then they are provisional.
+ */
+export async function loadFinalStandings(
+  supabase: SupabaseClient,
+  seasonId: string,
+): Promise<{ standings: FinalStanding[]; isFinal: boolean }> {
+  const { data: settings } = await supabase
+    .from("tournament_settings")
+    .select("bracket_format, league_format")
+    .eq("season_id", seasonId)
+    .single();
+  const format = parseBracketFormat(settings?.bracket_format);
+
+  const { data: players } = await supabase
+    .from("players")
+    .select("*")
+    .eq("season_id", seasonId);
+
+  const { data: leagueMatches } = await supabase
+    .from("matches")
+    .select(
+      `
+      *,
+      player1:players!matches_player1_id_fkey(*),
+      player2:players!matches_player2_id_fkey(*)
+    `,
+    )
+    .eq("season_id", seasonId)
+    .eq("phase", "league")
+    .eq("status", "completed");
+
+  const { data: knockoutMatches } = await supabase
+    .from("matches")
+    .select("*")
+    .eq("season_id", seasonId)
+    .neq("phase", "league");
+
+  const { data: swissByes } = await supabase
+    .from("swiss_byes")
+    .select("*")
+    .eq("season_id", seasonId);
+
+  const seedingStandings = calculateSeedingStandings(
+    (players as Player[]) || [],
+    (leagueMatches as MatchWithPlayers[]) || [],
+    parseLeagueFormat(settings?.league_format),
+    (swissByes as SwissBye[]) || [],
+  );
+
+  return {
+    standings: calculateFinalStandings(
+      seedingStandings,
+      (knockoutMatches as Match[]) || [],
+      format,
+    ),
+    isFinal: getKnockoutPlacements(
+      (knockoutMatches as Match[]) || [],
+      format,
+    ).some((placement) => placement.place === 1),
+  };
+}
@@ -0,0 +1,101 @@
+import { getCreditedSetCounts } from "./match-result";
+import type { FormResult, HeadToHeadSummary, MatchWithPlayers } from "./types";
+
+// Results shown as a player's recent form
+export const FORM_MATCH_COUNT = 5;
+
+/**
+ * Summarise every completed meeting between two people. Each side is the set
+ * of player ids the person has had across seasons; totals are ordered
+ * [side 1, side 2] whichever way round the players were stored.
+ */
+export function calculateHeadToHead(
+  side1Ids: Set<string>,
+  side2Ids: Set<string>,
+  matches: MatchWithPlayers[],
+): HeadToHeadSummary {
+  const meetings = matches
+    .filter(
+      (m) =>
+        m.status === "completed" &&
+        ((side1Ids.has(m.player1_id) && side2Ids.has(m.player2_id)) ||
+          (side2Ids.has(m.player1_id) && side1Ids.has(m.player2_id))),
+    )
+    .sort(byMostRecent);
+
+  const summary: HeadToHeadSummary = {
+    meetings,
+    wins: [0, 0],
+    setsWon: [0, 0],
+    pointsWon: [0, 0],
+    averageSetMargin: [null, null],
+  };
+  const setMargins: [number[], number[]] = [[], []];
+
+  for (const match of meetings) {
+    const side1IsPlayer1 = side1Ids.has(match.player1_id);
+    const orient = <T>([p1, p2]: [T, T]): [T, T] =>
+      side1IsPlayer1 ? [p1, p2] : [p2, p1];
+
+    const winnerSide = side1Ids.has(match.winner_id || "") ? 0 : 1;
+    summary.wins[winnerSide]++;
+
+    const [side1Sets, side2Sets] = orient(getCreditedSetCounts(match));
+    summary.setsWon[0] += side1Sets;
+    summary.setsWon[1] += side2Sets;
+
+    for (const set of match.set_scores) {
+      const [side1Points, side2Points] = orient(set);
+      summary.pointsWon[0] += side1Points;
+      summary.pointsWon[1] += side2Points;
+
+      if (side1Points > side2Points) {
+        setMargins[0].push(side1Points - side2Points);
+      } else if (side2Points > side1Points) {
+        setMargins[1].push(side2Points - side1Points);
+      }
+    }
+  }
+
+  summary.averageSetMargin = [average(setMargins[0]), average(setMargins[1])];
+
+  return summary;
+}
+
+/**
+ * A player's latest completed results against anyone, most recent first.
+ */
+export function getRecentForm(
+  playerId: string,
+  matches: MatchWithPlayers[],
+  count: number = FORM_MATCH_COUNT,
+): FormResult[] {
+  return matches
+    .filter(
+      (m) =>
+        m.status === "completed" &&
+        (m.player1_id === playerId || m.player2_id === playerId),
+    )
+    .sort(byMostRecent)
+    .slice(0, count)
+    .map((match) => ({
+      matchId: match.id,
+      won: match.winner_id === playerId,
+      opponentName:
+        match.player1_id === playerId ? match.player2.name : match.player1.name,
+      recordedAt: match.recorded_at,
+    }));
+}
+
+function byMostRecent(a: MatchWithPlayers, b: MatchWithPlayers): number {
+  return (b.recorded_at || "").localeCompare(a.recorded_at || "");
+}
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return (
+    Math.round(
+      (values.reduce((sum, value) => sum + value, 0) / values.length) * 10,
+    ) / 10
+  );
+}
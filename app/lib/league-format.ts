@@ -0,0 +1,134 @@
+import type { LeagueFormat, LeagueMode } from "./types";
+
+export const LEAGUE_MODE_LABELS: Record<LeagueMode, string> = {
+  round_robin: "Round robin",
+  swiss: "Swiss system",
+  groups: "Groups then knockout",
+};
+
+export const LEAGUE_MODE_DESCRIPTIONS: Record<LeagueMode, string> = {
+  round_robin:
+    "Everyone plays everyone once. Matches can be recorded in any order.",
+  swiss:
+    "A fixed number of rounds. Each round pairs players on similar points who haven't met yet; the next round is generated once the current one is complete.",
+  groups:
+    "Players are drawn into balanced groups using tiers as pots. Each group plays a round robin and the top finishers of every group go through to a crossover knockout.",
+};
+
+export const DEFAULT_LEAGUE_FORMAT: LeagueFormat = {
+  mode: "round_robin",
+  swiss_rounds: 5,
+  group_count: 4,
+  advance_per_group: 2,
+};
+
+/**
+ * Read the stored league format, falling back to a round robin when it is
+ * missing or invalid.
+ */
+export function parseLeagueFormat(value: unknown): LeagueFormat {
+  if (!value || typeof value !== "object") return DEFAULT_LEAGUE_FORMAT;
+
+  const candidate = value as Partial<LeagueFormat>;
+  const format: LeagueFormat = {
+    mode:
+      candidate.mode && candidate.mode in LEAGUE_MODE_LABELS
+        ? candidate.mode
+        : "round_robin",
+    swiss_rounds: Number(
+      candidate.swiss_rounds ?? DEFAULT_LEAGUE_FORMAT.swiss_rounds,
+    ),
+    group_count: Number(
+      candidate.group_count ?? DEFAULT_LEAGUE_FORMAT.group_count,
+    ),
+    advance_per_group: Number(
+      candidate.advance_per_group ?? DEFAULT_LEAGUE_FORMAT.advance_per_group,
+    ),
+  };
+
+  return validateLeagueFormat(format) ? DEFAULT_LEAGUE_FORMAT : format;
+}
+
+/**
+ * Validate a league format. Returns an error message, or null if valid.
+ */
+export function validateLeagueFormat(format: LeagueFormat): string | null {
+  if (!(format.mode in LEAGUE_MODE_LABELS)) {
+    return "Unknown league mode";
+  }
+
+  if (
+    !Number.isInteger(format.swiss_rounds) ||
+    format.swiss_rounds < 1 ||
+    format.swiss_rounds > 30
+  ) {
+    return "Swiss rounds must be a whole number between 1 and 30";
+  }
+
+  if (
+    !Number.isInteger(format.group_count) ||
+    format.group_count < 2 ||
+    format.group_count > 16
+  ) {
+    return "Groups must be a whole number between 2 and 16";
+  }
+
+  if (
+    !Number.isInteger(format.advance_per_group) ||
+    format.advance_per_group < 1
+  ) {
+    return "At least 1 player must advance from each group";
+  }
+
+  return null;
+}
+
+/**
+ * Whether league matches are generated up front (Swiss rounds or group
+ * fixtures) rather than recorded between any two players who haven't met.
+ */
+export function hasScheduledLeagueMatches(format: LeagueFormat): boolean {
+  return format.mode !== "round_robin";
+}
+
+/**
+ * Group labels in draw order: A, B, C, ...
+ */
+export function getGroupNames(groupCount: number): string[] {
+  return Array.from({ length: groupCount }, (_, index) =>
+    String.fromCharCode(65 + index),
+  );
+}
+
+/**
+ * Group sizes when players are spread as evenly as possible, e.g. 10 players
+ * in 3 groups gives [4, 3, 3].
+ */
+export function getGroupSizes(playerCount: number, groupCount: number) {
+  return Array.from(
+    { length: groupCount },
+    (_, index) =>
+      Math.floor(playerCount / groupCount) +
+      (index < playerCount % groupCount ? 1 : 0),
+  );
+}
+
+/**
+ * Rounds a Swiss league needs to separate a single leader: log2 of the
+ * player count, rounded up.
+ */
+export function getRecommendedSwissRounds(playerCount: number): number {
+  return Math.max(1, Math.ceil(Math.log2(Math.max(2, playerCount))));
+}
+
+/**
+ * One-line summary, e.g. "Swiss system, 5 rounds" or "4 groups, top 2 of
+ * each advance".
+ */
+export function describeLeagueFormat(format: LeagueFormat): string {
+  if (format.mode === "round_robin") return LEAGUE_MODE_LABELS.round_robin;
+  if (format.mode === "groups") {
+    return `${format.group_count} groups, top ${format.advance_per_group} of each advance`;
+  }
+  return `${LEAGUE_MODE_LABELS.swiss}, ${format.swiss_rounds} round${format.swiss_rounds === 1 ? "" : "s"}`;
+}
@@ -0,0 +1,218 @@
+import type {
+  MatchFormat,
+  MatchFormats,
+  MatchFormatStage,
+  MatchPhase,
+  SetScore,
+} from "./types";
+
+export const BEST_OF_OPTIONS: MatchFormat["best_of"][] = [3, 5, 7];
+
+export const DEFAULT_MATCH_FORMAT: MatchFormat = {
+  best_of: 3,
+  points_per_set: 11,
+  win_by_two: true,
+};
+
+export const MATCH_FORMAT_STAGES: { stage: MatchFormatStage; label: string }[] =
+  [
+    { stage: "league", label: "League" },
+    { stage: "knockout", label: "Knockout rounds" },
+    { stage: "semifinal", label: "Semifinals" },
+    { stage: "final", label: "Final" },
+  ];
+
+/**
+ * The settings stage a match phase is played under. Every knockout round
+ * before the semifinals (knockout_r1, knockout_r2, ...) shares one format, as
+ * do the winners and losers bracket rounds of a double elimination; its grand
+ * final and reset, like the third-place match, use the final's format.
+ */
+export function getMatchFormatStage(
+  phase: MatchPhase | string,
+): MatchFormatStage {
+  if (phase === "league" || phase === "semifinal" || phase === "final") {
+    return phase;
+  }
+  if (
+    phase === "third_place" ||
+    phase === "grand_final" ||
+    phase === "grand_final_reset"
+  ) {
+    return "final";
+  }
+  return "knockout";
+}
+
+/**
+ * Read stored match formats, falling back to the default best of 3 to 11 for
+ * each stage that is missing or invalid.
+ */
+export function parseMatchFormats(value: unknown): MatchFormats {
+  const stored =
+    value && typeof value === "object"
+      ? (value as Partial<Record<MatchFormatStage, unknown>>)
+      : {};
+
+  return Object.fromEntries(
+    MATCH_FORMAT_STAGES.map(({ stage }) => [
+      stage,
+      parseMatchFormat(stored[stage]),
+    ]),
+  ) as MatchFormats;
+}
+
+export function getMatchFormat(
+  formats: MatchFormats,
+  phase: MatchPhase | string,
+): MatchFormat {
+  return formats[getMatchFormatStage(phase)];
+}
+
+/**
+ * Validate a match format. Returns an error message, or null if valid.
+ */
+export function validateMatchFormat(format: MatchFormat): string | null {
+  if (!BEST_OF_OPTIONS.includes(format.best_of)) {
+    return "Matches must be best of 3, 5 or 7 sets";
+  }
+
+  if (
+    !Number.isInteger(format.points_per_set) ||
+    format.points_per_set < 1 ||
+    format.points_per_set > 99
+  ) {
+    return "Points per set must be a whole number between 1 and 99";
+  }
+
+  return null;
+}
+
+export function getSetsToWin(bestOf: number): number {
+  return Math.floor(bestOf / 2) + 1;
+}
+
+/**
+ * One-line summary, e.g. "Best of 5, sets to 11, win by 2".
+ */
+export function describeMatchFormat(format: MatchFormat): string {
+  return `Best of ${format.best_of}, sets to ${format.points_per_set}${format.win_by_two ? ", win by 2" : ""}`;
+}
+
+/**
+ * Check that a completed set has a legal score: the winner reaches the
+ * points target, and with win-by-two a set past deuce ends at a 2-point lead.
+ * Returns an error message, or null if valid.
+ */
+export function validateSetScore(
+  [p1, p2]: SetScore,
+  format: MatchFormat,
+): string | null {
+  const target = format.points_per_set;
+  const winner = Math.max(p1, p2);
+  const loser = Math.min(p1, p2);
+
+  if (!Number.isInteger(p1) || !Number.isInteger(p2) || loser < 0) {
+    return "Scores must be whole numbers";
+  }
+
+  if (p1 === p2) {
+    return "A set can't end in a tie";
+  }
+
+  if (!format.win_by_two) {
+    return winner === target
+      ? null
+      : `The set winner must have exactly ${target} points`;
+  }
+
+  if (winner < target) {
+    return `The set winner must reach ${target} points`;
+  }
+
+  if (winner - loser < 2) {
+    return "A set must be won by 2 points";
+  }
+
+  if (winner > target && winner - loser !== 2) {
+    return `A set that goes past ${target} points ends as soon as someone leads by 2`;
+  }
+
+  return null;
+}
+
+/**
+ * Validate the sets of a match against its format. A finished match stops as
+ * soon as someone wins enough sets; an unfinished one (a retirement) must not
+ * already be decided. Returns an error message, or null if valid.
+ */
+export function validateSetScores(
+  sets: SetScore[],
+  format: MatchFormat,
+  { finished }: { finished: boolean },
+): string | null {
+  const setsToWin = getSetsToWin(format.best_of);
+
+  if (sets.length > format.best_of) {
+    return `A best of ${format.best_of} match has at most ${format.best_of} sets`;
+  }
+
+  const won: [number, number] = [0, 0];
+  for (const [index, set] of sets.entries()) {
+    if (won[0] === setsToWin || won[1] === setsToWin) {
+      return `The match was decided before set ${index + 1}; remove the extra sets`;
+    }
+
+    const setError = validateSetScore(set, format);
+    if (setError) {
+      return `Set ${index + 1}: ${setError}`;
+    }
+
+    won[set[0] > set[1] ? 0 : 1]++;
+  }
+
+  const decided = won[0] === setsToWin || won[1] === setsToWin;
+  if (finished && !decided) {
+    return `Match must have a winner (first to ${setsToWin} sets)`;
+  }
+  if (!finished && decided) {
+    return "The completed sets already decide the match; record it as played instead";
+  }
+
+  return null;
+}
+
+/**
+ * Sets won by each player from the scores played, e.g. [2, 1].
+ */
+export function countSetsWon(sets: SetScore[]): [number, number] {
+  let p1Sets = 0;
+  let p2Sets = 0;
+
+  for (const [p1, p2] of sets) {
+    if (p1 > p2) p1Sets++;
+    else if (p2 > p1) p2Sets++;
+  }
+
+  return [p1Sets, p2Sets];
+}
+
+/**
+ * Set scores as text, e.g. "11-7, 9-11, 11-5".
+ */
+export function formatSetScores(sets: SetScore[]): string {
+  return sets.map(([p1, p2]) => `${p1}-${p2}`).join(", ");
+}
+
+function parseMatchFormat(value: unknown): MatchFormat {
+  if (!value || typeof value !== "object") return DEFAULT_MATCH_FORMAT;
+
+  const candidate = value as Partial<MatchFormat>;
+  const format: MatchFormat = {
+    best_of: Number(candidate.best_of) as MatchFormat["best_of"],
+    points_per_set: Number(candidate.points_per_set),
+    win_by_two: candidate.win_by_two !== false,
+  };
+
+  return validateMatchFormat(format) ? DEFAULT_MATCH_FORMAT : format;
+}
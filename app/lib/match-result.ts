@@ -0,0 +1,239 @@
+import { countSetsWon, getSetsToWin, validateSetScores } from "./match-format";
+import type { Match, MatchFormat, MatchResultType, SetScore } from "./types";
+
+export const MATCH_RESULT_LABELS: Record<MatchResultType, string> = {
+  normal: "Played",
+  walkover: "Walkover",
+  forfeit: "Forfeit",
+  retired: "Retired",
+};
+
+// How each result type is scored; shown on the record form
+export const MATCH_RESULT_DESCRIPTIONS: Record<MatchResultType, string> = {
+  normal: "The match was played to the end.",
+  walkover:
+    "The opponent did not turn up. No sets are played; the winner is credited with a straight-sets win and full points.",
+  forfeit:
+    "A player conceded or was ruled out of the match. Scored like a walkover.",
+  retired:
+    "A player stopped mid-match (e.g. injury). Completed sets count as played; the winner is credited with the sets they still needed.",
+};
+
+type MatchResultFields = Pick<
+  Match,
+  | "player1_id"
+  | "player2_id"
+  | "winner_id"
+  | "result_type"
+  | "set_scores"
+  | "best_of"
+>;
+
+export type MatchResultValues = Pick<
+  Match,
+  "set_scores" | "best_of" | "winner_id" | "result_type" | "result_reason"
+>;
+
+/**
+ * Undo a self-reported result while keeping the match. Used for Swiss
+ * pairings and group fixtures, which must stay scheduled; other rejected or
+ * withdrawn reports are deleted. The withdraw_match_report database function
+ * sets the same values.
+ */
+export const CLEARED_REPORT_VALUES = {
+  status: "scheduled",
+  winner_id: null,
+  set_scores: [],
+  result_type: "normal",
+  result_reason: null,
+  reported_by_player_id: null,
+  reported_at: null,
+  dispute_reason: null,
+} satisfies Partial<Match>;
+
+/**
+ * Walkovers and forfeits are decided without playing, so they carry no set
+ * scores and do not move Elo ratings.
+ */
+export function isUnplayedResult(match: Pick<Match, "result_type">): boolean {
+  return match.result_type === "walkover" || match.result_type === "forfeit";
+}
+
+/**
+ * Sets the winner is credited with beyond the sets actually played: a
+ * walkover or forfeit counts as a straight-sets win (2-0 in a best of 3), a
+ * retirement tops the winner up to the sets they needed. These sets carry no
+ * rally points.
+ */
+export function getAwardedSetCount(match: MatchResultFields): number {
+  if (!match.result_type || match.result_type === "normal") return 0;
+
+  const winnerIsPlayer1 = match.winner_id === match.player1_id;
+  const [p1Sets, p2Sets] = countSetsWon(match.set_scores);
+  const winnerSetsPlayed = winnerIsPlayer1 ? p1Sets : p2Sets;
+
+  return Math.max(0, getSetsToWin(match.best_of) - winnerSetsPlayed);
+}
+
+/**
+ * Sets won by each player including awarded sets, e.g. [2, 0] for a walkover
+ * won by player 1.
+ */
+export function getCreditedSetCounts(
+  match: MatchResultFields,
+): [number, number] {
+  let [p1Sets, p2Sets] = countSetsWon(match.set_scores);
+
+  const awarded = getAwardedSetCount(match);
+  if (match.winner_id === match.player1_id) p1Sets += awarded;
+  else p2Sets += awarded;
+
+  return [p1Sets, p2Sets];
+}
+
+/**
+ * One-line explanation of a walkover, forfeit or retirement, or null for a
+ * match that was played out.
+ */
+export function describeMatchResult(
+  match: MatchResultFields & Pick<Match, "result_reason">,
+  winnerName: string,
+  loserName: string,
+): string | null {
+  const reason = match.result_reason ? ` (${match.result_reason})` : "";
+
+  switch (match.result_type) {
+    case "walkover":
+      return `${loserName} did not turn up; ${winnerName} wins by walkover${reason}.`;
+    case "forfeit":
+      return `${loserName} forfeited the match to ${winnerName}${reason}.`;
+    case "retired": {
+      const setsPlayed = match.set_scores.length;
+      return `${loserName} retired after ${setsPlayed} completed set${setsPlayed === 1 ? "" : "s"}${reason}.`;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Read and validate a result from the record form against the match format.
+ * Played matches need legal set scores that produce a winner. Walkovers and
+ * forfeits need a winner and reason and store no sets. Retirements need a
+ * winner, a reason and the sets completed before the retirement, which must
+ * not already decide the match.
+ */
+export function parseMatchResultForm(
+  formData: FormData,
+  player1Id: string,
+  player2Id: string,
+  format: MatchFormat,
+): { error: string } | { values: MatchResultValues } {
+  const resultType =
+    (formData.get("result_type") as MatchResultType) || "normal";
+
+  if (!(resultType in MATCH_RESULT_LABELS)) {
+    return { error: "Unknown result type" };
+  }
+
+  if (resultType === "normal") {
+    const sets = readSetScores(formData, format.best_of);
+    if ("error" in sets) return sets;
+
+    const setsError = validateSetScores(sets.setScores, format, {
+      finished: true,
+    });
+    if (setsError) return { error: setsError };
+
+    const [p1Sets, p2Sets] = countSetsWon(sets.setScores);
+    return {
+      values: {
+        set_scores: sets.setScores,
+        best_of: format.best_of,
+        winner_id: p1Sets > p2Sets ? player1Id : player2Id,
+        result_type: "normal",
+        result_reason: null,
+      },
+    };
+  }
+
+  const winnerId = formData.get("winner_id") as string;
+  const reason = ((formData.get("result_reason") as string) || "").trim();
+
+  if (winnerId !== player1Id && winnerId !== player2Id) {
+    return { error: "Choose who wins the match" };
+  }
+
+  if (!reason) {
+    return {
+      error: `Give a reason for the ${MATCH_RESULT_LABELS[resultType].toLowerCase()}`,
+    };
+  }
+
+  if (resultType !== "retired") {
+    return {
+      values: {
+        set_scores: [],
+        best_of: format.best_of,
+        winner_id: winnerId,
+        result_type: resultType,
+        result_reason: reason,
+      },
+    };
+  }
+
+  // Retired: keep the completed sets; the rest of the match is never played
+  const sets = readSetScores(formData, format.best_of);
+  if ("error" in sets) return sets;
+
+  const setsError = validateSetScores(sets.setScores, format, {
+    finished: false,
+  });
+  if (setsError) return { error: setsError };
+
+  return {
+    values: {
+      set_scores: sets.setScores,
+      best_of: format.best_of,
+      winner_id: winnerId,
+      result_type: "retired",
+      result_reason: reason,
+    },
+  };
+}
+
+/**
+ * Read the set inputs (set1_p1, set1_p2, ...) in order, stopping at the first
+ * empty set. Sets after a gap or with only one score are rejected.
+ */
+export function readSetScores(
+  formData: FormData,
+  bestOf: number,
+): { error: string } | { setScores: SetScore[] } {
+  const setScores: SetScore[] = [];
+  let reachedEmptySet = false;
+
+  for (let setNumber = 1; setNumber <= bestOf; setNumber++) {
+    const p1Value = (
+      (formData.get(`set${setNumber}_p1`) as string) || ""
+    ).trim();
+    const p2Value = (
+      (formData.get(`set${setNumber}_p2`) as string) || ""
+    ).trim();
+
+    if (!p1Value && !p2Value) {
+      reachedEmptySet = true;
+      continue;
+    }
+
+    if (reachedEmptySet || !p1Value || !p2Value) {
+      return {
+        error: "Enter both scores for each set, starting from set 1",
+      };
+    }
+
+    setScores.push([parseInt(p1Value), parseInt(p2Value)]);
+  }
+
+  return { setScores };
+}
@@ -0,0 +1,429 @@
+import { appendFile } from "node:fs/promises";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { MATCH_SELECT } from "./api.server";
+import { getRoundLabel } from "./bracket";
+import { countSetsWon } from "./match-format";
+import { isUnplayedResult, MATCH_RESULT_LABELS } from "./match-result";
+import {
+  getDayStart,
+  getMatchDeadline,
+  isOverdue,
+  parseScheduleSettings,
+} from "./schedule";
+import type {
+  MatchWithPlayers,
+  Notification,
+  Player,
+  WeeklyRecommendationWithPlayers,
+} from "./types";
+
+// Open matches due within this many days are included in deadline reminders
+export const REMINDER_DAYS = 3;
+
+// Give up on a slow webhook rather than holding up the request
+const SEND_TIMEOUT_MS = 5000;
+
+// How long the Slack member list is reused before it is fetched again
+const MEMBER_CACHE_MS = 10 * 60_000;
+
+// Slack member IDs by lowercased handle
+export type SlackMemberIds = Map<string, string>;
+
+let memberIdCache: { ids: SlackMemberIds; fetchedAt: number } | null = null;
+
+export interface NotificationTransport {
+  name: string;
+  send: (notification: Notification) => Promise<void>;
+}
+
+/**
+ * Post to a Slack incoming webhook.
+ */
+export function createSlackWebhookTransport(
+  webhookUrl: string,
+): NotificationTransport {
+  return {
+    name: "slack",
+    send: async (notification) => {
+      const response = await fetch(webhookUrl, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ text: notification.text }),
+        signal: AbortSignal.timeout(SEND_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        throw new Error(
+          `Slack webhook returned ${response.status}: ${await response.text()}`,
+        );
+      }
+    },
+  };
+}
+
+/**
+ * Print notifications to the server log, for local development.
+ */
+export function createConsoleTransport(): NotificationTransport {
+  return {
+    name: "console",
+    send: async (notification) => {
+      console.log(`[notification:${notification.event}]\n${notification.text}`);
+    },
+  };
+}
+
+/**
+ * Append notifications to a file as JSON lines, for local development and
+ * tests that need to check what would have been sent.
+ */
+export function createFileTransport(path: string): NotificationTransport {
+  return {
+    name: "file",
+    send: async (notification) => {
+      await appendFile(
+        path,
+        JSON.stringify({ sentAt: new Date().toISOString(), ...notification }) +
+          "\n",
+      );
+    },
+  };
+}
+
+/**
+ * The transport chosen by NOTIFICATION_TRANSPORT ("slack", "console", "file"
+ * or "none"). When it isn't set, Slack is used if SLACK_WEBHOOK_URL is, and
+ * notifications are off otherwise.
+ */
+export function getNotificationTransport(
+  env: Record<string, string | undefined> = process.env,
+): NotificationTransport | null {
+  const kind = env.NOTIFICATION_TRANSPORT || (env.SLACK_WEBHOOK_URL && "slack");
+
+  switch (kind) {
+    case "slack":
+      if (!env.SLACK_WEBHOOK_URL) {
+        console.error(
+          "NOTIFICATION_TRANSPORT is slack but SLACK_WEBHOOK_URL is not set",
+        );
+        return null;
+      }
+      return createSlackWebhookTransport(env.SLACK_WEBHOOK_URL);
+    case "console":
+      return createConsoleTransport();
+    case "file":
+      return createFileTransport(env.NOTIFICATION_FILE || "notifications.log");
+    default:
+      return null;
+  }
+}
+
+/**
+ * Send a notification. Failures are logged rather than thrown: a message
+ * that can't be delivered never undoes the change it describes.
+ */
+export async function sendNotification(
+  notification: Notification,
+  transport: NotificationTransport | null = getNotificationTransport(),
+): Promise<void> {
+  if (!transport) return;
+
+  try {
+    await transport.send(notification);
+  } catch (error) {
+    console.error(
+      `Failed to send ${notification.event} notification via ${transport.name}:`,
+      error,
+    );
+  }
+}
+
+/**
+ * Slack member IDs for the workspace's handles, from users.list. Slack only
+ * mentions someone written as <@member-id>, so the handles stored on players
+ * have to be looked up; this needs SLACK_BOT_TOKEN (a bot token with the
+ * users:read scope). Without one, or when the lookup fails, the map is empty
+ * and players are named instead of mentioned.
+ */
+export async function getSlackMemberIds(
+  env: Record<string, string | undefined> = process.env,
+): Promise<SlackMemberIds> {
+  if (!env.SLACK_BOT_TOKEN) return new Map();
+  if (memberIdCache && Date.now() - memberIdCache.fetchedAt < MEMBER_CACHE_MS) {
+    return memberIdCache.ids;
+  }
+
+  const ids: SlackMemberIds = new Map();
+  const displayNames: SlackMemberIds = new Map();
+  try {
+    let cursor = "";
+    do {
+      const url = new URL("https://slack.com/api/users.list");
+      url.searchParams.set("limit", "200");
+      if (cursor) url.searchParams.set("cursor", cursor);
+
+      const response = await fetch(url, {
+        headers: { Authorization: `Bearer ${env.SLACK_BOT_TOKEN}` },
+        signal: AbortSignal.timeout(SEND_TIMEOUT_MS),
+      });
+      const body = await response.json();
+      if (!body.ok) {
+        throw new Error(`Slack users.list returned ${body.error}`);
+      }
+
+      for (const member of body.members as SlackMember[]) {
+        if (member.deleted || member.is_bot) continue;
+        ids.set(member.name.toLowerCase(), member.id);
+        if (member.profile?.display_name) {
+          displayNames.set(
+            member.profile.display_name.toLowerCase(),
+            member.id,
+          );
+        }
+      }
+      cursor = body.response_metadata?.next_cursor || "";
+    } while (cursor);
+  } catch (error) {
+    console.error("Failed to look up Slack member IDs:", error);
+    return new Map();
+  }
+
+  // A username wins over someone else's display name
+  for (const [handle, id] of displayNames) {
+    if (!ids.has(handle)) ids.set(handle, id);
+  }
+
+  memberIdCache = { ids, fetchedAt: Date.now() };
+  return ids;
+}
+
+/**
+ * A player's Slack mention, or their name when their handle isn't a member
+ * of the workspace (or there is no handle or member list).
+ */
+export function mentionPlayer(
+  player: Pick<Player, "name" | "slack_handle">,
+  memberIds: SlackMemberIds,
+): string {
+  const memberId =
+    player.slack_handle && memberIds.get(player.slack_handle.toLowerCase());
+  return memberId ? `<@${memberId}>` : escapeText(player.name);
+}
+
+export function buildResultNotification(
+  match: MatchWithPlayers,
+  memberIds: SlackMemberIds,
+): Notification {
+  const winner =
+    match.winner_id === match.player1_id ? match.player1 : match.player2;
+  const loser = winner === match.player1 ? match.player2 : match.player1;
+  const [p1Sets, p2Sets] = countSetsWon(match.set_scores);
+  const winnerSets = winner === match.player1 ? p1Sets : p2Sets;
+  const loserSets = winner === match.player1 ? p2Sets : p1Sets;
+
+  const score = isUnplayedResult(match)
+    ? MATCH_RESULT_LABELS[match.result_type].toLowerCase()
+    : `${winnerSets}-${loserSets}${match.result_type === "retired" ? " ret." : ""}`;
+
+  return {
+    event: "result_recorded",
+    text: `:table_tennis_paddle_and_ball: ${formatPhase(match.phase)}: ${mentionPlayer(winner, memberIds)} beat ${mentionPlayer(loser, memberIds)} (${score})`,
+  };
+}
+
+export function buildRecommendationsNotification(
+  weekDate: string,
+  recommendations: WeeklyRecommendationWithPlayers[],
+  memberIds: SlackMemberIds,
+): Notification {
+  return {
+    event: "recommendations_published",
+    text: [
+      `*Suggested matches for the week of ${weekDate}*`,
+      ...recommendations.map(
+        (rec) =>
+          `• ${mentionPlayer(rec.player1, memberIds)} vs ${mentionPlayer(rec.player2, memberIds)}${rec.is_extra_match ? " (extra match)" : ""}`,
+      ),
+    ].join("\n"),
+  };
+}
+
+export function buildKnockoutNotification(
+  matches: MatchWithPlayers[],
+  memberIds: SlackMemberIds,
+): Notification {
+  return {
+    event: "knockout_matchups_created",
+    text: [
+      "*New knockout matches*",
+      ...matches.map(
+        (match) =>
+          `• ${formatPhase(match.phase)}: ${mentionPlayer(match.player1, memberIds)} vs ${mentionPlayer(match.player2, memberIds)}`,
+      ),
+    ].join("\n"),
+  };
+}
+
+export function buildDeadlineReminderNotification(
+  reminders: { match: MatchWithPlayers; deadline: string; overdue: boolean }[],
+  memberIds: SlackMemberIds,
+): Notification {
+  return {
+    event: "deadline_reminder",
+    text: [
+      "*Matches still to play*",
+      ...reminders.map(
+        ({ match, deadline, overdue }) =>
+          `• ${formatPhase(match.phase)}: ${mentionPlayer(match.player1, memberIds)} vs ${mentionPlayer(match.player2, memberIds)}, ${overdue ? `*overdue* (was due ${deadline})` : `due ${deadline}`}`,
+      ),
+    ].join("\n"),
+  };
+}
+
+/**
+ * Announce a newly completed match.
+ */
+export async function notifyResultRecorded(
+  supabase: SupabaseClient,
+  matchId: string,
+): Promise<void> {
+  const { data: match } = await supabase
+    .from("matches")
+    .select(MATCH_SELECT)
+    .eq("id", matchId)
+    .single();
+
+  if (match?.status === "completed" && match.winner_id) {
+    await sendNotification(
+      buildResultNotification(
+        match as MatchWithPlayers,
+        await getSlackMemberIds(),
+      ),
+    );
+  }
+}
+
+/**
+ * Announce knockout matches that have just been created.
+ */
+export async function notifyKnockoutMatchupsCreated(
+  supabase: SupabaseClient,
+  matchIds: string[],
+): Promise<void> {
+  if (matchIds.length === 0) return;
+
+  const { data: matches } = await supabase
+    .from("matches")
+    .select(MATCH_SELECT)
+    .in("id", matchIds)
+    .order("knockout_position");
+
+  if (matches && matches.length > 0) {
+    await sendNotification(
+      buildKnockoutNotification(
+        matches as MatchWithPlayers[],
+        await getSlackMemberIds(),
+      ),
+    );
+  }
+}
+
+/**
+ * Announce a week's suggested matches.
+ */
+export async function notifyRecommendationsPublished(
+  supabase: SupabaseClient,
+  seasonId: string,
+  weekDate: string,
+): Promise<void> {
+  const { data: recommendations } = await supabase
+    .from("weekly_recommendations")
+    .select(
+      `
+      *,
+      player1:players!weekly_recommendations_player1_id_fkey(*),
+      player2:players!weekly_recommendations_player2_id_fkey(*)
+    `,
+    )
+    .eq("season_id", seasonId)
+    .eq("week_date", weekDate)
+    .order("is_extra_match", { ascending: true });
+
+  if (recommendations && recommendations.length > 0) {
+    await sendNotification(
+      buildRecommendationsNotification(
+        weekDate,
+        recommendations as WeeklyRecommendationWithPlayers[],
+        await getSlackMemberIds(),
+      ),
+    );
+  }
+}
+
+/**
+ * Remind players of open matches that are overdue or due within
+ * REMINDER_DAYS. Returns how many matches were included.
+ */
+export async function sendDeadlineReminders(
+  supabase: SupabaseClient,
+  seasonId: string,
+  now: Date = new Date(),
+): Promise<number> {
+  const { data: settings } = await supabase
+    .from("tournament_settings")
+    .select("league_deadline, schedule_settings")
+    .eq("season_id", seasonId)
+    .single();
+  const scheduleSettings = parseScheduleSettings(settings?.schedule_settings);
+  const timeZone = scheduleSettings.time_zone;
+
+  const { data: matches } = await supabase
+    .from("matches")
+    .select(MATCH_SELECT)
+    .eq("season_id", seasonId)
+    .eq("status", "scheduled");
+
+  const reminderCutoff = new Date(now);
+  reminderCutoff.setDate(reminderCutoff.getDate() + REMINDER_DAYS);
+
+  const reminders = ((matches as MatchWithPlayers[]) || []).flatMap((match) => {
+    const deadline = getMatchDeadline(
+      match.phase,
+      scheduleSettings,
+      settings?.league_deadline ?? null,
+    );
+    if (!deadline || getDayStart(deadline, timeZone) > reminderCutoff) {
+      return [];
+    }
+    return [
+      { match, deadline, overdue: isOverdue(match, deadline, timeZone, now) },
+    ];
+  });
+
+  if (reminders.length > 0) {
+    await sendNotification(
+      buildDeadlineReminderNotification(reminders, await getSlackMemberIds()),
+    );
+  }
+  return reminders.length;
+}
+
+// The users.list fields used to match handles
+interface SlackMember {
+  id: string;
+  name: string;
+  deleted?: boolean;
+  is_bot?: boolean;
+  profile?: { display_name?: string };
+}
+
+function formatPhase(phase: string): string {
+  return phase === "league" ? "League" : getRoundLabel(phase);
+}
+
+// Slack treats &, < and > as control characters in message text
+function escapeText(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
@@ -0,0 +1,471 @@
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from "./api.server";
+
+const NOT_MODIFIED = { description: "Unchanged since the ETag sent" };
+
+/**
+ * OpenAPI 3.1 description of the read-only JSON API under /api/v1. Keep it in
+ * step with the routes in app/routes/api/v1 and the toApi* serializers.
+ */
+export function buildOpenApiDocument(origin: string) {
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "PD Table Tennis API",
+      version: "1.0.0",
+      description:
+        "Read-only access to seasons, players, matches, standings and the knockout bracket. Every response carries an ETag; send it back in If-None-Match to get an empty 304 while nothing has changed.",
+    },
+    servers: [{ url: `${origin}/api/v1` }],
+    paths: {
+      "/seasons": {
+        get: {
+          operationId: "listSeasons",
+          summary: "List seasons, newest first",
+          responses: {
+            "200": jsonResponse("Seasons", {
+              type: "object",
+              required: ["data"],
+              properties: { data: arrayOf("Season") },
+            }),
+            "304": NOT_MODIFIED,
+          },
+        },
+      },
+      "/players": {
+        get: {
+          operationId: "listPlayers",
+          summary: "List a season's players by name",
+          parameters: [
+            ref("parameters", "Season"),
+            {
+              name: "department",
+              in: "query",
+              description: "Only players in this department",
+              schema: { type: "string" },
+            },
+            {
+              name: "tier",
+              in: "query",
+              description: "Only players in this tier",
+              schema: { type: "integer", enum: [1, 2, 3, 4] },
+            },
+            {
+              name: "q",
+              in: "query",
+              description: "Only players whose name contains this text",
+              schema: { type: "string" },
+            },
+            ref("parameters", "Page"),
+            ref("parameters", "PerPage"),
+          ],
+          responses: {
+            "200": jsonResponse("A page of players", pageOf("Player")),
+            "304": NOT_MODIFIED,
+            "400": ref("responses", "BadRequest"),
+            "404": ref("responses", "NotFound"),
+          },
+        },
+      },
+      "/players/{id}": {
+        get: {
+          operationId: "getPlayer",
+          summary: "Get a player",
+          parameters: [ref("parameters", "Id")],
+          responses: {
+            "200": jsonResponse("The player", dataOf("Player")),
+            "304": NOT_MODIFIED,
+            "404": ref("responses", "NotFound"),
+          },
+        },
+      },
+      "/matches": {
+        get: {
+          operationId: "listMatches",
+          summary: "List a season's matches in the order they were created",
+          parameters: [
+            ref("parameters", "Season"),
+            {
+              name: "phase",
+              in: "query",
+              description:
+                'Only matches in this phase, e.g. "league", "semifinal" or "knockout_r1". "knockout" matches every knockout phase.',
+              schema: { type: "string" },
+            },
+            {
+              name: "status",
+              in: "query",
+              description: "Only matches with this status",
+              schema: schema("MatchStatus"),
+            },
+            {
+              name: "player",
+              in: "query",
+              description: "Only matches this player is in",
+              schema: { type: "string", format: "uuid" },
+            },
+            ref("parameters", "Page"),
+            ref("parameters", "PerPage"),
+          ],
+          responses: {
+            "200": jsonResponse("A page of matches", pageOf("Match")),
+            "304": NOT_MODIFIED,
+            "400": ref("responses", "BadRequest"),
+            "404": ref("responses", "NotFound"),
+          },
+        },
+      },
+      "/matches/{id}": {
+        get: {
+          operationId: "getMatch",
+          summary: "Get a match",
+          parameters: [ref("parameters", "Id")],
+          responses: {
+            "200": jsonResponse("The match", dataOf("Match")),
+            "304": NOT_MODIFIED,
+            "404": ref("responses", "NotFound"),
+          },
+        },
+      },
+      "/standings": {
+        get: {
+          operationId: "getStandings",
+          summary: "Get the league table",
+          description:
+            "Ranked as on the standings page. Players in a qualifying place have their knockout seed.",
+          parameters: [
+            ref("parameters", "Season"),
+            {
+              name: "group",
+              in: "query",
+              description: "Only players in this group of a group stage",
+              schema: { type: "string" },
+            },
+            {
+              name: "department",
+              in: "query",
+              description: "Only players in this department",
+              schema: { type: "string" },
+            },
+            ref("parameters", "Page"),
+            ref("parameters", "PerPage"),
+          ],
+          responses: {
+            "200": jsonResponse("A page of the table", {
+              allOf: [
+                pageOf("Standing"),
+                {
+                  type: "object",
+                  required: ["season", "league_format", "qualifier_count"],
+                  properties: {
+                    season: schema("Season"),
+                    league_format: {
+                      type: "string",
+                      enum: ["round_robin", "swiss", "groups"],
+                    },
+                    qualifier_count: { type: "integer" },
+                  },
+                },
+              ],
+            }),
+            "304": NOT_MODIFIED,
+            "400": ref("responses", "BadRequest"),
+            "404": ref("responses", "NotFound"),
+          },
+        },
+      },
+      "/bracket": {
+        get: {
+          operationId: "getBracket",
+          summary: "Get the knockout bracket",
+          parameters: [ref("parameters", "Season")],
+          responses: {
+            "200": jsonResponse("The bracket", dataOf("Bracket")),
+            "304": NOT_MODIFIED,
+            "404": ref("responses", "NotFound"),
+          },
+        },
+      },
+    },
+    components: {
+      parameters: {
+        Id: {
+          name: "id",
+          in: "path",
+          required: true,
+          schema: { type: "string", format: "uuid" },
+        },
+        Season: {
+          name: "season",
+          in: "query",
+          description: "Season ID. Defaults to the active season.",
+          schema: { type: "string", format: "uuid" },
+        },
+        Page: {
+          name: "page",
+          in: "query",
+          schema: { type: "integer", minimum: 1, default: 1 },
+        },
+        PerPage: {
+          name: "per_page",
+          in: "query",
+          schema: {
+            type: "integer",
+            minimum: 1,
+            maximum: MAX_PAGE_SIZE,
+            default: DEFAULT_PAGE_SIZE,
+          },
+        },
+      },
+      responses: {
+        BadRequest: jsonResponse(
+          "A query parameter is invalid",
+          schema("Error"),
+        ),
+        NotFound: jsonResponse(
+          "The season, player or match does not exist",
+          schema("Error"),
+        ),
+      },
+      schemas: {
+        Error: {
+          type: "object",
+          required: ["error"],
+          properties: { error: { type: "string" } },
+        },
+        Pagination: {
+          type: "object",
+          required: ["page", "per_page", "total", "total_pages"],
+          properties: {
+            page: { type: "integer" },
+            per_page: { type: "integer" },
+            total: { type: "integer" },
+            total_pages: { type: "integer" },
+          },
+        },
+        Season: {
+          type: "object",
+          required: ["id", "name", "is_active", "created_at"],
+          properties: {
+            id: { type: "string", format: "uuid" },
+            name: { type: "string" },
+            is_active: { type: "boolean" },
+            created_at: { type: "string", format: "date-time" },
+          },
+        },
+        Player: {
+          type: "object",
+          required: ["id", "name", "department", "tier", "season_id"],
+          properties: {
+            id: { type: "string", format: "uuid" },
+            name: { type: "string" },
+            department: { type: ["string", "null"] },
+            tier: { type: "integer", enum: [1, 2, 3, 4] },
+            season_id: { type: "string", format: "uuid" },
+          },
+        },
+        MatchStatus: {
+          type: "string",
+          enum: ["scheduled", "completed", "pending_confirmation", "disputed"],
+        },
+        Match: {
+          type: "object",
+          required: [
+            "id",
+            "season_id",
+            "phase",
+            "status",
+            "player1",
+            "player2",
+            "winner_id",
+            "set_scores",
+            "result_type",
+            "result_reason",
+            "knockout_position",
+            "scheduled_at",
+            "table_label",
+            "recorded_at",
+          ],
+          properties: {
+            id: { type: "string", format: "uuid" },
+            season_id: { type: "string", format: "uuid" },
+            phase: {
+              type: "string",
+              description:
+                "league, knockout_r<n>, semifinal, final, third_place, winners_r<n>, losers_r<n>, grand_final or grand_final_reset",
+            },
+            status: schema("MatchStatus"),
+            player1: schema("Player"),
+            player2: schema("Player"),
+            winner_id: { type: ["string", "null"], format: "uuid" },
+            set_scores: {
+              type: "array",
+              description: "Points per set in the order played, player 1 first",
+              items: {
+                type: "array",
+                items: { type: "integer" },
+                minItems: 2,
+                maxItems: 2,
+              },
+            },
+            result_type: {
+              type: "string",
+              enum: ["normal", "walkover", "forfeit", "retired"],
+            },
+            result_reason: { type: ["string", "null"] },
+            knockout_position: { type: ["integer", "null"] },
+            scheduled_at: { type: ["string", "null"], format: "date-time" },
+            table_label: { type: ["string", "null"] },
+            recorded_at: { type: ["string", "null"], format: "date-time" },
+          },
+        },
+        Standing: {
+          type: "object",
+          required: [
+            "rank",
+            "player",
+            "played",
+            "wins",
+            "losses",
+            "points",
+            "set_diff",
+            "point_diff",
+            "group",
+            "seed",
+            "bye",
+          ],
+          properties: {
+            rank: { type: "integer" },
+            player: schema("Player"),
+            played: { type: "integer" },
+            wins: { type: "integer" },
+            losses: { type: "integer" },
+            points: { type: "integer" },
+            set_diff: { type: "integer" },
+            point_diff: { type: "integer" },
+            group: { type: ["string", "null"] },
+            seed: {
+              type: ["integer", "null"],
+              description:
+                "Knockout seed, or null outside the qualifying places",
+            },
+            bye: {
+              type: "boolean",
+              description: "Whether the seed skips the first knockout round",
+            },
+          },
+        },
+        Bracket: {
+          type: "object",
+          required: ["season", "format", "seeds", "rounds", "placements"],
+          properties: {
+            season: schema("Season"),
+            format: {
+              type: "object",
+              required: [
+                "elimination",
+                "qualifier_count",
+                "bye_count",
+                "bracket_reset",
+                "third_place_match",
+              ],
+              properties: {
+                elimination: { type: "string", enum: ["single", "double"] },
+                qualifier_count: { type: "integer" },
+                bye_count: { type: "integer" },
+                bracket_reset: { type: "boolean" },
+                third_place_match: { type: "boolean" },
+              },
+            },
+            seeds: {
+              type: "array",
+              items: {
+                type: "object",
+                required: ["seed", "player", "bye"],
+                properties: {
+                  seed: { type: "integer" },
+                  player: schema("Player"),
+                  bye: { type: "boolean" },
+                },
+              },
+            },
+            rounds: {
+              type: "array",
+              description: "In play order; a round has no matches until drawn",
+              items: {
+                type: "object",
+                required: [
+                  "phase",
+                  "label",
+                  "side",
+                  "match_count",
+                  "byes_enter",
+                  "matches",
+                ],
+                properties: {
+                  phase: { type: "string" },
+                  label: { type: "string" },
+                  side: {
+                    type: "string",
+                    enum: [
+                      "main",
+                      "winners",
+                      "losers",
+                      "grand_final",
+                      "third_place",
+                    ],
+                  },
+                  match_count: { type: "integer" },
+                  byes_enter: { type: "boolean" },
+                  matches: arrayOf("Match"),
+                },
+              },
+            },
+            placements: {
+              type: "array",
+              items: {
+                type: "object",
+                required: ["place", "player"],
+                properties: {
+                  place: { type: "integer" },
+                  player: schema("Player"),
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  };
+}
+
+function ref(section: "parameters" | "responses", name: string) {
+  return { $ref: `#/components/${section}/${name}` };
+}
+
+function schema(name: string) {
+  return { $ref: `#/components/schemas/${name}` };
+}
+
+function arrayOf(name: string) {
+  return { type: "array", items: schema(name) };
+}
+
+function dataOf(name: string) {
+  return {
+    type: "object",
+    required: ["data"],
+    properties: { data: schema(name) },
+  };
+}
+
+function pageOf(name: string) {
+  return {
+    type: "object",
+    required: ["data", "pagination"],
+    properties: { data: arrayOf(name), pagination: schema("Pagination") },
+  };
+}
+
+function jsonResponse(description: string, body: object) {
+  return { description, content: { "application/json": { schema: body } } };
+}
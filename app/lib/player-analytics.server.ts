@@ -0,0 +1,116 @@
+import { getRecentForm } from "./head-to-head.server";
+import { getSetsToWin } from "./match-format";
+import type {
+  MatchWithPlayers,
+  PlayerAnalytics,
+  PointsPerGame,
+  SetScore,
+} from "./types";
+
+const TIERS = [1, 2, 3, 4] as const;
+
+/**
+ * Replay a player's completed matches in the order they were recorded.
+ * Walkovers and forfeits count towards streaks and tier records but have no
+ * sets, so they are left out of comebacks, deciding sets and points per game.
+ */
+export function calculatePlayerAnalytics(
+  playerId: string,
+  matches: MatchWithPlayers[],
+): PlayerAnalytics {
+  const chronological = matches
+    .filter(
+      (m) =>
+        m.status === "completed" &&
+        (m.player1_id === playerId || m.player2_id === playerId),
+    )
+    .sort((a, b) => (a.recorded_at || "").localeCompare(b.recorded_at || ""));
+
+  const analytics: PlayerAnalytics = {
+    currentStreak: null,
+    longestWinStreak: 0,
+    form: getRecentForm(playerId, chronological),
+    byTier: TIERS.map((tier) => ({ tier, played: 0, wins: 0 })),
+    comebacks: { chances: 0, wins: 0 },
+    decidingSets: { won: 0, lost: 0 },
+    pointsPerGame: [],
+  };
+
+  for (const match of chronological) {
+    const isPlayer1 = match.player1_id === playerId;
+    const won = match.winner_id === playerId;
+    const opponent = isPlayer1 ? match.player2 : match.player1;
+
+    // Streaks
+    const streak = analytics.currentStreak;
+    analytics.currentStreak =
+      streak && streak.won === won
+        ? { won, length: streak.length + 1 }
+        : { won, length: 1 };
+    if (won) {
+      analytics.longestWinStreak = Math.max(
+        analytics.longestWinStreak,
+        analytics.currentStreak.length,
+      );
+    }
+
+    const tierRecord = analytics.byTier.find((t) => t.tier === opponent.tier);
+    if (tierRecord) {
+      tierRecord.played++;
+      if (won) tierRecord.wins++;
+    }
+
+    const sets: SetScore[] = match.set_scores.map(([p1, p2]) =>
+      isPlayer1 ? [p1, p2] : [p2, p1],
+    );
+    if (sets.length === 0) continue;
+
+    // A comeback needs the match to be played on after losing set 1
+    if (sets[0][0] < sets[0][1]) {
+      analytics.comebacks.chances++;
+      if (won) analytics.comebacks.wins++;
+    }
+
+    if (
+      isDecidedInFinalSet(sets, match.best_of) &&
+      match.result_type === "normal"
+    ) {
+      if (won) analytics.decidingSets.won++;
+      else analytics.decidingSets.lost++;
+    }
+
+    analytics.pointsPerGame.push(getPointsPerGame(match, sets));
+  }
+
+  return analytics;
+}
+
+/**
+ * Whether the last set was played at one set all (2-2 in a best of 5, ...).
+ */
+function isDecidedInFinalSet(sets: SetScore[], bestOf: number): boolean {
+  const setsBeforeLast = sets.slice(0, -1);
+  const wonBeforeLast = setsBeforeLast.filter(([own, opp]) => own > opp).length;
+  const needed = getSetsToWin(bestOf) - 1;
+
+  return (
+    needed > 0 &&
+    wonBeforeLast === needed &&
+    setsBeforeLast.length - wonBeforeLast === needed
+  );
+}
+
+function getPointsPerGame(
+  match: MatchWithPlayers,
+  sets: SetScore[],
+): PointsPerGame {
+  const scored = sets.reduce((sum, [own]) => sum + own, 0);
+  const conceded = sets.reduce((sum, [, opp]) => sum + opp, 0);
+
+  return {
+    matchId: match.id,
+    recordedAt: match.recorded_at,
+    scored: Math.round((scored / sets.length) * 10) / 10,
+    conceded: Math.round((conceded / sets.length) * 10) / 10,
+  };
+}
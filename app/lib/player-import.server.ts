@@ -0,0 +1,184 @@
+import type { Player, PlayerImportRow } from "./types";
+
+// Accepted header names for each column (lowercased, spaces as underscores)
+const COLUMN_ALIASES: Record<
+  "name" | "department" | "slack_handle" | "tier",
+  string[]
+> = {
+  name: ["name", "player", "full_name"],
+  department: ["department", "dept", "team"],
+  slack_handle: ["slack_handle", "slack", "handle"],
+  tier: ["tier"],
+};
+
+const DEFAULT_TIER = 4;
+
+/**
+ * Parse a CSV or TSV player list (with a header row) and validate every row
+ * against the players already in the season.
+ * Slack handles must be unique within a season (idx_players_slack_handle) and
+ * tiers must be 1-4; rows with errors block the import, warnings do not.
+ */
+export function parsePlayerImport(
+  text: string,
+  existingPlayers: Player[],
+): { rows: PlayerImportRow[]; error: string | null } {
+  const lines = parseDelimited(text.replace(/^\uFEFF/, ""));
+  if (lines.length === 0 || lines[0].every((cell) => !cell.trim())) {
+    return { rows: [], error: "The file is empty" };
+  }
+
+  const header = lines[0].map((cell) =>
+    cell.trim().toLowerCase().replace(/\s+/g, "_"),
+  );
+  const columnIndex = Object.fromEntries(
+    Object.entries(COLUMN_ALIASES).map(([column, aliases]) => [
+      column,
+      header.findIndex((cell) => aliases.includes(cell)),
+    ]),
+  ) as Record<keyof typeof COLUMN_ALIASES, number>;
+
+  if (columnIndex.name === -1) {
+    return {
+      rows: [],
+      error:
+        "The first row must be a header with at least a name column (name, department, slack_handle, tier)",
+    };
+  }
+
+  const existingHandles = new Map(
+    existingPlayers
+      .filter((p) => p.slack_handle)
+      .map((p) => [p.slack_handle as string, p.name]),
+  );
+  const existingNames = new Set(
+    existingPlayers.map((p) => p.name.toLowerCase()),
+  );
+  const firstLineByHandle = new Map<string, number>();
+  const firstLineByName = new Map<string, number>();
+  const rows: PlayerImportRow[] = [];
+
+  lines.slice(1).forEach((cells, index) => {
+    const line = index + 2;
+    const cell = (column: keyof typeof COLUMN_ALIASES) =>
+      columnIndex[column] === -1
+        ? ""
+        : (cells[columnIndex[column]] ?? "").trim();
+
+    // Skip blank lines, e.g. a trailing newline from the spreadsheet export
+    if (cells.every((value) => !value.trim())) return;
+
+    const name = cell("name");
+    const slackHandle = normalizeSlackHandle(cell("slack_handle"));
+    const tierValue = cell("tier");
+    const tier = tierValue ? Number(tierValue) : DEFAULT_TIER;
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    if (!name) {
+      errors.push("Name is required");
+    }
+
+    const validTier = Number.isInteger(tier) && tier >= 1 && tier <= 4;
+    if (!validTier) {
+      errors.push(`Tier must be 1-4 (got "${tierValue}")`);
+    }
+
+    if (slackHandle) {
+      if (existingHandles.has(slackHandle)) {
+        errors.push(
+          `@${slackHandle} is already used by ${existingHandles.get(slackHandle)} this season`,
+        );
+      } else if (firstLineByHandle.has(slackHandle)) {
+        errors.push(
+          `@${slackHandle} is also on line ${firstLineByHandle.get(slackHandle)}`,
+        );
+      } else {
+        firstLineByHandle.set(slackHandle, line);
+      }
+    }
+
+    if (name) {
+      const key = name.toLowerCase();
+      if (existingNames.has(key)) {
+        warnings.push("A player with this name already exists this season");
+      } else if (firstLineByName.has(key)) {
+        warnings.push(`Same name as line ${firstLineByName.get(key)}`);
+      } else {
+        firstLineByName.set(key, line);
+      }
+    }
+
+    rows.push({
+      line,
+      name,
+      department: cell("department") || null,
+      slack_handle: slackHandle,
+      tier: (validTier ? tier : DEFAULT_TIER) as PlayerImportRow["tier"],
+      errors,
+      warnings,
+    });
+  });
+
+  if (rows.length === 0) {
+    return { rows, error: "The file has a header row but no players" };
+  }
+
+  return { rows, error: null };
+}
+
+/**
+ * Split CSV or TSV text into rows of cells. The delimiter is taken from the
+ * header row (tab if it has one, otherwise comma). Handles quoted cells with
+ * embedded delimiters, newlines and doubled quotes.
+ */
+function parseDelimited(text: string): string[][] {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? "";
+  const delimiter = firstLine.includes("\t") ? "\t" : ",";
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === "") {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+function normalizeSlackHandle(value: string): string | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  const withoutAt = trimmed.startsWith("@") ? trimmed.slice(1) : trimmed;
+  return withoutAt.trim().toLowerCase() || null;
+}
@@ -0,0 +1,140 @@
+import { isUnplayedResult } from "./match-result";
+import type {
+  Match,
+  Player,
+  PlayerRating,
+  RatingChange,
+  TierSuggestion,
+} from "./types";
+
+// Players start from a rating implied by the tier they were added with
+export const INITIAL_RATING_BY_TIER: Record<1 | 2 | 3 | 4, number> = {
+  1: 1800,
+  2: 1650,
+  3: 1500,
+  4: 1350,
+};
+
+export const RATING_K_FACTOR = 32;
+
+// Ratings are provisional until a player has this many rated matches
+export const PROVISIONAL_MATCH_COUNT = 5;
+
+/**
+ * Calculate Elo ratings by replaying completed matches in the order they were
+ * recorded. League and knockout matches both count; walkovers and forfeits
+ * don't, since nothing was played.
+ * Returns ratings sorted from highest to lowest, each with its full history.
+ */
+export function calculateRatings(
+  players: Player[],
+  matches: Match[],
+): PlayerRating[] {
+  const ratingsMap = new Map<string, PlayerRating>();
+
+  for (const player of players) {
+    const initialRating = INITIAL_RATING_BY_TIER[player.starting_tier];
+    ratingsMap.set(player.id, {
+      player,
+      rank: 0,
+      rating: initialRating,
+      peakRating: initialRating,
+      matchesPlayed: 0,
+      provisional: true,
+      history: [],
+    });
+  }
+
+  const ratedMatches = matches
+    .filter(
+      (m) => m.status === "completed" && m.winner_id && !isUnplayedResult(m),
+    )
+    .sort(compareByRecordedAt);
+
+  for (const match of ratedMatches) {
+    const p1Rating = ratingsMap.get(match.player1_id);
+    const p2Rating = ratingsMap.get(match.player2_id);
+
+    if (!p1Rating || !p2Rating) continue;
+
+    const p1Won = match.winner_id === match.player1_id;
+    const p1Expected = getExpectedScore(p1Rating.rating, p2Rating.rating);
+    const p1Delta = Math.round(RATING_K_FACTOR * ((p1Won ? 1 : 0) - p1Expected));
+    const recordedAt = match.recorded_at || match.created_at;
+
+    applyRatingChange(p1Rating, {
+      matchId: match.id,
+      opponentId: match.player2_id,
+      recordedAt,
+      won: p1Won,
+      ratingBefore: p1Rating.rating,
+      ratingAfter: p1Rating.rating + p1Delta,
+      delta: p1Delta,
+    });
+    applyRatingChange(p2Rating, {
+      matchId: match.id,
+      opponentId: match.player1_id,
+      recordedAt,
+      won: !p1Won,
+      ratingBefore: p2Rating.rating,
+      ratingAfter: p2Rating.rating - p1Delta,
+      delta: -p1Delta,
+    });
+  }
+
+  const ratings = Array.from(ratingsMap.values()).sort(
+    (a, b) => b.rating - a.rating || a.player.name.localeCompare(b.player.name),
+  );
+
+  ratings.forEach((rating, index) => {
+    rating.rank = index + 1;
+  });
+
+  return ratings;
+}
+
+/**
+ * Expected score (win probability) of a player against an opponent.
+ */
+export function getExpectedScore(rating: number, opponentRating: number): number {
+  return 1 / (1 + Math.pow(10, (opponentRating - rating) / 400));
+}
+
+/**
+ * Propose tiers from ratings, keeping the current number of players per tier.
+ * Players with provisional ratings keep their tier and are left out.
+ */
+export function suggestTiersFromRatings(
+  ratings: PlayerRating[],
+): TierSuggestion[] {
+  const established = ratings.filter((r) => !r.provisional);
+
+  // Fill tiers top-down with as many players as each tier holds today
+  const tierSlots = established
+    .map((r) => r.player.tier)
+    .sort((a, b) => a - b);
+
+  return [...established]
+    .sort((a, b) => b.rating - a.rating)
+    .map((rating, index) => ({
+      player: rating.player,
+      rating: rating.rating,
+      currentTier: rating.player.tier,
+      suggestedTier: tierSlots[index],
+    }));
+}
+
+function applyRatingChange(playerRating: PlayerRating, change: RatingChange) {
+  playerRating.history.push(change);
+  playerRating.rating = change.ratingAfter;
+  playerRating.peakRating = Math.max(playerRating.peakRating, change.ratingAfter);
+  playerRating.matchesPlayed++;
+  playerRating.provisional =
+    playerRating.matchesPlayed < PROVISIONAL_MATCH_COUNT;
+}
+
+function compareByRecordedAt(a: Match, b: Match): number {
+  const aTime = a.recorded_at || a.created_at;
+  const bTime = b.recorded_at || b.created_at;
+  return aTime.localeCompare(bTime) || a.id.localeCompare(b.id);
+}
@@ -0,0 +1,246 @@
+import { DEFAULT_BRACKET_FORMAT } from "./bracket";
+import { DEFAULT_LEAGUE_FORMAT } from "./league-format";
+import { DEFAULT_MATCH_FORMAT } from "./match-format";
+import type { MatchPairInput } from "./suggestions";
+import {
+  calculateGroupStandings,
+  calculateSeedingStandings,
+  calculateStandings,
+  deriveStandingsQualification,
+} from "./tournament.server";
+import type {
+  BracketFormat,
+  LeagueFormat,
+  MatchWithPlayers,
+  Player,
+  QualificationStatus,
+  SimulatedOutcome,
+  SwissBye,
+} from "./types";
+import { TIER_POINTS } from "./types";
+
+/**
+ * Re-run the league table with hypothetical results for pairs that haven't
+ * played. A simulated result counts like a walkover: the win, tier points,
+ * head-to-head and the sets needed to win, but no rally points. Outcomes for
+ * pairs that aren't in `remaining`, or whose winner isn't one of the pair,
+ * are ignored.
+ */
+export function simulateStandings(
+  players: Player[],
+  matches: MatchWithPlayers[],
+  remaining: MatchPairInput[],
+  outcomes: SimulatedOutcome[],
+  leagueFormat: LeagueFormat = DEFAULT_LEAGUE_FORMAT,
+  format: BracketFormat = DEFAULT_BRACKET_FORMAT,
+  bestOf: number = DEFAULT_MATCH_FORMAT.best_of,
+  swissByes: Pick<SwissBye, "player_id">[] = [],
+) {
+  const playerById = new Map(players.map((p) => [p.id, p]));
+  const simulated: MatchWithPlayers[] = [];
+
+  for (const outcome of outcomes) {
+    const pair = remaining.find((m) =>
+      isPair(m, outcome.player1Id, outcome.player2Id),
+    );
+    const player1 = playerById.get(outcome.player1Id);
+    const player2 = playerById.get(outcome.player2Id);
+    if (
+      !pair ||
+      !player1 ||
+      !player2 ||
+      (outcome.winnerId !== player1.id && outcome.winnerId !== player2.id)
+    ) {
+      continue;
+    }
+
+    // Scheduled fixtures (Swiss rounds, group stages) keep their group
+    const fixture = matches.find(
+      (m) =>
+        m.phase === "league" &&
+        m.status !== "completed" &&
+        isPair(m, player1.id, player2.id),
+    );
+    const now = new Date().toISOString();
+
+    simulated.push({
+      id: fixture?.id || `simulated-${player1.id}-${player2.id}`,
+      season_id: player1.season_id,
+      player1_id: player1.id,
+      player2_id: player2.id,
+      player1,
+      player2,
+      phase: "league",
+      status: "completed",
+      winner_id: outcome.winnerId,
+      set_scores: [],
+      best_of: bestOf,
+      knockout_position: null,
+      swiss_round: fixture?.swiss_round ?? null,
+      group_name: fixture?.group_name ?? null,
+      scheduled_at: null,
+      table_label: null,
+      recorded_by: null,
+      recorded_at: now,
+      reported_by_player_id: null,
+      reported_at: null,
+      confirmed_at: null,
+      dispute_reason: null,
+      result_type: "walkover",
+      result_reason: "Simulated result",
+      created_at: now,
+      updated_at: now,
+    });
+  }
+
+  const simulatedIds = new Set(simulated.map((m) => m.id));
+  const scenarioMatches = [
+    ...matches.filter((m) => !simulatedIds.has(m.id)),
+    ...simulated,
+  ];
+
+  return {
+    standings: calculateStandings(
+      players,
+      scenarioMatches,
+      leagueFormat,
+      swissByes,
+    ),
+    qualification: deriveStandingsQualification(
+      calculateSeedingStandings(
+        players,
+        scenarioMatches,
+        leagueFormat,
+        swissByes,
+      ),
+      format,
+    ),
+  };
+}
+
+/**
+ * Clinched, eliminated or still alive for every player who can qualify.
+ *
+ * Each player is compared with the others in their pool (the whole league, or
+ * their group) using league points only: a player's worst case is the points
+ * they have, their best case adds a win in every remaining match. A player
+ * has clinched when fewer rivals than there are places could reach their
+ * worst case, and is eliminated when enough rivals are already out of reach
+ * of their best case. Ties count against the player, since tie-breaks can't
+ * be predicted, so close races stay "alive" until the pool is finished.
+ *
+ * Swiss leagues only know the current round's pairings, so they get no
+ * status.
+ */
+export function calculateQualificationStatuses(
+  players: Player[],
+  matches: MatchWithPlayers[],
+  remaining: MatchPairInput[],
+  leagueFormat: LeagueFormat = DEFAULT_LEAGUE_FORMAT,
+  format: BracketFormat = DEFAULT_BRACKET_FORMAT,
+): Record<string, QualificationStatus> {
+  const statuses: Record<string, QualificationStatus> = {};
+  if (leagueFormat.mode === "swiss") return statuses;
+
+  const playerById = new Map(players.map((p) => [p.id, p]));
+  const { qualifiedPlayerIds } = deriveStandingsQualification(
+    calculateSeedingStandings(players, matches, leagueFormat),
+    format,
+  );
+
+  const pools =
+    leagueFormat.mode === "groups"
+      ? calculateGroupStandings(players, matches, leagueFormat).map(
+          ({ standings }) => ({
+            standings,
+            places: leagueFormat.advance_per_group,
+          }),
+        )
+      : [
+          {
+            standings: calculateStandings(players, matches, leagueFormat),
+            places: format.qualifier_count,
+          },
+        ];
+
+  for (const pool of pools) {
+    const contenders = pool.standings.filter(
+      (s) => !s.player.disqualified_from_qualification,
+    );
+    const poolIds = new Set(pool.standings.map((s) => s.player.id));
+    const poolRemaining = remaining.filter(
+      (m) => poolIds.has(m.player1_id) && poolIds.has(m.player2_id),
+    );
+
+    // A finished pool is decided by the table, tie-breaks included
+    if (poolRemaining.length === 0) {
+      for (const { player } of contenders) {
+        statuses[player.id] = qualifiedPlayerIds.includes(player.id)
+          ? "clinched"
+          : "eliminated";
+      }
+      continue;
+    }
+
+    const bounds = new Map(
+      contenders.map((s) => [
+        s.player.id,
+        {
+          min: s.points,
+          max:
+            s.points +
+            getAvailablePoints(s.player.id, poolRemaining, playerById),
+        },
+      ]),
+    );
+
+    for (const { player } of contenders) {
+      const own = bounds.get(player.id)!;
+      const rivals = contenders
+        .filter((s) => s.player.id !== player.id)
+        .map((s) => bounds.get(s.player.id)!);
+
+      const couldCatch = rivals.filter((r) => r.max >= own.min).length;
+      const outOfReach = rivals.filter((r) => r.min > own.max).length;
+
+      statuses[player.id] =
+        couldCatch < pool.places
+          ? "clinched"
+          : outOfReach >= pool.places
+            ? "eliminated"
+            : "alive";
+    }
+  }
+
+  return statuses;
+}
+
+/**
+ * League points a player would add by winning all their remaining matches.
+ */
+function getAvailablePoints(
+  playerId: string,
+  remaining: MatchPairInput[],
+  playerById: Map<string, Player>,
+): number {
+  return remaining.reduce((sum, match) => {
+    if (match.player1_id !== playerId && match.player2_id !== playerId) {
+      return sum;
+    }
+    const opponentId =
+      match.player1_id === playerId ? match.player2_id : match.player1_id;
+    const opponent = playerById.get(opponentId);
+    return opponent ? sum + TIER_POINTS[opponent.tier] : sum;
+  }, 0);
+}
+
+function isPair(
+  match: MatchPairInput,
+  player1Id: string,
+  player2Id: string,
+): boolean {
+  return (
+    (match.player1_id === player1Id && match.player2_id === player2Id) ||
+    (match.player1_id === player2Id && match.player2_id === player1Id)
+  );
+}
@@ -0,0 +1,345 @@
+import type {
+  Match,
+  MatchPhase,
+  PlayerAvailability,
+  ScheduleConflict,
+  ScheduleSettings,
+} from "./types";
+
+export const DEFAULT_SCHEDULE_SETTINGS: ScheduleSettings = {
+  tables: ["Table 1"],
+  slot_minutes: 30,
+  round_deadlines: {},
+  time_zone: "Europe/London",
+};
+
+/**
+ * Read the stored schedule settings, falling back to one table, 30 minute
+ * slots and London time when they are missing or invalid. Deadlines that
+ * aren't dates are dropped.
+ */
+export function parseScheduleSettings(value: unknown): ScheduleSettings {
+  if (!value || typeof value !== "object") return DEFAULT_SCHEDULE_SETTINGS;
+
+  const candidate = value as Partial<ScheduleSettings>;
+  const settings: ScheduleSettings = {
+    tables: Array.isArray(candidate.tables)
+      ? candidate.tables
+          .map((table) => String(table).trim())
+          .filter((table) => table.length > 0)
+      : DEFAULT_SCHEDULE_SETTINGS.tables,
+    slot_minutes: Number(
+      candidate.slot_minutes ?? DEFAULT_SCHEDULE_SETTINGS.slot_minutes,
+    ),
+    round_deadlines: Object.fromEntries(
+      Object.entries(
+        candidate.round_deadlines &&
+          typeof candidate.round_deadlines === "object"
+          ? candidate.round_deadlines
+          : {},
+      ).filter(([, date]) => isDate(date)),
+    ),
+    // Settings saved before the time zone was configurable use the default
+    time_zone: candidate.time_zone ?? DEFAULT_SCHEDULE_SETTINGS.time_zone,
+  };
+
+  return validateScheduleSettings(settings)
+    ? DEFAULT_SCHEDULE_SETTINGS
+    : settings;
+}
+
+/**
+ * Validate schedule settings. Returns an error message, or null if valid.
+ */
+export function validateScheduleSettings(
+  settings: ScheduleSettings,
+): string | null {
+  if (settings.tables.length === 0) {
+    return "Add at least one table";
+  }
+
+  if (new Set(settings.tables).size !== settings.tables.length) {
+    return "Table names must be unique";
+  }
+
+  if (
+    !Number.isInteger(settings.slot_minutes) ||
+    settings.slot_minutes < 5 ||
+    settings.slot_minutes > 240
+  ) {
+    return "Match slots must be a whole number of minutes between 5 and 240";
+  }
+
+  if (!Object.values(settings.round_deadlines).every(isDate)) {
+    return "Round deadlines must be dates";
+  }
+
+  if (!isTimeZone(settings.time_zone)) {
+    return "Enter a time zone name such as Europe/London";
+  }
+
+  return null;
+}
+
+/**
+ * The date a match has to be played by, or null if there is none. League
+ * matches use the league deadline; knockout rounds their own deadline, with
+ * the third-place match following the final and a grand final reset the
+ * grand final.
+ */
+export function getMatchDeadline(
+  phase: MatchPhase | string,
+  settings: ScheduleSettings,
+  leagueDeadline: string | null,
+): string | null {
+  if (phase === "league") return leagueDeadline;
+
+  const deadlines = settings.round_deadlines as Record<string, string>;
+  if (deadlines[phase]) return deadlines[phase];
+  if (phase === "third_place") return deadlines.final || null;
+  if (phase === "grand_final_reset") return deadlines.grand_final || null;
+  return null;
+}
+
+/**
+ * Whether an unplayed match has missed its deadline, or is booked for after
+ * it. Deadlines are inclusive: the whole deadline day, in the tournament's
+ * time zone, is still in time.
+ */
+export function isOverdue(
+  match: Pick<Match, "status" | "scheduled_at">,
+  deadline: string | null,
+  timeZone: string,
+  now: Date = new Date(),
+): boolean {
+  if (!deadline || match.status !== "scheduled") return false;
+
+  const afterDeadline = getDayStart(addDays(deadline, 1), timeZone);
+  if (now >= afterDeadline) return true;
+  return match.scheduled_at
+    ? new Date(match.scheduled_at) >= afterDeadline
+    : false;
+}
+
+/**
+ * Bookings that overlap a proposed one for either player or the same table.
+ * Every booking lasts one slot; only matches still to be played hold theirs.
+ */
+export function findScheduleConflicts(
+  booking: Pick<Match, "id" | "player1_id" | "player2_id"> & {
+    scheduled_at: string;
+    table_label: string | null;
+  },
+  matches: (Pick<
+    Match,
+    | "id"
+    | "player1_id"
+    | "player2_id"
+    | "status"
+    | "scheduled_at"
+    | "table_label"
+  > & { player1: { name: string }; player2: { name: string } })[],
+  slotMinutes: number,
+  timeZone: string,
+): ScheduleConflict[] {
+  const start = new Date(booking.scheduled_at).getTime();
+  const end = start + slotMinutes * 60_000;
+  const bookingPlayerIds = [booking.player1_id, booking.player2_id];
+  const conflicts: ScheduleConflict[] = [];
+
+  for (const other of matches) {
+    if (other.id === booking.id || other.status !== "scheduled") continue;
+    if (!other.scheduled_at) continue;
+
+    const otherStart = new Date(other.scheduled_at).getTime();
+    const otherEnd = otherStart + slotMinutes * 60_000;
+    if (otherStart >= end || start >= otherEnd) continue;
+
+    const when = formatScheduleTime(other.scheduled_at, timeZone);
+    const sharedPlayer = [
+      [other.player1_id, other.player1.name],
+      [other.player2_id, other.player2.name],
+    ].find(([id]) => bookingPlayerIds.includes(id));
+
+    if (sharedPlayer) {
+      conflicts.push({
+        kind: "player",
+        matchId: other.id,
+        description: `${sharedPlayer[1]} already plays ${other.player1.name} vs ${other.player2.name} at ${when}`,
+      });
+    } else if (
+      booking.table_label &&
+      other.table_label === booking.table_label
+    ) {
+      conflicts.push({
+        kind: "table",
+        matchId: other.id,
+        description: `${booking.table_label} is booked for ${other.player1.name} vs ${other.player2.name} at ${when}`,
+      });
+    }
+  }
+
+  return conflicts;
+}
+
+/**
+ * Whether a booking falls inside one of the player's availability windows.
+ * Players who haven't given any windows are treated as always available.
+ */
+export function isWithinAvailability(
+  scheduledAt: string,
+  slotMinutes: number,
+  windows: Pick<PlayerAvailability, "starts_at" | "ends_at">[],
+): boolean {
+  if (windows.length === 0) return true;
+
+  const start = new Date(scheduledAt).getTime();
+  const end = start + slotMinutes * 60_000;
+  return windows.some(
+    (window) =>
+      new Date(window.starts_at).getTime() <= start &&
+      new Date(window.ends_at).getTime() >= end,
+  );
+}
+
+/**
+ * Short date and time for a booking in the tournament's time zone, e.g.
+ * "Mon 3 Mar, 12:30". The zone is explicit so the server and the browser
+ * render the same text.
+ */
+export function formatScheduleTime(value: string, timeZone: string): string {
+  return new Date(value).toLocaleString("en-GB", {
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    timeZone,
+  });
+}
+
+/**
+ * The Monday of the week a YYYY-MM-DD date falls in.
+ */
+export function getWeekStart(dateKey: string): string {
+  const weekday = new Date(`${dateKey}T00:00:00Z`).getUTCDay();
+  return addDays(dateKey, -((weekday + 6) % 7));
+}
+
+export function addDays(dateKey: string, days: number): string {
+  const date = new Date(`${dateKey}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * The date a moment falls on in a time zone as YYYY-MM-DD, e.g. for date
+ * inputs and URLs.
+ */
+export function toDateKey(date: Date, timeZone: string): string {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+/**
+ * The moment a YYYY-MM-DD date starts in a time zone.
+ */
+export function getDayStart(dateKey: string, timeZone: string): Date {
+  return fromZonedTime(Date.parse(`${dateKey}T00:00:00Z`), timeZone);
+}
+
+/**
+ * A timestamp as a datetime-local input value (wall-clock time in the time
+ * zone, no seconds).
+ */
+export function toDateTimeInputValue(value: string, timeZone: string): string {
+  const { hour, minute } = getZonedParts(new Date(value), timeZone);
+  return `${toDateKey(new Date(value), timeZone)}T${pad(hour)}:${pad(minute)}`;
+}
+
+/**
+ * A datetime-local value as an ISO timestamp, or null if it isn't one. The
+ * browser sends wall-clock time without a zone, so it is read in the
+ * tournament's time zone rather than the server's.
+ */
+export function parseDateTimeInput(
+  value: unknown,
+  timeZone: string,
+): string | null {
+  if (typeof value !== "string") return null;
+
+  const match = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})$/.exec(value);
+  if (!match) return null;
+
+  const [year, month, day, hour, minute] = match.slice(1).map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  // Date.UTC rolls over out-of-range parts such as 30 February
+  if (new Date(wallClock).toISOString().slice(0, 16) !== value) return null;
+
+  return fromZonedTime(wallClock, timeZone).toISOString();
+}
+
+/**
+ * Whether the runtime knows a time zone name, e.g. "Europe/London".
+ */
+export function isTimeZone(value: unknown): value is string {
+  if (typeof value !== "string" || !value) return false;
+  try {
+    new Intl.DateTimeFormat("en-GB", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function getZonedParts(date: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((p) => p.type === type)?.value);
+
+  return {
+    year: part("year"),
+    month: part("month"),
+    day: part("day"),
+    hour: part("hour"),
+    minute: part("minute"),
+    second: part("second"),
+  };
+}
+
+// How far a time zone is ahead of UTC at a moment, in milliseconds
+function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const { year, month, day, hour, minute, second } = getZonedParts(
+    date,
+    timeZone,
+  );
+  const wholeSeconds = date.getTime() - date.getUTCMilliseconds();
+  return Date.UTC(year, month - 1, day, hour, minute, second) - wholeSeconds;
+}
+
+/**
+ * The moment a wall-clock time (given as if it were UTC) happens in a time
+ * zone. The offset is taken twice so times near a clock change land on the
+ * right side of it.
+ */
+function fromZonedTime(wallClock: number, timeZone: string): Date {
+  const guess = wallClock - getTimeZoneOffset(new Date(wallClock), timeZone);
+  return new Date(wallClock - getTimeZoneOffset(new Date(guess), timeZone));
+}
+
+function pad(n: number): string {
+  return String(n).padStart(2, "0");
+}
+
+function isDate(value: unknown): value is string {
+  return typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value);
+}
@@ -0,0 +1,56 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Season } from "./types";
+
+/**
+ * Get the active season. Every write goes to this season.
+ * Throws 500 if the schema has no active season (run supabase/schema.sql).
+ */
+export async function getActiveSeason(
+  supabase: SupabaseClient
+): Promise<Season> {
+  const { data: season } = await supabase
+    .from("seasons")
+    .select("*")
+    .eq("is_active", true)
+    .single();
+
+  if (!season) {
+    throw new Response("No active season", { status: 500 });
+  }
+
+  return season as Season;
+}
+
+/**
+ * Get all seasons, newest first.
+ */
+export async function getSeasons(supabase: SupabaseClient): Promise<Season[]> {
+  const { data: seasons } = await supabase
+    .from("seasons")
+    .select("*")
+    .order("created_at", { ascending: false });
+
+  return (seasons as Season[]) || [];
+}
+
+/**
+ * Resolve the season to display from the `?season=` search param.
+ * Falls back to the active season; past seasons are read-only.
+ */
+export async function resolveSeason(
+  supabase: SupabaseClient,
+  request: Request
+): Promise<{ season: Season; seasons: Season[]; isArchived: boolean }> {
+  const seasons = await getSeasons(supabase);
+  const seasonId = new URL(request.url).searchParams.get("season");
+
+  const season =
+    seasons.find((s) => s.id === seasonId) ||
+    seasons.find((s) => s.is_active);
+
+  if (!season) {
+    throw new Response("No active season", { status: 500 });
+  }
+
+  return { season, seasons, isArchived: !season.is_active };
+}
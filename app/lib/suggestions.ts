@@ -27,11 +27,17 @@ export function buildPlayedPairs(matches: MatchPairInput[]) {
   return pairs;
 }
 
+/**
+ * League matches still to play among the given players. A Swiss league only
+ * has the current round's pairings open, so pass them to limit the result.
+ */
 export function generateUnplayedLeagueMatchups(
   players: PlayerSummary[],
-  completedMatches: MatchPairInput[]
+  completedMatches: MatchPairInput[],
+  pairings?: MatchPairInput[]
 ) {
   const playedPairs = buildPlayedPairs(completedMatches);
+  const openPairs = pairings ? buildPlayedPairs(pairings) : null;
   const matchups: Matchup[] = [];
 
   for (let i = 0; i < players.length; i += 1) {
@@ -39,7 +45,7 @@ export function generateUnplayedLeagueMatchups(
       const player1 = players[i];
       const player2 = players[j];
       const key = getPairKey(player1.id, player2.id);
-      if (!playedPairs.has(key)) {
+      if (!playedPairs.has(key) && (!openPairs || openPairs.has(key))) {
         matchups.push({ player1, player2 });
       }
     }
@@ -1,4 +1,5 @@
 import { createServerClient } from "@supabase/ssr";
+import { createClient } from "@supabase/supabase-js";
 
 export function createSupabaseServerClient(request: Request) {
   const cookies = parseCookies(request.headers.get("Cookie") ?? "");
@@ -31,6 +32,20 @@ export function createSupabaseServerClient(request: Request) {
   return { supabase, headers };
 }
 
+/**
+ * A client with the service role key, for the scheduled webhook job only: it
+ * has no user session, and the webhook functions accept the service role in
+ * place of an editor. Returns null when the key isn't configured.
+ */
+export function createSupabaseServiceClient() {
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!serviceRoleKey) return null;
+
+  return createClient(process.env.SUPABASE_URL!, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+}
+
 function parseCookies(cookieHeader: string): Record<string, string> {
   const cookies: Record<string, string> = {};
   cookieHeader.split(";").forEach((cookie) => {
@@ -1,19 +1,42 @@
+import {
+  DEFAULT_BRACKET_FORMAT,
+  getDoubleEliminationSources,
+  getKnockoutPlacements,
+  getKnockoutRounds,
+  getRoundLabel,
+} from "./bracket";
+import {
+  DEFAULT_LEAGUE_FORMAT,
+  getGroupNames,
+  getGroupSizes,
+} from "./league-format";
+import { getAwardedSetCount } from "./match-result";
 import type {
+  BracketFormat,
+  FinalStanding,
+  GroupStandings,
+  KnockoutRound,
+  LeagueFormat,
   Match,
+  MatchPhase,
   MatchWithPlayers,
   Player,
   PlayerStanding,
   StandingsQualification,
+  SwissBye,
 } from "./types";
 import { TIER_POINTS } from "./types";
 
 /**
  * Calculate league standings from players and matches.
- * Includes tiebreaker logic: Points → Head-to-head → Matches played → Set diff → Points scored
+ * Includes tiebreaker logic for a round robin: Points → Head-to-head → Matches played → Set diff → Points scored
+ * and for a Swiss league: Points → Buchholz → Sonneborn-Berger → Head-to-head → Set diff → Points scored
  */
 export function calculateStandings(
   players: Player[],
   matches: MatchWithPlayers[],
+  leagueFormat: LeagueFormat = DEFAULT_LEAGUE_FORMAT,
+  swissByes: Pick<SwissBye, "player_id">[] = [],
 ): PlayerStanding[] {
   // Initialize standings for all players
   const standingsMap = new Map<string, PlayerStanding>();
@@ -32,16 +55,30 @@ export function calculateStandings(
       pointsScored: 0,
       pointsConceded: 0,
       pointDiff: 0,
+      group: null,
+      buchholz: 0,
+      sonnebornBerger: 0,
     });
   }
 
-  // Process only league matches that are completed
+  // Group stage players belong to the group of their fixtures, played or not
+  for (const match of matches) {
+    if (match.phase !== "league" || !match.group_name) continue;
+    for (const playerId of [match.player1_id, match.player2_id]) {
+      const standing = standingsMap.get(playerId);
+      if (standing) standing.group = match.group_name;
+    }
+  }
+
+  // Process only league matches that are completed. Self-reported results
+  // stay pending_confirmation until the opponent confirms them.
   const leagueMatches = matches.filter(
     (m) => m.phase === "league" && m.status === "completed",
   );
 
-  // Build head-to-head map
+  // Build head-to-head map, and each player's opponents for the Swiss tiebreaks
   const headToHead = new Map<string, Map<string, number>>();
+  const opponents = new Map<string, { opponentId: string; won: boolean }[]>();
 
   for (const match of leagueMatches) {
     const p1Standing = standingsMap.get(match.player1_id);
@@ -54,9 +91,7 @@ export function calculateStandings(
     p2Standing.matchesPlayed++;
 
     // Calculate set scores
-    const setScores = getSetScores(match);
-
-    for (const [p1Score, p2Score] of setScores) {
+    for (const [p1Score, p2Score] of match.set_scores) {
       // Sets won/lost
       if (p1Score > p2Score) {
         p1Standing.setsWon++;
@@ -73,6 +108,18 @@ export function calculateStandings(
       p2Standing.pointsConceded += p1Score;
     }
 
+    // Walkovers, forfeits and retirements: the winner is credited with the
+    // sets they still needed (no rally points). Everything else below
+    // (win, tier points, head-to-head) counts like a played match.
+    const awardedSets = getAwardedSetCount(match);
+    if (match.winner_id === match.player1_id) {
+      p1Standing.setsWon += awardedSets;
+      p2Standing.setsLost += awardedSets;
+    } else {
+      p2Standing.setsWon += awardedSets;
+      p1Standing.setsLost += awardedSets;
+    }
+
     // Win/loss and tournament points
     const winnerId = match.winner_id;
     const loserId =
@@ -95,6 +142,31 @@ export function calculateStandings(
     }
     const winnerH2H = headToHead.get(winnerId!)!;
     winnerH2H.set(loserId, (winnerH2H.get(loserId) || 0) + 1);
+
+    for (const [playerId, opponentId] of [
+      [match.player1_id, match.player2_id],
+      [match.player2_id, match.player1_id],
+    ]) {
+      if (!opponents.has(playerId)) {
+        opponents.set(playerId, []);
+      }
+      opponents.get(playerId)!.push({ opponentId, won: winnerId === playerId });
+    }
+  }
+
+  // A Swiss bye counts as a win from the moment its round is paired, scoring
+  // what beating an opponent of the player's own tier would
+  const byePlayerIds =
+    leagueFormat.mode === "swiss"
+      ? swissByes
+          .map((bye) => bye.player_id)
+          .filter((playerId) => standingsMap.has(playerId))
+      : [];
+  for (const playerId of byePlayerIds) {
+    const standing = standingsMap.get(playerId)!;
+    standing.matchesPlayed++;
+    standing.wins++;
+    standing.points += TIER_POINTS[standing.player.tier];
   }
 
   // Calculate diffs
@@ -104,21 +176,54 @@ export function calculateStandings(
     s.pointDiff = s.pointsScored - s.pointsConceded;
   }
 
+  // Buchholz adds up every opponent's points; Sonneborn-Berger only those of
+  // opponents beaten. Both need the final points, so they come last.
+  for (const s of standings) {
+    for (const { opponentId, won } of opponents.get(s.player.id) || []) {
+      const opponentPoints = standingsMap.get(opponentId)?.points || 0;
+      s.buchholz += opponentPoints;
+      if (won) s.sonnebornBerger += opponentPoints;
+    }
+  }
+
+  // A bye is scored against a virtual opponent on the player's own points,
+  // so sitting out doesn't cost them on the tiebreaks either
+  for (const playerId of byePlayerIds) {
+    const standing = standingsMap.get(playerId)!;
+    standing.buchholz += standing.points;
+    standing.sonnebornBerger += standing.points;
+  }
+
   // Sort standings with cascading tiebreakers applied only among tied players
+  const headToHeadCriterion = {
+    key: (s: PlayerStanding, groupIds: Set<string>) =>
+      getHeadToHeadWins(s.player.id, groupIds, headToHead),
+    desc: true,
+  };
   const criteria = [
     {
       key: (s: PlayerStanding) => s.points,
       desc: true,
     },
-    {
-      key: (s: PlayerStanding, groupIds: Set<string>) =>
-        getHeadToHeadWins(s.player.id, groupIds, headToHead),
-      desc: true,
-    },
-    {
-      key: (s: PlayerStanding) => s.matchesPlayed,
-      desc: true,
-    },
+    ...(leagueFormat.mode === "swiss"
+      ? [
+          {
+            key: (s: PlayerStanding) => s.buchholz,
+            desc: true,
+          },
+          {
+            key: (s: PlayerStanding) => s.sonnebornBerger,
+            desc: true,
+          },
+          headToHeadCriterion,
+        ]
+      : [
+          headToHeadCriterion,
+          {
+            key: (s: PlayerStanding) => s.matchesPlayed,
+            desc: true,
+          },
+        ]),
     {
       key: (s: PlayerStanding) => s.setDiff,
       desc: true,
@@ -141,10 +246,11 @@ export function calculateStandings(
 
 export function deriveStandingsQualification(
   standings: PlayerStanding[],
+  format: BracketFormat = DEFAULT_BRACKET_FORMAT,
 ): StandingsQualification {
   const eligibleQualified = standings
     .filter((standing) => !standing.player.disqualified_from_qualification)
-    .slice(0, 10);
+    .slice(0, format.qualifier_count);
 
   const noteEntries = standings
     .filter((standing) => standing.player.disqualified_from_qualification)
@@ -156,23 +262,40 @@ export function deriveStandingsQualification(
       number: index + 1,
     }));
 
+  const byePlayerIds = format.bye_pattern
+    .map((seed) => eligibleQualified[seed - 1]?.player.id)
+    .filter((playerId): playerId is string => Boolean(playerId));
+
   return {
-    semifinalPlayerIds: eligibleQualified
-      .slice(0, 2)
-      .map((standing) => standing.player.id),
+    byePlayerIds,
     knockoutPlayerIds: eligibleQualified
-      .slice(2, 10)
-      .map((standing) => standing.player.id),
+      .map((standing) => standing.player.id)
+      .filter((playerId) => !byePlayerIds.includes(playerId)),
     qualifiedPlayerIds: eligibleQualified.map((standing) => standing.player.id),
     noteEntries,
   };
 }
 
+/**
+ * League matches played against the total the format needs: every pair once
+ * in a round robin (or within each group), or one match per pair of players
+ * in each Swiss round (with an odd count, one player sits out each round).
+ */
 export function getLeagueProgress(
   playerCount: number,
   completedLeagueMatches: number,
+  leagueFormat: LeagueFormat = DEFAULT_LEAGUE_FORMAT,
 ) {
-  const total = (playerCount * (playerCount - 1)) / 2;
+  const roundRobinTotal = (size: number) => (size * (size - 1)) / 2;
+  const total =
+    leagueFormat.mode === "swiss"
+      ? leagueFormat.swiss_rounds * Math.floor(playerCount / 2)
+      : leagueFormat.mode === "groups"
+        ? getGroupSizes(playerCount, leagueFormat.group_count).reduce(
+            (sum, size) => sum + roundRobinTotal(size),
+            0,
+          )
+        : roundRobinTotal(playerCount);
   const remaining = Math.max(0, total - completedLeagueMatches);
 
   return {
@@ -247,129 +370,383 @@ function sortByCriteria(
 }
 
 /**
- * Extract set scores from a match.
+ * Generate all league matches (round-robin).
+ * Each player plays every other player once.
  */
-function getSetScores(match: Match): [number, number][] {
-  const sets: [number, number][] = [];
+export function generateLeagueMatchPairs(
+  players: Player[],
+): [Player, Player][] {
+  const pairs: [Player, Player][] = [];
 
-  if (match.set1_p1 !== null && match.set1_p2 !== null) {
-    sets.push([match.set1_p1, match.set1_p2]);
+  for (let i = 0; i < players.length; i++) {
+    for (let j = i + 1; j < players.length; j++) {
+      pairs.push([players[i], players[j]]);
+    }
   }
-  if (match.set2_p1 !== null && match.set2_p2 !== null) {
-    sets.push([match.set2_p1, match.set2_p2]);
+
+  return pairs;
+}
+
+/**
+ * Standings for each group of a group stage, ranked on the group's own
+ * matches. Players not drawn into a group are left out.
+ */
+export function calculateGroupStandings(
+  players: Player[],
+  matches: MatchWithPlayers[],
+  leagueFormat: LeagueFormat = DEFAULT_LEAGUE_FORMAT,
+): GroupStandings[] {
+  const overall = calculateStandings(players, matches, leagueFormat);
+  const groups = [
+    ...new Set(
+      overall
+        .map((standing) => standing.group)
+        .filter((group): group is string => Boolean(group)),
+    ),
+  ].sort();
+
+  return groups.map((group) => ({
+    group,
+    standings: calculateStandings(
+      overall
+        .filter((standing) => standing.group === group)
+        .map((standing) => standing.player),
+      matches.filter((match) => match.group_name === group),
+      leagueFormat,
+    ).map((standing) => ({ ...standing, group })),
+  }));
+}
+
+/**
+ * Standings in the order knockout seeds are taken from. A single league
+ * table is used as it is. For a group stage, the group winners come first
+ * (ranked against each other on points, set difference and points scored),
+ * then the runners-up, and so on; disqualified players pass their place to
+ * the next eligible player in their group.
+ */
+export function calculateSeedingStandings(
+  players: Player[],
+  matches: MatchWithPlayers[],
+  leagueFormat: LeagueFormat = DEFAULT_LEAGUE_FORMAT,
+  swissByes: Pick<SwissBye, "player_id">[] = [],
+): PlayerStanding[] {
+  if (leagueFormat.mode !== "groups") {
+    return calculateStandings(players, matches, leagueFormat, swissByes);
   }
-  if (match.set3_p1 !== null && match.set3_p2 !== null) {
-    sets.push([match.set3_p1, match.set3_p2]);
+
+  const eligibleByGroup = calculateGroupStandings(
+    players,
+    matches,
+    leagueFormat,
+  ).map(({ standings }) =>
+    standings.filter(
+      (standing) => !standing.player.disqualified_from_qualification,
+    ),
+  );
+
+  const qualifiers: PlayerStanding[] = [];
+  for (let place = 0; place < leagueFormat.advance_per_group; place++) {
+    const placed = eligibleByGroup
+      .map((standings) => standings[place])
+      .filter((standing): standing is PlayerStanding => Boolean(standing));
+
+    qualifiers.push(
+      ...sortByCriteria(placed, [
+        { key: (s) => s.points, desc: true },
+        { key: (s) => s.setDiff, desc: true },
+        { key: (s) => s.pointsScored, desc: true },
+      ]),
+    );
   }
 
-  return sets;
+  const qualifierIds = new Set(qualifiers.map((s) => s.player.id));
+  return [
+    ...qualifiers,
+    ...calculateStandings(players, matches, leagueFormat).filter(
+      (standing) => !qualifierIds.has(standing.player.id),
+    ),
+  ];
 }
 
 /**
- * Generate all league matches (round-robin).
- * Each player plays every other player once.
+ * Draw players into groups using tiers as pots. Players are shuffled within
+ * their tier, then dealt out snake-wise (A, B, C, C, B, A, ...) so every
+ * group gets a similar mix of tiers and sizes differ by at most one.
  */
-export function generateLeagueMatchPairs(
+export function drawGroups(
   players: Player[],
-): [Player, Player][] {
-  const pairs: [Player, Player][] = [];
+  groupCount: number,
+): { group: string; players: Player[] }[] {
+  const groupNames = getGroupNames(groupCount);
+  const groups = groupNames.map((group) => ({
+    group,
+    players: [] as Player[],
+  }));
 
-  for (let i = 0; i < players.length; i++) {
-    for (let j = i + 1; j < players.length; j++) {
-      pairs.push([players[i], players[j]]);
+  const pots = [...players]
+    .map((player) => ({ player, order: Math.random() }))
+    .sort((a, b) => a.player.tier - b.player.tier || a.order - b.order)
+    .map(({ player }) => player);
+
+  pots.forEach((player, index) => {
+    const lap = Math.floor(index / groupCount);
+    const position = index % groupCount;
+    groups[lap % 2 === 0 ? position : groupCount - 1 - position].players.push(
+      player,
+    );
+  });
+
+  return groups;
+}
+
+/**
+ * Where a Swiss league stands: the latest round generated and whether all of
+ * its matches are completed, which unlocks the next round.
+ */
+export function getSwissRoundStatus(
+  leagueMatches: Pick<Match, "swiss_round" | "status">[],
+  leagueFormat: LeagueFormat,
+) {
+  const currentRound = leagueMatches.reduce(
+    (latest, match) => Math.max(latest, match.swiss_round || 0),
+    0,
+  );
+  const currentRoundMatches = leagueMatches.filter(
+    (match) => match.swiss_round === currentRound,
+  );
+  const openMatches = currentRoundMatches.filter(
+    (match) => match.status !== "completed",
+  ).length;
+
+  return {
+    currentRound,
+    totalRounds: leagueFormat.swiss_rounds,
+    openMatches,
+    canGenerateNextRound:
+      currentRound < leagueFormat.swiss_rounds && openMatches === 0,
+  };
+}
+
+/**
+ * Pair the next Swiss round. Players are taken in standings order (tier
+ * breaks ties, so round 1 pairs players of similar strength) and each is
+ * paired with the closest player below them they haven't met. With an odd
+ * count, the lowest-placed player who has had the fewest byes sits out.
+ * Rematches are only allowed when the search finds no pairing that avoids
+ * them.
+ */
+export function generateSwissPairings(
+  standings: PlayerStanding[],
+  leagueMatches: Pick<Match, "player1_id" | "player2_id">[],
+  swissByes: Pick<SwissBye, "player_id">[],
+): { pairs: [Player, Player][]; byePlayer: Player | null } {
+  const ordered = [...standings]
+    .sort(
+      (a, b) =>
+        b.points - a.points || a.player.tier - b.player.tier || a.rank - b.rank,
+    )
+    .map((standing) => standing.player);
+
+  const metPairs = new Set(
+    leagueMatches.map((match) =>
+      [match.player1_id, match.player2_id].sort().join("-"),
+    ),
+  );
+  const haveMet = (a: Player, b: Player) =>
+    metPairs.has([a.id, b.id].sort().join("-"));
+
+  let byePlayer: Player | null = null;
+  if (ordered.length % 2 === 1) {
+    const byeCount = (playerId: string) =>
+      swissByes.filter((bye) => bye.player_id === playerId).length;
+
+    const fewestByes = Math.min(...ordered.map((p) => byeCount(p.id)));
+    byePlayer = [...ordered]
+      .reverse()
+      .find((player) => byeCount(player.id) === fewestByes)!;
+  }
+
+  const toPair = ordered.filter((player) => player !== byePlayer);
+  const pairs =
+    (canAvoidRematches(toPair, haveMet)
+      ? pairSwissPlayers(toPair, haveMet, { steps: MAX_PAIRING_STEPS })
+      : null) ?? pairAvoidingRematches(toPair, haveMet);
+
+  return { pairs, byePlayer };
+}
+
+/**
+ * Most candidates the backtracking search tries before giving up. A season
+ * of 30 players finds a pairing in well under this when one exists; without
+ * a cap, a round with no rematch-free pairing would try every pairing.
+ */
+const MAX_PAIRING_STEPS = 10_000;
+
+/**
+ * Cheap check that a rematch-free pairing might exist: every player must
+ * have someone left they haven't met
+ */
+function canAvoidRematches(
+  players: Player[],
+  haveMet: (a: Player, b: Player) => boolean,
+): boolean {
+  return players.every((player) =>
+    players.some((other) => other !== player && !haveMet(player, other)),
+  );
+}
+
+/**
+ * Pair players top-down, backtracking when a choice leaves the rest
+ * unpairable. Returns null if no pairing avoids the excluded pairs, or if
+ * the search runs out of steps.
+ */
+function pairSwissPlayers(
+  players: Player[],
+  isExcluded: (a: Player, b: Player) => boolean,
+  budget: { steps: number },
+): [Player, Player][] | null {
+  if (players.length === 0) return [];
+
+  const [first, ...rest] = players;
+  for (const candidate of rest) {
+    if (--budget.steps < 0) return null;
+    if (isExcluded(first, candidate)) continue;
+
+    const remaining = pairSwissPlayers(
+      rest.filter((player) => player !== candidate),
+      isExcluded,
+      budget,
+    );
+    if (remaining) {
+      return [[first, candidate], ...remaining];
     }
+    if (budget.steps < 0) return null;
+  }
+
+  return null;
+}
+
+/**
+ * Pair players top-down without backtracking: each takes the closest player
+ * below them they haven't met, or the next player down if they have met
+ * everyone left
+ */
+function pairAvoidingRematches(
+  players: Player[],
+  haveMet: (a: Player, b: Player) => boolean,
+): [Player, Player][] {
+  const pairs: [Player, Player][] = [];
+  const remaining = [...players];
+  while (remaining.length >= 2) {
+    const first = remaining.shift()!;
+    const index = remaining.findIndex((player) => !haveMet(first, player));
+    const [opponent] = remaining.splice(Math.max(index, 0), 1);
+    pairs.push([first, opponent]);
   }
 
   return pairs;
 }
 
 /**
- * Generate knockout bracket from standings.
- * Top 2 get byes to semifinals.
- * 3rd-10th play first round with 3rd and 4th on opposite halves:
- * 4v9, 5v8, 3v10, 6v7.
+ * Generate knockout bracket from standings using the configured format.
+ * Round 1 pairs follow the seeding pattern; bye seeds wait for a later round.
  */
-export function generateKnockoutMatchups(standings: PlayerStanding[]): {
+export function generateKnockoutMatchups(
+  standings: PlayerStanding[],
+  format: BracketFormat = DEFAULT_BRACKET_FORMAT,
+): {
   round1: [PlayerStanding, PlayerStanding][];
   byePlayers: PlayerStanding[];
 } {
-  const qualification = deriveStandingsQualification(standings);
+  const qualification = deriveStandingsQualification(standings, format);
   const qualified = qualification.qualifiedPlayerIds
     .map((playerId) =>
       standings.find((standing) => standing.player.id === playerId),
     )
     .filter((standing): standing is PlayerStanding => Boolean(standing));
-  const byePlayers = qualified.slice(0, 2);
-
-  // Round 1: 4v9, 5v8, 3v10, 6v7
-  const round1: [PlayerStanding, PlayerStanding][] = [
-    [qualified[3], qualified[8]], // 4th vs 9th
-    [qualified[4], qualified[7]], // 5th vs 8th
-    [qualified[2], qualified[9]], // 3rd vs 10th
-    [qualified[5], qualified[6]], // 6th vs 7th
-  ];
+  const byePlayers = format.bye_pattern
+    .map((seed) => qualified[seed - 1])
+    .filter((standing): standing is PlayerStanding => Boolean(standing));
+
+  const round1: [PlayerStanding, PlayerStanding][] = [];
+  for (let i = 0; i < format.seeding_pattern.length; i += 2) {
+    round1.push([
+      qualified[format.seeding_pattern[i] - 1],
+      qualified[format.seeding_pattern[i + 1] - 1],
+    ]);
+  }
+
+  return { round1: separateGroupRematches(round1), byePlayers };
+}
+
+/**
+ * Keep players from the same group apart in round 1 of a crossover bracket:
+ * when a pair shares a group, its lower seed swaps with the lower seed of the
+ * nearest later (or else earlier) pair where neither pair then shares one.
+ * League standings carry no groups, so their pairs are left as they are.
+ */
+function separateGroupRematches(
+  round1: [PlayerStanding, PlayerStanding][],
+): [PlayerStanding, PlayerStanding][] {
+  const pairs = round1.map(
+    (pair) => [...pair] as [PlayerStanding, PlayerStanding],
+  );
+  // Seeds can be missing while the league is still in progress
+  const sameGroup = (a?: PlayerStanding, b?: PlayerStanding) =>
+    Boolean(a?.group) && a?.group === b?.group;
+
+  pairs.forEach((pair, index) => {
+    if (!sameGroup(pair[0], pair[1])) return;
 
-  return { round1, byePlayers };
+    const candidates = [
+      ...pairs.slice(index + 1),
+      ...pairs.slice(0, index).reverse(),
+    ];
+    const swapWith = candidates.find(
+      (other) => !sameGroup(pair[0], other[1]) && !sameGroup(other[0], pair[1]),
+    );
+    if (swapWith) {
+      [pair[1], swapWith[1]] = [swapWith[1], pair[1]];
+    }
+  });
+
+  return pairs;
 }
 
-export function buildInitialKnockoutMatches(standings: PlayerStanding[]): {
+export function buildInitialKnockoutMatches(
+  standings: PlayerStanding[],
+  format: BracketFormat = DEFAULT_BRACKET_FORMAT,
+): {
   player1_id: string;
   player2_id: string;
-  phase: "knockout_r1";
+  phase: MatchPhase;
   status: "scheduled";
   knockout_position: number;
 }[] {
-  const { round1 } = generateKnockoutMatchups(standings);
+  const { round1 } = generateKnockoutMatchups(standings, format);
+  const [firstRound] = getKnockoutRounds(format);
 
   return round1.map(([player1, player2], index) => ({
     player1_id: player1.player.id,
     player2_id: player2.player.id,
-    phase: "knockout_r1",
+    phase: firstRound.phase,
     status: "scheduled",
     knockout_position: index + 1,
   }));
 }
 
-/**
- * Generate round 2 matchups from round 1 winners.
- * Reseed by original league rank: best vs worst.
- */
-export function generateRound2Matchups(
-  round1Winners: PlayerStanding[],
-): [PlayerStanding, PlayerStanding][] {
-  // Sort winners by their original rank
-  const sorted = [...round1Winners].sort((a, b) => a.rank - b.rank);
-
-  // Best vs worst
-  return [
-    [sorted[0], sorted[3]], // Best remaining vs worst remaining
-    [sorted[1], sorted[2]], // Second best vs third best
-  ];
-}
-
-/**
- * Knockout phase progression configuration
- */
-interface KnockoutProgression {
-  currentPhase: string;
-  nextPhase: string;
-  expectedMatches: number;
-}
-
-const KNOCKOUT_PROGRESSION: KnockoutProgression[] = [
-  { currentPhase: "knockout_r1", nextPhase: "knockout_r2", expectedMatches: 4 },
-  { currentPhase: "knockout_r2", nextPhase: "semifinal", expectedMatches: 2 },
-  { currentPhase: "semifinal", nextPhase: "final", expectedMatches: 2 },
-];
-
 /**
  * Update or create next knockout round based on current results.
+ * Walkovers, forfeits and retirements advance their winner like any other
+ * completed match. The optional third-place match is created once both
+ * semifinals have a loser.
  * Returns operations to perform: deletes for stale matches, inserts for new/updated ones.
  * Uses delete+insert instead of update for consistency across all stages.
  */
 export function getKnockoutRoundUpdates(
   allKnockoutMatches: Match[],
   standings: PlayerStanding[],
+  format: BracketFormat = DEFAULT_BRACKET_FORMAT,
 ): {
   inserts: {
     player1_id: string;
@@ -391,19 +768,46 @@ export function getKnockoutRoundUpdates(
     deletes: string[];
   } = { inserts: [], deletes: [] };
 
-  for (const progression of KNOCKOUT_PROGRESSION) {
+  const rounds = getKnockoutRounds(format);
+  if (format.third_place_match) {
+    rounds.push({
+      phase: "third_place",
+      side: "third_place",
+      matchCount: 1,
+      byesEnter: false,
+    });
+  }
+  const byePlayerIds = deriveStandingsQualification(
+    standings,
+    format,
+  ).byePlayerIds;
+
+  for (let roundIndex = 1; roundIndex < rounds.length; roundIndex++) {
+    const round = rounds[roundIndex];
+
     // Generate matchups that are ready based on currently completed paths.
     // This supports progressive bracket creation (e.g. create top R2 as soon as
     // both top R1 matches are complete, without waiting for bottom R1).
-    const expectedMatchups = generateReadyNextRoundMatchups(
-      progression.nextPhase,
-      standings,
-      allKnockoutMatches,
-    );
+    const expectedMatchups =
+      round.side === "main"
+        ? generateReadyRoundMatchups(
+            round,
+            rounds[roundIndex - 1],
+            byePlayerIds,
+            format,
+            allKnockoutMatches,
+          )
+        : round.side === "third_place"
+          ? generateReadyThirdPlaceMatchups(allKnockoutMatches)
+          : generateReadyDoubleEliminationMatchups(
+              round,
+              format,
+              allKnockoutMatches,
+            );
 
     // Check if next phase already exists
     const nextPhaseMatches = allKnockoutMatches.filter(
-      (m) => m.phase === progression.nextPhase,
+      (m) => m.phase === round.phase,
     );
 
     // Get scheduled matches that might need to be replaced
@@ -466,7 +870,7 @@ export function getKnockoutRoundUpdates(
         ...missingMatchups.map((m) => ({
           player1_id: m.player1_id,
           player2_id: m.player2_id,
-          phase: progression.nextPhase,
+          phase: round.phase,
           status: "scheduled",
           knockout_position: m.knockout_position,
         })),
@@ -477,206 +881,185 @@ export function getKnockoutRoundUpdates(
   return result;
 }
 
+const FINAL_RESULT_LABELS: Record<number, string> = {
+  1: "Champion",
+  2: "Runner-up",
+  3: "Third place",
+  4: "Fourth place",
+};
+
 /**
- * Generate matchups for a given knockout phase based on winners.
- * Uses fixed bracket paths: top bracket (pos 1,2) and bottom bracket (pos 3,4).
+ * Overall placement for every player. Places decided by the final and
+ * third-place match come first, then the other knockout players by the
+ * furthest round they reached and their league position, then the players
+ * who didn't reach the knockout in league order. Semifinal losers share
+ * third place when no third-place match is played.
  */
-function generateNextRoundMatchups(
-  phase: string,
-  winners: string[],
-  standings: PlayerStanding[],
-  allKnockoutMatches: Match[],
-):
-  | { player1_id: string; player2_id: string; knockout_position?: number }[]
-  | null {
-  if (phase === "knockout_r2") {
-    // Round 2: Fixed paths based on bracket position
-    // Top bracket: pos 1 (4v9) winner vs pos 2 (5v8) winner
-    // Bottom bracket: pos 3 (3v10) winner vs pos 4 (6v7) winner
-    const r1Matches = allKnockoutMatches.filter(
-      (m) => m.phase === "knockout_r1",
-    );
+export function calculateFinalStandings(
+  seedingStandings: PlayerStanding[],
+  knockoutMatches: Match[],
+  format: BracketFormat = DEFAULT_BRACKET_FORMAT,
+): FinalStanding[] {
+  const rounds = getKnockoutRounds(format);
+  const roundIndexByPhase = new Map<string, number>(
+    rounds.map((round, index) => [round.phase, index]),
+  );
+  const knockoutPlaces = new Map(
+    getKnockoutPlacements(knockoutMatches, format).map((placement) => [
+      placement.playerId,
+      placement.place,
+    ]),
+  );
 
-    const pos1Match = r1Matches.find((m) => m.knockout_position === 1);
-    const pos2Match = r1Matches.find((m) => m.knockout_position === 2);
-    const pos3Match = r1Matches.find((m) => m.knockout_position === 3);
-    const pos4Match = r1Matches.find((m) => m.knockout_position === 4);
-
-    if (
-      !pos1Match?.winner_id ||
-      !pos2Match?.winner_id ||
-      !pos3Match?.winner_id ||
-      !pos4Match?.winner_id
-    ) {
-      return null;
+  // The third-place match isn't a bracket round; its players reached the
+  // semifinal
+  const furthestRound = new Map<string, number>();
+  for (const match of knockoutMatches) {
+    const roundIndex = roundIndexByPhase.get(match.phase);
+    if (roundIndex === undefined) continue;
+
+    for (const playerId of [match.player1_id, match.player2_id]) {
+      furthestRound.set(
+        playerId,
+        Math.max(roundIndex, furthestRound.get(playerId) ?? -1),
+      );
     }
-
-    return [
-      {
-        player1_id: pos1Match.winner_id,
-        player2_id: pos2Match.winner_id,
-        knockout_position: 1,
-      }, // Top bracket R2
-      {
-        player1_id: pos3Match.winner_id,
-        player2_id: pos4Match.winner_id,
-        knockout_position: 2,
-      }, // Bottom bracket R2
-    ];
   }
 
-  if (phase === "semifinal") {
-    // Semifinals: Fixed paths
-    // Semi 1: #1 seed vs top bracket R2 winner (pos 1)
-    // Semi 2: #2 seed vs bottom bracket R2 winner (pos 2, includes 3rd seed path)
-    const qualification = deriveStandingsQualification(standings);
-    const byePlayers = qualification.semifinalPlayerIds
-      .map((playerId) =>
-        standings.find((standing) => standing.player.id === playerId),
-      )
-      .filter((standing): standing is PlayerStanding => Boolean(standing));
-    const r2Matches = allKnockoutMatches.filter(
-      (m) => m.phase === "knockout_r2",
-    );
-
-    const topBracketR2 = r2Matches.find((m) => m.knockout_position === 1);
-    const bottomBracketR2 = r2Matches.find((m) => m.knockout_position === 2);
-
-    if (
-      !topBracketR2?.winner_id ||
-      !bottomBracketR2?.winner_id ||
-      byePlayers.length !== 2
-    ) {
-      return null;
-    }
-
-    return [
-      {
-        player1_id: byePlayers[0].player.id,
-        player2_id: topBracketR2.winner_id,
-        knockout_position: 1,
-      }, // #1 vs top bracket
-      {
-        player1_id: byePlayers[1].player.id,
-        player2_id: bottomBracketR2.winner_id,
-        knockout_position: 2,
-      }, // #2 vs bottom bracket
-    ];
-  }
+  const entries = seedingStandings.map((standing, index) => ({
+    player: standing.player,
+    leagueRank: index + 1,
+    knockoutPlace: knockoutPlaces.get(standing.player.id) ?? null,
+    furthestRound: furthestRound.get(standing.player.id) ?? -1,
+  }));
 
-  if (phase === "final") {
-    if (winners.length !== 2) return null;
-    return [{ player1_id: winners[0], player2_id: winners[1] }];
-  }
+  entries.sort(
+    (a, b) =>
+      (a.knockoutPlace ?? Infinity) - (b.knockoutPlace ?? Infinity) ||
+      b.furthestRound - a.furthestRound ||
+      a.leagueRank - b.leagueRank,
+  );
 
-  return null;
+  return entries.map((entry, index) => ({
+    place: entry.knockoutPlace ?? index + 1,
+    player: entry.player,
+    leagueRank: entry.leagueRank,
+    result:
+      entry.knockoutPlace !== null
+        ? FINAL_RESULT_LABELS[entry.knockoutPlace]
+        : entry.furthestRound >= 0
+          ? getRoundLabel(rounds[entry.furthestRound].phase)
+          : "League",
+  }));
 }
 
 /**
- * Generate next round matchups that are currently ready to be created.
- * Unlike generateNextRoundMatchups, this can return partial matchups
- * for bracketed phases as soon as each side is decided.
+ * Generate matchups for a knockout round that are currently ready to be created.
+ * Returns partial matchups as soon as each bracket slot is decided:
+ * slot N is fed by slots 2N-1 and 2N of the previous round, or by the Nth
+ * bye seed and the winner of slot N when byes enter this round.
  */
-function generateReadyNextRoundMatchups(
-  phase: string,
-  standings: PlayerStanding[],
+function generateReadyRoundMatchups(
+  round: KnockoutRound,
+  previousRound: KnockoutRound,
+  byePlayerIds: string[],
+  format: BracketFormat,
   allKnockoutMatches: Match[],
 ): { player1_id: string; player2_id: string; knockout_position?: number }[] {
-  if (phase === "knockout_r2") {
-    const r1Matches = allKnockoutMatches.filter(
-      (m) => m.phase === "knockout_r1",
-    );
+  if (round.byesEnter && byePlayerIds.length !== format.bye_count) return [];
 
-    const pos1Winner = getWinnerForPosition(r1Matches, 1);
-    const pos2Winner = getWinnerForPosition(r1Matches, 2);
-    const pos3Winner = getWinnerForPosition(r1Matches, 3);
-    const pos4Winner = getWinnerForPosition(r1Matches, 4);
-
-    const matchups: {
-      player1_id: string;
-      player2_id: string;
-      knockout_position?: number;
-    }[] = [];
-
-    if (pos1Winner && pos2Winner) {
-      matchups.push({
-        player1_id: pos1Winner,
-        player2_id: pos2Winner,
-        knockout_position: 1,
-      });
-    }
-
-    if (pos3Winner && pos4Winner) {
-      matchups.push({
-        player1_id: pos3Winner,
-        player2_id: pos4Winner,
-        knockout_position: 2,
-      });
-    }
-
-    return matchups;
+  const previousMatches = allKnockoutMatches.filter(
+    (m) => m.phase === previousRound.phase,
+  );
+  const matchups: {
+    player1_id: string;
+    player2_id: string;
+    knockout_position?: number;
+  }[] = [];
+
+  for (let position = 1; position <= round.matchCount; position++) {
+    const player1Id = round.byesEnter
+      ? byePlayerIds[position - 1]
+      : getWinnerForPosition(previousMatches, position * 2 - 1);
+    const player2Id = round.byesEnter
+      ? getWinnerForPosition(previousMatches, position)
+      : getWinnerForPosition(previousMatches, position * 2);
+
+    if (!player1Id || !player2Id) continue;
+
+    matchups.push({
+      player1_id: player1Id,
+      player2_id: player2Id,
+      // The final is a single match and has always been stored without a position.
+      knockout_position: round.phase === "final" ? undefined : position,
+    });
   }
 
-  if (phase === "semifinal") {
-    const qualification = deriveStandingsQualification(standings);
-    const byePlayers = qualification.semifinalPlayerIds
-      .map((playerId) =>
-        standings.find((standing) => standing.player.id === playerId),
-      )
-      .filter((standing): standing is PlayerStanding => Boolean(standing));
+  return matchups;
+}
 
-    if (byePlayers.length !== 2) return [];
+/**
+ * Double-elimination counterpart of generateReadyRoundMatchups: a slot is
+ * ready once both of its source matches have a result. The grand final reset
+ * is only played when the losers bracket champion wins the grand final, so
+ * a scheduled reset is dropped again if that result is edited.
+ */
+function generateReadyDoubleEliminationMatchups(
+  round: KnockoutRound,
+  format: BracketFormat,
+  allKnockoutMatches: Match[],
+): { player1_id: string; player2_id: string; knockout_position: number }[] {
+  const matchups: {
+    player1_id: string;
+    player2_id: string;
+    knockout_position: number;
+  }[] = [];
 
-    const r2Matches = allKnockoutMatches.filter(
-      (m) => m.phase === "knockout_r2",
-    );
-    const topBracketWinner = getWinnerForPosition(r2Matches, 1);
-    const bottomBracketWinner = getWinnerForPosition(r2Matches, 2);
+  for (let position = 1; position <= round.matchCount; position++) {
+    const sources = getDoubleEliminationSources(format, round.phase, position);
+    if (!sources) continue;
 
-    const matchups: {
-      player1_id: string;
-      player2_id: string;
-      knockout_position?: number;
-    }[] = [];
-
-    if (topBracketWinner) {
-      matchups.push({
-        player1_id: byePlayers[0].player.id,
-        player2_id: topBracketWinner,
-        knockout_position: 1,
-      });
-    }
+    const [player1Id, player2Id] = sources.map((source) => {
+      const sourceMatches = allKnockoutMatches.filter(
+        (m) => m.phase === source.phase,
+      );
+      return source.outcome === "winner"
+        ? getWinnerForPosition(sourceMatches, source.position)
+        : getLoserForPosition(sourceMatches, source.position);
+    });
+    if (!player1Id || !player2Id) continue;
 
-    if (bottomBracketWinner) {
-      matchups.push({
-        player1_id: byePlayers[1].player.id,
-        player2_id: bottomBracketWinner,
-        knockout_position: 2,
-      });
+    if (round.phase === "grand_final_reset") {
+      const grandFinalWinner = getWinnerForPosition(
+        allKnockoutMatches.filter((m) => m.phase === "grand_final"),
+        1,
+      );
+      if (grandFinalWinner !== player2Id) continue;
     }
 
-    return matchups;
+    matchups.push({
+      player1_id: player1Id,
+      player2_id: player2Id,
+      knockout_position: position,
+    });
   }
 
-  if (phase === "final") {
-    const semifinalMatches = allKnockoutMatches.filter(
-      (m) => m.phase === "semifinal",
-    );
-    const semifinalWinners = semifinalMatches
-      .map((m) => m.winner_id)
-      .filter((winnerId): winnerId is string => Boolean(winnerId));
-
-    if (semifinalWinners.length !== 2) return [];
+  return matchups;
+}
 
-    return [
-      {
-        player1_id: semifinalWinners[0],
-        player2_id: semifinalWinners[1],
-      },
-    ];
-  }
+/**
+ * The third-place match between the two semifinal losers. Like the final it
+ * is stored without a position.
+ */
+function generateReadyThirdPlaceMatchups(
+  allKnockoutMatches: Match[],
+): { player1_id: string; player2_id: string; knockout_position?: number }[] {
+  const semifinals = allKnockoutMatches.filter((m) => m.phase === "semifinal");
+  const player1Id = getLoserForPosition(semifinals, 1);
+  const player2Id = getLoserForPosition(semifinals, 2);
+  if (!player1Id || !player2Id) return [];
 
-  return [];
+  return [{ player1_id: player1Id, player2_id: player2Id }];
 }
 
 function getWinnerForPosition(
@@ -696,128 +1079,16 @@ function getWinnerForPosition(
   return forPosition.find((m) => Boolean(m.winner_id))?.winner_id || null;
 }
 
-/**
- * Check if all matches in a knockout phase are complete and generate next round.
- * Returns the matches to insert for the next round, or null if not ready.
- * @deprecated Use getKnockoutRoundUpdates instead
- */
-export function getNextKnockoutRoundMatches(
-  allKnockoutMatches: Match[],
-  standings: PlayerStanding[],
-): {
-  phase: string;
-  matches: {
-    player1_id: string;
-    player2_id: string;
-    phase: string;
-    status: string;
-  }[];
-} | null {
-  for (const progression of KNOCKOUT_PROGRESSION) {
-    const phaseMatches = allKnockoutMatches.filter(
-      (m) => m.phase === progression.currentPhase,
-    );
-
-    // Check if we have all expected matches and all are completed
-    if (phaseMatches.length !== progression.expectedMatches) {
-      continue;
-    }
-
-    const allCompleted = phaseMatches.every((m) => m.status === "completed");
-    if (!allCompleted) {
-      continue;
-    }
-
-    // Check if next phase already exists
-    const nextPhaseExists = allKnockoutMatches.some(
-      (m) => m.phase === progression.nextPhase,
-    );
-    if (nextPhaseExists) {
-      continue;
-    }
-
-    // Get winners from completed phase
-    const winners = phaseMatches
-      .map((m) => m.winner_id!)
-      .filter((id) => id !== null);
-
-    if (winners.length !== progression.expectedMatches) {
-      continue;
-    }
-
-    // Generate next round matches based on phase
-    if (progression.nextPhase === "knockout_r2") {
-      // Round 2: Reseed winners by their original league rank
-      const winnerStandings = winners
-        .map((id) => standings.find((s) => s.player.id === id)!)
-        .filter((s) => s !== undefined)
-        .sort((a, b) => a.rank - b.rank);
-
-      if (winnerStandings.length !== 4) continue;
-
-      return {
-        phase: "knockout_r2",
-        matches: [
-          {
-            player1_id: winnerStandings[0].player.id, // Best seed
-            player2_id: winnerStandings[3].player.id, // Worst seed
-            phase: "knockout_r2",
-            status: "scheduled",
-          },
-          {
-            player1_id: winnerStandings[1].player.id, // 2nd best
-            player2_id: winnerStandings[2].player.id, // 3rd best
-            phase: "knockout_r2",
-            status: "scheduled",
-          },
-        ],
-      };
-    }
-
-    if (progression.nextPhase === "semifinal") {
-      // Semifinals: 1st seed vs worse R2 winner, 2nd seed vs better R2 winner
-      const byePlayers = standings.slice(0, 2); // 1st and 2nd from league
-      const r2Winners = winners
-        .map((id) => standings.find((s) => s.player.id === id)!)
-        .filter((s) => s !== undefined)
-        .sort((a, b) => a.rank - b.rank);
-
-      if (r2Winners.length !== 2 || byePlayers.length !== 2) continue;
-
-      return {
-        phase: "semifinal",
-        matches: [
-          {
-            player1_id: byePlayers[0].player.id, // 1st seed
-            player2_id: r2Winners[1].player.id, // Worse R2 winner
-            phase: "semifinal",
-            status: "scheduled",
-          },
-          {
-            player1_id: byePlayers[1].player.id, // 2nd seed
-            player2_id: r2Winners[0].player.id, // Better R2 winner
-            phase: "semifinal",
-            status: "scheduled",
-          },
-        ],
-      };
-    }
-
-    if (progression.nextPhase === "final") {
-      // Final: Both semifinal winners
-      return {
-        phase: "final",
-        matches: [
-          {
-            player1_id: winners[0],
-            player2_id: winners[1],
-            phase: "final",
-            status: "scheduled",
-          },
-        ],
-      };
-    }
-  }
+function getLoserForPosition(
+  matches: Match[],
+  knockoutPosition: number,
+): string | null {
+  const winnerId = getWinnerForPosition(matches, knockoutPosition);
+  if (!winnerId) return null;
 
-  return null;
+  const match = matches.find(
+    (m) => m.knockout_position === knockoutPosition && m.winner_id === winnerId,
+  );
+  if (!match) return null;
+  return match.player1_id === winnerId ? match.player2_id : match.player1_id;
 }
@@ -4,19 +4,45 @@ export type UserRole = "admin" | "editor" | "viewer";
 
 export type MatchPhase =
   | "league"
-  | "knockout_r1"
-  | "knockout_r2"
+  | `knockout_r${number}`
   | "semifinal"
-  | "final";
+  | "final"
+  | "third_place" // Optional, between the semifinal losers
+  | `winners_r${number}` // Double elimination only
+  | `losers_r${number}`
+  | "grand_final"
+  | "grand_final_reset";
 
-export type MatchStatus = "scheduled" | "completed";
+export type MatchStatus =
+  | "scheduled"
+  | "completed"
+  | "pending_confirmation" // Self-reported, waiting for the opponent
+  | "disputed"; // Opponent disputed the report; an editor resolves it
+
+// How a completed match was decided (see app/lib/match-result.ts for scoring)
+export type MatchResultType =
+  | "normal" // Played to the end
+  | "walkover" // Opponent did not turn up
+  | "forfeit" // A player conceded or was ruled out
+  | "retired"; // A player stopped mid-match
+
+export interface Season {
+  id: string;
+  name: string;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
 
 export interface Player {
   id: string;
+  season_id: string;
+  person_id: string; // Shared by the same person's player rows across seasons
   name: string;
   department: string | null;
   slack_handle: string | null;
   tier: 1 | 2 | 3 | 4;
+  starting_tier: 1 | 2 | 3 | 4; // Tier when added; the rating starts from it
   disqualified_from_qualification: boolean;
   disqualification_note: string | null;
   created_at: string;
@@ -36,33 +62,219 @@ export interface User {
 
 export interface TournamentSettings {
   id: number;
+  season_id: string;
   name: string;
   league_deadline: string | null;
   is_active: boolean;
+  bracket_format: BracketFormat | null;
+  match_formats: Partial<MatchFormats> | null;
+  league_format: LeagueFormat | null;
+  schedule_settings: ScheduleSettings | null;
   created_at: string;
   updated_at: string;
 }
 
 export interface Match {
   id: string;
+  season_id: string;
   player1_id: string;
   player2_id: string;
   phase: MatchPhase;
   status: MatchStatus;
   winner_id: string | null;
-  set1_p1: number | null;
-  set1_p2: number | null;
-  set2_p1: number | null;
-  set2_p2: number | null;
-  set3_p1: number | null;
-  set3_p2: number | null;
+  set_scores: SetScore[]; // In the order played
+  best_of: number; // Format the result was recorded under
   knockout_position: number | null;
+  swiss_round: number | null; // League round a Swiss pairing was made for
+  group_name: string | null; // Group ("A", "B", ...) of a group stage match
+  scheduled_at: string | null; // Booked start time
+  table_label: string | null; // Booked table
   recorded_by: string | null;
   recorded_at: string | null;
+  reported_by_player_id: string | null;
+  reported_at: string | null;
+  confirmed_at: string | null;
+  dispute_reason: string | null;
+  result_type: MatchResultType;
+  result_reason: string | null;
   created_at: string;
   updated_at: string;
 }
 
+// Doubles: a pair of players from the same season, with its own matches.
+// Singles matches, standings and tier points don't include doubles.
+export interface Team {
+  id: string;
+  season_id: string;
+  name: string;
+  player1_id: string;
+  player2_id: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export type DoublesPhase = "league" | "semifinal" | "final";
+
+export interface DoublesMatch {
+  id: string;
+  season_id: string;
+  team1_id: string;
+  team2_id: string;
+  phase: DoublesPhase;
+  status: "scheduled" | "completed";
+  winner_team_id: string | null;
+  set_scores: SetScore[]; // In the order played
+  best_of: number; // Format the result was recorded under
+  knockout_position: number | null;
+  recorded_by: string | null;
+  recorded_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Audit log (append-only, written by database triggers)
+export type AuditTable =
+  | "players"
+  | "matches"
+  | "users"
+  | "tournament_settings"
+  | "weekly_recommendations"
+  | "teams"
+  | "doubles_matches";
+
+export type AuditAction = "create" | "update" | "delete";
+
+export interface AuditLogEntry {
+  id: number;
+  table_name: AuditTable;
+  record_id: string;
+  action: AuditAction;
+  before_data: Record<string, unknown> | null;
+  after_data: Record<string, unknown> | null;
+  actor_id: string | null;
+  actor_email: string | null;
+  season_id: string | null;
+  created_at: string;
+}
+
+// Trash: snapshots of bulk deletes that can be restored until they expire
+export type TrashKind =
+  | "player" // A player with everything that cascades from them
+  | "league_matches"
+  | "knockout_matches"
+  | "reset"; // Every match in the season
+
+export interface TrashItem {
+  id: string;
+  season_id: string;
+  kind: TrashKind;
+  label: string;
+  players: Player[];
+  matches: Match[];
+  recommendations: WeeklyRecommendation[];
+  teams: Team[];
+  doubles_matches: DoublesMatch[];
+  availability: PlayerAvailability[];
+  swiss_byes: SwissBye[];
+  linked_user_ids: string[];
+  deleted_by: string | null;
+  deleted_at: string;
+  expires_at: string;
+  restored_at: string | null;
+}
+
+// Tournament backup: versioned JSON export of one season. User references are
+// stored by email because user ids differ between Supabase projects.
+export type BackupPlayer = Omit<Player, "season_id" | "updated_at">;
+
+export type BackupMatch = Omit<
+  Match,
+  "season_id" | "recorded_by" | "updated_at"
+> & {
+  recorded_by_email: string | null;
+};
+
+export type BackupRecommendation = Omit<
+  WeeklyRecommendation,
+  "season_id" | "created_by"
+> & {
+  created_by_email: string | null;
+};
+
+export type BackupTeam = Omit<Team, "season_id" | "updated_at">;
+
+export type BackupDoublesMatch = Omit<
+  DoublesMatch,
+  "season_id" | "recorded_by" | "updated_at"
+> & {
+  recorded_by_email: string | null;
+};
+
+export type BackupAvailability = Omit<PlayerAvailability, "season_id">;
+
+export type BackupSwissBye = Omit<SwissBye, "season_id">;
+
+export interface BackupUserLink {
+  email: string;
+  player_id: string;
+}
+
+export interface TournamentBackup {
+  format: string;
+  version: number;
+  exported_at: string;
+  season_name: string;
+  settings: {
+    name: string;
+    league_deadline: string | null;
+    is_active: boolean;
+    bracket_format: BracketFormat | null;
+    match_formats: Partial<MatchFormats> | null;
+    league_format: LeagueFormat | null;
+    schedule_settings: ScheduleSettings | null;
+  };
+  players: BackupPlayer[];
+  user_links: BackupUserLink[];
+  matches: BackupMatch[];
+  recommendations: BackupRecommendation[];
+  // Null in files from before version 4; importing them leaves these alone
+  teams: BackupTeam[] | null;
+  doubles_matches: BackupDoublesMatch[] | null;
+  availability: BackupAvailability[] | null;
+  // Null in files from before version 5
+  swiss_byes: BackupSwissBye[] | null;
+}
+
+export interface BackupSectionDiff {
+  added: string[];
+  updated: string[];
+  removed: string[];
+}
+
+export interface TournamentBackupDiff {
+  settings: string[]; // Changed setting names
+  players: BackupSectionDiff;
+  matches: BackupSectionDiff;
+  recommendations: BackupSectionDiff;
+  teams: BackupSectionDiff;
+  doublesMatches: BackupSectionDiff;
+  availability: BackupSectionDiff;
+  swissByes: BackupSectionDiff;
+  userLinks: BackupSectionDiff;
+  warnings: string[];
+}
+
+// Bulk player import: one parsed CSV/TSV row with its validation results
+export interface PlayerImportRow {
+  line: number; // Line in the uploaded file (the header is line 1)
+  name: string;
+  department: string | null;
+  slack_handle: string | null;
+  tier: 1 | 2 | 3 | 4;
+  errors: string[]; // Block the import
+  warnings: string[]; // Shown in the preview only
+}
+
 // Extended types with relations
 export interface MatchWithPlayers extends Match {
   player1: Player;
@@ -70,6 +282,16 @@ export interface MatchWithPlayers extends Match {
   winner?: Player | null;
 }
 
+export interface TeamWithPlayers extends Team {
+  player1: Player;
+  player2: Player;
+}
+
+export interface DoublesMatchWithTeams extends DoublesMatch {
+  team1: Team;
+  team2: Team;
+}
+
 // App user (simplified for UI)
 export interface AppUser {
   id: string;
@@ -83,6 +305,7 @@ export interface AppUser {
 // Weekly recommendations
 export interface WeeklyRecommendation {
   id: string;
+  season_id: string;
   week_date: string;
   player1_id: string;
   player2_id: string;
@@ -110,6 +333,75 @@ export interface PlayerStanding {
   pointsScored: number;
   pointsConceded: number;
   pointDiff: number;
+  group: string | null; // Group stage group, taken from the player's matches
+  buchholz: number; // Sum of opponents' points (Swiss tiebreak)
+  sonnebornBerger: number; // Sum of beaten opponents' points (Swiss tiebreak)
+}
+
+// Completed meetings between two people, from the first person's side
+export interface HeadToHeadSummary {
+  meetings: MatchWithPlayers[]; // Most recent first, across seasons
+  wins: [number, number];
+  setsWon: [number, number]; // Including sets credited for walkovers and retirements
+  pointsWon: [number, number];
+  averageSetMargin: [number | null, number | null]; // Mean points margin of the sets each side won
+}
+
+export interface FormResult {
+  matchId: string;
+  won: boolean;
+  opponentName: string;
+  recordedAt: string | null;
+}
+
+// Chronological performance breakdown for a player profile
+export interface PlayerAnalytics {
+  currentStreak: { won: boolean; length: number } | null;
+  longestWinStreak: number;
+  form: FormResult[]; // Most recent first
+  byTier: { tier: 1 | 2 | 3 | 4; played: number; wins: number }[]; // By opponent tier
+  comebacks: { chances: number; wins: number }; // Matches where set 1 was lost
+  decidingSets: { won: number; lost: number };
+  pointsPerGame: PointsPerGame[]; // Oldest first, played sets only
+}
+
+export interface PointsPerGame {
+  matchId: string;
+  recordedAt: string | null;
+  scored: number; // Mean points per set in the match
+  conceded: number;
+}
+
+// An achievement a player has earned, and the match that earned it
+export interface AchievementUnlock {
+  achievementId: string;
+  playerId: string;
+  matchId: string;
+  unlockedAt: string | null; // recorded_at of the unlocking match
+}
+
+export interface TeamStanding {
+  team: TeamWithPlayers;
+  rank: number;
+  matchesPlayed: number;
+  wins: number;
+  losses: number;
+  setsWon: number;
+  setsLost: number;
+  setDiff: number;
+  pointsScored: number;
+  pointsConceded: number;
+}
+
+// A player's doubles record with one partner
+export interface PlayerDoublesRecord {
+  team: Team;
+  partner: Player;
+  matchesPlayed: number;
+  wins: number;
+  losses: number;
+  setsWon: number;
+  setsLost: number;
 }
 
 export interface QualificationNote {
@@ -121,30 +413,227 @@ export interface QualificationNote {
 }
 
 export interface StandingsQualification {
-  semifinalPlayerIds: string[];
+  byePlayerIds: string[];
   knockoutPlayerIds: string[];
   qualifiedPlayerIds: string[];
   noteEntries: QualificationNote[];
 }
 
+// Whether a player can still finish in a qualifying place, judged on league
+// points from the best and worst case of their remaining matches
+export type QualificationStatus = "clinched" | "eliminated" | "alive";
+
+// A hypothetical result for a league pair that hasn't played yet
+export interface SimulatedOutcome {
+  player1Id: string;
+  player2Id: string;
+  winnerId: string;
+}
+
+// Elo ratings (computed from completed matches in recorded order)
+export interface RatingChange {
+  matchId: string;
+  opponentId: string;
+  recordedAt: string;
+  won: boolean;
+  ratingBefore: number;
+  ratingAfter: number;
+  delta: number;
+}
+
+export interface PlayerRating {
+  player: Player;
+  rank: number;
+  rating: number;
+  peakRating: number;
+  matchesPlayed: number;
+  provisional: boolean;
+  history: RatingChange[];
+}
+
+export interface TierSuggestion {
+  player: Player;
+  rating: number;
+  currentTier: 1 | 2 | 3 | 4;
+  suggestedTier: 1 | 2 | 3 | 4;
+}
+
 // Set score tuple
 export type SetScore = [number, number];
 
-// Knockout bracket structure
-export interface KnockoutMatch {
-  matchId: string | null;
-  player1: Player | null;
-  player2: Player | null;
-  winner: Player | null;
-  seed1: number;
-  seed2: number;
-}
-
-export interface KnockoutBracket {
-  round1: KnockoutMatch[]; // 4v9, 5v8, 3v10, 6v7
-  round2: KnockoutMatch[]; // Winners reseeded
-  semifinals: KnockoutMatch[]; // 1st + 2nd vs knockout winners
-  final: KnockoutMatch | null;
+// Knockout bracket format (stored as JSON in tournament_settings.bracket_format)
+export type EliminationStyle =
+  | "single" // One loss and you're out
+  | "double"; // Winners and losers brackets meeting in a grand final
+
+export interface BracketFormat {
+  qualifier_count: number;
+  bye_count: number;
+  seeding_pattern: number[]; // Round 1 seeds in bracket order, paired consecutively
+  bye_pattern: number[]; // Bye seeds in bracket order, entering once winners match their count
+  elimination: EliminationStyle;
+  bracket_reset: boolean; // Double elimination: replay the grand final if the losers bracket champion wins it
+  third_place_match: boolean; // Single elimination: the semifinal losers play for third place
+}
+
+// Match format (stored as JSON per stage in tournament_settings.match_formats)
+export interface MatchFormat {
+  best_of: 3 | 5 | 7;
+  points_per_set: number;
+  win_by_two: boolean;
+}
+
+// Knockout rounds before the semifinals share the "knockout" format
+export type MatchFormatStage = "league" | "knockout" | "semifinal" | "final";
+
+export type MatchFormats = Record<MatchFormatStage, MatchFormat>;
+
+// League format (stored as JSON in tournament_settings.league_format)
+export type LeagueMode =
+  | "round_robin" // Everyone plays everyone once, in any order
+  | "swiss" // Fixed rounds, paired by score without rematches
+  | "groups"; // Pools drawn by tier, each a round robin feeding the knockout
+
+export interface LeagueFormat {
+  mode: LeagueMode;
+  swiss_rounds: number; // Only used in Swiss mode
+  group_count: number; // Only used in group mode
+  advance_per_group: number; // Only used in group mode
+}
+
+// Scheduling: the tables that can be booked, how long a booking lasts and
+// optional deadlines for knockout rounds
+export interface ScheduleSettings {
+  tables: string[];
+  slot_minutes: number;
+  round_deadlines: Partial<Record<MatchPhase, string>>; // YYYY-MM-DD
+  time_zone: string; // IANA name; booking times are entered and shown in it
+}
+
+// The player who sat out a Swiss round, recorded when the round is paired
+export interface SwissBye {
+  id: string;
+  season_id: string;
+  round: number;
+  player_id: string;
+  created_at: string;
+}
+
+// A window in which a player has said they can play
+export interface PlayerAvailability {
+  id: string;
+  season_id: string;
+  player_id: string;
+  starts_at: string;
+  ends_at: string;
+  created_at: string;
+}
+
+// A booking that overlaps another booking for the same player or table
+export interface ScheduleConflict {
+  kind: "player" | "table";
+  matchId: string;
+  description: string;
+}
+
+export type NotificationEvent =
+  | "result_recorded"
+  | "recommendations_published"
+  | "knockout_matchups_created"
+  | "deadline_reminder";
+
+// An outbound message, in Slack mrkdwn
+export interface Notification {
+  event: NotificationEvent;
+  text: string;
+}
+
+export type WebhookEvent =
+  | "match.completed"
+  | "match.updated"
+  | "knockout.round_created"
+  | "player.created"
+  | "standings.changed";
+
+export interface WebhookSubscription {
+  id: string;
+  url: string;
+  description: string | null;
+  events: WebhookEvent[];
+  secret: string;
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type WebhookDeliveryStatus = "pending" | "succeeded" | "failed";
+
+export interface WebhookDelivery {
+  id: string;
+  subscription_id: string;
+  event: WebhookEvent;
+  data: Record<string, unknown>;
+  body: string; // The exact JSON sent, as signed
+  signature: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  response_status: number | null;
+  last_error: string | null;
+  redelivery_of: string | null;
+  created_at: string;
+  last_attempt_at: string | null;
+  next_attempt_at: string | null; // When a pending delivery is next tried
+  queued_by: string | null;
+}
+
+// A queued delivery, ready to POST
+export interface WebhookDispatch {
+  id: string;
+  url: string;
+  body: string;
+  signature: string;
+}
+
+export interface GroupStandings {
+  group: string;
+  standings: PlayerStanding[];
+}
+
+export type BracketSide =
+  | "main"
+  | "winners"
+  | "losers"
+  | "grand_final"
+  | "third_place";
+
+export interface KnockoutRound {
+  phase: MatchPhase;
+  side: BracketSide; // "main" for single elimination
+  matchCount: number;
+  byesEnter: boolean;
+}
+
+// A finishing position decided in the knockout. Semifinal losers share
+// third place when no third-place match is played.
+export interface KnockoutPlacement {
+  place: number;
+  playerId: string;
+}
+
+// A player's overall tournament placement
+export interface FinalStanding {
+  place: number;
+  player: Player;
+  leagueRank: number; // Position in the league standings used for seeding
+  result: string; // e.g. "Champion", "Semifinal" or "League"
+}
+
+// Where a double-elimination slot's player comes from
+export interface BracketSlotSource {
+  outcome: "winner" | "loser";
+  phase: MatchPhase;
+  position: number;
 }
 
 // Points per tier (for wins)
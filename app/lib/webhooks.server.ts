@@ -0,0 +1,296 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  MATCH_SELECT,
+  toApiMatch,
+  toApiPlayer,
+  toApiStanding,
+} from "./api.server";
+import { parseLeagueFormat } from "./league-format";
+import { calculateStandings } from "./tournament.server";
+import type {
+  MatchWithPlayers,
+  Player,
+  SwissBye,
+  WebhookDispatch,
+  WebhookEvent,
+} from "./types";
+
+export const WEBHOOK_EVENTS: { event: WebhookEvent; description: string }[] = [
+  {
+    event: "match.completed",
+    description: "A result is recorded or confirmed",
+  },
+  {
+    event: "match.updated",
+    description: "A recorded result is corrected, or a match is rebooked",
+  },
+  {
+    event: "knockout.round_created",
+    description: "Knockout matches are drawn or the next round is set",
+  },
+  { event: "player.created", description: "A player is added to the season" },
+  {
+    event: "standings.changed",
+    description: "A league result changes the table (sends the full table)",
+  },
+];
+
+// Attempts per delivery before it is marked failed
+export const MAX_DELIVERY_ATTEMPTS = 5;
+
+const DELIVERY_TIMEOUT_MS = 10_000;
+
+export function isWebhookEvent(value: unknown): value is WebhookEvent {
+  return WEBHOOK_EVENTS.some(({ event }) => event === value);
+}
+
+/**
+ * Queue an event for every subscription that wants it and make the first
+ * attempt at each delivery. The database signs each body and only lets
+ * editors and admins queue events; failed deliveries are left for
+ * sendDueWebhooks to retry.
+ */
+export async function emitWebhookEvent(
+  supabase: SupabaseClient,
+  event: WebhookEvent,
+  data: Record<string, unknown>,
+): Promise<void> {
+  const { data: dispatches, error } = await supabase.rpc(
+    "queue_webhook_deliveries",
+    { event_name: event, event_data: data },
+  );
+
+  if (error) {
+    console.error(`Failed to queue ${event} webhooks:`, error);
+    return;
+  }
+
+  await Promise.all(
+    ((dispatches as WebhookDispatch[]) || []).map((dispatch) =>
+      deliverWebhook(supabase, dispatch),
+    ),
+  );
+}
+
+/**
+ * Emit match.completed for a result a player has just confirmed. Players
+ * can't queue events, so the database builds this one from the match; the
+ * standings.changed it owes is sent by sendDueWebhooks.
+ */
+export async function emitMatchConfirmed(
+  supabase: SupabaseClient,
+  matchId: string,
+): Promise<void> {
+  const { data: dispatches, error } = await supabase.rpc(
+    "queue_match_completed_webhooks",
+    { target_match_id: matchId },
+  );
+
+  if (error) {
+    console.error("Failed to queue match.completed webhooks:", error);
+    return;
+  }
+
+  await Promise.all(
+    ((dispatches as WebhookDispatch[]) || []).map((dispatch) =>
+      deliverWebhook(supabase, dispatch),
+    ),
+  );
+}
+
+/**
+ * Retry the deliveries whose backoff has passed and send standings.changed
+ * for seasons owed it. Retries are read from the stored deliveries rather
+ * than kept in timers, so a restart loses none. The scheduled job calls this
+ * through api/cron/webhooks; returns how much it sent.
+ */
+export async function sendDueWebhooks(
+  supabase: SupabaseClient,
+): Promise<{ standings: number; retries: number }> {
+  const { data: seasonIds, error: standingsError } = await supabase.rpc(
+    "take_pending_standings_webhooks",
+  );
+  if (standingsError) {
+    throw new Error(
+      `Failed to read owed standings webhooks: ${standingsError.message}`,
+    );
+  }
+  for (const seasonId of (seasonIds as string[]) || []) {
+    await emitStandingsChanged(supabase, seasonId);
+  }
+
+  const { data: due, error } = await supabase.rpc(
+    "claim_due_webhook_deliveries",
+  );
+  if (error) {
+    throw new Error(`Failed to claim webhook retries: ${error.message}`);
+  }
+
+  const retries = (due as (WebhookDispatch & { attempts: number })[]) || [];
+  await Promise.all(
+    retries.map((delivery) =>
+      deliverWebhook(supabase, delivery, delivery.attempts + 1),
+    ),
+  );
+
+  return {
+    standings: ((seasonIds as string[]) || []).length,
+    retries: retries.length,
+  };
+}
+
+/**
+ * POST a delivery once and log the attempt. A failed delivery stays pending
+ * for sendDueWebhooks to retry with exponential backoff until it succeeds or
+ * runs out of attempts.
+ */
+export async function deliverWebhook(
+  supabase: SupabaseClient,
+  dispatch: WebhookDispatch,
+  attempt = 1,
+): Promise<boolean> {
+  let httpStatus: number | null = null;
+  let errorMessage: string | null = null;
+
+  try {
+    const response = await fetch(dispatch.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "PD-Table-Tennis-Webhooks/1.0",
+        "X-Webhook-Id": dispatch.id,
+        "X-Webhook-Signature": `sha256=${dispatch.signature}`,
+      },
+      body: dispatch.body,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+    httpStatus = response.status;
+    if (!response.ok) {
+      errorMessage = (await response.text()).slice(0, 500) || null;
+    }
+  } catch (error) {
+    errorMessage = error instanceof Error ? error.message : String(error);
+  }
+
+  const succeeded =
+    httpStatus !== null && httpStatus >= 200 && httpStatus < 300;
+  const giveUp = !succeeded && attempt >= MAX_DELIVERY_ATTEMPTS;
+
+  const { error } = await supabase.rpc("record_webhook_attempt", {
+    delivery_id: dispatch.id,
+    succeeded,
+    give_up: giveUp,
+    http_status: httpStatus,
+    error_message: errorMessage,
+  });
+  if (error) {
+    console.error(`Failed to log webhook delivery ${dispatch.id}:`, error);
+  }
+
+  return succeeded;
+}
+
+/**
+ * Emit match.completed or match.updated for a match. League results also
+ * change the table, so they emit standings.changed as well.
+ */
+export async function emitMatchEvent(
+  supabase: SupabaseClient,
+  event: "match.completed" | "match.updated",
+  matchId: string,
+): Promise<void> {
+  const { data: match } = await supabase
+    .from("matches")
+    .select(MATCH_SELECT)
+    .eq("id", matchId)
+    .single();
+  if (!match) return;
+
+  await emitWebhookEvent(supabase, event, {
+    match: toApiMatch(match as MatchWithPlayers),
+  });
+
+  if (match.phase === "league" && match.status === "completed") {
+    await emitStandingsChanged(supabase, match.season_id);
+  }
+}
+
+/**
+ * Emit knockout.round_created for newly created knockout matches.
+ */
+export async function emitKnockoutRoundCreated(
+  supabase: SupabaseClient,
+  matchIds: string[],
+): Promise<void> {
+  if (matchIds.length === 0) return;
+
+  const { data: matches } = await supabase
+    .from("matches")
+    .select(MATCH_SELECT)
+    .in("id", matchIds)
+    .order("knockout_position");
+  if (!matches || matches.length === 0) return;
+
+  await emitWebhookEvent(supabase, "knockout.round_created", {
+    season_id: matches[0].season_id,
+    phases: [...new Set(matches.map((m) => m.phase))],
+    matches: (matches as MatchWithPlayers[]).map(toApiMatch),
+  });
+}
+
+/**
+ * Emit player.created once per new player.
+ */
+export async function emitPlayersCreated(
+  supabase: SupabaseClient,
+  players: Player[],
+): Promise<void> {
+  for (const player of players) {
+    await emitWebhookEvent(supabase, "player.created", {
+      player: toApiPlayer(player),
+    });
+  }
+}
+
+/**
+ * Emit standings.changed with the season's full league table.
+ */
+export async function emitStandingsChanged(
+  supabase: SupabaseClient,
+  seasonId: string,
+): Promise<void> {
+  const { data: settings } = await supabase
+    .from("tournament_settings")
+    .select("league_format")
+    .eq("season_id", seasonId)
+    .single();
+
+  const { data: players } = await supabase
+    .from("players")
+    .select("*")
+    .eq("season_id", seasonId);
+
+  const { data: matches } = await supabase
+    .from("matches")
+    .select(MATCH_SELECT)
+    .eq("season_id", seasonId)
+    .eq("phase", "league")
+    .eq("status", "completed");
+
+  const { data: swissByes } = await supabase
+    .from("swiss_byes")
+    .select("*")
+    .eq("season_id", seasonId);
+
+  const standings = calculateStandings(
+    (players as Player[]) || [],
+    (matches as MatchWithPlayers[]) || [],
+    parseLeagueFormat(settings?.league_format),
+    (swissByes as SwissBye[]) || [],
+  );
+
+  await emitWebhookEvent(supabase, "standings.changed", {
+    season_id: seasonId,
+    standings: standings.map(toApiStanding),
+  });
+}
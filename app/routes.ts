@@ -4,12 +4,34 @@ export default [
   // Public routes
   index("routes/home.tsx"),
   route("standings", "routes/standings.tsx"),
+  route("final-standings", "routes/final-standings.tsx"),
+  route("final-standings/export", "routes/final-standings.export.tsx"),
   route("results", "routes/results.tsx"),
   route("players", "routes/players.tsx"),
   route("player/:id", "routes/player.$id.tsx"),
+  route("player/:id/schedule.ics", "routes/player.$id.schedule.ics.tsx"),
   route("match/:id", "routes/match.$id.tsx"),
+  route("h2h", "routes/h2h.tsx"),
   route("bracket", "routes/bracket.tsx"),
+  route("doubles", "routes/doubles.tsx"),
+  route("ratings", "routes/ratings.tsx"),
   route("recommendations", "routes/recommendations.tsx"),
+  route("report", "routes/report.tsx"),
+  route("schedule", "routes/schedule.tsx"),
+  route("schedule.ics", "routes/schedule.ics.tsx"),
+
+  // Read-only JSON API
+  route("api/v1/openapi.json", "routes/api/v1/openapi.json.tsx"),
+  route("api/v1/seasons", "routes/api/v1/seasons.tsx"),
+  route("api/v1/players", "routes/api/v1/players.tsx"),
+  route("api/v1/players/:id", "routes/api/v1/players.$id.tsx"),
+  route("api/v1/matches", "routes/api/v1/matches.tsx"),
+  route("api/v1/matches/:id", "routes/api/v1/matches.$id.tsx"),
+  route("api/v1/standings", "routes/api/v1/standings.tsx"),
+  route("api/v1/bracket", "routes/api/v1/bracket.tsx"),
+
+  // Scheduled jobs
+  route("api/cron/webhooks", "routes/api/cron/webhooks.tsx"),
 
   // Auth routes
   route("login", "routes/auth/login.tsx"),
@@ -19,18 +41,30 @@ export default [
   // Editor routes
   route("editor/matches", "routes/editor/matches.tsx"),
   route("editor/record-league", "routes/editor/record-league.tsx"),
+  route("editor/record-doubles", "routes/editor/record-doubles.tsx"),
   route("editor/record/:matchId", "routes/editor/record.$matchId.tsx"),
+  route("editor/disputes", "routes/editor/disputes.tsx"),
+  route("editor/schedule", "routes/editor/schedule.tsx"),
 
   // Admin routes
   route("admin", "routes/admin/index.tsx"),
   route("admin/players", "routes/admin/players.tsx"),
   route("admin/players/new", "routes/admin/players.new.tsx"),
+  route("admin/players/import", "routes/admin/players.import.tsx"),
   route("admin/players/:id/edit", "routes/admin/players.$id.edit.tsx"),
+  route("admin/teams", "routes/admin/teams.tsx"),
   route("admin/tiers", "routes/admin/tiers.tsx"),
+  route("admin/tiers/suggest", "routes/admin/tiers.suggest.tsx"),
   route("admin/matches", "routes/admin/matches.tsx"),
   route("admin/generate", "routes/admin/generate.tsx"),
   route("admin/settings", "routes/admin/settings.tsx"),
+  route("admin/seasons", "routes/admin/seasons.tsx"),
   route("admin/users", "routes/admin/users.tsx"),
+  route("admin/audit", "routes/admin/audit.tsx"),
+  route("admin/trash", "routes/admin/trash.tsx"),
   route("admin/export-results", "routes/admin/export-results.tsx"),
+  route("admin/export-tournament", "routes/admin/export-tournament.tsx"),
+  route("admin/import-tournament", "routes/admin/import-tournament.tsx"),
   route("admin/recommendations", "routes/admin/recommendations.tsx"),
+  route("admin/webhooks", "routes/admin/webhooks.tsx"),
 ] satisfies RouteConfig;
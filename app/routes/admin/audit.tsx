@@ -0,0 +1,320 @@
+import { data, Form, Link, useLoaderData, useSearchParams } from "react-router";
+import {
+  AUDIT_TABLE_LABELS,
+  formatAuditValue,
+  getAuditFieldChanges,
+} from "~/lib/audit";
+import { requireRole } from "~/lib/auth.server";
+import { createSupabaseServerClient } from "~/lib/supabase.server";
+import type { AuditLogEntry, AuditTable } from "~/lib/types";
+import type { Route } from "./+types/audit";
+
+const PAGE_SIZE = 50;
+
+export function meta() {
+  return [{ title: "Audit Log | PD Table Tennis" }];
+}
+
+export async function loader({ request }: Route.LoaderArgs) {
+  const { headers } = await requireRole(request, ["admin"]);
+
+  const { supabase } = createSupabaseServerClient(request);
+  const url = new URL(request.url);
+  const table = url.searchParams.get("table") || "all";
+  const action = url.searchParams.get("action") || "all";
+  const actorId = url.searchParams.get("actor") || "all";
+  const recordId = url.searchParams.get("record")?.trim() || "";
+  const from = url.searchParams.get("from") || "";
+  const to = url.searchParams.get("to") || "";
+  const page = Math.max(1, parseInt(url.searchParams.get("page") || "1") || 1);
+
+  let query = supabase
+    .from("audit_log")
+    .select("*", { count: "exact" })
+    .order("created_at", { ascending: false })
+    .order("id", { ascending: false })
+    .range((page - 1) * PAGE_SIZE, page * PAGE_SIZE - 1);
+
+  if (table !== "all") {
+    query = query.eq("table_name", table);
+  }
+
+  if (action !== "all") {
+    query = query.eq("action", action);
+  }
+
+  if (actorId !== "all") {
+    query = query.eq("actor_id", actorId);
+  }
+
+  if (recordId) {
+    query = query.eq("record_id", recordId);
+  }
+
+  if (from) {
+    query = query.gte("created_at", `${from}T00:00:00`);
+  }
+
+  if (to) {
+    query = query.lte("created_at", `${to}T23:59:59.999`);
+  }
+
+  const { data: entries, count } = await query;
+  const auditEntries = (entries as AuditLogEntry[]) || [];
+
+  const { data: users } = await supabase
+    .from("users")
+    .select("id, email")
+    .order("email");
+
+  // Resolve player names referenced by match and recommendation entries
+  const playerIds = new Set<string>();
+  for (const entry of auditEntries) {
+    const row = entry.after_data || entry.before_data || {};
+    for (const key of ["player1_id", "player2_id"]) {
+      if (typeof row[key] === "string") playerIds.add(row[key] as string);
+    }
+  }
+
+  const { data: players } =
+    playerIds.size > 0
+      ? await supabase
+          .from("players")
+          .select("id, name")
+          .in("id", Array.from(playerIds))
+      : { data: [] };
+
+  return data(
+    {
+      entries: auditEntries,
+      users: users || [],
+      playerNames: Object.fromEntries(
+        (players || []).map((p) => [p.id, p.name])
+      ) as Record<string, string>,
+      page,
+      totalPages: Math.max(1, Math.ceil((count || 0) / PAGE_SIZE)),
+      totalCount: count || 0,
+    },
+    { headers }
+  );
+}
+
+export default function AdminAudit() {
+  const { entries, users, playerNames, page, totalPages, totalCount } =
+    useLoaderData<typeof loader>();
+  const [searchParams] = useSearchParams();
+
+  const pageLink = (targetPage: number) => {
+    const params = new URLSearchParams(searchParams);
+    params.set("page", String(targetPage));
+    return `/admin/audit?${params.toString()}`;
+  };
+
+  return (
+    <div className="admin-page">
+      <h1>Audit Log</h1>
+      <p className="help-text">
+        Every create, update and delete on players, matches, users, settings
+        and recommendations. Entries cannot be edited or removed.
+      </p>
+
+      <Form method="get" className="results-filters">
+        <div className="filter-group">
+          <label htmlFor="audit-table">Table:</label>
+          <select
+            id="audit-table"
+            name="table"
+            defaultValue={searchParams.get("table") || "all"}
+            className="form-select"
+          >
+            <option value="all">All</option>
+            {Object.entries(AUDIT_TABLE_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="filter-group">
+          <label htmlFor="audit-action">Action:</label>
+          <select
+            id="audit-action"
+            name="action"
+            defaultValue={searchParams.get("action") || "all"}
+            className="form-select"
+          >
+            <option value="all">All</option>
+            <option value="create">Create</option>
+            <option value="update">Update</option>
+            <option value="delete">Delete</option>
+          </select>
+        </div>
+        <div className="filter-group">
+          <label htmlFor="audit-actor">User:</label>
+          <select
+            id="audit-actor"
+            name="actor"
+            defaultValue={searchParams.get("actor") || "all"}
+            className="form-select"
+          >
+            <option value="all">All users</option>
+            {users.map((user) => (
+              <option key={user.id} value={user.id}>
+                {user.email}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="filter-group">
+          <label htmlFor="audit-record">Record ID:</label>
+          <input
+            id="audit-record"
+            name="record"
+            defaultValue={searchParams.get("record") || ""}
+            className="form-input"
+          />
+        </div>
+        <div className="filter-group">
+          <label htmlFor="audit-from">From:</label>
+          <input
+            type="date"
+            id="audit-from"
+            name="from"
+            defaultValue={searchParams.get("from") || ""}
+            className="form-input"
+          />
+        </div>
+        <div className="filter-group">
+          <label htmlFor="audit-to">To:</label>
+          <input
+            type="date"
+            id="audit-to"
+            name="to"
+            defaultValue={searchParams.get("to") || ""}
+            className="form-input"
+          />
+        </div>
+        <button type="submit" className="btn btn-secondary">
+          Filter
+        </button>
+      </Form>
+
+      {entries.length === 0 ? (
+        <p className="empty">No audit entries match these filters.</p>
+      ) : (
+        <>
+          <p className="help-text">{totalCount} entries</p>
+          <div className="audit-list">
+            {entries.map((entry) => (
+              <AuditEntryCard
+                key={entry.id}
+                entry={entry}
+                playerNames={playerNames}
+              />
+            ))}
+          </div>
+
+          <div className="audit-pagination">
+            {page > 1 ? (
+              <Link to={pageLink(page - 1)} className="btn btn-secondary">
+                Newer
+              </Link>
+            ) : (
+              <span />
+            )}
+            <span>
+              Page {page} of {totalPages}
+            </span>
+            {page < totalPages ? (
+              <Link to={pageLink(page + 1)} className="btn btn-secondary">
+                Older
+              </Link>
+            ) : (
+              <span />
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+function AuditEntryCard({
+  entry,
+  playerNames,
+}: {
+  entry: AuditLogEntry;
+  playerNames: Record<string, string>;
+}) {
+  const changes = getAuditFieldChanges(entry);
+
+  return (
+    <div className={`audit-entry audit-${entry.action}`}>
+      <div className="audit-entry-header">
+        <span className={`audit-action-badge ${entry.action}`}>
+          {entry.action}
+        </span>
+        <span className="audit-table">
+          {AUDIT_TABLE_LABELS[entry.table_name]}
+        </span>
+        <Link
+          to={`/admin/audit?table=${entry.table_name}&record=${entry.record_id}`}
+          className="audit-record"
+        >
+          {getRecordLabel(entry, playerNames)}
+        </Link>
+        <span className="audit-meta">
+          {entry.actor_email || "System"} ·{" "}
+          {new Date(entry.created_at).toLocaleString()}
+        </span>
+      </div>
+
+      {changes.length > 0 && (
+        <table className="data-table audit-changes">
+          <thead>
+            <tr>
+              <th>Field</th>
+              <th>Before</th>
+              <th>After</th>
+            </tr>
+          </thead>
+          <tbody>
+            {changes.map((change) => (
+              <tr key={change.field}>
+                <td>{change.field}</td>
+                <td>{formatAuditValue(change.before)}</td>
+                <td>{formatAuditValue(change.after)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+function getRecordLabel(
+  entry: AuditLogEntry,
+  playerNames: Record<string, string>
+): string {
+  const row = entry.after_data || entry.before_data || {};
+  const nameOf = (id: unknown) =>
+    (typeof id === "string" && playerNames[id]) || "Unknown player";
+
+  switch (entry.table_name as AuditTable) {
+    case "players":
+    case "tournament_settings":
+    case "teams":
+      return String(row.name ?? entry.record_id);
+    case "users":
+      return String(row.email ?? entry.record_id);
+    case "matches":
+      return `${nameOf(row.player1_id)} vs ${nameOf(row.player2_id)}`;
+    case "weekly_recommendations":
+      return `${row.week_date}: ${nameOf(row.player1_id)} vs ${nameOf(row.player2_id)}`;
+    case "doubles_matches":
+      return `Doubles ${row.phase} match`;
+    default:
+      return entry.record_id;
+  }
+}
@@ -1,11 +1,15 @@
 import type { Route } from "./+types/export-results";
+import { getActiveSeason } from "~/lib/seasons.server";
 import { createSupabaseServerClient } from "~/lib/supabase.server";
 import { requireRole } from "~/lib/auth.server";
+import { getRoundLabel } from "~/lib/bracket";
+import type { SetScore } from "~/lib/types";
 
 export async function loader({ request }: Route.LoaderArgs) {
   await requireRole(request, ["admin"]);
 
   const { supabase } = createSupabaseServerClient(request);
+  const season = await getActiveSeason(supabase);
 
   // Fetch all completed matches with player details
   const { data: matches, error } = await supabase
@@ -15,18 +19,14 @@ export async function loader({ request }: Route.LoaderArgs) {
       id,
       phase,
       status,
-      set1_p1,
-      set1_p2,
-      set2_p1,
-      set2_p2,
-      set3_p1,
-      set3_p2,
+      set_scores,
       winner_id,
       recorded_at,
       player1:players!matches_player1_id_fkey(id, name, department, tier),
       player2:players!matches_player2_id_fkey(id, name, department, tier)
     `
     )
+    .eq("season_id", season.id)
     .eq("status", "completed")
     .order("recorded_at", { ascending: true });
 
@@ -34,6 +34,12 @@ export async function loader({ request }: Route.LoaderArgs) {
     throw new Response("Failed to fetch matches", { status: 500 });
   }
 
+  // One column per set, enough for the longest match (at least 3)
+  const setColumnCount = Math.max(
+    3,
+    ...matches.map((match) => (match.set_scores as SetScore[]).length)
+  );
+
   // Build CSV content
   const headers = [
     "Match ID",
@@ -44,9 +50,7 @@ export async function loader({ request }: Route.LoaderArgs) {
     "Player 2",
     "Player 2 Department",
     "Player 2 Tier",
-    "Set 1",
-    "Set 2",
-    "Set 3",
+    ...Array.from({ length: setColumnCount }, (_, index) => `Set ${index + 1}`),
     "Winner",
     "Recorded At",
   ];
@@ -56,9 +60,10 @@ export async function loader({ request }: Route.LoaderArgs) {
     const player2 = match.player2 as unknown as { id: string; name: string; department: string | null; tier: number };
     const winner = match.winner_id === player1.id ? player1.name : player2.name;
 
-    const set1 = match.set1_p1 !== null ? `${match.set1_p1}-${match.set1_p2}` : "";
-    const set2 = match.set2_p1 !== null ? `${match.set2_p1}-${match.set2_p2}` : "";
-    const set3 = match.set3_p1 !== null ? `${match.set3_p1}-${match.set3_p2}` : "";
+    const setScores = match.set_scores as SetScore[];
+    const sets = Array.from({ length: setColumnCount }, (_, index) =>
+      setScores[index] ? `${setScores[index][0]}-${setScores[index][1]}` : ""
+    );
 
     return [
       match.id,
@@ -69,9 +74,7 @@ export async function loader({ request }: Route.LoaderArgs) {
       player2.name,
       player2.department || "",
       player2.tier,
-      set1,
-      set2,
-      set3,
+      ...sets,
       winner,
       match.recorded_at ? new Date(match.recorded_at).toISOString() : "",
     ];
@@ -100,7 +103,7 @@ function formatPhase(phase: string): string {
     semifinal: "Semifinal",
     final: "Final",
   };
-  return phaseLabels[phase] || phase;
+  return phaseLabels[phase] || getRoundLabel(phase);
 }
 
 function escapeCsvField(field: unknown): string {
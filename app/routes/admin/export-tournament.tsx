@@ -0,0 +1,33 @@
+import type { Route } from "./+types/export-tournament";
+import { exportTournament } from "~/lib/backup.server";
+import { getActiveSeason } from "~/lib/seasons.server";
+import { createSupabaseServerClient } from "~/lib/supabase.server";
+import { requireRole } from "~/lib/auth.server";
+import type { TournamentBackup } from "~/lib/types";
+
+export async function loader({ request }: Route.LoaderArgs) {
+  await requireRole(request, ["admin"]);
+
+  const { supabase } = createSupabaseServerClient(request);
+  const season = await getActiveSeason(supabase);
+
+  // Refuse to hand out a partial file: importing it would delete the rest
+  let backup: TournamentBackup;
+  try {
+    backup = await exportTournament(supabase, season);
+  } catch (error) {
+    return new Response(
+      `Export failed: ${error instanceof Error ? error.message : String(error)}`,
+      { status: 500, headers: { "Content-Type": "text/plain; charset=utf-8" } }
+    );
+  }
+
+  const filename = `tournament-backup-${new Date().toISOString().split("T")[0]}.json`;
+
+  return new Response(JSON.stringify(backup, null, 2), {
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${filename}"`,
+    },
+  });
+}
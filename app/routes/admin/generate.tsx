@@ -7,13 +7,24 @@ import {
   useNavigation,
 } from "react-router";
 import { requireRole } from "~/lib/auth.server";
+import { parseBracketFormat } from "~/lib/bracket";
+import { describeLeagueFormat, parseLeagueFormat } from "~/lib/league-format";
+import { notifyKnockoutMatchupsCreated } from "~/lib/notifications.server";
+import { getActiveSeason } from "~/lib/seasons.server";
 import { createSupabaseServerClient } from "~/lib/supabase.server";
 import {
   buildInitialKnockoutMatches,
+  calculateSeedingStandings,
   calculateStandings,
   deriveStandingsQualification,
+  drawGroups,
+  generateLeagueMatchPairs,
+  generateSwissPairings,
+  getLeagueProgress,
+  getSwissRoundStatus,
 } from "~/lib/tournament.server";
-import type { MatchWithPlayers, Player, PlayerStanding } from "~/lib/types";
+import type { Match, MatchWithPlayers, Player, SwissBye } from "~/lib/types";
+import { emitKnockoutRoundCreated } from "~/lib/webhooks.server";
 import type { Route } from "./+types/generate";
 
 export function meta() {
@@ -24,17 +35,31 @@ export async function loader({ request }: Route.LoaderArgs) {
   const { headers } = await requireRole(request, ["admin"]);
 
   const { supabase } = createSupabaseServerClient(request);
+  const season = await getActiveSeason(supabase);
 
-  const { data: players } = await supabase.from("players").select("*");
+  const { data: settings } = await supabase
+    .from("tournament_settings")
+    .select("bracket_format, league_format")
+    .eq("season_id", season.id)
+    .single();
+  const format = parseBracketFormat(settings?.bracket_format);
+  const leagueFormat = parseLeagueFormat(settings?.league_format);
+
+  const { data: players } = await supabase
+    .from("players")
+    .select("*")
+    .eq("season_id", season.id);
 
   const { count: knockoutMatchCount } = await supabase
     .from("matches")
     .select("*", { count: "exact", head: true })
+    .eq("season_id", season.id)
     .neq("phase", "league");
 
   const { count: completedKnockoutMatchCount } = await supabase
     .from("matches")
     .select("*", { count: "exact", head: true })
+    .eq("season_id", season.id)
     .neq("phase", "league")
     .eq("status", "completed");
 
@@ -47,34 +72,61 @@ export async function loader({ request }: Route.LoaderArgs) {
       player2:players!matches_player2_id_fkey(*)
     `,
     )
+    .eq("season_id", season.id)
     .eq("phase", "league")
     .eq("status", "completed");
 
-  const standings = calculateStandings(
+  const { data: swissByes } = await supabase
+    .from("swiss_byes")
+    .select("*")
+    .eq("season_id", season.id);
+
+  const standings = calculateSeedingStandings(
     (players as Player[]) || [],
     (leagueMatches as MatchWithPlayers[]) || [],
+    leagueFormat,
+    (swissByes as SwissBye[]) || [],
+  );
+  const qualification = deriveStandingsQualification(standings, format);
+
+  const leagueProgress = getLeagueProgress(
+    players?.length || 0,
+    leagueMatches?.length || 0,
+    leagueFormat,
   );
-  const qualification = deriveStandingsQualification(standings);
 
-  // Calculate league progress
-  const totalPossibleMatches = players
-    ? (players.length * (players.length - 1)) / 2
-    : 0;
-  const completedLeagueMatches = leagueMatches?.length || 0;
+  // Swiss rounds are judged on every league match, not just completed ones
+  const { data: swissMatches } = await supabase
+    .from("matches")
+    .select("swiss_round, status")
+    .eq("season_id", season.id)
+    .eq("phase", "league")
+    .not("swiss_round", "is", null);
+  const swissStatus = getSwissRoundStatus(
+    (swissMatches as Pick<Match, "swiss_round" | "status">[]) || [],
+    leagueFormat,
+  );
+
+  const { count: groupMatchCount } = await supabase
+    .from("matches")
+    .select("*", { count: "exact", head: true })
+    .eq("season_id", season.id)
+    .eq("phase", "league")
+    .not("group_name", "is", null);
 
   return data(
     {
       playerCount: players?.length || 0,
       knockoutMatchCount: knockoutMatchCount || 0,
       completedKnockoutMatchCount: completedKnockoutMatchCount || 0,
-      leagueProgress: {
-        completed: completedLeagueMatches,
-        total: totalPossibleMatches,
-        remaining: totalPossibleMatches - completedLeagueMatches,
-      },
+      leagueProgress,
       canGenerateKnockout:
-        qualification.qualifiedPlayerIds.length >= 10 &&
+        qualification.qualifiedPlayerIds.length >= format.qualifier_count &&
         (knockoutMatchCount || 0) === 0,
+      format,
+      leagueFormat,
+      swissStatus,
+      groupsDrawn: (groupMatchCount || 0) > 0,
     },
     { headers },
   );
@@ -86,12 +138,190 @@ export async function action({ request }: Route.ActionArgs) {
   const { supabase, headers } = createSupabaseServerClient(request);
   const formData = await request.formData();
   const intent = formData.get("intent");
+  const season = await getActiveSeason(supabase);
+
+  const { data: settings } = await supabase
+    .from("tournament_settings")
+    .select("bracket_format, league_format")
+    .eq("season_id", season.id)
+    .single();
+  const format = parseBracketFormat(settings?.bracket_format);
+  const leagueFormat = parseLeagueFormat(settings?.league_format);
+
+  if (intent === "draw_groups") {
+    if (leagueFormat.mode !== "groups") {
+      return { error: "The league is not using a group stage." };
+    }
+
+    const { count: existingLeague } = await supabase
+      .from("matches")
+      .select("*", { count: "exact", head: true })
+      .eq("season_id", season.id)
+      .eq("phase", "league");
+
+    if (existingLeague && existingLeague > 0) {
+      return {
+        error:
+          "League matches already exist. Delete them first to redraw the groups.",
+      };
+    }
+
+    const { data: players } = await supabase
+      .from("players")
+      .select("*")
+      .eq("season_id", season.id);
+
+    const seasonPlayers = (players as Player[]) || [];
+    const groups = drawGroups(seasonPlayers, leagueFormat.group_count);
+    const smallestGroup = Math.min(...groups.map((g) => g.players.length));
+
+    if (smallestGroup < Math.max(2, leagueFormat.advance_per_group)) {
+      return {
+        error: `${seasonPlayers.length} players are too few for ${leagueFormat.group_count} groups with ${leagueFormat.advance_per_group} advancing from each.`,
+      };
+    }
+
+    const { error } = await supabase.from("matches").insert(
+      groups.flatMap(({ group, players: groupPlayers }) =>
+        generateLeagueMatchPairs(groupPlayers).map(([player1, player2]) => ({
+          season_id: season.id,
+          player1_id: player1.id,
+          player2_id: player2.id,
+          phase: "league",
+          status: "scheduled",
+          group_name: group,
+        })),
+      ),
+    );
+
+    if (error) {
+      return { error: error.message };
+    }
+
+    const allHeaders = new Headers(authHeaders);
+    headers.forEach((value, key) => allHeaders.append(key, value));
+    return redirect("/standings", { headers: allHeaders });
+  }
+
+  if (intent === "generate_swiss_round") {
+    if (leagueFormat.mode !== "swiss") {
+      return { error: "The league is not using the Swiss system." };
+    }
+
+    const { count: existingKnockout } = await supabase
+      .from("matches")
+      .select("*", { count: "exact", head: true })
+      .eq("season_id", season.id)
+      .neq("phase", "league");
+
+    if (existingKnockout && existingKnockout > 0) {
+      return { error: "The knockout has already started." };
+    }
+
+    const { data: players } = await supabase
+      .from("players")
+      .select("*")
+      .eq("season_id", season.id);
+
+    const { data: leagueMatches } = await supabase
+      .from("matches")
+      .select(
+        `
+        *,
+        player1:players!matches_player1_id_fkey(*),
+        player2:players!matches_player2_id_fkey(*)
+      `,
+      )
+      .eq("season_id", season.id)
+      .eq("phase", "league");
+
+    const { data: swissByes } = await supabase
+      .from("swiss_byes")
+      .select("*")
+      .eq("season_id", season.id);
+
+    const allLeagueMatches = (leagueMatches as MatchWithPlayers[]) || [];
+    const seasonByes = (swissByes as SwissBye[]) || [];
+    const swissStatus = getSwissRoundStatus(allLeagueMatches, leagueFormat);
+
+    if (swissStatus.currentRound >= leagueFormat.swiss_rounds) {
+      return { error: "All Swiss rounds have already been paired." };
+    }
+
+    if (swissStatus.openMatches > 0) {
+      return {
+        error: `Round ${swissStatus.currentRound} still has ${swissStatus.openMatches} open ${swissStatus.openMatches === 1 ? "match" : "matches"}.`,
+      };
+    }
+
+    const seasonPlayers = (players as Player[]) || [];
+    if (seasonPlayers.length < 2) {
+      return { error: "Need at least 2 players to pair a round." };
+    }
+
+    if (leagueFormat.swiss_rounds > seasonPlayers.length - 1) {
+      return {
+        error: `${seasonPlayers.length} players can play at most ${seasonPlayers.length - 1} rounds without rematches. Lower the number of Swiss rounds in Settings.`,
+      };
+    }
+
+    const round = swissStatus.currentRound + 1;
+    const standings = calculateStandings(
+      seasonPlayers,
+      allLeagueMatches.filter((m) => m.status === "completed"),
+      leagueFormat,
+      seasonByes,
+    );
+    const { pairs, byePlayer } = generateSwissPairings(
+      standings,
+      allLeagueMatches,
+      seasonByes,
+    );
+
+    // A round paired again after its matches were deleted replaces its bye
+    const { error: byeError } = byePlayer
+      ? await supabase
+          .from("swiss_byes")
+          .upsert(
+            { season_id: season.id, round, player_id: byePlayer.id },
+            { onConflict: "season_id,round" },
+          )
+      : await supabase
+          .from("swiss_byes")
+          .delete()
+          .eq("season_id", season.id)
+          .eq("round", round);
+
+    if (byeError) {
+      return { error: byeError.message };
+    }
+
+    const { error } = await supabase.from("matches").insert(
+      pairs.map(([player1, player2]) => ({
+        season_id: season.id,
+        player1_id: player1.id,
+        player2_id: player2.id,
+        phase: "league",
+        status: "scheduled",
+        swiss_round: round,
+      })),
+    );
+
+    if (error) {
+      return { error: error.message };
+    }
+
+    const allHeaders = new Headers(authHeaders);
+    headers.forEach((value, key) => allHeaders.append(key, value));
+    return redirect("/editor/matches?phase=league", { headers: allHeaders });
+  }
 
   if (intent === "generate_knockout") {
     // Check if knockout matches already exist
     const { count: existingKnockout } = await supabase
       .from("matches")
       .select("*", { count: "exact", head: true })
+      .eq("season_id", season.id)
       .neq("phase", "league");
 
     if (existingKnockout && existingKnockout > 0) {
@@ -101,7 +331,10 @@ export async function action({ request }: Route.ActionArgs) {
       };
     }
 
-    const { data: players } = await supabase.from("players").select("*");
+    const { data: players } = await supabase
+      .from("players")
+      .select("*")
+      .eq("season_id", season.id);
 
     const { data: leagueMatches } = await supabase
       .from("matches")
@@ -112,35 +345,44 @@ export async function action({ request }: Route.ActionArgs) {
         player2:players!matches_player2_id_fkey(*)
       `,
       )
+      .eq("season_id", season.id)
       .eq("phase", "league")
       .eq("status", "completed");
 
-    const standings = calculateStandings(
+    const { data: swissByes } = await supabase
+      .from("swiss_byes")
+      .select("*")
+      .eq("season_id", season.id);
+
+    const standings = calculateSeedingStandings(
       (players as Player[]) || [],
       (leagueMatches as MatchWithPlayers[]) || [],
+      leagueFormat,
+      (swissByes as SwissBye[]) || [],
     );
-    const qualification = deriveStandingsQualification(standings);
-    const qualified = qualification.qualifiedPlayerIds
-      .map((playerId) =>
-        standings.find((standing) => standing.player.id === playerId),
-      )
-      .filter((standing): standing is PlayerStanding => Boolean(standing));
+    const qualification = deriveStandingsQualification(standings, format);
 
-    if (qualified.length < 10) {
+    if (qualification.qualifiedPlayerIds.length < format.qualifier_count) {
       return {
-        error:
-          "Need at least 10 eligible players with completed matches to generate knockout",
+        error: `Need at least ${format.qualifier_count} eligible players with completed matches to generate knockout`,
       };
     }
 
-    const knockoutMatches = buildInitialKnockoutMatches(qualified);
+    const knockoutMatches = buildInitialKnockoutMatches(standings, format);
 
-    const { error } = await supabase.from("matches").insert(knockoutMatches);
+    const { data: inserted, error } = await supabase
+      .from("matches")
+      .insert(knockoutMatches.map((m) => ({ ...m, season_id: season.id })))
+      .select("id");
 
     if (error) {
       return { error: error.message };
     }
 
+    const insertedIds = (inserted || []).map((m) => m.id);
+    await notifyKnockoutMatchupsCreated(supabase, insertedIds);
+    await emitKnockoutRoundCreated(supabase, insertedIds);
+
     const allHeaders = new Headers(authHeaders);
     headers.forEach((value, key) => allHeaders.append(key, value));
     return redirect("/admin/matches", { headers: allHeaders });
@@ -150,6 +392,7 @@ export async function action({ request }: Route.ActionArgs) {
     const { data: existingKnockoutMatches } = await supabase
       .from("matches")
       .select("id, status")
+      .eq("season_id", season.id)
       .neq("phase", "league");
 
     const knockoutMatches = existingKnockoutMatches || [];
@@ -165,7 +408,10 @@ export async function action({ request }: Route.ActionArgs) {
       };
     }
 
-    const { data: players } = await supabase.from("players").select("*");
+    const { data: players } = await supabase
+      .from("players")
+      .select("*")
+      .eq("season_id", season.id);
 
     const { data: leagueMatches } = await supabase
       .from("matches")
@@ -176,40 +422,43 @@ export async function action({ request }: Route.ActionArgs) {
         player2:players!matches_player2_id_fkey(*)
       `,
       )
+      .eq("season_id", season.id)
       .eq("phase", "league")
       .eq("status", "completed");
 
-    const standings = calculateStandings(
+    const { data: swissByes } = await supabase
+      .from("swiss_byes")
+      .select("*")
+      .eq("season_id", season.id);
+
+    const standings = calculateSeedingStandings(
       (players as Player[]) || [],
       (leagueMatches as MatchWithPlayers[]) || [],
+      leagueFormat,
+      (swissByes as SwissBye[]) || [],
     );
-    const qualification = deriveStandingsQualification(standings);
-    const qualified = qualification.qualifiedPlayerIds
-      .map((playerId) =>
-        standings.find((standing) => standing.player.id === playerId),
-      )
-      .filter((standing): standing is PlayerStanding => Boolean(standing));
+    const qualification = deriveStandingsQualification(standings, format);
 
-    if (qualified.length < 10) {
+    if (qualification.qualifiedPlayerIds.length < format.qualifier_count) {
       return {
-        error:
-          "Need at least 10 eligible players with completed matches to repair knockout.",
+        error: `Need at least ${format.qualifier_count} eligible players with completed matches to repair knockout.`,
       };
     }
 
     const { error: deleteError } = await supabase
       .from("matches")
       .delete()
+      .eq("season_id", season.id)
       .neq("phase", "league");
 
     if (deleteError) {
       return { error: deleteError.message };
     }
 
-    const repairedMatches = buildInitialKnockoutMatches(qualified);
+    const repairedMatches = buildInitialKnockoutMatches(standings, format);
     const { error: insertError } = await supabase
       .from("matches")
-      .insert(repairedMatches);
+      .insert(repairedMatches.map((m) => ({ ...m, season_id: season.id })));
 
     if (insertError) {
       return { error: insertError.message };
@@ -230,6 +479,10 @@ export default function AdminGenerate() {
     completedKnockoutMatchCount,
     leagueProgress,
     canGenerateKnockout,
+    format,
+    leagueFormat,
+    swissStatus,
+    groupsDrawn,
   } = useLoaderData<typeof loader>();
   const actionData = useActionData<typeof action>();
   const navigation = useNavigation();
@@ -246,21 +499,77 @@ export default function AdminGenerate() {
       <div className="generate-sections">
         <section className="generate-section">
           <h2>League Progress</h2>
-          <p>
-            League matches are recorded on-demand. Editors can record matches
-            between any two players who haven't played yet.
-          </p>
+          {leagueFormat.mode === "swiss" ? (
+            <p>
+              {describeLeagueFormat(leagueFormat)}. Each round pairs players on
+              similar points who haven't met yet; the next round can be paired
+              once every match in the current one is completed.
+            </p>
+          ) : leagueFormat.mode === "groups" ? (
+            <p>
+              {describeLeagueFormat(leagueFormat)}. Drawing the groups uses
+              tiers as pots and schedules every group match at once.
+            </p>
+          ) : (
+            <p>
+              League matches are recorded on-demand. Editors can record matches
+              between any two players who haven't played yet.
+            </p>
+          )}
           <div className="generate-stats">
             <p>Players: {playerCount}</p>
+            {leagueFormat.mode === "swiss" && (
+              <p>
+                Round: {swissStatus.currentRound} / {swissStatus.totalRounds}
+                {swissStatus.openMatches > 0 &&
+                  ` (${swissStatus.openMatches} open)`}
+              </p>
+            )}
             <p>
               League matches: {leagueProgress.completed} /{" "}
               {leagueProgress.total}
             </p>
             <p>Remaining: {leagueProgress.remaining}</p>
           </div>
-          <a href="/editor/record-league" className="btn btn-secondary">
-            Record League Match
-          </a>
+          {leagueFormat.mode === "groups" ? (
+            <Form method="post">
+              <button
+                type="submit"
+                name="intent"
+                value="draw_groups"
+                className="btn btn-secondary"
+                disabled={isSubmitting || groupsDrawn}
+              >
+                {isSubmitting
+                  ? "Drawing..."
+                  : groupsDrawn
+                    ? "Groups Drawn"
+                    : "Draw Groups"}
+              </button>
+            </Form>
+          ) : leagueFormat.mode === "swiss" ? (
+            <Form method="post">
+              <button
+                type="submit"
+                name="intent"
+                value="generate_swiss_round"
+                className="btn btn-secondary"
+                disabled={
+                  isSubmitting ||
+                  !swissStatus.canGenerateNextRound ||
+                  knockoutMatchCount > 0
+                }
+              >
+                {isSubmitting
+                  ? "Pairing..."
+                  : `Pair Round ${Math.min(swissStatus.currentRound + 1, swissStatus.totalRounds)}`}
+              </button>
+            </Form>
+          ) : (
+            <a href="/editor/record-league" className="btn btn-secondary">
+              Record League Match
+            </a>
+          )}
         </section>
 
         <section className="generate-section">
@@ -268,7 +577,7 @@ export default function AdminGenerate() {
           <p>
             Generate knockout round 1 matches based on league standings.
             <br />
-            Matchups: 4th vs 9th, 5th vs 8th, 3rd vs 10th, 6th vs 7th
+            Matchups: {formatRound1Matchups(format.seeding_pattern)}
           </p>
           <Form method="post">
             <button
@@ -305,7 +614,8 @@ export default function AdminGenerate() {
           )}
           {knockoutMatchCount === 0 && !canGenerateKnockout && (
             <p className="help-text">
-              Need at least 10 eligible players with completed league matches.
+              Need at least {format.qualifier_count} eligible players with
+              completed league matches.
             </p>
           )}
         </section>
@@ -313,3 +623,22 @@ export default function AdminGenerate() {
     </div>
   );
 }
+
+function formatRound1Matchups(seedingPattern: number[]): string {
+  const matchups: string[] = [];
+  for (let i = 0; i < seedingPattern.length; i += 2) {
+    matchups.push(
+      `${formatOrdinal(seedingPattern[i])} vs ${formatOrdinal(seedingPattern[i + 1])}`,
+    );
+  }
+  return matchups.join(", ");
+}
+
+function formatOrdinal(value: number): string {
+  const lastTwo = value % 100;
+  if (lastTwo >= 11 && lastTwo <= 13) return `${value}th`;
+  if (value % 10 === 1) return `${value}st`;
+  if (value % 10 === 2) return `${value}nd`;
+  if (value % 10 === 3) return `${value}rd`;
+  return `${value}th`;
+}
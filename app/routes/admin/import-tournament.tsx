@@ -0,0 +1,291 @@
+import {
+  data,
+  Form,
+  Link,
+  useActionData,
+  useLoaderData,
+  useNavigation,
+} from "react-router";
+import type { Route } from "./+types/import-tournament";
+import { requireRole } from "~/lib/auth.server";
+import {
+  diffTournamentBackup,
+  exportTournament,
+  importTournament,
+  parseTournamentBackup,
+  selectUsers,
+} from "~/lib/backup.server";
+import { getActiveSeason } from "~/lib/seasons.server";
+import { createSupabaseServerClient } from "~/lib/supabase.server";
+import type {
+  BackupSectionDiff,
+  TournamentBackup,
+  TournamentBackupDiff,
+} from "~/lib/types";
+
+export function meta() {
+  return [{ title: "Import Tournament | PD Table Tennis" }];
+}
+
+export async function loader({ request }: Route.LoaderArgs) {
+  const { headers } = await requireRole(request, ["admin"]);
+
+  const { supabase } = createSupabaseServerClient(request);
+  const season = await getActiveSeason(supabase);
+
+  return data({ seasonName: season.name }, { headers });
+}
+
+export async function action({ request }: Route.ActionArgs) {
+  const { headers: authHeaders } = await requireRole(request, ["admin"]);
+
+  const { supabase } = createSupabaseServerClient(request);
+  const season = await getActiveSeason(supabase);
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+
+  // Step 1: validate the uploaded file and show what importing would change
+  if (intent === "preview") {
+    const file = formData.get("file");
+    if (!(file instanceof File) || file.size === 0) {
+      return data(
+        { errors: ["Choose an exported .json file to import"] },
+        { headers: authHeaders }
+      );
+    }
+
+    const text = await file.text();
+    const { backup, errors } = parseTournamentBackup(text);
+    if (!backup) {
+      return data({ errors }, { headers: authHeaders });
+    }
+
+    let current: TournamentBackup;
+    let users: { email: string }[];
+    try {
+      [current, users] = await Promise.all([
+        exportTournament(supabase, season),
+        selectUsers(supabase),
+      ]);
+    } catch (error) {
+      return data(
+        { errors: [error instanceof Error ? error.message : String(error)] },
+        { headers: authHeaders }
+      );
+    }
+
+    return data(
+      {
+        preview: diffTournamentBackup(
+          current,
+          backup,
+          users.map((u) => u.email)
+        ),
+        backupJson: text,
+        sourceSeasonName: backup.season_name,
+        exportedAt: backup.exported_at,
+      },
+      { headers: authHeaders }
+    );
+  }
+
+  // Step 2: apply the previewed file (re-validated, since it round-trips
+  // through the browser)
+  if (intent === "apply") {
+    const { backup, errors } = parseTournamentBackup(
+      formData.get("backup") as string
+    );
+    if (!backup) {
+      return data({ errors }, { headers: authHeaders });
+    }
+
+    const error = await importTournament(supabase, backup);
+    if (error) {
+      return data({ errors: [error] }, { headers: authHeaders });
+    }
+
+    return data({ imported: true }, { headers: authHeaders });
+  }
+
+  return data({ errors: ["Unknown action"] }, { headers: authHeaders });
+}
+
+export default function AdminImportTournament() {
+  const { seasonName } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === "submitting";
+
+  const preview = actionData && "preview" in actionData ? actionData : null;
+
+  return (
+    <div className="admin-page">
+      <div className="admin-page-header">
+        <h1>Import Tournament</h1>
+        <a
+          href="/admin/export-tournament"
+          className="btn btn-secondary"
+          download
+        >
+          Export Current (JSON)
+        </a>
+      </div>
+      <p className="help-text">
+        Restore a JSON export into <strong>{seasonName}</strong>. Players,
+        matches, recommendations, doubles teams and matches, availability, Swiss
+        byes, settings and player links in this season are replaced by the
+        file's contents; rows are matched by id, so importing the same file
+        twice changes nothing.
+      </p>
+
+      {actionData && "errors" in actionData && (
+        <div className="error-message">
+          <ul className="import-errors">
+            {actionData.errors.map((error) => (
+              <li key={error}>{error}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {actionData && "imported" in actionData && (
+        <div className="success-message">
+          Import complete. <Link to="/admin">Back to the dashboard</Link>
+        </div>
+      )}
+
+      <Form method="post" encType="multipart/form-data" className="admin-form">
+        <div className="form-group">
+          <label htmlFor="file" className="form-label">
+            Export File
+          </label>
+          <input
+            type="file"
+            id="file"
+            name="file"
+            accept="application/json,.json"
+            className="form-input"
+            disabled={isSubmitting}
+          />
+        </div>
+        <div className="form-actions">
+          <button
+            type="submit"
+            name="intent"
+            value="preview"
+            className="btn btn-secondary"
+            disabled={isSubmitting}
+          >
+            Preview Changes
+          </button>
+        </div>
+      </Form>
+
+      {preview && (
+        <section className="admin-section">
+          <h2>Preview</h2>
+          <p className="help-text">
+            Exported from <strong>{preview.sourceSeasonName}</strong>
+            {preview.exportedAt &&
+              ` on ${new Date(preview.exportedAt).toLocaleString()}`}
+            .
+          </p>
+
+          {preview.preview.warnings.map((warning) => (
+            <div key={warning} className="import-warning">
+              {warning}
+            </div>
+          ))}
+
+          <ImportDiff diff={preview.preview} />
+
+          <Form method="post">
+            <input type="hidden" name="backup" value={preview.backupJson} />
+            <div className="form-actions">
+              <button
+                type="submit"
+                name="intent"
+                value="apply"
+                className="btn btn-danger"
+                disabled={isSubmitting}
+                onClick={(e) => {
+                  if (
+                    !confirm(
+                      `Replace the data in ${seasonName} with this file? Rows not in the file will be deleted.`
+                    )
+                  ) {
+                    e.preventDefault();
+                  }
+                }}
+              >
+                {isSubmitting ? "Importing..." : "Import"}
+              </button>
+            </div>
+          </Form>
+        </section>
+      )}
+    </div>
+  );
+}
+
+function ImportDiff({ diff }: { diff: TournamentBackupDiff }) {
+  const sections: [string, BackupSectionDiff][] = [
+    ["Players", diff.players],
+    ["Matches", diff.matches],
+    ["Recommendations", diff.recommendations],
+    ["Doubles teams", diff.teams],
+    ["Doubles matches", diff.doublesMatches],
+    ["Availability", diff.availability],
+    ["Swiss byes", diff.swissByes],
+    ["Player links", diff.userLinks],
+  ];
+
+  return (
+    <table className="data-table import-diff">
+      <thead>
+        <tr>
+          <th></th>
+          <th>Added</th>
+          <th>Updated</th>
+          <th>Removed</th>
+        </tr>
+      </thead>
+      <tbody>
+        <tr>
+          <td>Settings</td>
+          <td colSpan={3}>
+            {diff.settings.length === 0
+              ? "No changes"
+              : `Changes ${diff.settings.join(", ")}`}
+          </td>
+        </tr>
+        {sections.map(([label, section]) => (
+          <tr key={label}>
+            <td>{label}</td>
+            <DiffCell rows={section.added} className="added" />
+            <DiffCell rows={section.updated} className="updated" />
+            <DiffCell rows={section.removed} className="removed" />
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+function DiffCell({ rows, className }: { rows: string[]; className: string }) {
+  if (rows.length === 0) {
+    return <td>-</td>;
+  }
+
+  return (
+    <td className={`import-diff-${className}`}>
+      <details>
+        <summary>{rows.length}</summary>
+        <ul>
+          {rows.map((row, index) => (
+            <li key={index}>{row}</li>
+          ))}
+        </ul>
+      </details>
+    </td>
+  );
+}
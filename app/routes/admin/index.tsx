@@ -1,5 +1,6 @@
 import { data, Link, useLoaderData } from "react-router";
 import { requireRole } from "~/lib/auth.server";
+import { getActiveSeason } from "~/lib/seasons.server";
 import { createSupabaseServerClient } from "~/lib/supabase.server";
 import type { Route } from "./+types/index";
 
@@ -11,18 +12,22 @@ export async function loader({ request }: Route.LoaderArgs) {
   const { headers } = await requireRole(request, ["admin"]);
 
   const { supabase } = createSupabaseServerClient(request);
+  const season = await getActiveSeason(supabase);
 
   const { count: playerCount } = await supabase
     .from("players")
-    .select("*", { count: "exact", head: true });
+    .select("*", { count: "exact", head: true })
+    .eq("season_id", season.id);
 
   const { count: totalMatches } = await supabase
     .from("matches")
-    .select("*", { count: "exact", head: true });
+    .select("*", { count: "exact", head: true })
+    .eq("season_id", season.id);
 
   const { count: completedMatches } = await supabase
     .from("matches")
     .select("*", { count: "exact", head: true })
+    .eq("season_id", season.id)
     .eq("status", "completed");
 
   const { count: userCount } = await supabase
@@ -35,18 +40,20 @@ export async function loader({ request }: Route.LoaderArgs) {
       totalMatches: totalMatches || 0,
       completedMatches: completedMatches || 0,
       userCount: userCount || 0,
+      seasonName: season.name,
     },
     { headers }
   );
 }
 
 export default function AdminIndex() {
-  const { playerCount, totalMatches, completedMatches, userCount } =
+  const { playerCount, totalMatches, completedMatches, userCount, seasonName } =
     useLoaderData<typeof loader>();
 
   return (
     <div className="admin-page">
       <h1>Admin Dashboard</h1>
+      <p className="help-text">Current season: {seasonName}</p>
 
       <div className="admin-stats">
         <div className="stat-card">
@@ -95,11 +102,20 @@ export default function AdminIndex() {
 
       <nav className="admin-nav-links">
         <Link to="/admin/players">Manage Players</Link>
+        <Link to="/admin/teams">Doubles Teams</Link>
         <Link to="/admin/matches">Manage Matches</Link>
         <Link to="/admin/settings">Tournament Settings</Link>
+        <Link to="/admin/seasons">Seasons</Link>
+        <Link to="/admin/audit">Audit Log</Link>
+        <Link to="/admin/trash">Trash</Link>
+        <Link to="/admin/webhooks">Webhooks</Link>
         <a href="/admin/export-results" download>
           Export Results (CSV)
         </a>
+        <a href="/admin/export-tournament" download>
+          Export Tournament (JSON)
+        </a>
+        <Link to="/admin/import-tournament">Import Tournament</Link>
       </nav>
     </div>
   );
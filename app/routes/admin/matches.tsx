@@ -1,9 +1,17 @@
-import { Form, Link, data, useLoaderData } from "react-router";
+import { Form, Link, data, useActionData, useLoaderData } from "react-router";
 import { requireRole } from "~/lib/auth.server";
+import { getActiveSeason } from "~/lib/seasons.server";
 import { createSupabaseServerClient } from "~/lib/supabase.server";
 import type { MatchWithPlayers } from "~/lib/types";
 import type { Route } from "./+types/matches";
 
+// Bulk deletes go to the trash so they can be restored from /admin/trash
+const TRASH_KIND_BY_INTENT: Record<string, string> = {
+  delete_all_league: "league_matches",
+  delete_all_knockout: "knockout_matches",
+  reset_tournament: "reset",
+};
+
 export function meta() {
   return [{ title: "Manage Matches | PD Table Tennis" }];
 }
@@ -12,6 +20,7 @@ export async function loader({ request }: Route.LoaderArgs) {
   const { headers } = await requireRole(request, ["admin"]);
 
   const { supabase } = createSupabaseServerClient(request);
+  const season = await getActiveSeason(supabase);
 
   const { data: matches } = await supabase
     .from("matches")
@@ -22,6 +31,7 @@ export async function loader({ request }: Route.LoaderArgs) {
       player2:players!matches_player2_id_fkey(*)
     `
     )
+    .eq("season_id", season.id)
     .order("phase")
     .order("created_at");
 
@@ -35,31 +45,40 @@ export async function action({ request }: Route.ActionArgs) {
   const formData = await request.formData();
   const intent = formData.get("intent");
 
+  // Destructive actions only ever touch the active season; past seasons are
+  // kept as read-only history.
+  const season = await getActiveSeason(supabase);
+
+  const allHeaders = new Headers(authHeaders);
+  headers.forEach((value, key) => allHeaders.append(key, value));
+
   if (intent === "delete") {
     const id = formData.get("id") as string;
-    await supabase.from("matches").delete().eq("id", id);
+    await supabase
+      .from("matches")
+      .delete()
+      .eq("season_id", season.id)
+      .eq("id", id);
   }
 
-  if (intent === "delete_all_league") {
-    await supabase.from("matches").delete().eq("phase", "league");
-  }
-
-  if (intent === "delete_all_knockout") {
-    await supabase.from("matches").delete().neq("phase", "league");
-  }
+  const trashKind = TRASH_KIND_BY_INTENT[intent as string];
+  if (trashKind) {
+    const { error } = await supabase.rpc("trash_matches", {
+      trash_kind: trashKind,
+    });
 
-  if (intent === "reset_tournament") {
-    await supabase.from("matches").delete().neq("id", "");
+    if (error) {
+      return data({ error: error.message }, { headers: allHeaders });
+    }
   }
 
-  const allHeaders = new Headers(authHeaders);
-  headers.forEach((value, key) => allHeaders.append(key, value));
   allHeaders.set("Location", "/admin/matches");
   return new Response(null, { status: 302, headers: allHeaders });
 }
 
 export default function AdminMatches() {
   const { matches } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
 
   const leagueMatches = matches.filter((m) => m.phase === "league");
   const knockoutMatches = matches.filter((m) => m.phase !== "league");
@@ -72,6 +91,9 @@ export default function AdminMatches() {
           <Link to="/admin/generate" className="btn btn-primary">
             Generate Matches
           </Link>
+          <Link to="/admin/trash" className="btn btn-secondary">
+            Trash
+          </Link>
           {matches.length > 0 && (
             <Form method="post" style={{ display: "inline" }}>
               <button
@@ -82,7 +104,7 @@ export default function AdminMatches() {
                 onClick={(e) => {
                   if (
                     !confirm(
-                      "Are you sure you want to reset the tournament? This will delete ALL matches (league and knockout) and cannot be undone."
+                      "Are you sure you want to reset the tournament? This will delete ALL matches (league and knockout) in the current season. You can restore them from the Trash. Past seasons are not affected."
                     )
                   ) {
                     e.preventDefault();
@@ -96,6 +118,10 @@ export default function AdminMatches() {
         </div>
       </div>
 
+      {actionData?.error && (
+        <div className="error-message">{actionData.error}</div>
+      )}
+
       <section className="admin-section">
         <div className="section-header">
           <h2>League Matches ({leagueMatches.length})</h2>
@@ -107,7 +133,11 @@ export default function AdminMatches() {
                 value="delete_all_league"
                 className="btn btn-danger"
                 onClick={(e) => {
-                  if (!confirm("Delete ALL league matches?")) {
+                  if (
+                    !confirm(
+                      "Delete ALL league matches? You can restore them from the Trash."
+                    )
+                  ) {
                     e.preventDefault();
                   }
                 }}
@@ -131,7 +161,11 @@ export default function AdminMatches() {
                 value="delete_all_knockout"
                 className="btn btn-danger"
                 onClick={(e) => {
-                  if (!confirm("Delete ALL knockout matches?")) {
+                  if (
+                    !confirm(
+                      "Delete ALL knockout matches? You can restore them from the Trash."
+                    )
+                  ) {
                     e.preventDefault();
                   }
                 }}
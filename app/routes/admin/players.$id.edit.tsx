@@ -7,6 +7,7 @@ import {
   useNavigation,
 } from "react-router";
 import { requireRole } from "~/lib/auth.server";
+import { getActiveSeason } from "~/lib/seasons.server";
 import { createSupabaseServerClient } from "~/lib/supabase.server";
 import type { Player } from "~/lib/types";
 import type { Route } from "./+types/players.$id.edit";
@@ -21,10 +22,13 @@ export async function loader({ request, params }: Route.LoaderArgs) {
   const { headers } = await requireRole(request, ["admin"]);
 
   const { supabase } = createSupabaseServerClient(request);
+  const season = await getActiveSeason(supabase);
 
+  // Players from past seasons are read-only
   const { data: player } = await supabase
     .from("players")
     .select("*")
+    .eq("season_id", season.id)
     .eq("id", params.id)
     .single();
 
@@ -61,6 +65,7 @@ export async function action({ request, params }: Route.ActionArgs) {
     };
   }
 
+  const season = await getActiveSeason(supabase);
   const { error } = await supabase
     .from("players")
     .update({
@@ -73,6 +78,7 @@ export async function action({ request, params }: Route.ActionArgs) {
         ? disqualificationNote
         : null,
     })
+    .eq("season_id", season.id)
     .eq("id", params.id);
 
   if (error) {
@@ -0,0 +1,236 @@
+import {
+  data,
+  Form,
+  Link,
+  redirect,
+  useActionData,
+  useNavigation,
+} from "react-router";
+import type { Route } from "./+types/players.import";
+import { requireRole } from "~/lib/auth.server";
+import { parsePlayerImport } from "~/lib/player-import.server";
+import { getActiveSeason } from "~/lib/seasons.server";
+import { createSupabaseServerClient } from "~/lib/supabase.server";
+import type { Player } from "~/lib/types";
+import { emitPlayersCreated } from "~/lib/webhooks.server";
+
+export function meta() {
+  return [{ title: "Import Players | PD Table Tennis" }];
+}
+
+export async function loader({ request }: Route.LoaderArgs) {
+  const { headers } = await requireRole(request, ["admin"]);
+  return data({}, { headers });
+}
+
+export async function action({ request }: Route.ActionArgs) {
+  const { headers: authHeaders } = await requireRole(request, ["admin"]);
+
+  const { supabase, headers } = createSupabaseServerClient(request);
+  const season = await getActiveSeason(supabase);
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+
+  // The preview reads the uploaded file (or pasted text); applying re-reads the
+  // text the preview was built from so nothing changes in between
+  let text = (formData.get("text") as string) || "";
+  const file = formData.get("file");
+  if (intent === "preview" && file instanceof File && file.size > 0) {
+    text = await file.text();
+  }
+
+  if (!text.trim()) {
+    return data(
+      { error: "Upload a CSV/TSV file or paste the player list" },
+      { headers: authHeaders }
+    );
+  }
+
+  const { data: players } = await supabase
+    .from("players")
+    .select("*")
+    .eq("season_id", season.id);
+
+  const { rows, error } = parsePlayerImport(text, (players as Player[]) || []);
+  if (error) {
+    return data({ error }, { headers: authHeaders });
+  }
+
+  if (intent === "apply" && rows.every((row) => row.errors.length === 0)) {
+    // A single insert, so either every player is added or none are
+    const { data: inserted, error: insertError } = await supabase
+      .from("players")
+      .insert(
+        rows.map((row) => ({
+          season_id: season.id,
+          name: row.name,
+          department: row.department,
+          slack_handle: row.slack_handle,
+          tier: row.tier,
+        }))
+      )
+      .select();
+
+    if (insertError) {
+      return data(
+        { error: insertError.message, rows, text },
+        { headers: authHeaders }
+      );
+    }
+
+    await emitPlayersCreated(supabase, (inserted as Player[]) || []);
+
+    const allHeaders = new Headers(authHeaders);
+    headers.forEach((value, key) => allHeaders.append(key, value));
+    return redirect("/admin/players", { headers: allHeaders });
+  }
+
+  return data({ rows, text }, { headers: authHeaders });
+}
+
+export default function AdminPlayersImport() {
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === "submitting";
+
+  const rows = actionData && "rows" in actionData ? actionData.rows : null;
+  const text = actionData && "text" in actionData ? actionData.text : "";
+  const errorCount = rows?.filter((row) => row.errors.length > 0).length ?? 0;
+
+  return (
+    <div className="admin-page">
+      <div className="admin-page-header">
+        <h1>Import Players</h1>
+        <Link to="/admin/players" className="btn btn-secondary">
+          Back to Players
+        </Link>
+      </div>
+      <p className="help-text">
+        Upload a CSV or TSV file (or paste from a spreadsheet) with a header
+        row. Columns: <code>name</code>, <code>department</code>,{" "}
+        <code>slack_handle</code> and <code>tier</code> (1-4, defaults to 4).
+        Only name is required. Players are added to the current season.
+      </p>
+
+      {actionData && "error" in actionData && (
+        <div className="error-message">{actionData.error}</div>
+      )}
+
+      <Form method="post" encType="multipart/form-data" className="admin-form">
+        <div className="form-group">
+          <label htmlFor="file" className="form-label">
+            File
+          </label>
+          <input
+            type="file"
+            id="file"
+            name="file"
+            accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values"
+            className="form-input"
+            disabled={isSubmitting}
+          />
+        </div>
+        <div className="form-group">
+          <label htmlFor="text" className="form-label">
+            Or paste
+          </label>
+          <textarea
+            id="text"
+            name="text"
+            key={text}
+            rows={8}
+            className="form-input"
+            placeholder={
+              "name,department,slack_handle,tier\nAda Lovelace,Engineering,ada,2"
+            }
+            defaultValue={text}
+            disabled={isSubmitting}
+          />
+        </div>
+        <div className="form-actions">
+          <button
+            type="submit"
+            name="intent"
+            value="preview"
+            className="btn btn-secondary"
+            disabled={isSubmitting}
+          >
+            Preview Import
+          </button>
+        </div>
+      </Form>
+
+      {rows && (
+        <section className="admin-section">
+          <div className="section-header">
+            <h2>
+              Preview ({rows.length} players
+              {errorCount > 0 && `, ${errorCount} with errors`})
+            </h2>
+          </div>
+
+          <table className="data-table">
+            <thead>
+              <tr>
+                <th>Line</th>
+                <th>Name</th>
+                <th>Department</th>
+                <th>Slack</th>
+                <th className="text-center">Tier</th>
+                <th>Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr
+                  key={row.line}
+                  className={
+                    row.errors.length > 0
+                      ? "import-row-error"
+                      : row.warnings.length > 0
+                        ? "import-row-warning"
+                        : ""
+                  }
+                >
+                  <td>{row.line}</td>
+                  <td>{row.name || "-"}</td>
+                  <td>{row.department || "-"}</td>
+                  <td>{row.slack_handle ? `@${row.slack_handle}` : "-"}</td>
+                  <td className="text-center">
+                    <span className={`tier-badge tier-${row.tier}`}>
+                      {row.tier}
+                    </span>
+                  </td>
+                  <td>
+                    {row.errors.length === 0 && row.warnings.length === 0
+                      ? "OK"
+                      : [...row.errors, ...row.warnings].join("; ")}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <Form method="post">
+            <input type="hidden" name="text" value={text} />
+            <div className="form-actions">
+              <button
+                type="submit"
+                name="intent"
+                value="apply"
+                className="btn btn-primary"
+                disabled={isSubmitting || errorCount > 0}
+              >
+                {isSubmitting
+                  ? "Importing..."
+                  : errorCount > 0
+                    ? "Fix the errors to import"
+                    : `Import ${rows.length} Players`}
+              </button>
+            </div>
+          </Form>
+        </section>
+      )}
+    </div>
+  );
+}
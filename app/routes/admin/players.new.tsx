@@ -2,6 +2,9 @@ import { Form, redirect, useActionData, useNavigation, data } from "react-router
 import type { Route } from "./+types/players.new";
 import { createSupabaseServerClient } from "~/lib/supabase.server";
 import { requireRole } from "~/lib/auth.server";
+import { getActiveSeason } from "~/lib/seasons.server";
+import type { Player } from "~/lib/types";
+import { emitPlayersCreated } from "~/lib/webhooks.server";
 
 export function meta() {
   return [{ title: "Add Player | PD Table Tennis" }];
@@ -28,17 +31,24 @@ export async function action({ request }: Route.ActionArgs) {
     return { error: "Name is required" };
   }
 
-  const { error } = await supabase.from("players").insert({
-    name,
-    department,
-    slack_handle,
-    tier,
-  });
+  const season = await getActiveSeason(supabase);
+  const { data: inserted, error } = await supabase
+    .from("players")
+    .insert({
+      season_id: season.id,
+      name,
+      department,
+      slack_handle,
+      tier,
+    })
+    .select();
 
   if (error) {
     return { error: error.message };
   }
 
+  await emitPlayersCreated(supabase, (inserted as Player[]) || []);
+
   const allHeaders = new Headers(authHeaders);
   headers.forEach((value, key) => allHeaders.append(key, value));
   return redirect("/admin/players", { headers: allHeaders });
@@ -1,5 +1,6 @@
-import { Link, useLoaderData, Form, data } from "react-router";
+import { Link, useActionData, useLoaderData, Form, data } from "react-router";
 import type { Route } from "./+types/players";
+import { getActiveSeason } from "~/lib/seasons.server";
 import { createSupabaseServerClient } from "~/lib/supabase.server";
 import { requireRole } from "~/lib/auth.server";
 import type { Player } from "~/lib/types";
@@ -12,10 +13,12 @@ export async function loader({ request }: Route.LoaderArgs) {
   const { headers } = await requireRole(request, ["admin"]);
 
   const { supabase } = createSupabaseServerClient(request);
+  const season = await getActiveSeason(supabase);
 
   const { data: players } = await supabase
     .from("players")
     .select("*")
+    .eq("season_id", season.id)
     .order("name");
 
   return data({ players: (players as Player[]) || [] }, { headers });
@@ -28,29 +31,50 @@ export async function action({ request }: Route.ActionArgs) {
   const formData = await request.formData();
   const intent = formData.get("intent");
 
+  const allHeaders = new Headers(authHeaders);
+  headers.forEach((value, key) => allHeaders.append(key, value));
+
   if (intent === "delete") {
     const id = formData.get("id") as string;
-    await supabase.from("players").delete().eq("id", id);
+    // Moves the player and their matches to the trash (see /admin/trash)
+    const { error } = await supabase.rpc("trash_player", {
+      target_player_id: id,
+    });
+
+    if (error) {
+      return data({ error: error.message }, { headers: allHeaders });
+    }
   }
 
-  const allHeaders = new Headers(authHeaders);
-  headers.forEach((value, key) => allHeaders.append(key, value));
   allHeaders.set("Location", "/admin/players");
   return new Response(null, { status: 302, headers: allHeaders });
 }
 
 export default function AdminPlayers() {
   const { players } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
 
   return (
     <div className="admin-page">
       <div className="admin-page-header">
         <h1>Manage Players</h1>
-        <Link to="/admin/players/new" className="btn btn-primary">
-          Add Player
-        </Link>
+        <div className="header-actions">
+          <Link to="/admin/trash" className="btn btn-secondary">
+            Trash
+          </Link>
+          <Link to="/admin/players/import" className="btn btn-secondary">
+            Import CSV
+          </Link>
+          <Link to="/admin/players/new" className="btn btn-primary">
+            Add Player
+          </Link>
+        </div>
       </div>
 
+      {actionData?.error && (
+        <div className="error-message">{actionData.error}</div>
+      )}
+
       {players.length === 0 ? (
         <p className="empty">No players registered yet.</p>
       ) : (
@@ -93,7 +117,11 @@ export default function AdminPlayers() {
                         value="delete"
                         className="btn btn-danger"
                         onClick={(e) => {
-                          if (!confirm(`Delete ${player.name}?`)) {
+                          if (
+                            !confirm(
+                              `Delete ${player.name} and their matches? You can restore them from the Trash.`
+                            )
+                          ) {
                             e.preventDefault();
                           }
                         }}
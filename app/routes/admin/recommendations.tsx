@@ -7,8 +7,10 @@ import {
   useNavigation,
 } from "react-router";
 import type { Route } from "./+types/recommendations";
+import { getActiveSeason } from "~/lib/seasons.server";
 import { createSupabaseServerClient } from "~/lib/supabase.server";
 import { requireRole } from "~/lib/auth.server";
+import { notifyRecommendationsPublished } from "~/lib/notifications.server";
 import { generateRecommendations } from "~/lib/recommendations.server";
 import type { Player, WeeklyRecommendationWithPlayers } from "~/lib/types";
 
@@ -19,11 +21,13 @@ export function meta() {
 export async function loader({ request }: Route.LoaderArgs) {
   const { headers, user } = await requireRole(request, ["admin"]);
   const { supabase } = createSupabaseServerClient(request);
+  const season = await getActiveSeason(supabase);
 
   // Fetch all players
   const { data: players } = await supabase
     .from("players")
     .select("*")
+    .eq("season_id", season.id)
     .order("name");
 
   // Fetch current recommendations
@@ -36,6 +40,7 @@ export async function loader({ request }: Route.LoaderArgs) {
       player2:players!weekly_recommendations_player2_id_fkey(*)
     `
     )
+    .eq("season_id", season.id)
     .order("week_date", { ascending: false })
     .order("is_extra_match", { ascending: true });
 
@@ -59,6 +64,7 @@ export async function loader({ request }: Route.LoaderArgs) {
 export async function action({ request }: Route.ActionArgs) {
   const { headers: authHeaders, user } = await requireRole(request, ["admin"]);
   const { supabase, headers } = createSupabaseServerClient(request);
+  const season = await getActiveSeason(supabase);
   const formData = await request.formData();
   const intent = formData.get("intent");
 
@@ -80,18 +86,23 @@ export async function action({ request }: Route.ActionArgs) {
     const { data: players } = await supabase
       .from("players")
       .select("*")
+      .eq("season_id", season.id)
       .in("id", playerIds);
 
     // Generate recommendations (random pairing)
     const recommendations = generateRecommendations((players as Player[]) || []);
 
     // Delete existing recommendations
-    await supabase.from("weekly_recommendations").delete().neq("id", "");
+    await supabase
+      .from("weekly_recommendations")
+      .delete()
+      .eq("season_id", season.id);
 
     // Insert new recommendations
     if (recommendations.length > 0) {
       const { error } = await supabase.from("weekly_recommendations").insert(
         recommendations.map((rec) => ({
+          season_id: season.id,
           week_date: weekDate,
           player1_id: rec.player1_id,
           player2_id: rec.player2_id,
@@ -106,6 +117,8 @@ export async function action({ request }: Route.ActionArgs) {
           { headers: allHeaders }
         );
       }
+
+      await notifyRecommendationsPublished(supabase, season.id, weekDate);
     }
 
     allHeaders.set("Location", "/admin/recommendations");
@@ -113,7 +126,10 @@ export async function action({ request }: Route.ActionArgs) {
   }
 
   if (intent === "clear") {
-    await supabase.from("weekly_recommendations").delete().neq("id", "");
+    await supabase
+      .from("weekly_recommendations")
+      .delete()
+      .eq("season_id", season.id);
 
     allHeaders.set("Location", "/admin/recommendations");
     return new Response(null, { status: 302, headers: allHeaders });
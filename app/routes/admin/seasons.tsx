@@ -0,0 +1,254 @@
+import {
+  data,
+  Form,
+  Link,
+  useActionData,
+  useLoaderData,
+  useNavigation,
+} from "react-router";
+import { requireRole } from "~/lib/auth.server";
+import { getSeasons } from "~/lib/seasons.server";
+import { createSupabaseServerClient } from "~/lib/supabase.server";
+import type { Route } from "./+types/seasons";
+
+export function meta() {
+  return [{ title: "Seasons | PD Table Tennis" }];
+}
+
+export async function loader({ request }: Route.LoaderArgs) {
+  const { headers } = await requireRole(request, ["admin"]);
+
+  const { supabase } = createSupabaseServerClient(request);
+
+  const seasons = await getSeasons(supabase);
+
+  // Head-only counts per season: fetching the rows would stop at Supabase's
+  // 1000-row limit
+  const counted = await Promise.all(
+    seasons.map(async (season) => {
+      const { count: playerCount } = await supabase
+        .from("players")
+        .select("id", { count: "exact", head: true })
+        .eq("season_id", season.id);
+      const { count: completedMatchCount } = await supabase
+        .from("matches")
+        .select("id", { count: "exact", head: true })
+        .eq("season_id", season.id)
+        .eq("status", "completed");
+
+      return {
+        ...season,
+        playerCount: playerCount ?? 0,
+        completedMatchCount: completedMatchCount ?? 0,
+      };
+    })
+  );
+
+  return data(
+    {
+      seasons: counted,
+    },
+    { headers }
+  );
+}
+
+export async function action({ request }: Route.ActionArgs) {
+  const { headers: authHeaders } = await requireRole(request, ["admin"]);
+
+  const { supabase, headers } = createSupabaseServerClient(request);
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+
+  const allHeaders = new Headers(authHeaders);
+  headers.forEach((value, key) => allHeaders.append(key, value));
+
+  if (intent === "start_season") {
+    const name = (formData.get("name") as string)?.trim();
+    const carryOverPlayers = formData.get("carry_over_players") === "on";
+
+    if (!name) {
+      return data({ error: "Season name is required" }, { headers: allHeaders });
+    }
+
+    const { error } = await supabase.rpc("start_new_season", {
+      season_name: name,
+      carry_over_players: carryOverPlayers,
+    });
+
+    if (error) {
+      return data({ error: error.message }, { headers: allHeaders });
+    }
+
+    allHeaders.set("Location", "/admin/seasons");
+    return new Response(null, { status: 302, headers: allHeaders });
+  }
+
+  if (intent === "rename") {
+    const id = formData.get("id") as string;
+    const name = (formData.get("name") as string)?.trim();
+
+    if (!name) {
+      return data({ error: "Season name is required" }, { headers: allHeaders });
+    }
+
+    const { error } = await supabase
+      .from("seasons")
+      .update({ name })
+      .eq("id", id);
+
+    if (error) {
+      return data({ error: error.message }, { headers: allHeaders });
+    }
+
+    allHeaders.set("Location", "/admin/seasons");
+    return new Response(null, { status: 302, headers: allHeaders });
+  }
+
+  return data({ error: "Invalid action" }, { headers: allHeaders });
+}
+
+export default function AdminSeasons() {
+  const { seasons } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === "submitting";
+
+  return (
+    <div className="admin-page">
+      <h1>Seasons</h1>
+      <p className="help-text">
+        Each season has its own players, tiers, matches, recommendations and
+        settings. Past seasons stay browsable read-only on Standings, Results
+        and Bracket.
+      </p>
+
+      {actionData?.error && (
+        <div className="error-message">{actionData.error}</div>
+      )}
+
+      <section className="admin-section">
+        <h2>All Seasons</h2>
+        <table className="data-table">
+          <thead>
+            <tr>
+              <th>Name</th>
+              <th>Started</th>
+              <th className="text-center">Players</th>
+              <th className="text-center">Completed Matches</th>
+              <th>Status</th>
+              <th className="text-right">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {seasons.map((season) => (
+              <tr key={season.id}>
+                <td>
+                  <Form method="post" className="season-rename-form">
+                    <input type="hidden" name="intent" value="rename" />
+                    <input type="hidden" name="id" value={season.id} />
+                    <input
+                      type="text"
+                      name="name"
+                      defaultValue={season.name}
+                      className="form-input"
+                      disabled={isSubmitting}
+                    />
+                    <button
+                      type="submit"
+                      className="btn btn-secondary"
+                      disabled={isSubmitting}
+                    >
+                      Rename
+                    </button>
+                  </Form>
+                </td>
+                <td>{new Date(season.created_at).toLocaleDateString()}</td>
+                <td className="text-center">{season.playerCount}</td>
+                <td className="text-center">{season.completedMatchCount}</td>
+                <td>
+                  <span
+                    className={`status-badge ${
+                      season.is_active ? "scheduled" : "completed"
+                    }`}
+                  >
+                    {season.is_active ? "active" : "archived"}
+                  </span>
+                </td>
+                <td className="text-right">
+                  <Link
+                    to={
+                      season.is_active
+                        ? "/standings"
+                        : `/standings?season=${season.id}`
+                    }
+                    className="btn btn-secondary"
+                  >
+                    View
+                  </Link>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </section>
+
+      <section className="admin-section">
+        <h2>Start New Season</h2>
+        <Form method="post" className="admin-form">
+          <input type="hidden" name="intent" value="start_season" />
+
+          <div className="form-group">
+            <label htmlFor="name" className="form-label">
+              Season Name *
+            </label>
+            <input
+              type="text"
+              id="name"
+              name="name"
+              className="form-input"
+              placeholder={`${new Date().getFullYear()} Season`}
+              required
+              disabled={isSubmitting}
+            />
+          </div>
+
+          <div className="form-group">
+            <label className="form-label" htmlFor="carry_over_players">
+              <input
+                type="checkbox"
+                id="carry_over_players"
+                name="carry_over_players"
+                defaultChecked
+                disabled={isSubmitting}
+              />{" "}
+              Carry players and tiers over from the current season
+            </label>
+            <p className="help-text">
+              The current season is archived. Its matches and standings are
+              kept and become read-only.
+            </p>
+          </div>
+
+          <div className="form-actions">
+            <button
+              type="submit"
+              className="btn btn-primary"
+              disabled={isSubmitting}
+              onClick={(e) => {
+                if (
+                  !confirm(
+                    "Start a new season? The current season will be archived and become read-only."
+                  )
+                ) {
+                  e.preventDefault();
+                }
+              }}
+            >
+              {isSubmitting ? "Starting..." : "Start Season"}
+            </button>
+          </div>
+        </Form>
+      </section>
+    </div>
+  );
+}
@@ -1,8 +1,46 @@
+import { useState } from "react";
 import { Form, useLoaderData, useActionData, useNavigation, data } from "react-router";
 import type { Route } from "./+types/settings";
+import { getActiveSeason } from "~/lib/seasons.server";
 import { createSupabaseServerClient } from "~/lib/supabase.server";
 import { requireRole } from "~/lib/auth.server";
-import type { TournamentSettings } from "~/lib/types";
+import {
+  BRACKET_FORMAT_PRESETS,
+  describeBracketFormat,
+  ELIMINATION_STYLE_LABELS,
+  findBracketFormatPreset,
+  getKnockoutRounds,
+  getRoundLabel,
+  parseBracketFormat,
+  validateBracketFormat,
+} from "~/lib/bracket";
+import {
+  LEAGUE_MODE_DESCRIPTIONS,
+  LEAGUE_MODE_LABELS,
+  parseLeagueFormat,
+  validateLeagueFormat,
+} from "~/lib/league-format";
+import {
+  BEST_OF_OPTIONS,
+  MATCH_FORMAT_STAGES,
+  parseMatchFormats,
+  validateMatchFormat,
+} from "~/lib/match-format";
+import {
+  parseScheduleSettings,
+  validateScheduleSettings,
+} from "~/lib/schedule";
+import type {
+  BracketFormat,
+  EliminationStyle,
+  LeagueFormat,
+  LeagueMode,
+  MatchFormat,
+  MatchFormats,
+  MatchPhase,
+  ScheduleSettings,
+  TournamentSettings,
+} from "~/lib/types";
 
 export function meta() {
   return [{ title: "Tournament Settings | PD Table Tennis" }];
@@ -12,33 +50,215 @@ export async function loader({ request }: Route.LoaderArgs) {
   const { headers } = await requireRole(request, ["admin"]);
 
   const { supabase } = createSupabaseServerClient(request);
+  const season = await getActiveSeason(supabase);
 
   const { data: settings } = await supabase
     .from("tournament_settings")
     .select("*")
+    .eq("season_id", season.id)
     .single();
 
-  return data({ settings: settings as TournamentSettings | null }, { headers });
+  const format = parseBracketFormat(settings?.bracket_format);
+
+  return data(
+    {
+      settings: settings as TournamentSettings | null,
+      format,
+      presetId: findBracketFormatPreset(format)?.id || "custom",
+      matchFormats: parseMatchFormats(settings?.match_formats),
+      leagueFormat: parseLeagueFormat(settings?.league_format),
+      scheduleSettings: parseScheduleSettings(settings?.schedule_settings),
+      deadlineRounds: getDeadlineRounds(format),
+    },
+    { headers }
+  );
 }
 
 export async function action({ request }: Route.ActionArgs) {
   const { headers: authHeaders } = await requireRole(request, ["admin"]);
 
   const { supabase, headers } = createSupabaseServerClient(request);
+  const season = await getActiveSeason(supabase);
   const formData = await request.formData();
 
   const name = (formData.get("name") as string)?.trim() || "PD Table Tennis";
   const leagueDeadline = formData.get("league_deadline") as string || null;
   const isActive = formData.get("is_active") === "true";
 
+  const presetId = formData.get("bracket_preset") as string;
+  const elimination = formData.get("elimination") as EliminationStyle;
+  const bracketReset = elimination === "double" && formData.get("bracket_reset") === "on";
+  const thirdPlaceMatch = elimination === "single" && formData.get("third_place_match") === "on";
+  const bracketFormat: BracketFormat =
+    presetId === "custom"
+      ? {
+          qualifier_count: parseInt(formData.get("qualifier_count") as string) || 0,
+          bye_count: parseInt(formData.get("bye_count") as string) || 0,
+          seeding_pattern: parseSeedList(formData.get("seeding_pattern") as string),
+          bye_pattern: parseSeedList(formData.get("bye_pattern") as string),
+          elimination,
+          bracket_reset: bracketReset,
+          third_place_match: thirdPlaceMatch,
+        }
+      : {
+          ...parseBracketFormat(
+            BRACKET_FORMAT_PRESETS.find((preset) => preset.id === presetId)?.format
+          ),
+          elimination,
+          bracket_reset: bracketReset,
+          third_place_match: thirdPlaceMatch,
+        };
+
+  const formatError = validateBracketFormat(bracketFormat);
+  if (formatError) {
+    return data({ error: formatError }, { headers: authHeaders });
+  }
+
+  // Results keep the best_of they were recorded under, so formats can change
+  // at any time; new results use the new format
+  const matchFormats = {} as MatchFormats;
+  for (const { stage, label } of MATCH_FORMAT_STAGES) {
+    const matchFormat: MatchFormat = {
+      best_of: parseInt(formData.get(`${stage}_best_of`) as string) as MatchFormat["best_of"],
+      points_per_set: parseInt(formData.get(`${stage}_points_per_set`) as string),
+      win_by_two: formData.get(`${stage}_win_by_two`) === "on",
+    };
+
+    const matchFormatError = validateMatchFormat(matchFormat);
+    if (matchFormatError) {
+      return data(
+        { error: `${label}: ${matchFormatError}` },
+        { headers: authHeaders }
+      );
+    }
+    matchFormats[stage] = matchFormat;
+  }
+
+  const leagueFormat: LeagueFormat = {
+    mode: formData.get("league_mode") as LeagueMode,
+    swiss_rounds: parseInt(formData.get("swiss_rounds") as string),
+    group_count: parseInt(formData.get("group_count") as string),
+    advance_per_group: parseInt(formData.get("advance_per_group") as string),
+  };
+
+  const leagueFormatError = validateLeagueFormat(leagueFormat);
+  if (leagueFormatError) {
+    return data({ error: leagueFormatError }, { headers: authHeaders });
+  }
+
+  if (
+    leagueFormat.mode === "groups" &&
+    leagueFormat.group_count * leagueFormat.advance_per_group !== bracketFormat.qualifier_count
+  ) {
+    return data(
+      {
+        error: `${leagueFormat.group_count} groups with ${leagueFormat.advance_per_group} advancing each send ${leagueFormat.group_count * leagueFormat.advance_per_group} players to the knockout, but the knockout format has ${bracketFormat.qualifier_count} qualifiers.`,
+      },
+      { headers: authHeaders }
+    );
+  }
+
+  // Deadlines are offered for the rounds of the saved format; a new format's
+  // rounds get theirs once it is saved
+  const scheduleSettings: ScheduleSettings = {
+    tables: ((formData.get("schedule_tables") as string) || "")
+      .split(/[\n,]/)
+      .map((table) => table.trim())
+      .filter(Boolean),
+    slot_minutes: parseInt(formData.get("slot_minutes") as string),
+    round_deadlines: Object.fromEntries(
+      Array.from(formData.entries())
+        .filter(([key, value]) => key.startsWith("deadline_") && value)
+        .map(([key, value]) => [key.slice("deadline_".length), value as string])
+    ),
+    time_zone: ((formData.get("time_zone") as string) || "").trim(),
+  };
+
+  const scheduleError = validateScheduleSettings(scheduleSettings);
+  if (scheduleError) {
+    return data({ error: scheduleError }, { headers: authHeaders });
+  }
+
+  const { data: currentSettings } = await supabase
+    .from("tournament_settings")
+    .select("bracket_format, league_format")
+    .eq("season_id", season.id)
+    .single();
+  const currentLeagueFormat = parseLeagueFormat(currentSettings?.league_format);
+
+  // Recorded league matches can't be turned into Swiss rounds or groups (or
+  // back), so the mode and the group draw are fixed once league matches exist
+  if (
+    currentLeagueFormat.mode !== leagueFormat.mode ||
+    (leagueFormat.mode === "groups" &&
+      currentLeagueFormat.group_count !== leagueFormat.group_count)
+  ) {
+    const { count: leagueMatchCount } = await supabase
+      .from("matches")
+      .select("*", { count: "exact", head: true })
+      .eq("season_id", season.id)
+      .eq("phase", "league");
+
+    if (leagueMatchCount && leagueMatchCount > 0) {
+      return data(
+        { error: "Delete the existing league matches before changing the league mode or number of groups." },
+        { headers: authHeaders }
+      );
+    }
+  }
+
+  if (leagueFormat.mode === "swiss") {
+    const { data: latestRound } = await supabase
+      .from("matches")
+      .select("swiss_round")
+      .eq("season_id", season.id)
+      .not("swiss_round", "is", null)
+      .order("swiss_round", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (latestRound && leagueFormat.swiss_rounds < latestRound.swiss_round) {
+      return data(
+        { error: `Round ${latestRound.swiss_round} has already been paired; the league needs at least that many rounds.` },
+        { headers: authHeaders }
+      );
+    }
+  }
+
+  const formatChanged =
+    JSON.stringify(parseBracketFormat(currentSettings?.bracket_format)) !==
+    JSON.stringify(bracketFormat);
+
+  if (formatChanged) {
+    const { count: knockoutMatchCount } = await supabase
+      .from("matches")
+      .select("*", { count: "exact", head: true })
+      .eq("season_id", season.id)
+      .neq("phase", "league");
+
+    if (knockoutMatchCount && knockoutMatchCount > 0) {
+      return data(
+        {
+          error:
+            "Delete the existing knockout matches before changing the bracket format.",
+        },
+        { headers: authHeaders }
+      );
+    }
+  }
+
   const { error } = await supabase
     .from("tournament_settings")
     .update({
       name,
       league_deadline: leagueDeadline || null,
       is_active: isActive,
+      bracket_format: bracketFormat,
+      match_formats: matchFormats,
+      league_format: leagueFormat,
+      schedule_settings: scheduleSettings,
     })
-    .eq("id", 1);
+    .eq("season_id", season.id);
 
   if (error) {
     return data({ error: error.message }, { headers: authHeaders });
@@ -48,10 +268,24 @@ export async function action({ request }: Route.ActionArgs) {
 }
 
 export default function AdminSettings() {
-  const { settings } = useLoaderData<typeof loader>();
+  const {
+    settings,
+    format,
+    presetId,
+    matchFormats,
+    leagueFormat,
+    scheduleSettings,
+    deadlineRounds,
+  } = useLoaderData<typeof loader>();
   const actionData = useActionData<typeof action>();
   const navigation = useNavigation();
   const isSubmitting = navigation.state === "submitting";
+  const [selectedPresetId, setSelectedPresetId] = useState(presetId);
+  const [leagueMode, setLeagueMode] = useState<LeagueMode>(leagueFormat.mode);
+  const [elimination, setElimination] = useState<EliminationStyle>(format.elimination);
+  const selectedPreset = BRACKET_FORMAT_PRESETS.find(
+    (preset) => preset.id === selectedPresetId
+  );
 
   return (
     <div className="admin-page">
@@ -117,6 +351,404 @@ export default function AdminSettings() {
           </div>
         </div>
 
+        <div className="form-group">
+          <label htmlFor="league_mode" className="form-label">
+            League Format
+          </label>
+          <select
+            id="league_mode"
+            name="league_mode"
+            className="form-select"
+            value={leagueMode}
+            onChange={(e) => setLeagueMode(e.target.value as LeagueMode)}
+            disabled={isSubmitting}
+          >
+            {(Object.keys(LEAGUE_MODE_LABELS) as LeagueMode[]).map((mode) => (
+              <option key={mode} value={mode}>
+                {LEAGUE_MODE_LABELS[mode]}
+              </option>
+            ))}
+          </select>
+          <p className="help-text">{LEAGUE_MODE_DESCRIPTIONS[leagueMode]}</p>
+        </div>
+
+        {leagueMode === "swiss" ? (
+          <div className="form-group">
+            <label htmlFor="swiss_rounds" className="form-label">
+              Swiss Rounds
+            </label>
+            <input
+              type="number"
+              id="swiss_rounds"
+              name="swiss_rounds"
+              min="1"
+              max="30"
+              className="form-input"
+              defaultValue={leagueFormat.swiss_rounds}
+              disabled={isSubmitting}
+            />
+            <p className="help-text">
+              Rounds are paired from the Generate Matches page. Around log2 of
+              the player count (e.g. 5 rounds for 32 players) separates the top
+              players.
+            </p>
+          </div>
+        ) : (
+          <input type="hidden" name="swiss_rounds" value={leagueFormat.swiss_rounds} />
+        )}
+
+        {leagueMode === "groups" ? (
+          <>
+            <div className="form-group">
+              <label htmlFor="group_count" className="form-label">
+                Groups
+              </label>
+              <input
+                type="number"
+                id="group_count"
+                name="group_count"
+                min="2"
+                max="16"
+                className="form-input"
+                defaultValue={leagueFormat.group_count}
+                disabled={isSubmitting}
+              />
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="advance_per_group" className="form-label">
+                Advancing per Group
+              </label>
+              <input
+                type="number"
+                id="advance_per_group"
+                name="advance_per_group"
+                min="1"
+                className="form-input"
+                defaultValue={leagueFormat.advance_per_group}
+                disabled={isSubmitting}
+              />
+              <p className="help-text">
+                Groups × advancing must match the knockout qualifiers. Groups
+                are drawn from the Generate Matches page; group winners are
+                seeded first and same-group players are kept apart in round 1.
+              </p>
+            </div>
+          </>
+        ) : (
+          <>
+            <input type="hidden" name="group_count" value={leagueFormat.group_count} />
+            <input type="hidden" name="advance_per_group" value={leagueFormat.advance_per_group} />
+          </>
+        )}
+
+        <div className="form-group">
+          <label htmlFor="bracket_preset" className="form-label">
+            Knockout Format
+          </label>
+          <select
+            id="bracket_preset"
+            name="bracket_preset"
+            className="form-select"
+            value={selectedPresetId}
+            onChange={(e) => setSelectedPresetId(e.target.value)}
+            disabled={isSubmitting}
+          >
+            {BRACKET_FORMAT_PRESETS.map((preset) => (
+              <option key={preset.id} value={preset.id}>
+                {preset.label}
+              </option>
+            ))}
+            <option value="custom">Custom</option>
+          </select>
+          {selectedPreset && (
+            <p className="help-text">
+              {describeBracketFormat(selectedPreset.format)}
+            </p>
+          )}
+        </div>
+
+        <div className="form-group">
+          <label htmlFor="elimination" className="form-label">
+            Elimination
+          </label>
+          <select
+            id="elimination"
+            name="elimination"
+            className="form-select"
+            value={elimination}
+            onChange={(e) => setElimination(e.target.value as EliminationStyle)}
+            disabled={isSubmitting}
+          >
+            {(Object.keys(ELIMINATION_STYLE_LABELS) as EliminationStyle[]).map((style) => (
+              <option key={style} value={style}>
+                {ELIMINATION_STYLE_LABELS[style]}
+              </option>
+            ))}
+          </select>
+          <p className="help-text">
+            {elimination === "double"
+              ? "Players drop into a losers bracket after their first defeat and are out after their second. The winners and losers bracket champions meet in a grand final. Needs 4, 8, 16 or 32 qualifiers and no byes."
+              : "Players are out after their first defeat."}
+          </p>
+        </div>
+
+        {elimination === "single" && (
+          <div className="form-group">
+            <label className="form-label" htmlFor="third_place_match">
+              <input
+                type="checkbox"
+                id="third_place_match"
+                name="third_place_match"
+                defaultChecked={format.third_place_match}
+                disabled={isSubmitting}
+              />{" "}
+              Third-place match
+            </label>
+            <p className="help-text">
+              The semifinal losers play for third place once both semifinals
+              are complete. Without it they share third place.
+            </p>
+          </div>
+        )}
+
+        {elimination === "double" && (
+          <div className="form-group">
+            <label className="form-label" htmlFor="bracket_reset">
+              <input
+                type="checkbox"
+                id="bracket_reset"
+                name="bracket_reset"
+                defaultChecked={format.bracket_reset}
+                disabled={isSubmitting}
+              />{" "}
+              Bracket reset
+            </label>
+            <p className="help-text">
+              If the losers bracket champion wins the grand final, both players
+              have one loss and the grand final is played again.
+            </p>
+          </div>
+        )}
+
+        {selectedPresetId === "custom" && (
+          <>
+            <div className="form-group">
+              <label htmlFor="qualifier_count" className="form-label">
+                Qualifiers
+              </label>
+              <input
+                type="number"
+                id="qualifier_count"
+                name="qualifier_count"
+                min="2"
+                className="form-input"
+                defaultValue={format.qualifier_count}
+                disabled={isSubmitting}
+              />
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="bye_count" className="form-label">
+                Byes
+              </label>
+              <input
+                type="number"
+                id="bye_count"
+                name="bye_count"
+                min="0"
+                className="form-input"
+                defaultValue={format.bye_count}
+                disabled={isSubmitting}
+              />
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="seeding_pattern" className="form-label">
+                Round 1 Seeding
+              </label>
+              <input
+                type="text"
+                id="seeding_pattern"
+                name="seeding_pattern"
+                className="form-input"
+                placeholder="e.g. 4-9, 5-8, 3-10, 6-7"
+                defaultValue={formatSeedPairs(format.seeding_pattern)}
+                disabled={isSubmitting}
+              />
+              <p className="help-text">
+                Seed pairs in bracket order, top to bottom.
+              </p>
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="bye_pattern" className="form-label">
+                Bye Seeding
+              </label>
+              <input
+                type="text"
+                id="bye_pattern"
+                name="bye_pattern"
+                className="form-input"
+                placeholder="e.g. 1, 2"
+                defaultValue={format.bye_pattern.join(", ")}
+                disabled={isSubmitting}
+              />
+              <p className="help-text">
+                Bye seeds in bracket order. Each one meets the winner of the
+                matching slot in the round they join.
+              </p>
+            </div>
+          </>
+        )}
+
+        <div className="form-group">
+          <label className="form-label">Match Format</label>
+          <table className="data-table match-format-table">
+            <thead>
+              <tr>
+                <th>Stage</th>
+                <th>Best of</th>
+                <th>Points per set</th>
+                <th>Win by 2</th>
+              </tr>
+            </thead>
+            <tbody>
+              {MATCH_FORMAT_STAGES.map(({ stage, label }) => (
+                <tr key={stage}>
+                  <td>{label}</td>
+                  <td>
+                    <select
+                      name={`${stage}_best_of`}
+                      className="form-select"
+                      defaultValue={matchFormats[stage].best_of}
+                      aria-label={`${label} best of`}
+                      disabled={isSubmitting}
+                    >
+                      {BEST_OF_OPTIONS.map((bestOf) => (
+                        <option key={bestOf} value={bestOf}>
+                          {bestOf} sets
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td>
+                    <input
+                      type="number"
+                      name={`${stage}_points_per_set`}
+                      min="1"
+                      max="99"
+                      className="form-input"
+                      defaultValue={matchFormats[stage].points_per_set}
+                      aria-label={`${label} points per set`}
+                      disabled={isSubmitting}
+                    />
+                  </td>
+                  <td>
+                    <input
+                      type="checkbox"
+                      name={`${stage}_win_by_two`}
+                      defaultChecked={matchFormats[stage].win_by_two}
+                      aria-label={`${label} win by 2`}
+                      disabled={isSubmitting}
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="help-text">
+            "Knockout rounds" covers every round before the semifinals, and
+            every winners and losers bracket round of a double elimination,
+            whose grand final uses the final's format. Results already recorded
+            keep the format they were played under.
+          </p>
+        </div>
+
+        <div className="form-group">
+          <label htmlFor="schedule_tables" className="form-label">
+            Tables
+          </label>
+          <textarea
+            id="schedule_tables"
+            name="schedule_tables"
+            className="form-input"
+            rows={3}
+            defaultValue={scheduleSettings.tables.join("\n")}
+            disabled={isSubmitting}
+          />
+          <p className="help-text">
+            One table per line. Matches are booked on these from the Schedule
+            page.
+          </p>
+        </div>
+
+        <div className="form-group">
+          <label htmlFor="slot_minutes" className="form-label">
+            Match Slot (minutes)
+          </label>
+          <input
+            type="number"
+            id="slot_minutes"
+            name="slot_minutes"
+            min="5"
+            max="240"
+            className="form-input"
+            defaultValue={scheduleSettings.slot_minutes}
+            disabled={isSubmitting}
+          />
+          <p className="help-text">
+            How long a booking holds its players and table.
+          </p>
+        </div>
+
+        <div className="form-group">
+          <label htmlFor="time_zone" className="form-label">
+            Time Zone
+          </label>
+          <input
+            type="text"
+            id="time_zone"
+            name="time_zone"
+            className="form-input"
+            defaultValue={scheduleSettings.time_zone}
+            disabled={isSubmitting}
+          />
+          <p className="help-text">
+            Where the matches are played, e.g. Europe/London. Booking times and
+            availability are entered and shown in this time zone, whatever the
+            server's or viewer's own.
+          </p>
+        </div>
+
+        <div className="form-group">
+          <label className="form-label">Knockout Round Deadlines</label>
+          <table className="data-table match-format-table">
+            <tbody>
+              {deadlineRounds.map((phase) => (
+                <tr key={phase}>
+                  <td>{getRoundLabel(phase)}</td>
+                  <td>
+                    <input
+                      type="date"
+                      name={`deadline_${phase}`}
+                      className="form-input"
+                      defaultValue={scheduleSettings.round_deadlines[phase] || ""}
+                      aria-label={`${getRoundLabel(phase)} deadline`}
+                      disabled={isSubmitting}
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="help-text">
+            Unplayed matches are flagged as overdue on the Schedule page after
+            their round's deadline, and league matches after the league
+            deadline. Rounds follow the saved knockout format.
+          </p>
+        </div>
+
         <div className="form-actions">
           <button
             type="submit"
@@ -130,3 +762,30 @@ export default function AdminSettings() {
     </div>
   );
 }
+
+/**
+ * Phases that can have a deadline: every knockout round, plus the
+ * third-place match and a bracket reset when the format has them.
+ */
+function getDeadlineRounds(format: BracketFormat): MatchPhase[] {
+  return [
+    ...getKnockoutRounds(format).map((round) => round.phase),
+    ...(format.third_place_match ? (["third_place"] as MatchPhase[]) : []),
+    ...(format.bracket_reset ? (["grand_final_reset"] as MatchPhase[]) : []),
+  ];
+}
+
+function parseSeedList(value: string | null): number[] {
+  return (value || "")
+    .split(/[^0-9]+/)
+    .filter(Boolean)
+    .map((seed) => parseInt(seed));
+}
+
+function formatSeedPairs(seeds: number[]): string {
+  const pairs: string[] = [];
+  for (let i = 0; i < seeds.length; i += 2) {
+    pairs.push(`${seeds[i]}-${seeds[i + 1]}`);
+  }
+  return pairs.join(", ");
+}
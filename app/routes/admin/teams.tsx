@@ -0,0 +1,426 @@
+import {
+  data,
+  Form,
+  Link,
+  redirect,
+  useActionData,
+  useLoaderData,
+  useNavigation,
+} from "react-router";
+import type { Route } from "./+types/teams";
+import { requireRole } from "~/lib/auth.server";
+import {
+  buildDoublesKnockoutMatches,
+  calculateDoublesStandings,
+  DOUBLES_QUALIFIER_COUNT,
+  getDefaultTeamName,
+} from "~/lib/doubles.server";
+import { getActiveSeason } from "~/lib/seasons.server";
+import { createSupabaseServerClient } from "~/lib/supabase.server";
+import type { DoublesMatch, Player, TeamWithPlayers } from "~/lib/types";
+
+export function meta() {
+  return [{ title: "Doubles Teams | PD Table Tennis" }];
+}
+
+const TEAM_SELECT = `
+  *,
+  player1:players!teams_player1_id_fkey(*),
+  player2:players!teams_player2_id_fkey(*)
+`;
+
+export async function loader({ request }: Route.LoaderArgs) {
+  const { headers } = await requireRole(request, ["admin"]);
+
+  const { supabase } = createSupabaseServerClient(request);
+  const season = await getActiveSeason(supabase);
+
+  const { data: players } = await supabase
+    .from("players")
+    .select("*")
+    .eq("season_id", season.id)
+    .order("name");
+
+  const { data: teams } = await supabase
+    .from("teams")
+    .select(TEAM_SELECT)
+    .eq("season_id", season.id)
+    .order("name");
+
+  const { data: doublesMatches } = await supabase
+    .from("doubles_matches")
+    .select("*")
+    .eq("season_id", season.id);
+
+  const matches = (doublesMatches as DoublesMatch[]) || [];
+  const matchCountByTeamId: Record<string, number> = {};
+  for (const match of matches) {
+    for (const teamId of [match.team1_id, match.team2_id]) {
+      matchCountByTeamId[teamId] = (matchCountByTeamId[teamId] || 0) + 1;
+    }
+  }
+
+  return data(
+    {
+      players: (players as Player[]) || [],
+      teams: (teams as TeamWithPlayers[]) || [],
+      matchCountByTeamId,
+      leagueMatchCount: matches.filter((m) => m.phase === "league").length,
+      knockoutGenerated: matches.some((m) => m.phase !== "league"),
+    },
+    { headers }
+  );
+}
+
+export async function action({ request }: Route.ActionArgs) {
+  const { headers: authHeaders } = await requireRole(request, ["admin"]);
+
+  const { supabase, headers } = createSupabaseServerClient(request);
+  const season = await getActiveSeason(supabase);
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+
+  if (intent === "create_team") {
+    const player1Id = formData.get("player1_id") as string;
+    const player2Id = formData.get("player2_id") as string;
+
+    if (!player1Id || !player2Id) {
+      return data(
+        { error: "Please select both players" },
+        { headers: authHeaders }
+      );
+    }
+
+    if (player1Id === player2Id) {
+      return data(
+        { error: "Please select two different players" },
+        { headers: authHeaders }
+      );
+    }
+
+    const { data: players } = await supabase
+      .from("players")
+      .select("*")
+      .eq("season_id", season.id)
+      .in("id", [player1Id, player2Id]);
+
+    const player1 = (players as Player[] | null)?.find(
+      (p) => p.id === player1Id
+    );
+    const player2 = (players as Player[] | null)?.find(
+      (p) => p.id === player2Id
+    );
+    if (!player1 || !player2) {
+      return data(
+        { error: "Both players must be registered in the current season" },
+        { headers: authHeaders }
+      );
+    }
+
+    // A player plays doubles for one team per season
+    const { data: existingTeams } = await supabase
+      .from("teams")
+      .select("name")
+      .eq("season_id", season.id)
+      .or(
+        `player1_id.in.(${player1Id},${player2Id}),player2_id.in.(${player1Id},${player2Id})`
+      );
+
+    if (existingTeams && existingTeams.length > 0) {
+      return data(
+        {
+          error: `A player is already in a team (${existingTeams.map((t) => t.name).join(", ")})`,
+        },
+        { headers: authHeaders }
+      );
+    }
+
+    const name =
+      ((formData.get("name") as string) || "").trim() ||
+      getDefaultTeamName(player1, player2);
+
+    const { error } = await supabase.from("teams").insert({
+      season_id: season.id,
+      name,
+      player1_id: player1Id,
+      player2_id: player2Id,
+    });
+
+    if (error) {
+      return data({ error: error.message }, { headers: authHeaders });
+    }
+  }
+
+  if (intent === "delete_team") {
+    const teamId = formData.get("team_id") as string;
+
+    const { count: matchCount } = await supabase
+      .from("doubles_matches")
+      .select("*", { count: "exact", head: true })
+      .or(`team1_id.eq.${teamId},team2_id.eq.${teamId}`);
+
+    if (matchCount && matchCount > 0) {
+      return data(
+        { error: "This team has doubles matches and can't be deleted." },
+        { headers: authHeaders }
+      );
+    }
+
+    const { error } = await supabase
+      .from("teams")
+      .delete()
+      .eq("id", teamId)
+      .eq("season_id", season.id);
+
+    if (error) {
+      return data({ error: error.message }, { headers: authHeaders });
+    }
+  }
+
+  if (intent === "generate_knockout") {
+    const { data: teams } = await supabase
+      .from("teams")
+      .select(TEAM_SELECT)
+      .eq("season_id", season.id);
+
+    const { data: doublesMatches } = await supabase
+      .from("doubles_matches")
+      .select("*")
+      .eq("season_id", season.id);
+
+    const matches = (doublesMatches as DoublesMatch[]) || [];
+    if (matches.some((m) => m.phase !== "league")) {
+      return data(
+        { error: "The doubles knockout has already been generated." },
+        { headers: authHeaders }
+      );
+    }
+
+    if ((teams?.length || 0) < DOUBLES_QUALIFIER_COUNT) {
+      return data(
+        {
+          error: `Need at least ${DOUBLES_QUALIFIER_COUNT} teams to generate the doubles knockout`,
+        },
+        { headers: authHeaders }
+      );
+    }
+
+    const standings = calculateDoublesStandings(
+      (teams as TeamWithPlayers[]) || [],
+      matches
+    );
+
+    const { error } = await supabase.from("doubles_matches").insert(
+      buildDoublesKnockoutMatches(standings).map((m) => ({
+        ...m,
+        season_id: season.id,
+      }))
+    );
+
+    if (error) {
+      return data({ error: error.message }, { headers: authHeaders });
+    }
+  }
+
+  const allHeaders = new Headers(authHeaders);
+  headers.forEach((value, key) => allHeaders.append(key, value));
+  return redirect("/admin/teams", { headers: allHeaders });
+}
+
+export default function AdminTeams() {
+  const {
+    players,
+    teams,
+    matchCountByTeamId,
+    leagueMatchCount,
+    knockoutGenerated,
+  } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === "submitting";
+
+  const teamPlayerIds = new Set(
+    teams.flatMap((team) => [team.player1_id, team.player2_id])
+  );
+  const availablePlayers = players.filter((p) => !teamPlayerIds.has(p.id));
+
+  return (
+    <div className="admin-page">
+      <div className="admin-page-header">
+        <h1>Doubles Teams</h1>
+        <div className="header-actions">
+          <Link to="/doubles" className="btn btn-secondary">
+            Doubles Standings
+          </Link>
+        </div>
+      </div>
+
+      {actionData && "error" in actionData && (
+        <div className="error-message">{actionData.error}</div>
+      )}
+
+      <section className="admin-section">
+        <h2>Add Team</h2>
+        {availablePlayers.length < 2 ? (
+          <p className="help-text">
+            Every player is already in a team, or there aren't enough players.
+          </p>
+        ) : (
+          <Form method="post" className="admin-form">
+            <input type="hidden" name="intent" value="create_team" />
+            <div className="player-select-grid">
+              <div className="form-group">
+                <label htmlFor="player1_id">Player 1</label>
+                <select
+                  id="player1_id"
+                  name="player1_id"
+                  className="form-select"
+                  required
+                  disabled={isSubmitting}
+                >
+                  <option value="">Select player...</option>
+                  {availablePlayers.map((player) => (
+                    <option key={player.id} value={player.id}>
+                      {player.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="vs-separator">&amp;</div>
+
+              <div className="form-group">
+                <label htmlFor="player2_id">Player 2</label>
+                <select
+                  id="player2_id"
+                  name="player2_id"
+                  className="form-select"
+                  required
+                  disabled={isSubmitting}
+                >
+                  <option value="">Select player...</option>
+                  {availablePlayers.map((player) => (
+                    <option key={player.id} value={player.id}>
+                      {player.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="name" className="form-label">
+                Team Name
+              </label>
+              <input
+                type="text"
+                id="name"
+                name="name"
+                className="form-input"
+                placeholder="Defaults to the players' first names"
+                disabled={isSubmitting}
+              />
+            </div>
+
+            <div className="form-actions">
+              <button
+                type="submit"
+                className="btn btn-primary"
+                disabled={isSubmitting}
+              >
+                {isSubmitting ? "Saving..." : "Add Team"}
+              </button>
+            </div>
+          </Form>
+        )}
+      </section>
+
+      <section className="admin-section">
+        <h2>Teams</h2>
+        {teams.length === 0 ? (
+          <p className="empty">No doubles teams yet.</p>
+        ) : (
+          <table className="data-table">
+            <thead>
+              <tr>
+                <th>Team</th>
+                <th>Players</th>
+                <th className="text-center">Matches</th>
+                <th className="text-right">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {teams.map((team) => (
+                <tr key={team.id}>
+                  <td>{team.name}</td>
+                  <td>
+                    <Link to={`/player/${team.player1_id}`}>
+                      {team.player1.name}
+                    </Link>{" "}
+                    &amp;{" "}
+                    <Link to={`/player/${team.player2_id}`}>
+                      {team.player2.name}
+                    </Link>
+                  </td>
+                  <td className="text-center">
+                    {matchCountByTeamId[team.id] || 0}
+                  </td>
+                  <td className="text-right">
+                    <Form method="post" style={{ display: "inline" }}>
+                      <input type="hidden" name="team_id" value={team.id} />
+                      <button
+                        type="submit"
+                        name="intent"
+                        value="delete_team"
+                        className="btn btn-danger"
+                        disabled={
+                          isSubmitting || Boolean(matchCountByTeamId[team.id])
+                        }
+                        onClick={(e) => {
+                          if (!confirm(`Delete ${team.name}?`)) {
+                            e.preventDefault();
+                          }
+                        }}
+                      >
+                        Delete
+                      </button>
+                    </Form>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+
+      <section className="admin-section">
+        <h2>Doubles Knockout</h2>
+        {knockoutGenerated ? (
+          <p className="help-text">
+            The doubles semifinals have been generated. The final is added once
+            both semifinals are recorded.
+          </p>
+        ) : (
+          <Form method="post">
+            <p className="help-text">
+              The top {DOUBLES_QUALIFIER_COUNT} teams of the doubles league play
+              semifinals (1st vs 4th, 2nd vs 3rd) and a final.{" "}
+              {leagueMatchCount} league{" "}
+              {leagueMatchCount === 1 ? "match has" : "matches have"} been
+              recorded.
+            </p>
+            <button
+              type="submit"
+              name="intent"
+              value="generate_knockout"
+              className="btn btn-primary"
+              disabled={isSubmitting || teams.length < DOUBLES_QUALIFIER_COUNT}
+            >
+              Generate Doubles Knockout
+            </button>
+          </Form>
+        )}
+      </section>
+    </div>
+  );
+}
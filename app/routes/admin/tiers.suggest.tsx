@@ -0,0 +1,197 @@
+import {
+  data,
+  Form,
+  Link,
+  useActionData,
+  useLoaderData,
+  useNavigation,
+} from "react-router";
+import { requireRole } from "~/lib/auth.server";
+import {
+  calculateRatings,
+  PROVISIONAL_MATCH_COUNT,
+  suggestTiersFromRatings,
+} from "~/lib/ratings.server";
+import { getActiveSeason } from "~/lib/seasons.server";
+import { createSupabaseServerClient } from "~/lib/supabase.server";
+import type { Match, Player } from "~/lib/types";
+import type { Route } from "./+types/tiers.suggest";
+
+export function meta() {
+  return [{ title: "Suggested Tiers | PD Table Tennis" }];
+}
+
+export async function loader({ request }: Route.LoaderArgs) {
+  const { headers } = await requireRole(request, ["admin"]);
+
+  const { supabase } = createSupabaseServerClient(request);
+  const season = await getActiveSeason(supabase);
+
+  const { data: players } = await supabase
+    .from("players")
+    .select("*")
+    .eq("season_id", season.id);
+
+  const { data: matches } = await supabase
+    .from("matches")
+    .select("*")
+    .eq("season_id", season.id)
+    .eq("status", "completed");
+
+  const ratings = calculateRatings(
+    (players as Player[]) || [],
+    (matches as Match[]) || []
+  );
+  const suggestions = suggestTiersFromRatings(ratings);
+
+  return data(
+    {
+      suggestions,
+      provisionalCount: ratings.filter((r) => r.provisional).length,
+      provisionalMatchCount: PROVISIONAL_MATCH_COUNT,
+    },
+    { headers }
+  );
+}
+
+export async function action({ request }: Route.ActionArgs) {
+  const { headers: authHeaders } = await requireRole(request, ["admin"]);
+
+  const { supabase, headers } = createSupabaseServerClient(request);
+  const formData = await request.formData();
+
+  const allHeaders = new Headers(authHeaders);
+  headers.forEach((value, key) => allHeaders.append(key, value));
+
+  // Apply only the suggestions the admin accepted, all together or not at all
+  const tiers = new Map<string, number>();
+  for (const value of formData.getAll("accept")) {
+    const [playerId, tierValue] = (value as string).split(":");
+    if (!playerId || !/^[1-4]$/.test(tierValue || "")) continue;
+    tiers.set(playerId, Number(tierValue));
+  }
+
+  if (tiers.size > 0) {
+    const { error } = await supabase.rpc("set_player_tiers", {
+      tier_changes: Array.from(tiers, ([player_id, tier]) => ({
+        player_id,
+        tier,
+      })),
+    });
+
+    if (error) {
+      return data(
+        { error: `No tiers were changed: ${error.message}` },
+        { status: 400, headers: allHeaders }
+      );
+    }
+  }
+
+  allHeaders.set("Location", "/admin/tiers");
+  return new Response(null, { status: 302, headers: allHeaders });
+}
+
+export default function AdminTiersSuggest() {
+  const { suggestions, provisionalCount, provisionalMatchCount } =
+    useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === "submitting";
+
+  const changes = suggestions.filter(
+    (s) => s.suggestedTier !== s.currentTier
+  );
+
+  return (
+    <div className="admin-page">
+      <div className="admin-page-header">
+        <h1>Suggested Tiers</h1>
+        <Link to="/admin/tiers" className="btn btn-secondary">
+          Back to Tiers
+        </Link>
+      </div>
+      <p className="help-text">
+        Players are ranked by rating and tiers are refilled from the top,
+        keeping the same number of players in each tier as today. Players with
+        fewer than {provisionalMatchCount} rated matches keep their tier
+        {provisionalCount > 0 && ` (${provisionalCount} skipped)`}.
+      </p>
+
+      {actionData?.error && (
+        <div className="error-message">{actionData.error}</div>
+      )}
+
+      {suggestions.length === 0 ? (
+        <p className="empty">
+          No players have enough rated matches for a suggestion yet.
+        </p>
+      ) : (
+        <Form method="post">
+          <table className="data-table">
+            <thead>
+              <tr>
+                <th>Accept</th>
+                <th>Player</th>
+                <th className="text-right">Rating</th>
+                <th className="text-center">Current</th>
+                <th className="text-center">Suggested</th>
+              </tr>
+            </thead>
+            <tbody>
+              {suggestions.map((suggestion) => {
+                const changed =
+                  suggestion.suggestedTier !== suggestion.currentTier;
+                return (
+                  <tr
+                    key={suggestion.player.id}
+                    className={changed ? "tier-suggestion-changed" : ""}
+                  >
+                    <td>
+                      {changed && (
+                        <input
+                          type="checkbox"
+                          name="accept"
+                          value={`${suggestion.player.id}:${suggestion.suggestedTier}`}
+                          defaultChecked
+                          disabled={isSubmitting}
+                        />
+                      )}
+                    </td>
+                    <td>{suggestion.player.name}</td>
+                    <td className="text-right">{suggestion.rating}</td>
+                    <td className="text-center">
+                      <span
+                        className={`tier-badge tier-${suggestion.currentTier}`}
+                      >
+                        {suggestion.currentTier}
+                      </span>
+                    </td>
+                    <td className="text-center">
+                      <span
+                        className={`tier-badge tier-${suggestion.suggestedTier}`}
+                      >
+                        {suggestion.suggestedTier}
+                      </span>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          <div className="form-actions">
+            <button
+              type="submit"
+              className="btn btn-primary"
+              disabled={isSubmitting || changes.length === 0}
+            >
+              {isSubmitting
+                ? "Saving..."
+                : `Apply Selected Changes (${changes.length} suggested)`}
+            </button>
+          </div>
+        </Form>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
-import { Form, useLoaderData, useNavigation, data } from "react-router";
+import { Form, Link, useLoaderData, useNavigation, data } from "react-router";
 import type { Route } from "./+types/tiers";
+import { getActiveSeason } from "~/lib/seasons.server";
 import { createSupabaseServerClient } from "~/lib/supabase.server";
 import { requireRole } from "~/lib/auth.server";
 import type { Player } from "~/lib/types";
@@ -12,10 +13,12 @@ export async function loader({ request }: Route.LoaderArgs) {
   const { headers } = await requireRole(request, ["admin"]);
 
   const { supabase } = createSupabaseServerClient(request);
+  const season = await getActiveSeason(supabase);
 
   const { data: players } = await supabase
     .from("players")
     .select("*")
+    .eq("season_id", season.id)
     .order("tier")
     .order("name");
 
@@ -26,6 +29,7 @@ export async function action({ request }: Route.ActionArgs) {
   const { headers: authHeaders } = await requireRole(request, ["admin"]);
 
   const { supabase, headers } = createSupabaseServerClient(request);
+  const season = await getActiveSeason(supabase);
   const formData = await request.formData();
 
   // Update all player tiers
@@ -33,7 +37,11 @@ export async function action({ request }: Route.ActionArgs) {
     if (key.startsWith("tier_")) {
       const playerId = key.replace("tier_", "");
       const tier = parseInt(value as string);
-      await supabase.from("players").update({ tier }).eq("id", playerId);
+      await supabase
+        .from("players")
+        .update({ tier })
+        .eq("season_id", season.id)
+        .eq("id", playerId);
     }
   }
 
@@ -60,7 +68,12 @@ export default function AdminTiers() {
 
   return (
     <div className="admin-page">
-      <h1>Assign Tiers</h1>
+      <div className="admin-page-header">
+        <h1>Assign Tiers</h1>
+        <Link to="/admin/tiers/suggest" className="btn btn-secondary">
+          Suggest from Ratings
+        </Link>
+      </div>
       <p className="help-text">
         Tier determines points earned when defeating a player:
         <br />
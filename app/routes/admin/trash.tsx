@@ -0,0 +1,194 @@
+import {
+  data,
+  Form,
+  Link,
+  useActionData,
+  useLoaderData,
+  useNavigation,
+} from "react-router";
+import { requireRole } from "~/lib/auth.server";
+import { getActiveSeason } from "~/lib/seasons.server";
+import { createSupabaseServerClient } from "~/lib/supabase.server";
+import type { TrashItem, TrashKind } from "~/lib/types";
+import type { Route } from "./+types/trash";
+
+type TrashItemWithUser = TrashItem & {
+  deleted_by_user: { email: string } | null;
+};
+
+const TRASH_KIND_LABELS: Record<TrashKind, string> = {
+  player: "Player",
+  league_matches: "League matches",
+  knockout_matches: "Knockout matches",
+  reset: "Tournament reset",
+};
+
+export function meta() {
+  return [{ title: "Trash | PD Table Tennis" }];
+}
+
+export async function loader({ request }: Route.LoaderArgs) {
+  const { headers } = await requireRole(request, ["admin"]);
+
+  const { supabase } = createSupabaseServerClient(request);
+  const season = await getActiveSeason(supabase);
+
+  // Snapshots past the retention window can no longer be restored
+  await supabase
+    .from("trash")
+    .delete()
+    .lt("expires_at", new Date().toISOString());
+
+  const { data: items } = await supabase
+    .from("trash")
+    .select("*, deleted_by_user:users!trash_deleted_by_fkey(email)")
+    .eq("season_id", season.id)
+    .order("deleted_at", { ascending: false });
+
+  return data({ items: (items as TrashItemWithUser[]) || [] }, { headers });
+}
+
+export async function action({ request }: Route.ActionArgs) {
+  const { headers: authHeaders } = await requireRole(request, ["admin"]);
+
+  const { supabase, headers } = createSupabaseServerClient(request);
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+  const trashId = formData.get("id") as string;
+
+  const allHeaders = new Headers(authHeaders);
+  headers.forEach((value, key) => allHeaders.append(key, value));
+
+  if (intent === "restore") {
+    const { error } = await supabase.rpc("restore_trash", {
+      trash_id: trashId,
+    });
+
+    if (error) {
+      return data({ error: error.message }, { headers: allHeaders });
+    }
+  }
+
+  if (intent === "purge") {
+    await supabase.from("trash").delete().eq("id", trashId);
+  }
+
+  allHeaders.set("Location", "/admin/trash");
+  return new Response(null, { status: 302, headers: allHeaders });
+}
+
+export default function AdminTrash() {
+  const { items } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === "submitting";
+
+  return (
+    <div className="admin-page">
+      <div className="admin-page-header">
+        <h1>Trash</h1>
+        <div className="header-actions">
+          <Link to="/admin/players" className="btn btn-secondary">
+            Manage Players
+          </Link>
+          <Link to="/admin/matches" className="btn btn-secondary">
+            Manage Matches
+          </Link>
+        </div>
+      </div>
+      <p className="help-text">
+        Deleted players (with their matches) and bulk match deletes from the
+        current season. Each item can be restored until it expires.
+      </p>
+
+      {actionData?.error && (
+        <div className="error-message">{actionData.error}</div>
+      )}
+
+      {items.length === 0 ? (
+        <p className="empty">The trash is empty.</p>
+      ) : (
+        <table className="data-table">
+          <thead>
+            <tr>
+              <th>Deleted</th>
+              <th>Type</th>
+              <th className="text-center">Players</th>
+              <th className="text-center">Matches</th>
+              <th>Deleted By</th>
+              <th>Expires</th>
+              <th className="text-right">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {items.map((item) => (
+              <tr
+                key={item.id}
+                className={item.restored_at ? "trash-restored" : ""}
+              >
+                <td>
+                  <strong>{item.label}</strong>
+                  <br />
+                  <span className="help-text">
+                    {new Date(item.deleted_at).toLocaleString()}
+                  </span>
+                </td>
+                <td>{TRASH_KIND_LABELS[item.kind]}</td>
+                <td className="text-center">{item.players.length}</td>
+                <td className="text-center">
+                  {item.matches.length + item.doubles_matches.length}
+                </td>
+                <td>{item.deleted_by_user?.email || "-"}</td>
+                <td>{new Date(item.expires_at).toLocaleDateString()}</td>
+                <td className="text-right">
+                  {item.restored_at ? (
+                    <span className="help-text">
+                      Restored{" "}
+                      {new Date(item.restored_at).toLocaleDateString()}
+                    </span>
+                  ) : (
+                    <div className="action-buttons">
+                      <Form method="post" style={{ display: "inline" }}>
+                        <input type="hidden" name="id" value={item.id} />
+                        <button
+                          type="submit"
+                          name="intent"
+                          value="restore"
+                          className="btn btn-primary"
+                          disabled={isSubmitting}
+                        >
+                          Restore
+                        </button>
+                      </Form>
+                      <Form method="post" style={{ display: "inline" }}>
+                        <input type="hidden" name="id" value={item.id} />
+                        <button
+                          type="submit"
+                          name="intent"
+                          value="purge"
+                          className="btn btn-danger"
+                          disabled={isSubmitting}
+                          onClick={(e) => {
+                            if (
+                              !confirm(
+                                "Delete this item permanently? It can no longer be restored."
+                              )
+                            ) {
+                              e.preventDefault();
+                            }
+                          }}
+                        >
+                          Delete Permanently
+                        </button>
+                      </Form>
+                    </div>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -1,8 +1,9 @@
 import { Form, useLoaderData, useNavigation, data } from "react-router";
 import type { Route } from "./+types/users";
+import { getActiveSeason } from "~/lib/seasons.server";
 import { createSupabaseServerClient } from "~/lib/supabase.server";
 import { requireRole } from "~/lib/auth.server";
-import type { User } from "~/lib/types";
+import type { Player, User } from "~/lib/types";
 
 export function meta() {
   return [{ title: "Manage Users | PD Table Tennis" }];
@@ -18,7 +19,22 @@ export async function loader({ request }: Route.LoaderArgs) {
     .select("*")
     .order("created_at", { ascending: false });
 
-  return data({ users: (users as User[]) || [], currentUserId: currentUser.id }, { headers });
+  // Accounts link to a player in the active season so they can self-report
+  const season = await getActiveSeason(supabase);
+  const { data: players } = await supabase
+    .from("players")
+    .select("*")
+    .eq("season_id", season.id)
+    .order("name");
+
+  return data(
+    {
+      users: (users as User[]) || [],
+      players: (players as Player[]) || [],
+      currentUserId: currentUser.id,
+    },
+    { headers }
+  );
 }
 
 export async function action({ request }: Route.ActionArgs) {
@@ -40,7 +56,14 @@ export async function action({ request }: Route.ActionArgs) {
 
   let error;
 
-  if (intent === "delete") {
+  if (intent === "link_player") {
+    const playerId = (formData.get("player_id") as string) || null;
+    const result = await supabase
+      .from("users")
+      .update({ player_id: playerId })
+      .eq("id", userId);
+    error = result.error;
+  } else if (intent === "delete") {
     console.log("Deleting user:", userId);
     const result = await supabase.from("users").delete().eq("id", userId);
     console.log("Delete result:", result);
@@ -65,7 +88,7 @@ export async function action({ request }: Route.ActionArgs) {
 }
 
 export default function AdminUsers() {
-  const { users, currentUserId } = useLoaderData<typeof loader>();
+  const { users, players, currentUserId } = useLoaderData<typeof loader>();
   const navigation = useNavigation();
   const isSubmitting = navigation.state === "submitting";
 
@@ -74,7 +97,8 @@ export default function AdminUsers() {
       <h1>Manage Users</h1>
       <p className="help-text">
         Users are created when they sign in with Google. Assign roles to control
-        access.
+        access. Link a user to their player so they can report their own
+        results.
       </p>
 
       {users.length === 0 ? (
@@ -86,6 +110,7 @@ export default function AdminUsers() {
               <th>Email</th>
               <th>Name</th>
               <th>Role</th>
+              <th>Player</th>
               <th>Joined</th>
               <th className="text-right">Actions</th>
             </tr>
@@ -100,6 +125,32 @@ export default function AdminUsers() {
                     {user.role}
                   </span>
                 </td>
+                <td>
+                  <Form method="post" className="role-form">
+                    <input type="hidden" name="user_id" value={user.id} />
+                    <input type="hidden" name="intent" value="link_player" />
+                    <select
+                      name="player_id"
+                      defaultValue={user.player_id || ""}
+                      className="form-select role-select"
+                      disabled={isSubmitting}
+                    >
+                      <option value="">Not linked</option>
+                      {players.map((player) => (
+                        <option key={player.id} value={player.id}>
+                          {player.name}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      type="submit"
+                      className="btn btn-secondary"
+                      disabled={isSubmitting}
+                    >
+                      Link
+                    </button>
+                  </Form>
+                </td>
                 <td>{new Date(user.created_at).toLocaleDateString()}</td>
                 <td className="text-right actions-cell">
                   <Form method="post" className="role-form">
@@ -0,0 +1,430 @@
+import {
+  data,
+  Form,
+  Link,
+  useActionData,
+  useLoaderData,
+  useNavigation,
+} from "react-router";
+import { requireRole } from "~/lib/auth.server";
+import { createSupabaseServerClient } from "~/lib/supabase.server";
+import type {
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookDispatch,
+  WebhookSubscription,
+} from "~/lib/types";
+import {
+  deliverWebhook,
+  isWebhookEvent,
+  MAX_DELIVERY_ATTEMPTS,
+  WEBHOOK_EVENTS,
+} from "~/lib/webhooks.server";
+import type { Route } from "./+types/webhooks";
+
+type DeliveryWithSubscription = WebhookDelivery & {
+  subscription: { url: string } | null;
+};
+
+// Deliveries shown in the log
+const DELIVERY_LOG_LIMIT = 50;
+
+const DELIVERY_STATUS_LABELS: Record<WebhookDeliveryStatus, string> = {
+  pending: "Retrying",
+  succeeded: "Delivered",
+  failed: "Failed",
+};
+
+export function meta() {
+  return [{ title: "Webhooks | PD Table Tennis" }];
+}
+
+export async function loader({ request }: Route.LoaderArgs) {
+  const { headers } = await requireRole(request, ["admin"]);
+
+  const { supabase } = createSupabaseServerClient(request);
+
+  const { data: subscriptions } = await supabase
+    .from("webhook_subscriptions")
+    .select("*")
+    .order("created_at", { ascending: true });
+
+  const { data: deliveries } = await supabase
+    .from("webhook_deliveries")
+    .select(
+      "id, subscription_id, event, status, attempts, response_status, last_error, redelivery_of, created_at, last_attempt_at, subscription:webhook_subscriptions(url)"
+    )
+    .order("created_at", { ascending: false })
+    .limit(DELIVERY_LOG_LIMIT);
+
+  return data(
+    {
+      subscriptions: (subscriptions as WebhookSubscription[]) || [],
+      deliveries:
+        (deliveries as unknown as Omit<
+          DeliveryWithSubscription,
+          "data" | "body" | "signature"
+        >[]) || [],
+      events: WEBHOOK_EVENTS,
+      maxAttempts: MAX_DELIVERY_ATTEMPTS,
+    },
+    { headers }
+  );
+}
+
+export async function action({ request }: Route.ActionArgs) {
+  const { user, headers: authHeaders } = await requireRole(request, ["admin"]);
+
+  const { supabase, headers } = createSupabaseServerClient(request);
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+  const id = formData.get("id") as string;
+
+  if (intent === "create") {
+    const url = ((formData.get("url") as string) || "").trim();
+    const description =
+      ((formData.get("description") as string) || "").trim() || null;
+    const events = formData.getAll("events").filter(isWebhookEvent);
+
+    if (!isHttpUrl(url)) {
+      return data(
+        { error: "Enter a URL starting with http:// or https://" },
+        { headers: authHeaders }
+      );
+    }
+
+    if (events.length === 0) {
+      return data(
+        { error: "Choose at least one event" },
+        { headers: authHeaders }
+      );
+    }
+
+    const { error } = await supabase.from("webhook_subscriptions").insert({
+      url,
+      description,
+      events,
+      created_by: user.id,
+    });
+
+    if (error) {
+      return data({ error: error.message }, { headers: authHeaders });
+    }
+  }
+
+  if (intent === "toggle") {
+    const { error } = await supabase
+      .from("webhook_subscriptions")
+      .update({ is_active: formData.get("is_active") === "true" })
+      .eq("id", id);
+
+    if (error) {
+      return data({ error: error.message }, { headers: authHeaders });
+    }
+  }
+
+  if (intent === "delete") {
+    const { error } = await supabase
+      .from("webhook_subscriptions")
+      .delete()
+      .eq("id", id);
+
+    if (error) {
+      return data({ error: error.message }, { headers: authHeaders });
+    }
+  }
+
+  if (intent === "redeliver") {
+    const { data: dispatches, error } = await supabase.rpc(
+      "redeliver_webhook",
+      { original_id: id }
+    );
+
+    if (error) {
+      return data({ error: error.message }, { headers: authHeaders });
+    }
+
+    // Wait for the first attempt so the log shows its outcome
+    for (const dispatch of (dispatches as WebhookDispatch[]) || []) {
+      await deliverWebhook(supabase, dispatch);
+    }
+  }
+
+  const allHeaders = new Headers(authHeaders);
+  headers.forEach((value, key) => allHeaders.append(key, value));
+  allHeaders.set("Location", "/admin/webhooks");
+  return new Response(null, { status: 302, headers: allHeaders });
+}
+
+export default function AdminWebhooks() {
+  const { subscriptions, deliveries, events, maxAttempts } =
+    useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === "submitting";
+
+  return (
+    <div className="admin-page">
+      <div className="admin-page-header">
+        <h1>Webhooks</h1>
+        <div className="header-actions">
+          <Link to="/admin/audit" className="btn btn-secondary">
+            Audit Log
+          </Link>
+        </div>
+      </div>
+      <p className="help-text">
+        Each subscribed URL receives a JSON POST for its events. The{" "}
+        <code>X-Webhook-Signature</code> header is <code>sha256=</code> followed
+        by the hex HMAC-SHA256 of the raw body, keyed with the subscription's
+        secret. Failed deliveries are tried up to {maxAttempts} times, waiting
+        1, 2, 4 and 8 minutes between attempts; retries are sent by the
+        scheduled job that calls <code>/api/cron/webhooks</code>.
+      </p>
+
+      {actionData?.error && (
+        <div className="error-message">{actionData.error}</div>
+      )}
+
+      <section className="admin-section">
+        <h2>Add Subscription</h2>
+        <Form method="post" className="admin-form">
+          <input type="hidden" name="intent" value="create" />
+          <div className="form-group">
+            <label htmlFor="url" className="form-label">
+              URL *
+            </label>
+            <input
+              type="url"
+              id="url"
+              name="url"
+              className="form-input"
+              placeholder="https://dashboard.example.com/hooks/table-tennis"
+              required
+              disabled={isSubmitting}
+            />
+          </div>
+          <div className="form-group">
+            <label htmlFor="description" className="form-label">
+              Description
+            </label>
+            <input
+              type="text"
+              id="description"
+              name="description"
+              className="form-input"
+              placeholder="Office dashboard"
+              disabled={isSubmitting}
+            />
+          </div>
+          <fieldset className="form-group webhook-events">
+            <legend className="form-label">Events *</legend>
+            {events.map(({ event, description }) => (
+              <label key={event} className="checkbox-option">
+                <input
+                  type="checkbox"
+                  name="events"
+                  value={event}
+                  disabled={isSubmitting}
+                />
+                <code>{event}</code>
+                <span className="help-text">{description}</span>
+              </label>
+            ))}
+          </fieldset>
+          <div className="form-actions">
+            <button
+              type="submit"
+              className="btn btn-primary"
+              disabled={isSubmitting}
+            >
+              Add Subscription
+            </button>
+          </div>
+        </Form>
+      </section>
+
+      <section className="admin-section">
+        <h2>Subscriptions ({subscriptions.length})</h2>
+        {subscriptions.length === 0 ? (
+          <p className="empty">No webhooks yet.</p>
+        ) : (
+          <table className="data-table">
+            <thead>
+              <tr>
+                <th>URL</th>
+                <th>Events</th>
+                <th>Secret</th>
+                <th>Status</th>
+                <th className="text-right">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {subscriptions.map((subscription) => (
+                <tr key={subscription.id}>
+                  <td className="webhook-url">
+                    <strong>{subscription.url}</strong>
+                    {subscription.description && (
+                      <>
+                        <br />
+                        <span className="help-text">
+                          {subscription.description}
+                        </span>
+                      </>
+                    )}
+                  </td>
+                  <td>
+                    {subscription.events.map((event) => (
+                      <code key={event} className="webhook-event">
+                        {event}
+                      </code>
+                    ))}
+                  </td>
+                  <td>
+                    <details>
+                      <summary>Show</summary>
+                      <code className="webhook-secret">
+                        {subscription.secret}
+                      </code>
+                    </details>
+                  </td>
+                  <td>{subscription.is_active ? "Active" : "Paused"}</td>
+                  <td className="text-right">
+                    <div className="action-buttons">
+                      <Form method="post" style={{ display: "inline" }}>
+                        <input
+                          type="hidden"
+                          name="id"
+                          value={subscription.id}
+                        />
+                        <input
+                          type="hidden"
+                          name="is_active"
+                          value={subscription.is_active ? "false" : "true"}
+                        />
+                        <button
+                          type="submit"
+                          name="intent"
+                          value="toggle"
+                          className="btn btn-secondary"
+                          disabled={isSubmitting}
+                        >
+                          {subscription.is_active ? "Pause" : "Resume"}
+                        </button>
+                      </Form>
+                      <Form method="post" style={{ display: "inline" }}>
+                        <input
+                          type="hidden"
+                          name="id"
+                          value={subscription.id}
+                        />
+                        <button
+                          type="submit"
+                          name="intent"
+                          value="delete"
+                          className="btn btn-danger"
+                          disabled={isSubmitting}
+                          onClick={(e) => {
+                            if (
+                              !confirm(
+                                "Delete this webhook and its delivery log?"
+                              )
+                            ) {
+                              e.preventDefault();
+                            }
+                          }}
+                        >
+                          Delete
+                        </button>
+                      </Form>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+
+      <section className="admin-section">
+        <h2>Recent Deliveries</h2>
+        {deliveries.length === 0 ? (
+          <p className="empty">Nothing has been sent yet.</p>
+        ) : (
+          <table className="data-table">
+            <thead>
+              <tr>
+                <th>Sent</th>
+                <th>Event</th>
+                <th>URL</th>
+                <th>Status</th>
+                <th className="text-center">Attempts</th>
+                <th>Response</th>
+                <th className="text-right">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {deliveries.map((delivery) => (
+                <tr key={delivery.id}>
+                  <td>
+                    {new Date(delivery.created_at).toLocaleString()}
+                    {delivery.redelivery_of && (
+                      <>
+                        <br />
+                        <span className="help-text">Redelivery</span>
+                      </>
+                    )}
+                  </td>
+                  <td>
+                    <code>{delivery.event}</code>
+                  </td>
+                  <td className="webhook-url">
+                    {delivery.subscription?.url || "-"}
+                  </td>
+                  <td>
+                    <span className={`webhook-status ${delivery.status}`}>
+                      {DELIVERY_STATUS_LABELS[delivery.status]}
+                    </span>
+                  </td>
+                  <td className="text-center">{delivery.attempts}</td>
+                  <td>
+                    {delivery.response_status ?? "-"}
+                    {delivery.last_error && (
+                      <>
+                        <br />
+                        <span className="help-text">{delivery.last_error}</span>
+                      </>
+                    )}
+                  </td>
+                  <td className="text-right">
+                    <Form method="post" style={{ display: "inline" }}>
+                      <input type="hidden" name="id" value={delivery.id} />
+                      <button
+                        type="submit"
+                        name="intent"
+                        value="redeliver"
+                        className="btn btn-secondary"
+                        disabled={isSubmitting || delivery.status === "pending"}
+                      >
+                        Redeliver
+                      </button>
+                    </Form>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+    </div>
+  );
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,43 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import { createSupabaseServiceClient } from "~/lib/supabase.server";
+import { sendDueWebhooks } from "~/lib/webhooks.server";
+import type { Route } from "./+types/webhooks";
+
+// Drains webhook retries and owed standings.changed events. Meant for a
+// scheduler (cron, a platform job) to POST every minute or so with
+// `Authorization: Bearer $CRON_SECRET`.
+export async function action({ request }: Route.ActionArgs) {
+  if (request.method !== "POST") {
+    return Response.json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  const secret = process.env.CRON_SECRET;
+  const supabase = createSupabaseServiceClient();
+  if (!secret || !supabase) {
+    return Response.json(
+      { error: "CRON_SECRET and SUPABASE_SERVICE_ROLE_KEY must be set" },
+      { status: 503 },
+    );
+  }
+
+  const token = request.headers.get("Authorization")?.replace(/^Bearer /, "");
+  if (!token || !isSameSecret(token, secret)) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    return Response.json(await sendDueWebhooks(supabase));
+  } catch (error) {
+    console.error(error);
+    return Response.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 500 },
+    );
+  }
+}
+
+// Compares digests so the check takes the same time whatever the token
+function isSameSecret(token: string, secret: string): boolean {
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(token), digest(secret));
+}
@@ -0,0 +1,120 @@
+import {
+  apiResponse,
+  MATCH_SELECT,
+  resolveApiSeason,
+  toApiMatch,
+  toApiPlayer,
+  toApiSeason,
+} from "~/lib/api.server";
+import {
+  getKnockoutPlacements,
+  getKnockoutRounds,
+  getRoundLabel,
+  parseBracketFormat,
+} from "~/lib/bracket";
+import { parseLeagueFormat } from "~/lib/league-format";
+import { createSupabaseServerClient } from "~/lib/supabase.server";
+import {
+  calculateSeedingStandings,
+  deriveStandingsQualification,
+} from "~/lib/tournament.server";
+import type {
+  KnockoutRound,
+  MatchWithPlayers,
+  Player,
+  SwissBye,
+} from "~/lib/types";
+import type { Route } from "./+types/bracket";
+
+// The knockout: seeds from the league table, every round in play order with
+// the matches drawn so far, and the places decided.
+export async function loader({ request }: Route.LoaderArgs) {
+  const { supabase } = createSupabaseServerClient(request);
+  const season = await resolveApiSeason(supabase, request);
+
+  const { data: settings } = await supabase
+    .from("tournament_settings")
+    .select("bracket_format, league_format")
+    .eq("season_id", season.id)
+    .single();
+  const format = parseBracketFormat(settings?.bracket_format);
+
+  const { data: players } = await supabase
+    .from("players")
+    .select("*")
+    .eq("season_id", season.id);
+
+  const { data: leagueMatches } = await supabase
+    .from("matches")
+    .select(MATCH_SELECT)
+    .eq("season_id", season.id)
+    .eq("phase", "league");
+
+  const { data: knockoutMatches } = await supabase
+    .from("matches")
+    .select(MATCH_SELECT)
+    .eq("season_id", season.id)
+    .neq("phase", "league")
+    .order("knockout_position");
+
+  const { data: swissByes } = await supabase
+    .from("swiss_byes")
+    .select("*")
+    .eq("season_id", season.id);
+
+  const standings = calculateSeedingStandings(
+    (players as Player[]) || [],
+    (leagueMatches as MatchWithPlayers[]) || [],
+    parseLeagueFormat(settings?.league_format),
+    (swissByes as SwissBye[]) || [],
+  );
+  const qualification = deriveStandingsQualification(standings, format);
+  const playerById = new Map(
+    standings.map((standing) => [standing.player.id, standing.player]),
+  );
+  const matches = (knockoutMatches as MatchWithPlayers[]) || [];
+
+  const rounds: KnockoutRound[] = getKnockoutRounds(format);
+  if (format.elimination === "single" && format.third_place_match) {
+    rounds.push({
+      phase: "third_place",
+      side: "third_place",
+      matchCount: 1,
+      byesEnter: false,
+    });
+  }
+
+  return apiResponse(request, {
+    data: {
+      season: toApiSeason(season),
+      format: {
+        elimination: format.elimination,
+        qualifier_count: format.qualifier_count,
+        bye_count: format.bye_count,
+        bracket_reset: format.bracket_reset,
+        third_place_match: format.third_place_match,
+      },
+      seeds: qualification.qualifiedPlayerIds.map((playerId, index) => ({
+        seed: index + 1,
+        player: toApiPlayer(playerById.get(playerId)!),
+        bye: qualification.byePlayerIds.includes(playerId),
+      })),
+      rounds: rounds.map((round) => ({
+        phase: round.phase,
+        label: getRoundLabel(round.phase),
+        side: round.side,
+        match_count: round.matchCount,
+        byes_enter: round.byesEnter,
+        matches: matches
+          .filter((match) => match.phase === round.phase)
+          .map(toApiMatch),
+      })),
+      placements: getKnockoutPlacements(matches, format).map(
+        ({ place, playerId }) => ({
+          place,
+          player: toApiPlayer(playerById.get(playerId)!),
+        }),
+      ),
+    },
+  });
+}
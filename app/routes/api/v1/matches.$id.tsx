@@ -0,0 +1,32 @@
+import {
+  apiError,
+  apiResponse,
+  isUuid,
+  MATCH_SELECT,
+  toApiMatch,
+} from "~/lib/api.server";
+import { createSupabaseServerClient } from "~/lib/supabase.server";
+import type { MatchWithPlayers } from "~/lib/types";
+import type { Route } from "./+types/matches.$id";
+
+export async function loader({ request, params }: Route.LoaderArgs) {
+  if (!isUuid(params.id)) {
+    throw apiError(404, "Match not found");
+  }
+
+  const { supabase } = createSupabaseServerClient(request);
+
+  const { data: match } = await supabase
+    .from("matches")
+    .select(MATCH_SELECT)
+    .eq("id", params.id)
+    .single();
+
+  if (!match) {
+    throw apiError(404, "Match not found");
+  }
+
+  return apiResponse(request, {
+    data: toApiMatch(match as MatchWithPlayers),
+  });
+}
@@ -0,0 +1,85 @@
+import {
+  apiError,
+  apiResponse,
+  getPageRange,
+  isUuid,
+  MATCH_SELECT,
+  paginated,
+  parsePagination,
+  resolveApiSeason,
+  toApiMatch,
+} from "~/lib/api.server";
+import { createSupabaseServerClient } from "~/lib/supabase.server";
+import type { MatchStatus, MatchWithPlayers } from "~/lib/types";
+import type { Route } from "./+types/matches";
+
+const MATCH_STATUSES: MatchStatus[] = [
+  "scheduled",
+  "completed",
+  "pending_confirmation",
+  "disputed",
+];
+
+const PHASE_PATTERN =
+  /^(league|semifinal|final|third_place|grand_final|grand_final_reset|(knockout|winners|losers)_r\d+)$/;
+
+// Matches in a season in the order they were created. Filters: phase (a
+// phase, or "knockout" for every knockout match), status and player.
+export async function loader({ request }: Route.LoaderArgs) {
+  const { supabase } = createSupabaseServerClient(request);
+  const season = await resolveApiSeason(supabase, request);
+  const url = new URL(request.url);
+  const pagination = parsePagination(url);
+  const phase = url.searchParams.get("phase");
+  const status = url.searchParams.get("status");
+  const playerId = url.searchParams.get("player");
+
+  let query = supabase
+    .from("matches")
+    .select(MATCH_SELECT, { count: "exact" })
+    .eq("season_id", season.id)
+    .order("created_at")
+    .order("id")
+    .range(...getPageRange(pagination));
+
+  if (phase === "knockout") {
+    query = query.neq("phase", "league");
+  } else if (phase) {
+    if (!PHASE_PATTERN.test(phase)) {
+      throw apiError(400, `Unknown phase: ${phase}`);
+    }
+    query = query.eq("phase", phase);
+  }
+
+  if (status) {
+    if (!MATCH_STATUSES.includes(status as MatchStatus)) {
+      throw apiError(
+        400,
+        `status must be one of: ${MATCH_STATUSES.join(", ")}`,
+      );
+    }
+    query = query.eq("status", status);
+  }
+
+  if (playerId) {
+    if (!isUuid(playerId)) {
+      throw apiError(400, "player must be a player ID");
+    }
+    query = query.or(`player1_id.eq.${playerId},player2_id.eq.${playerId}`);
+  }
+
+  const { data: matches, count, error } = await query;
+
+  if (error) {
+    throw apiError(500, error.message);
+  }
+
+  return apiResponse(
+    request,
+    paginated(
+      ((matches as MatchWithPlayers[]) || []).map(toApiMatch),
+      count ?? 0,
+      pagination,
+    ),
+  );
+}
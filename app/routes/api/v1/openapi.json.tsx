@@ -0,0 +1,11 @@
+import { apiResponse } from "~/lib/api.server";
+import { buildOpenApiDocument } from "~/lib/openapi.server";
+import type { Route } from "./+types/openapi.json";
+
+// Machine-readable description of /api/v1, for client generators and docs
+export async function loader({ request }: Route.LoaderArgs) {
+  return apiResponse(
+    request,
+    buildOpenApiDocument(new URL(request.url).origin),
+  );
+}
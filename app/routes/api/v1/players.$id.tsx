@@ -0,0 +1,24 @@
+import { apiError, apiResponse, isUuid, toApiPlayer } from "~/lib/api.server";
+import { createSupabaseServerClient } from "~/lib/supabase.server";
+import type { Player } from "~/lib/types";
+import type { Route } from "./+types/players.$id";
+
+export async function loader({ request, params }: Route.LoaderArgs) {
+  if (!isUuid(params.id)) {
+    throw apiError(404, "Player not found");
+  }
+
+  const { supabase } = createSupabaseServerClient(request);
+
+  const { data: player } = await supabase
+    .from("players")
+    .select("*")
+    .eq("id", params.id)
+    .single();
+
+  if (!player) {
+    throw apiError(404, "Player not found");
+  }
+
+  return apiResponse(request, { data: toApiPlayer(player as Player) });
+}
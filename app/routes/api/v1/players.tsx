@@ -0,0 +1,61 @@
+import {
+  apiError,
+  apiResponse,
+  getPageRange,
+  paginated,
+  parsePagination,
+  resolveApiSeason,
+  toApiPlayer,
+} from "~/lib/api.server";
+import { createSupabaseServerClient } from "~/lib/supabase.server";
+import type { Player } from "~/lib/types";
+import type { Route } from "./+types/players";
+
+// Players in a season by name. Filters: department, tier, q (name contains).
+export async function loader({ request }: Route.LoaderArgs) {
+  const { supabase } = createSupabaseServerClient(request);
+  const season = await resolveApiSeason(supabase, request);
+  const url = new URL(request.url);
+  const pagination = parsePagination(url);
+  const department = url.searchParams.get("department");
+  const tier = url.searchParams.get("tier");
+  const search = url.searchParams.get("q")?.trim();
+
+  let query = supabase
+    .from("players")
+    .select("*", { count: "exact" })
+    .eq("season_id", season.id)
+    .order("name")
+    .order("id")
+    .range(...getPageRange(pagination));
+
+  if (department) {
+    query = query.eq("department", department);
+  }
+
+  if (tier) {
+    if (!["1", "2", "3", "4"].includes(tier)) {
+      throw apiError(400, "tier must be 1, 2, 3 or 4");
+    }
+    query = query.eq("tier", Number(tier));
+  }
+
+  if (search) {
+    query = query.ilike("name", `%${search.replace(/[\\%_]/g, "\\$&")}%`);
+  }
+
+  const { data: players, count, error } = await query;
+
+  if (error) {
+    throw apiError(500, error.message);
+  }
+
+  return apiResponse(
+    request,
+    paginated(
+      ((players as Player[]) || []).map(toApiPlayer),
+      count ?? 0,
+      pagination,
+    ),
+  );
+}
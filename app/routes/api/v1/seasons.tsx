@@ -0,0 +1,12 @@
+import { apiResponse, toApiSeason } from "~/lib/api.server";
+import { getSeasons } from "~/lib/seasons.server";
+import { createSupabaseServerClient } from "~/lib/supabase.server";
+import type { Route } from "./+types/seasons";
+
+// Every season, newest first. Their IDs go in the other endpoints' `season`.
+export async function loader({ request }: Route.LoaderArgs) {
+  const { supabase } = createSupabaseServerClient(request);
+  const seasons = await getSeasons(supabase);
+
+  return apiResponse(request, { data: seasons.map(toApiSeason) });
+}
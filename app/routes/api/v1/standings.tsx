@@ -0,0 +1,92 @@
+import {
+  apiResponse,
+  MATCH_SELECT,
+  paginate,
+  parsePagination,
+  resolveApiSeason,
+  toApiSeason,
+  toApiStanding,
+} from "~/lib/api.server";
+import { parseBracketFormat } from "~/lib/bracket";
+import { parseLeagueFormat } from "~/lib/league-format";
+import { createSupabaseServerClient } from "~/lib/supabase.server";
+import {
+  calculateSeedingStandings,
+  calculateStandings,
+  deriveStandingsQualification,
+} from "~/lib/tournament.server";
+import type { MatchWithPlayers, Player, SwissBye } from "~/lib/types";
+import type { Route } from "./+types/standings";
+
+// The league table, as on the standings page, with each player's knockout
+// seed if they are in a qualifying place. Filters: group, department.
+export async function loader({ request }: Route.LoaderArgs) {
+  const { supabase } = createSupabaseServerClient(request);
+  const season = await resolveApiSeason(supabase, request);
+  const url = new URL(request.url);
+  const pagination = parsePagination(url);
+  const group = url.searchParams.get("group");
+  const department = url.searchParams.get("department");
+
+  const { data: settings } = await supabase
+    .from("tournament_settings")
+    .select("bracket_format, league_format")
+    .eq("season_id", season.id)
+    .single();
+  const format = parseBracketFormat(settings?.bracket_format);
+  const leagueFormat = parseLeagueFormat(settings?.league_format);
+
+  const { data: players } = await supabase
+    .from("players")
+    .select("*")
+    .eq("season_id", season.id);
+
+  // Scheduled group fixtures tell us who is in which group
+  const { data: matches } = await supabase
+    .from("matches")
+    .select(MATCH_SELECT)
+    .eq("season_id", season.id)
+    .eq("phase", "league");
+
+  const { data: swissByes } = await supabase
+    .from("swiss_byes")
+    .select("*")
+    .eq("season_id", season.id);
+
+  const standings = calculateStandings(
+    (players as Player[]) || [],
+    (matches as MatchWithPlayers[]) || [],
+    leagueFormat,
+    (swissByes as SwissBye[]) || [],
+  );
+  const qualification = deriveStandingsQualification(
+    calculateSeedingStandings(
+      (players as Player[]) || [],
+      (matches as MatchWithPlayers[]) || [],
+      leagueFormat,
+      (swissByes as SwissBye[]) || [],
+    ),
+    format,
+  );
+
+  const rows = standings
+    .filter((standing) => !group || standing.group === group)
+    .filter(
+      (standing) => !department || standing.player.department === department,
+    )
+    .map((standing) => {
+      const seed = qualification.qualifiedPlayerIds.indexOf(standing.player.id);
+      return {
+        ...toApiStanding(standing),
+        seed: seed >= 0 ? seed + 1 : null,
+        bye: qualification.byePlayerIds.includes(standing.player.id),
+      };
+    });
+
+  return apiResponse(request, {
+    season: toApiSeason(season),
+    league_format: leagueFormat.mode,
+    qualifier_count: format.qualifier_count,
+    ...paginate(rows, pagination),
+  });
+}
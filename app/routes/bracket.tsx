@@ -1,10 +1,32 @@
 import { Link, useLoaderData } from "react-router";
+import { Podium } from "~/components/bracket/Podium";
+import { SeasonSelector } from "~/components/season/SeasonSelector";
+import {
+  describeBracketFormat,
+  getDoubleEliminationSources,
+  getKnockoutPlacements,
+  getKnockoutRounds,
+  getRoundLabel,
+  parseBracketFormat,
+} from "~/lib/bracket";
+import { parseLeagueFormat } from "~/lib/league-format";
+import { getCreditedSetCounts } from "~/lib/match-result";
+import { resolveSeason } from "~/lib/seasons.server";
 import { createSupabaseServerClient } from "~/lib/supabase.server";
 import {
-  calculateStandings,
+  calculateSeedingStandings,
   deriveStandingsQualification,
+  generateKnockoutMatchups,
 } from "~/lib/tournament.server";
-import type { MatchWithPlayers, Player, PlayerStanding } from "~/lib/types";
+import type {
+  BracketFormat,
+  BracketSlotSource,
+  KnockoutRound,
+  MatchWithPlayers,
+  Player,
+  PlayerStanding,
+  SwissBye,
+} from "~/lib/types";
 import type { Route } from "./+types/bracket";
 
 export function meta() {
@@ -16,9 +38,20 @@ export function meta() {
 
 export async function loader({ request }: Route.LoaderArgs) {
   const { supabase } = createSupabaseServerClient(request);
+  const { season, seasons } = await resolveSeason(supabase, request);
+
+  const { data: settings } = await supabase
+    .from("tournament_settings")
+    .select("bracket_format, league_format")
+    .eq("season_id", season.id)
+    .single();
+  const format = parseBracketFormat(settings?.bracket_format);
 
   // Get all players
-  const { data: players } = await supabase.from("players").select("*");
+  const { data: players } = await supabase
+    .from("players")
+    .select("*")
+    .eq("season_id", season.id);
 
   // Get all league matches to calculate standings
   const { data: leagueMatches } = await supabase
@@ -30,6 +63,7 @@ export async function loader({ request }: Route.LoaderArgs) {
       player2:players!matches_player2_id_fkey(*)
     `,
     )
+    .eq("season_id", season.id)
     .eq("phase", "league")
     .eq("status", "completed");
 
@@ -37,6 +71,7 @@ export async function loader({ request }: Route.LoaderArgs) {
   const { count: incompleteLeagueCount } = await supabase
     .from("matches")
     .select("*", { count: "exact", head: true })
+    .eq("season_id", season.id)
     .eq("phase", "league")
     .eq("status", "scheduled");
 
@@ -50,75 +85,199 @@ export async function loader({ request }: Route.LoaderArgs) {
       player2:players!matches_player2_id_fkey(*)
     `,
     )
+    .eq("season_id", season.id)
     .neq("phase", "league");
 
-  const standings = calculateStandings(
+  const { data: swissByes } = await supabase
+    .from("swiss_byes")
+    .select("*")
+    .eq("season_id", season.id);
+
+  const standings = calculateSeedingStandings(
     (players as Player[]) || [],
     (leagueMatches as MatchWithPlayers[]) || [],
+    parseLeagueFormat(settings?.league_format),
+    (swissByes as SwissBye[]) || [],
+  );
+  const qualification = deriveStandingsQualification(standings, format);
+
+  // Preview round 1 as it will be generated: a group stage swaps seeds to
+  // keep players from the same group apart
+  const { round1 } = generateKnockoutMatchups(standings, format);
+  const seedingPattern = round1.flatMap((pair, index) =>
+    pair.map((standing, side) =>
+      standing
+        ? qualification.qualifiedPlayerIds.indexOf(standing.player.id) + 1
+        : format.seeding_pattern[index * 2 + side],
+    ),
   );
-  const qualification = deriveStandingsQualification(standings);
 
   return {
+    format: { ...format, seeding_pattern: seedingPattern },
     standings,
     qualification,
     knockoutMatches: (knockoutMatches as MatchWithPlayers[]) || [],
     leagueInProgress: (incompleteLeagueCount ?? 0) > 0,
+    season,
+    seasons,
   };
 }
 
 export default function Bracket() {
-  const { standings, qualification, knockoutMatches, leagueInProgress } =
-    useLoaderData<typeof loader>();
-
-  // Get qualified players (top 10)
+  const {
+    standings,
+    qualification,
+    knockoutMatches,
+    leagueInProgress,
+    format,
+    season,
+    seasons,
+  } = useLoaderData<typeof loader>();
+
+  // Get qualified players in seed order
   const qualified = qualification.qualifiedPlayerIds
     .map((playerId) =>
       standings.find((standing) => standing.player.id === playerId),
     )
     .filter((standing): standing is PlayerStanding => Boolean(standing));
 
-  // Organize knockout matches by phase
-  const round1 = knockoutMatches.filter((m) => m.phase === "knockout_r1");
-  const round2 = knockoutMatches.filter((m) => m.phase === "knockout_r2");
-  const semifinals = knockoutMatches.filter((m) => m.phase === "semifinal");
-  const final = knockoutMatches.find((m) => m.phase === "final");
-
-  // Organize matches by bracket path using knockout_position
-  const topBracketR1 = round1.filter(
-    (m) => m.knockout_position === 1 || m.knockout_position === 2,
-  );
-  const bottomBracketR1 = round1.filter(
-    (m) => m.knockout_position === 3 || m.knockout_position === 4,
-  );
-  const topBracketR2 = round2.find((m) => m.knockout_position === 1);
-  const bottomBracketR2 = round2.find((m) => m.knockout_position === 2);
-  const topSemifinal = semifinals.find((m) => m.knockout_position === 1);
-  const bottomSemifinal = semifinals.find((m) => m.knockout_position === 2);
+  const rounds = getKnockoutRounds(format);
   const rankByPlayerId = new Map(
     standings.map((standing) => [standing.player.id, standing.rank]),
   );
-  const matchByPosition = new Map(
-    round1.map((match) => [match.knockout_position, match] as const),
+
+  // Semifinal and final are shown together; earlier rounds are split into
+  // top and bottom halves of the bracket.
+  const finalsStageStart = Math.max(0, rounds.length - 2);
+  const halfRounds = rounds.slice(0, finalsStageStart);
+  const byeRoundIndex = rounds.findIndex((round) => round.byesEnter);
+
+  const renderSlot = (roundIndex: number, position: number) => {
+    const round = rounds[roundIndex];
+    const match = findRoundMatch(knockoutMatches, round, position);
+
+    if (match) {
+      return (
+        <BracketMatch
+          key={match.id}
+          match={match}
+          isFinal={round.phase === "final"}
+          rankByPlayerId={rankByPlayerId}
+        />
+      );
+    }
+
+    if (roundIndex === 0) {
+      const seed1 = format.seeding_pattern[position * 2 - 2];
+      const seed2 = format.seeding_pattern[position * 2 - 1];
+      return (
+        <BracketPreview
+          key={`preview-${position}`}
+          seed1={seed1}
+          seed2={seed2}
+          qualified={qualified}
+        />
+      );
+    }
+
+    const previousRound = rounds[roundIndex - 1];
+
+    if (round.byesEnter) {
+      const byeSeed = format.bye_pattern[position - 1];
+      return (
+        <ByePreview
+          key={`preview-${position}`}
+          byePlayer={qualified[byeSeed - 1]}
+          byeSeed={byeSeed}
+          player2={getMatchWinner(
+            findRoundMatch(knockoutMatches, previousRound, position),
+          )}
+          player2Label={getSlotLabel(format, rounds, roundIndex - 1, position)}
+          rankByPlayerId={rankByPlayerId}
+          isFinal={round.phase === "final"}
+        />
+      );
+    }
+
+    return (
+      <PendingMatchPreview
+        key={`preview-${position}`}
+        player1={getMatchWinner(
+          findRoundMatch(knockoutMatches, previousRound, position * 2 - 1),
+        )}
+        player1Label={getSlotLabel(
+          format,
+          rounds,
+          roundIndex - 1,
+          position * 2 - 1,
+        )}
+        player2={getMatchWinner(
+          findRoundMatch(knockoutMatches, previousRound, position * 2),
+        )}
+        player2Label={getSlotLabel(format, rounds, roundIndex - 1, position * 2)}
+        rankByPlayerId={rankByPlayerId}
+        isFinal={round.phase === "final"}
+      />
+    );
+  };
+
+  if (format.elimination === "double") {
+    return (
+      <main className="page">
+        <div className="page-header">
+          <h1>Knockout Bracket</h1>
+          <p>{describeBracketFormat(format)}</p>
+        </div>
+
+        <SeasonSelector season={season} seasons={seasons} />
+
+        {leagueInProgress && (
+          <div className="provisional-banner">
+            <strong>Provisional standings:</strong> League phase is still
+            ongoing. Rankings may change as matches are completed.
+          </div>
+        )}
+
+        <DoubleEliminationBracket
+          format={format}
+          rounds={rounds}
+          knockoutMatches={knockoutMatches}
+          qualified={qualified}
+          rankByPlayerId={rankByPlayerId}
+        />
+
+        <FinalPlacements knockoutMatches={knockoutMatches} format={format} />
+      </main>
+    );
+  }
+
+  const halves = [
+    { label: "Top Bracket", half: 0 },
+    { label: "Bottom Bracket", half: 1 },
+  ];
+  const semifinalIndex = rounds.findIndex(
+    (round) => round.phase === "semifinal",
+  );
+  const finalIndex = rounds.length - 1;
+  const semifinalMatches =
+    semifinalIndex >= 0
+      ? [1, 2].map((position) =>
+          findRoundMatch(knockoutMatches, rounds[semifinalIndex], position),
+        )
+      : [];
+  const thirdPlaceMatch = knockoutMatches.find(
+    (m) => m.phase === "third_place",
   );
-  const topR2KnownPlayer1 = getMatchWinner(matchByPosition.get(1));
-  const topR2KnownPlayer2 = getMatchWinner(matchByPosition.get(2));
-  const bottomR2KnownPlayer1 = getMatchWinner(matchByPosition.get(3));
-  const bottomR2KnownPlayer2 = getMatchWinner(matchByPosition.get(4));
-  const topSemifinalKnownWinner = getMatchWinner(topBracketR2);
-  const bottomSemifinalKnownWinner = getMatchWinner(bottomBracketR2);
-  const topFinalist = getMatchWinner(topSemifinal);
-  const bottomFinalist = getMatchWinner(bottomSemifinal);
 
   return (
     <main className="page">
       <div className="page-header">
         <h1>Knockout Bracket</h1>
-        <p>
-          Top 2 from league go directly to semifinals. 3rd-10th play knockout
-          rounds.
-        </p>
+        <p>{describeBracketFormat(format)}</p>
       </div>
 
+      <SeasonSelector season={season} seasons={seasons} />
+
       {leagueInProgress && (
         <div className="provisional-banner">
           <strong>Provisional standings:</strong> League phase is still ongoing.
@@ -127,198 +286,244 @@ export default function Bracket() {
       )}
 
       <div className="bracket-dual">
-        {/* Top Bracket */}
-        <div className="bracket-half">
-          <div className="bracket-half-header">
-            <h3>Top Bracket</h3>
-            <Link
-              to={`/player/${qualified[0]?.player.id}`}
-              className="bye-player-inline"
-            >
-              <span className="rank-badge rank-semifinal">1</span>
-              <span>{qualified[0]?.player.name}</span>
-              <span className="bye-label">→ Semi</span>
-            </Link>
-          </div>
+        {halfRounds.length > 0 &&
+          halves.map(({ label, half }) => (
+            <div key={label} className="bracket-half">
+              <div className="bracket-half-header">
+                <h3>{label}</h3>
+                {byeRoundIndex >= 0 &&
+                  getHalfPositions(rounds[byeRoundIndex], half).map(
+                    (position) => {
+                      const byeSeed = format.bye_pattern[position - 1];
+                      const byePlayer = qualified[byeSeed - 1];
+                      return (
+                        <Link
+                          key={byeSeed}
+                          to={`/player/${byePlayer?.player.id}`}
+                          className="bye-player-inline"
+                        >
+                          <span className="rank-badge rank-semifinal">
+                            {byeSeed}
+                          </span>
+                          <span>{byePlayer?.player.name || "TBD"}</span>
+                          <span className="bye-label">
+                            → {getRoundLabel(rounds[byeRoundIndex].phase)}
+                          </span>
+                        </Link>
+                      );
+                    },
+                  )}
+              </div>
 
-          <div className="bracket-tree">
-            {/* R1 */}
-            <div className="bracket-column">
-              <div className="bracket-column-label">Round 1</div>
-              {topBracketR1.length > 0 ? (
-                topBracketR1
-                  .sort(
-                    (a, b) =>
-                      (a.knockout_position || 0) - (b.knockout_position || 0),
-                  )
-                  .map((match) => (
-                    <BracketMatch
-                      key={match.id}
-                      match={match}
-                      rankByPlayerId={rankByPlayerId}
-                    />
-                  ))
-              ) : (
-                <>
-                  <BracketPreview seed1={4} seed2={9} qualified={qualified} />
-                  <BracketPreview seed1={5} seed2={8} qualified={qualified} />
-                </>
-              )}
+              <div className="bracket-tree">
+                {halfRounds.map((round, roundIndex) => (
+                  <div key={round.phase} className="bracket-column">
+                    <div className="bracket-column-label">
+                      {getRoundLabel(round.phase)}
+                    </div>
+                    {getHalfPositions(round, half).map((position) =>
+                      renderSlot(roundIndex, position),
+                    )}
+                  </div>
+                ))}
+              </div>
             </div>
+          ))}
 
-            {/* R2 */}
-            <div className="bracket-column">
-              <div className="bracket-column-label">Round 2</div>
-              {topBracketR2 ? (
-                <BracketMatch
-                  match={topBracketR2}
-                  rankByPlayerId={rankByPlayerId}
-                />
-              ) : (
-                <PendingMatchPreview
-                  player1={topR2KnownPlayer1}
-                  player1Label="Winner 4v9"
-                  player2={topR2KnownPlayer2}
-                  player2Label="Winner 5v8"
-                  rankByPlayerId={rankByPlayerId}
-                />
-              )}
-            </div>
+        {/* Finals Stage - Semifinals + Final */}
+        <div className="bracket-finals-stage">
+          <h3>Finals Stage</h3>
+
+          <div className="bracket-finals-grid">
+            {semifinalIndex >= 0 && (
+              <div className="bracket-semifinals">
+                {[1, 2].map((position) => (
+                  <div key={position} className="bracket-semi-match">
+                    <div className="bracket-semi-label">
+                      Semifinal ({position === 1 ? "Top" : "Bottom"} Bracket)
+                    </div>
+                    {renderSlot(semifinalIndex, position)}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {finalIndex >= 0 && (
+              <div className="bracket-final-match">
+                <div className="bracket-final-label">Final</div>
+                {renderSlot(finalIndex, 1)}
+
+                {format.third_place_match && (
+                  <div className="bracket-third-place">
+                    <div className="bracket-final-label">Third Place</div>
+                    {thirdPlaceMatch ? (
+                      <BracketMatch
+                        match={thirdPlaceMatch}
+                        rankByPlayerId={rankByPlayerId}
+                      />
+                    ) : (
+                      <PendingMatchPreview
+                        player1={getMatchLoser(semifinalMatches[0])}
+                        player1Label="Loser Semifinal #1"
+                        player2={getMatchLoser(semifinalMatches[1])}
+                        player2Label="Loser Semifinal #2"
+                        rankByPlayerId={rankByPlayerId}
+                      />
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
           </div>
         </div>
+      </div>
+
+      <FinalPlacements knockoutMatches={knockoutMatches} format={format} />
+    </main>
+  );
+}
+
+function FinalPlacements({
+  knockoutMatches,
+  format,
+}: {
+  knockoutMatches: MatchWithPlayers[];
+  format: BracketFormat;
+}) {
+  if (getKnockoutPlacements(knockoutMatches, format).length === 0) {
+    return null;
+  }
 
-        {/* Bottom Bracket */}
-        <div className="bracket-half">
+  return (
+    <section className="bracket-finals-stage">
+      <h3>Final Placements</h3>
+      <Podium knockoutMatches={knockoutMatches} format={format} />
+      <p className="help-text">
+        <Link to="/final-standings">Every player's final placement</Link>
+      </p>
+    </section>
+  );
+}
+
+/**
+ * Winners bracket, losers bracket and grand final, each laid out round by
+ * round. Undecided slots show where their players will come from.
+ */
+function DoubleEliminationBracket({
+  format,
+  rounds,
+  knockoutMatches,
+  qualified,
+  rankByPlayerId,
+}: {
+  format: BracketFormat;
+  rounds: KnockoutRound[];
+  knockoutMatches: MatchWithPlayers[];
+  qualified: PlayerStanding[];
+  rankByPlayerId: Map<string, number>;
+}) {
+  const renderSlot = (round: KnockoutRound, position: number) => {
+    const isFinal = round.side === "grand_final";
+    const match = findRoundMatch(knockoutMatches, round, position);
+
+    if (match) {
+      return (
+        <BracketMatch
+          key={match.id}
+          match={match}
+          isFinal={isFinal}
+          rankByPlayerId={rankByPlayerId}
+        />
+      );
+    }
+
+    const sources = getDoubleEliminationSources(format, round.phase, position);
+    if (!sources) {
+      return (
+        <BracketPreview
+          key={`preview-${position}`}
+          seed1={format.seeding_pattern[position * 2 - 2]}
+          seed2={format.seeding_pattern[position * 2 - 1]}
+          qualified={qualified}
+        />
+      );
+    }
+
+    // Whether the reset is needed is only known once the grand final is played
+    if (round.phase === "grand_final_reset") {
+      return (
+        <PendingMatchPreview
+          key={`preview-${position}`}
+          player1Label="If needed"
+          player2Label="If needed"
+          rankByPlayerId={rankByPlayerId}
+          isFinal={isFinal}
+        />
+      );
+    }
+
+    const [source1, source2] = sources;
+    return (
+      <PendingMatchPreview
+        key={`preview-${position}`}
+        player1={getSourcePlayer(knockoutMatches, source1)}
+        player1Label={getSourceLabel(format, source1)}
+        player2={getSourcePlayer(knockoutMatches, source2)}
+        player2Label={getSourceLabel(format, source2)}
+        rankByPlayerId={rankByPlayerId}
+        isFinal={isFinal}
+      />
+    );
+  };
+
+  const sides = [
+    { label: "Winners Bracket", side: "winners" },
+    { label: "Losers Bracket", side: "losers" },
+  ];
+  const grandFinalRounds = rounds.filter(
+    (round) => round.side === "grand_final",
+  );
+
+  return (
+    <div className="bracket-double">
+      {sides.map(({ label, side }) => (
+        <div key={side} className="bracket-half">
           <div className="bracket-half-header">
-            <h3>Bottom Bracket</h3>
-            <Link
-              to={`/player/${qualified[1]?.player.id}`}
-              className="bye-player-inline"
-            >
-              <span className="rank-badge rank-semifinal">2</span>
-              <span>{qualified[1]?.player.name}</span>
-              <span className="bye-label">→ Semi</span>
-            </Link>
+            <h3>{label}</h3>
           </div>
 
           <div className="bracket-tree">
-            {/* R1 */}
-            <div className="bracket-column">
-              <div className="bracket-column-label">Round 1</div>
-              {bottomBracketR1.length > 0 ? (
-                bottomBracketR1
-                  .sort(
-                    (a, b) =>
-                      (a.knockout_position || 0) - (b.knockout_position || 0),
-                  )
-                  .map((match) => (
-                    <BracketMatch
-                      key={match.id}
-                      match={match}
-                      rankByPlayerId={rankByPlayerId}
-                    />
-                  ))
-              ) : (
-                <>
-                  <BracketPreview seed1={3} seed2={10} qualified={qualified} />
-                  <BracketPreview seed1={6} seed2={7} qualified={qualified} />
-                </>
-              )}
-            </div>
-
-            {/* R2 */}
-            <div className="bracket-column">
-              <div className="bracket-column-label">Round 2</div>
-              {bottomBracketR2 ? (
-                <BracketMatch
-                  match={bottomBracketR2}
-                  rankByPlayerId={rankByPlayerId}
-                />
-              ) : (
-                <PendingMatchPreview
-                  player1={bottomR2KnownPlayer1}
-                  player1Label="Winner 3v10"
-                  player2={bottomR2KnownPlayer2}
-                  player2Label="Winner 6v7"
-                  rankByPlayerId={rankByPlayerId}
-                />
-              )}
-            </div>
+            {rounds
+              .filter((round) => round.side === side)
+              .map((round) => (
+                <div key={round.phase} className="bracket-column">
+                  <div className="bracket-column-label">
+                    {getRoundLabel(round.phase)}
+                  </div>
+                  {Array.from({ length: round.matchCount }, (_, i) =>
+                    renderSlot(round, i + 1),
+                  )}
+                </div>
+              ))}
           </div>
         </div>
+      ))}
 
-        {/* Finals Stage - Semifinals + Final */}
-        <div className="bracket-finals-stage">
-          <h3>Finals Stage</h3>
-
-          <div className="bracket-finals-grid">
-            {/* Semifinals */}
-            <div className="bracket-semifinals">
-              <div className="bracket-semi-match">
-                <div className="bracket-semi-label">
-                  Semifinal (Top Bracket)
-                </div>
-                {topSemifinal ? (
-                  <BracketMatch
-                    match={topSemifinal}
-                    rankByPlayerId={rankByPlayerId}
-                  />
-                ) : (
-                  <SemifinalPreview
-                    byePlayer={qualified[0]}
-                    byeSeed={1}
-                    player2={topSemifinalKnownWinner}
-                    r2WinnerLabel="Top R2 Winner"
-                    rankByPlayerId={rankByPlayerId}
-                  />
-                )}
-              </div>
+      <div className="bracket-finals-stage">
+        <h3>Grand Final</h3>
 
-              <div className="bracket-semi-match">
-                <div className="bracket-semi-label">
-                  Semifinal (Bottom Bracket)
-                </div>
-                {bottomSemifinal ? (
-                  <BracketMatch
-                    match={bottomSemifinal}
-                    rankByPlayerId={rankByPlayerId}
-                  />
-                ) : (
-                  <SemifinalPreview
-                    byePlayer={qualified[1]}
-                    byeSeed={2}
-                    player2={bottomSemifinalKnownWinner}
-                    r2WinnerLabel="Bottom R2 Winner"
-                    rankByPlayerId={rankByPlayerId}
-                  />
-                )}
+        <div className="bracket-finals-grid">
+          {grandFinalRounds.map((round) => (
+            <div key={round.phase} className="bracket-final-match">
+              <div className="bracket-final-label">
+                {getRoundLabel(round.phase)}
               </div>
+              {renderSlot(round, 1)}
             </div>
-
-            {/* Final */}
-            <div className="bracket-final-match">
-              <div className="bracket-final-label">Final</div>
-              {final ? (
-                <BracketMatch
-                  match={final}
-                  isFinal
-                  rankByPlayerId={rankByPlayerId}
-                />
-              ) : (
-                <PendingMatchPreview
-                  player1={topFinalist}
-                  player1Label="Top Semi Winner"
-                  player2={bottomFinalist}
-                  player2Label="Bottom Semi Winner"
-                  rankByPlayerId={rankByPlayerId}
-                  isFinal
-                />
-              )}
-            </div>
-          </div>
+          ))}
         </div>
       </div>
-    </main>
+    </div>
   );
 }
 
@@ -441,34 +646,99 @@ function PendingBracketPlayer({
   );
 }
 
-function SemifinalPreview({
+function ByePreview({
   byePlayer,
   byeSeed,
   player2,
-  r2WinnerLabel,
+  player2Label,
   rankByPlayerId,
+  isFinal,
 }: {
-  byePlayer: PlayerStanding;
+  byePlayer?: PlayerStanding;
   byeSeed: number;
   player2?: Player | null;
-  r2WinnerLabel: string;
+  player2Label: string;
   rankByPlayerId: Map<string, number>;
+  isFinal?: boolean;
 }) {
   return (
-    <div className="bracket-match-card pending">
+    <div className={`bracket-match-card pending ${isFinal ? "final" : ""}`}>
       <div className="bracket-player">
         <span className="rank-badge rank-semifinal">{byeSeed}</span>
         <span>{byePlayer?.player.name || "TBD"}</span>
       </div>
       <PendingBracketPlayer
         player={player2}
-        fallbackLabel={r2WinnerLabel}
+        fallbackLabel={player2Label}
         rankByPlayerId={rankByPlayerId}
       />
     </div>
   );
 }
 
+/**
+ * Find the match for a bracket slot. The final is stored without a position.
+ */
+function findRoundMatch(
+  knockoutMatches: MatchWithPlayers[],
+  round: KnockoutRound,
+  position: number,
+): MatchWithPlayers | undefined {
+  return knockoutMatches.find(
+    (m) =>
+      m.phase === round.phase &&
+      (round.phase === "final" || m.knockout_position === position),
+  );
+}
+
+function getHalfPositions(round: KnockoutRound, half: number): number[] {
+  const perHalf = Math.max(1, round.matchCount / 2);
+  return Array.from({ length: perHalf }, (_, i) => half * perHalf + i + 1);
+}
+
+/**
+ * Label for the winner of a bracket slot before it is decided,
+ * e.g. "Winner 4v9" for round 1 or "Winner Round 2 #1" later on.
+ */
+function getSlotLabel(
+  format: BracketFormat,
+  rounds: KnockoutRound[],
+  roundIndex: number,
+  position: number,
+): string {
+  if (roundIndex === 0) {
+    return `Winner ${format.seeding_pattern[position * 2 - 2]}v${format.seeding_pattern[position * 2 - 1]}`;
+  }
+  return `Winner ${getRoundLabel(rounds[roundIndex].phase)} #${position}`;
+}
+
+/**
+ * Label for a double-elimination slot before it is decided, e.g.
+ * "Loser 1v8" for a winners round 1 match or "Winner Losers Round 2 #1".
+ */
+function getSourceLabel(
+  format: BracketFormat,
+  source: BracketSlotSource,
+): string {
+  const outcome = source.outcome === "winner" ? "Winner" : "Loser";
+  if (source.phase === "winners_r1") {
+    return `${outcome} ${format.seeding_pattern[source.position * 2 - 2]}v${format.seeding_pattern[source.position * 2 - 1]}`;
+  }
+  return `${outcome} ${getRoundLabel(source.phase)} #${source.position}`;
+}
+
+function getSourcePlayer(
+  knockoutMatches: MatchWithPlayers[],
+  source: BracketSlotSource,
+) {
+  const match = knockoutMatches.find(
+    (m) => m.phase === source.phase && m.knockout_position === source.position,
+  );
+  return source.outcome === "winner"
+    ? getMatchWinner(match)
+    : getMatchLoser(match);
+}
+
 function getMatchWinner(match?: MatchWithPlayers) {
   if (!match?.winner_id) return null;
   if (match.winner_id === match.player1_id) return match.player1;
@@ -476,22 +746,14 @@ function getMatchWinner(match?: MatchWithPlayers) {
   return null;
 }
 
-function countSetsWon(match: MatchWithPlayers, playerId: string): number {
-  const isP1 = match.player1_id === playerId;
-  let sets = 0;
-
-  if (match.set1_p1 !== null && match.set1_p2 !== null) {
-    if (isP1 && match.set1_p1 > match.set1_p2) sets++;
-    if (!isP1 && match.set1_p2 > match.set1_p1) sets++;
-  }
-  if (match.set2_p1 !== null && match.set2_p2 !== null) {
-    if (isP1 && match.set2_p1 > match.set2_p2) sets++;
-    if (!isP1 && match.set2_p2 > match.set2_p1) sets++;
-  }
-  if (match.set3_p1 !== null && match.set3_p2 !== null) {
-    if (isP1 && match.set3_p1 > match.set3_p2) sets++;
-    if (!isP1 && match.set3_p2 > match.set3_p1) sets++;
-  }
+function getMatchLoser(match?: MatchWithPlayers) {
+  if (!match?.winner_id) return null;
+  if (match.winner_id === match.player1_id) return match.player2;
+  if (match.winner_id === match.player2_id) return match.player1;
+  return null;
+}
 
-  return sets;
+function countSetsWon(match: MatchWithPlayers, playerId: string): number {
+  const [p1Sets, p2Sets] = getCreditedSetCounts(match);
+  return match.player1_id === playerId ? p1Sets : p2Sets;
 }
@@ -0,0 +1,320 @@
+import { Link, useLoaderData, useOutletContext } from "react-router";
+import { SeasonSelector } from "~/components/season/SeasonSelector";
+import {
+  calculateDoublesStandings,
+  DOUBLES_QUALIFIER_COUNT,
+} from "~/lib/doubles.server";
+import { countSetsWon, formatSetScores } from "~/lib/match-format";
+import { resolveSeason } from "~/lib/seasons.server";
+import { createSupabaseServerClient } from "~/lib/supabase.server";
+import type {
+  AppUser,
+  DoublesMatch,
+  DoublesMatchWithTeams,
+  TeamWithPlayers,
+} from "~/lib/types";
+import type { Route } from "./+types/doubles";
+
+export function meta() {
+  return [
+    { title: "Doubles | PD Table Tennis" },
+    { name: "description", content: "Doubles standings, knockout and results" },
+  ];
+}
+
+export async function loader({ request }: Route.LoaderArgs) {
+  const { supabase } = createSupabaseServerClient(request);
+  const { season, seasons, isArchived } = await resolveSeason(
+    supabase,
+    request,
+  );
+
+  const { data: teams } = await supabase
+    .from("teams")
+    .select(
+      `
+      *,
+      player1:players!teams_player1_id_fkey(*),
+      player2:players!teams_player2_id_fkey(*)
+    `,
+    )
+    .eq("season_id", season.id)
+    .order("name");
+
+  const { data: matches } = await supabase
+    .from("doubles_matches")
+    .select(
+      `
+      *,
+      team1:teams!doubles_matches_team1_id_fkey(*),
+      team2:teams!doubles_matches_team2_id_fkey(*)
+    `,
+    )
+    .eq("season_id", season.id)
+    .order("recorded_at", { ascending: false, nullsFirst: false });
+
+  const doublesMatches = (matches as DoublesMatchWithTeams[]) || [];
+
+  return {
+    standings: calculateDoublesStandings(
+      (teams as TeamWithPlayers[]) || [],
+      doublesMatches,
+    ),
+    semifinals: doublesMatches
+      .filter((m) => m.phase === "semifinal")
+      .sort((a, b) => (a.knockout_position || 0) - (b.knockout_position || 0)),
+    final: doublesMatches.find((m) => m.phase === "final") || null,
+    leagueResults: doublesMatches.filter(
+      (m) => m.phase === "league" && m.status === "completed",
+    ),
+    season,
+    seasons,
+    isArchived,
+  };
+}
+
+export default function Doubles() {
+  const {
+    standings,
+    semifinals,
+    final,
+    leagueResults,
+    season,
+    seasons,
+    isArchived,
+  } = useLoaderData<typeof loader>();
+  const { user } = useOutletContext<{ user: AppUser | null }>();
+
+  const canEdit =
+    !isArchived && (user?.role === "admin" || user?.role === "editor");
+  const knockoutStarted = semifinals.length > 0;
+  const isQualified = (rank: number) => rank <= DOUBLES_QUALIFIER_COUNT;
+
+  return (
+    <main className="page">
+      <div className="page-header">
+        <h1>Doubles</h1>
+        <p>
+          Teams of two play a league; the top {DOUBLES_QUALIFIER_COUNT} go
+          through to semifinals and a final
+        </p>
+      </div>
+
+      <SeasonSelector season={season} seasons={seasons} />
+
+      {canEdit && !knockoutStarted && standings.length >= 2 && (
+        <div className="results-actions">
+          <Link to="/editor/record-doubles" className="btn btn-primary">
+            Record Doubles Match
+          </Link>
+        </div>
+      )}
+
+      {standings.length === 0 ? (
+        <p className="empty">No doubles teams registered yet.</p>
+      ) : (
+        <section className="doubles-section">
+          <h2>League</h2>
+          <div className="standings-table-container">
+            <table className="data-table standings-table">
+              <thead>
+                <tr>
+                  <th className="text-center">#</th>
+                  <th>Team</th>
+                  <th className="text-center">P</th>
+                  <th className="text-center">W</th>
+                  <th className="text-center">L</th>
+                  <th className="text-center hide-mobile">Sets</th>
+                  <th className="text-center">+/-</th>
+                </tr>
+              </thead>
+              <tbody>
+                {standings.map((standing) => (
+                  <tr
+                    key={standing.team.id}
+                    className={
+                      isQualified(standing.rank) ? "row-semifinal" : ""
+                    }
+                  >
+                    <td className="text-center rank-cell">
+                      <span
+                        className={`rank-badge ${isQualified(standing.rank) ? "rank-semifinal" : ""}`}
+                      >
+                        {standing.rank}
+                      </span>
+                    </td>
+                    <td>
+                      <div className="doubles-team-name">
+                        {standing.team.name}
+                      </div>
+                      <div className="doubles-team-players">
+                        <Link to={`/player/${standing.team.player1_id}`}>
+                          {standing.team.player1.name}
+                        </Link>{" "}
+                        &amp;{" "}
+                        <Link to={`/player/${standing.team.player2_id}`}>
+                          {standing.team.player2.name}
+                        </Link>
+                      </div>
+                    </td>
+                    <td className="text-center">{standing.matchesPlayed}</td>
+                    <td className="text-center">{standing.wins}</td>
+                    <td className="text-center">{standing.losses}</td>
+                    <td className="text-center hide-mobile">
+                      {standing.setsWon}-{standing.setsLost}
+                    </td>
+                    <td className="text-center">
+                      {standing.setDiff > 0
+                        ? `+${standing.setDiff}`
+                        : standing.setDiff}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="help-text">
+            Ranked on wins, then set difference, then points scored.
+          </p>
+        </section>
+      )}
+
+      {knockoutStarted && (
+        <section className="doubles-section">
+          <h2>Knockout</h2>
+          <div className="bracket-finals-grid">
+            <div className="bracket-semifinals">
+              {semifinals.map((match) => (
+                <div key={match.id} className="bracket-semi-match">
+                  <div className="bracket-semi-label">
+                    Semifinal {match.knockout_position}
+                  </div>
+                  <DoublesMatchCard match={match} canEdit={canEdit} />
+                </div>
+              ))}
+            </div>
+
+            <div className="bracket-final-match">
+              <div className="bracket-final-label">Final</div>
+              {final ? (
+                <DoublesMatchCard match={final} canEdit={canEdit} isFinal />
+              ) : (
+                <div className="bracket-match-card pending final">
+                  <div className="bracket-player">
+                    <span>Winner Semifinal 1</span>
+                  </div>
+                  <div className="bracket-player">
+                    <span>Winner Semifinal 2</span>
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+        </section>
+      )}
+
+      {leagueResults.length > 0 && (
+        <section className="doubles-section">
+          <h2>League Results</h2>
+          <div className="results-list">
+            {leagueResults.map((match) => (
+              <div key={match.id} className="results-card completed">
+                <div className="results-card-main">
+                  <div className="results-player">
+                    <span
+                      className={
+                        match.winner_team_id === match.team1_id ? "winner" : ""
+                      }
+                    >
+                      {match.team1.name}
+                    </span>
+                  </div>
+                  <div className="results-vs">
+                    <span className="results-score">
+                      {countSetsWon(match.set_scores).join(" - ")}
+                    </span>
+                  </div>
+                  <div className="results-player">
+                    <span
+                      className={
+                        match.winner_team_id === match.team2_id ? "winner" : ""
+                      }
+                    >
+                      {match.team2.name}
+                    </span>
+                  </div>
+                </div>
+                <div className="results-card-meta">
+                  <span className="help-text">
+                    {formatSetScores(match.set_scores)}
+                  </span>
+                </div>
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+    </main>
+  );
+}
+
+function DoublesMatchCard({
+  match,
+  canEdit,
+  isFinal,
+}: {
+  match: DoublesMatchWithTeams;
+  canEdit: boolean;
+  isFinal?: boolean;
+}) {
+  const [team1Sets, team2Sets] = countSetsWon(match.set_scores);
+  const isCompleted = match.status === "completed";
+
+  return (
+    <div
+      className={`bracket-match-card ${match.status} ${isFinal ? "final" : ""}`}
+    >
+      <TeamRow
+        match={match}
+        teamId={match.team1_id}
+        name={match.team1.name}
+        sets={isCompleted ? team1Sets : null}
+      />
+      <TeamRow
+        match={match}
+        teamId={match.team2_id}
+        name={match.team2.name}
+        sets={isCompleted ? team2Sets : null}
+      />
+      {canEdit && !isCompleted && (
+        <Link
+          to={`/editor/record-doubles?matchId=${match.id}`}
+          className="btn btn-small btn-primary"
+        >
+          Record Result
+        </Link>
+      )}
+    </div>
+  );
+}
+
+function TeamRow({
+  match,
+  teamId,
+  name,
+  sets,
+}: {
+  match: DoublesMatch;
+  teamId: string;
+  name: string;
+  sets: number | null;
+}) {
+  return (
+    <div
+      className={`bracket-player ${match.winner_team_id === teamId ? "winner" : ""}`}
+    >
+      <span>{name}</span>
+      {sets !== null && <span className="bracket-sets">{sets}</span>}
+    </div>
+  );
+}
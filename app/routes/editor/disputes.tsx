@@ -0,0 +1,258 @@
+import {
+  data,
+  Form,
+  Link,
+  useActionData,
+  useLoaderData,
+  useNavigation,
+} from "react-router";
+import { requireRole } from "~/lib/auth.server";
+import { formatSetScores } from "~/lib/match-format";
+import { CLEARED_REPORT_VALUES } from "~/lib/match-result";
+import { notifyResultRecorded } from "~/lib/notifications.server";
+import { getActiveSeason } from "~/lib/seasons.server";
+import { createSupabaseServerClient } from "~/lib/supabase.server";
+import type { MatchWithPlayers } from "~/lib/types";
+import { emitMatchEvent } from "~/lib/webhooks.server";
+import type { Route } from "./+types/disputes";
+
+export function meta() {
+  return [{ title: "Result Disputes | PD Table Tennis" }];
+}
+
+export async function loader({ request }: Route.LoaderArgs) {
+  const { headers } = await requireRole(request, ["admin", "editor"]);
+
+  const { supabase } = createSupabaseServerClient(request);
+  const season = await getActiveSeason(supabase);
+
+  const { data: matches } = await supabase
+    .from("matches")
+    .select(
+      `
+      *,
+      player1:players!matches_player1_id_fkey(*),
+      player2:players!matches_player2_id_fkey(*)
+    `
+    )
+    .eq("season_id", season.id)
+    .in("status", ["disputed", "pending_confirmation"])
+    .order("reported_at", { ascending: true });
+
+  const allMatches = (matches as MatchWithPlayers[]) || [];
+
+  return data(
+    {
+      disputed: allMatches.filter((m) => m.status === "disputed"),
+      pending: allMatches.filter((m) => m.status === "pending_confirmation"),
+    },
+    { headers }
+  );
+}
+
+export async function action({ request }: Route.ActionArgs) {
+  const { user, headers: authHeaders } = await requireRole(request, [
+    "admin",
+    "editor",
+  ]);
+
+  const { supabase, headers } = createSupabaseServerClient(request);
+  const season = await getActiveSeason(supabase);
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+  const matchId = formData.get("match_id") as string;
+
+  const allHeaders = new Headers(authHeaders);
+  headers.forEach((value, key) => allHeaders.append(key, value));
+
+  const alreadyResolved = data(
+    { error: "This result has already been resolved" },
+    { status: 400, headers: allHeaders }
+  );
+
+  if (intent === "accept") {
+    // Accept the reported score as the official result
+    const now = new Date().toISOString();
+    const { data: accepted, error } = await supabase
+      .from("matches")
+      .update({
+        status: "completed",
+        confirmed_at: now,
+        recorded_by: user.id,
+        recorded_at: now,
+      })
+      .eq("season_id", season.id)
+      .eq("id", matchId)
+      .in("status", ["disputed", "pending_confirmation"])
+      .select("id");
+
+    if (error) {
+      return data(
+        { error: error.message },
+        { status: 400, headers: allHeaders }
+      );
+    }
+    if (!accepted?.length) {
+      return alreadyResolved;
+    }
+
+    await notifyResultRecorded(supabase, matchId);
+    await emitMatchEvent(supabase, "match.completed", matchId);
+  }
+
+  if (intent === "reject") {
+    // Throw the report away so the players can report again. Swiss pairings,
+    // group fixtures and booked matches are kept as scheduled matches.
+    const { data: cleared, error: clearError } = await supabase
+      .from("matches")
+      .update(CLEARED_REPORT_VALUES)
+      .eq("season_id", season.id)
+      .eq("id", matchId)
+      .or("swiss_round.not.is.null,group_name.not.is.null,scheduled_at.not.is.null")
+      .in("status", ["disputed", "pending_confirmation"])
+      .select("id");
+
+    if (clearError) {
+      return data(
+        { error: clearError.message },
+        { status: 400, headers: allHeaders }
+      );
+    }
+
+    const { data: deleted, error: deleteError } = await supabase
+      .from("matches")
+      .delete()
+      .eq("season_id", season.id)
+      .eq("id", matchId)
+      .in("status", ["disputed", "pending_confirmation"])
+      .select("id");
+
+    if (deleteError) {
+      return data(
+        { error: deleteError.message },
+        { status: 400, headers: allHeaders }
+      );
+    }
+    if (!cleared?.length && !deleted?.length) {
+      return alreadyResolved;
+    }
+  }
+
+  allHeaders.set("Location", "/editor/disputes");
+  return new Response(null, { status: 302, headers: allHeaders });
+}
+
+export default function EditorDisputes() {
+  const { disputed, pending } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === "submitting";
+
+  const renderMatch = (match: MatchWithPlayers) => {
+    const reporter =
+      match.reported_by_player_id === match.player1_id
+        ? match.player1
+        : match.player2;
+
+    return (
+      <div key={match.id} className={`results-card ${match.status}`}>
+        <div className="results-card-main">
+          <div className="results-player">
+            <span
+              className={match.winner_id === match.player1_id ? "winner" : ""}
+            >
+              {match.player1.name}
+            </span>
+          </div>
+          <div className="results-vs">
+            <span className="results-score">{getSetScore(match)}</span>
+          </div>
+          <div className="results-player">
+            <span
+              className={match.winner_id === match.player2_id ? "winner" : ""}
+            >
+              {match.player2.name}
+            </span>
+          </div>
+        </div>
+        <p className="help-text">
+          Reported by {reporter.name}
+          {match.reported_at &&
+            ` on ${new Date(match.reported_at).toLocaleDateString()}`}
+        </p>
+        {match.dispute_reason && (
+          <p className="dispute-reason">“{match.dispute_reason}”</p>
+        )}
+        <div className="results-card-actions">
+          <Form method="post" style={{ display: "inline" }}>
+            <input type="hidden" name="match_id" value={match.id} />
+            <button
+              type="submit"
+              name="intent"
+              value="accept"
+              className="btn btn-primary"
+              disabled={isSubmitting}
+            >
+              Accept Reported Score
+            </button>
+          </Form>
+          <Link to={`/editor/record/${match.id}`} className="btn btn-secondary">
+            Correct Score
+          </Link>
+          <Form method="post" style={{ display: "inline" }}>
+            <input type="hidden" name="match_id" value={match.id} />
+            <button
+              type="submit"
+              name="intent"
+              value="reject"
+              className="btn btn-danger"
+              disabled={isSubmitting}
+              onClick={(e) => {
+                if (!confirm("Discard this reported result?")) {
+                  e.preventDefault();
+                }
+              }}
+            >
+              Discard
+            </button>
+          </Form>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="page">
+      <div className="page-header">
+        <h1>Result Disputes</h1>
+        <p>Resolve self-reported results that were disputed or never confirmed</p>
+      </div>
+
+      {actionData?.error && (
+        <div className="error-message">{actionData.error}</div>
+      )}
+
+      <section className="admin-section">
+        <h2>Disputed ({disputed.length})</h2>
+        {disputed.length === 0 ? (
+          <p className="empty">No disputed results.</p>
+        ) : (
+          <div className="results-list">{disputed.map(renderMatch)}</div>
+        )}
+      </section>
+
+      <section className="admin-section">
+        <h2>Awaiting Confirmation ({pending.length})</h2>
+        {pending.length === 0 ? (
+          <p className="empty">No results awaiting confirmation.</p>
+        ) : (
+          <div className="results-list">{pending.map(renderMatch)}</div>
+        )}
+      </section>
+    </div>
+  );
+}
+
+function getSetScore(match: MatchWithPlayers): string {
+  return formatSetScores(match.set_scores);
+}
@@ -1,12 +1,16 @@
 import { Link, data, useLoaderData, useSearchParams } from "react-router";
 import { requireRole } from "~/lib/auth.server";
+import { getRoundLabel, parseBracketFormat } from "~/lib/bracket";
+import { parseLeagueFormat } from "~/lib/league-format";
+import { countSetsWon } from "~/lib/match-format";
+import { getActiveSeason } from "~/lib/seasons.server";
 import { createSupabaseServerClient } from "~/lib/supabase.server";
 import {
-  calculateStandings,
+  calculateSeedingStandings,
   getKnockoutRoundUpdates,
   getLeagueProgress,
 } from "~/lib/tournament.server";
-import type { Match, MatchWithPlayers, Player } from "~/lib/types";
+import type { Match, MatchWithPlayers, Player, SwissBye } from "~/lib/types";
 import type { Route } from "./+types/matches";
 
 export function meta() {
@@ -17,6 +21,7 @@ export async function loader({ request }: Route.LoaderArgs) {
   const { headers } = await requireRole(request, ["admin", "editor"]);
 
   const { supabase } = createSupabaseServerClient(request);
+  const season = await getActiveSeason(supabase);
   const url = new URL(request.url);
   const phase = url.searchParams.get("phase") || "all";
   const playerId = url.searchParams.get("player") || "all";
@@ -25,14 +30,23 @@ export async function loader({ request }: Route.LoaderArgs) {
   const { data: players } = await supabase
     .from("players")
     .select("*")
+    .eq("season_id", season.id)
     .order("name", { ascending: true });
 
   const { count: completedLeagueMatches } = await supabase
     .from("matches")
     .select("*", { count: "exact", head: true })
+    .eq("season_id", season.id)
     .eq("phase", "league")
     .eq("status", "completed");
 
+  const { data: settings } = await supabase
+    .from("tournament_settings")
+    .select("bracket_format, league_format")
+    .eq("season_id", season.id)
+    .single();
+  const leagueFormat = parseLeagueFormat(settings?.league_format);
+
   let query = supabase
     .from("matches")
     .select(
@@ -42,6 +56,7 @@ export async function loader({ request }: Route.LoaderArgs) {
         player2:players!matches_player2_id_fkey(*)
       `,
     )
+    .eq("season_id", season.id)
     .order("phase")
     .order("created_at");
 
@@ -71,20 +86,34 @@ export async function loader({ request }: Route.LoaderArgs) {
           player2:players!matches_player2_id_fkey(*)
         `,
       )
+      .eq("season_id", season.id)
       .eq("phase", "league")
       .eq("status", "completed");
 
-    const standings = calculateStandings(
+    const { data: swissByes } = await supabase
+      .from("swiss_byes")
+      .select("*")
+      .eq("season_id", season.id);
+
+    const standings = calculateSeedingStandings(
       allPlayers,
       (leagueMatches as MatchWithPlayers[]) || [],
+      leagueFormat,
+      (swissByes as SwissBye[]) || [],
+    );
+    const updates = getKnockoutRoundUpdates(
+      knockoutMatches as Match[],
+      standings,
+      parseBracketFormat(settings?.bracket_format),
     );
-    const updates = getKnockoutRoundUpdates(knockoutMatches as Match[], standings);
 
     if (updates.deletes.length > 0) {
       await supabase.from("matches").delete().in("id", updates.deletes);
     }
     if (updates.inserts.length > 0) {
-      await supabase.from("matches").insert(updates.inserts);
+      await supabase
+        .from("matches")
+        .insert(updates.inserts.map((m) => ({ ...m, season_id: season.id })));
     }
 
     if (updates.deletes.length > 0 || updates.inserts.length > 0) {
@@ -97,6 +126,7 @@ export async function loader({ request }: Route.LoaderArgs) {
             player2:players!matches_player2_id_fkey(*)
           `,
         )
+        .eq("season_id", season.id)
         .order("phase")
         .order("created_at");
 
@@ -117,7 +147,8 @@ export async function loader({ request }: Route.LoaderArgs) {
 
   const leagueProgress = getLeagueProgress(
     allPlayers.length,
-    completedLeagueMatches || 0
+    completedLeagueMatches || 0,
+    leagueFormat
   );
 
   return data(
@@ -143,6 +174,9 @@ export default function EditorMatches() {
       (!leagueProgress.isFinished || m.phase !== "league")
   );
   const completedMatches = matches.filter((m) => m.status === "completed");
+  const reviewCount = matches.filter(
+    (m) => m.status === "pending_confirmation" || m.status === "disputed"
+  ).length;
 
   function updateFilter(key: string, value: string) {
     const newParams = new URLSearchParams(searchParams);
@@ -161,6 +195,14 @@ export default function EditorMatches() {
         <p>Select a match to submit the result</p>
       </div>
 
+      {reviewCount > 0 && (
+        <div className="provisional-banner">
+          {reviewCount} self-reported{" "}
+          {reviewCount === 1 ? "result needs" : "results need"} attention.{" "}
+          <Link to="/editor/disputes">Review disputes</Link>
+        </div>
+      )}
+
       {leagueProgress.isFinished && (
         <section className="admin-section league-record-section">
           <div className="league-progress-header">
@@ -188,6 +230,7 @@ export default function EditorMatches() {
             <option value="knockout_r2">Knockout R2</option>
             <option value="semifinal">Semifinals</option>
             <option value="final">Final</option>
+            <option value="third_place">Third Place</option>
           </select>
         </div>
         <div className="filter-group">
@@ -235,6 +278,8 @@ export default function EditorMatches() {
                 <div className="results-card-actions">
                   <span className={`phase-badge ${match.phase}`}>
                     {formatPhase(match.phase)}
+                    {match.swiss_round && `, round ${match.swiss_round}`}
+                    {match.group_name && `, group ${match.group_name}`}
                   </span>
                   <Link
                     to={`/editor/record/${match.id}`}
@@ -309,21 +354,7 @@ export default function EditorMatches() {
 }
 
 function getSetScore(match: MatchWithPlayers): string {
-  let p1Sets = 0;
-  let p2Sets = 0;
-
-  if (match.set1_p1 !== null && match.set1_p2 !== null) {
-    if (match.set1_p1 > match.set1_p2) p1Sets++;
-    else p2Sets++;
-  }
-  if (match.set2_p1 !== null && match.set2_p2 !== null) {
-    if (match.set2_p1 > match.set2_p2) p1Sets++;
-    else p2Sets++;
-  }
-  if (match.set3_p1 !== null && match.set3_p2 !== null) {
-    if (match.set3_p1 > match.set3_p2) p1Sets++;
-    else p2Sets++;
-  }
+  const [p1Sets, p2Sets] = countSetsWon(match.set_scores);
 
   return `${p1Sets} - ${p2Sets}`;
 }
@@ -336,5 +367,5 @@ function formatPhase(phase: string): string {
     semifinal: "Semifinal",
     final: "Final",
   };
-  return phases[phase] || phase;
+  return phases[phase] || getRoundLabel(phase);
 }
@@ -0,0 +1,378 @@
+import {
+  data,
+  Form,
+  redirect as routerRedirect,
+  useActionData,
+  useLoaderData,
+  useNavigation,
+} from "react-router";
+import { useState } from "react";
+import { SetScoreInputs } from "~/components/match/SetScoreInputs";
+import { requireRole } from "~/lib/auth.server";
+import { getDoublesFinalUpdates } from "~/lib/doubles.server";
+import { getMatchFormat, parseMatchFormats } from "~/lib/match-format";
+import { parseMatchResultForm } from "~/lib/match-result";
+import { getActiveSeason } from "~/lib/seasons.server";
+import { createSupabaseServerClient } from "~/lib/supabase.server";
+import type { DoublesMatch, TeamWithPlayers } from "~/lib/types";
+import type { Route } from "./+types/record-doubles";
+
+export function meta() {
+  return [{ title: "Record Doubles Match | PD Table Tennis" }];
+}
+
+export async function loader({ request }: Route.LoaderArgs) {
+  const { headers } = await requireRole(request, ["admin", "editor"]);
+
+  const { supabase } = createSupabaseServerClient(request);
+  const season = await getActiveSeason(supabase);
+  const matchId = new URL(request.url).searchParams.get("matchId");
+
+  const { data: teams } = await supabase
+    .from("teams")
+    .select(
+      `
+      *,
+      player1:players!teams_player1_id_fkey(*),
+      player2:players!teams_player2_id_fkey(*)
+    `
+    )
+    .eq("season_id", season.id)
+    .order("name");
+
+  const { data: doublesMatches } = await supabase
+    .from("doubles_matches")
+    .select("*")
+    .eq("season_id", season.id);
+
+  const matches = (doublesMatches as DoublesMatch[]) || [];
+
+  // A knockout match is recorded against its scheduled fixture
+  const knockoutMatch = matchId
+    ? matches.find((m) => m.id === matchId && m.phase !== "league")
+    : null;
+
+  if (matchId && (!knockoutMatch || knockoutMatch.status === "completed")) {
+    return routerRedirect("/doubles", { headers });
+  }
+
+  // League matches can't be added once the knockout has started
+  if (!knockoutMatch && matches.some((m) => m.phase !== "league")) {
+    return routerRedirect("/doubles", { headers });
+  }
+
+  const playedPairs = matches
+    .filter((m) => m.phase === "league")
+    .map((m) => [m.team1_id, m.team2_id].sort().join("-"));
+
+  const { data: settings } = await supabase
+    .from("tournament_settings")
+    .select("match_formats")
+    .eq("season_id", season.id)
+    .single();
+
+  return data(
+    {
+      teams: (teams as TeamWithPlayers[]) || [],
+      playedPairs,
+      knockoutMatch: knockoutMatch || null,
+      format: getMatchFormat(
+        parseMatchFormats(settings?.match_formats),
+        knockoutMatch?.phase || "league"
+      ),
+    },
+    { headers }
+  );
+}
+
+export async function action({ request }: Route.ActionArgs) {
+  const { user, headers: authHeaders } = await requireRole(request, [
+    "admin",
+    "editor",
+  ]);
+
+  const { supabase, headers } = createSupabaseServerClient(request);
+  const season = await getActiveSeason(supabase);
+  const formData = await request.formData();
+  const matchId = formData.get("match_id") as string;
+
+  const { data: teams } = await supabase
+    .from("teams")
+    .select("id")
+    .eq("season_id", season.id);
+
+  const { data: doublesMatches } = await supabase
+    .from("doubles_matches")
+    .select("*")
+    .eq("season_id", season.id);
+
+  const matches = (doublesMatches as DoublesMatch[]) || [];
+  const knockoutMatch = matchId
+    ? matches.find((m) => m.id === matchId && m.phase !== "league")
+    : null;
+
+  if (matchId && !knockoutMatch) {
+    return { error: "Doubles match not found" };
+  }
+
+  if (knockoutMatch?.status === "completed") {
+    return { error: "This match has already been recorded" };
+  }
+
+  const team1Id = knockoutMatch
+    ? knockoutMatch.team1_id
+    : (formData.get("team1_id") as string);
+  const team2Id = knockoutMatch
+    ? knockoutMatch.team2_id
+    : (formData.get("team2_id") as string);
+
+  if (!knockoutMatch) {
+    if (!team1Id || !team2Id) {
+      return { error: "Please select both teams" };
+    }
+
+    if (team1Id === team2Id) {
+      return { error: "Please select two different teams" };
+    }
+
+    const seasonTeamIds = new Set((teams || []).map((t) => t.id));
+    if (!seasonTeamIds.has(team1Id) || !seasonTeamIds.has(team2Id)) {
+      return { error: "Both teams must be entered in the current season" };
+    }
+
+    if (matches.some((m) => m.phase !== "league")) {
+      return {
+        error:
+          "The doubles knockout has started. Only its open matches can be recorded now.",
+      };
+    }
+
+    const alreadyPlayed = matches.some(
+      (m) =>
+        m.phase === "league" &&
+        ((m.team1_id === team1Id && m.team2_id === team2Id) ||
+          (m.team1_id === team2Id && m.team2_id === team1Id))
+    );
+    if (alreadyPlayed) {
+      return { error: "This match has already been recorded" };
+    }
+  }
+
+  const { data: settings } = await supabase
+    .from("tournament_settings")
+    .select("match_formats")
+    .eq("season_id", season.id)
+    .single();
+
+  const result = parseMatchResultForm(
+    formData,
+    team1Id,
+    team2Id,
+    getMatchFormat(
+      parseMatchFormats(settings?.match_formats),
+      knockoutMatch?.phase || "league"
+    )
+  );
+  if ("error" in result) {
+    return { error: result.error };
+  }
+
+  if (result.values.result_type !== "normal") {
+    return { error: "Doubles matches are recorded as played matches only" };
+  }
+
+  const resultValues = {
+    status: "completed",
+    set_scores: result.values.set_scores,
+    best_of: result.values.best_of,
+    winner_team_id: result.values.winner_id,
+    recorded_by: user.id,
+    recorded_at: new Date().toISOString(),
+  };
+
+  const { error } = knockoutMatch
+    ? await supabase
+        .from("doubles_matches")
+        .update(resultValues)
+        .eq("id", knockoutMatch.id)
+    : await supabase.from("doubles_matches").insert({
+        season_id: season.id,
+        team1_id: team1Id,
+        team2_id: team2Id,
+        phase: "league",
+        ...resultValues,
+      });
+
+  if (error) {
+    return { error: error.message };
+  }
+
+  if (knockoutMatch?.phase === "semifinal") {
+    const updatedMatches = matches.map((m) =>
+      m.id === knockoutMatch.id
+        ? {
+            ...m,
+            status: "completed" as const,
+            winner_team_id: result.values.winner_id,
+          }
+        : m
+    );
+    const { inserts, deletes } = getDoublesFinalUpdates(updatedMatches);
+
+    if (deletes.length > 0) {
+      await supabase.from("doubles_matches").delete().in("id", deletes);
+    }
+
+    if (inserts.length > 0) {
+      await supabase
+        .from("doubles_matches")
+        .insert(inserts.map((m) => ({ ...m, season_id: season.id })));
+    }
+  }
+
+  const allHeaders = new Headers(authHeaders);
+  headers.forEach((value, key) => allHeaders.append(key, value));
+  return routerRedirect("/doubles", { headers: allHeaders });
+}
+
+export default function RecordDoublesMatch() {
+  const { teams, playedPairs, knockoutMatch, format } =
+    useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === "submitting";
+
+  const [team1Id, setTeam1Id] = useState(knockoutMatch?.team1_id || "");
+  const [team2Id, setTeam2Id] = useState(knockoutMatch?.team2_id || "");
+
+  const hasPlayed =
+    !knockoutMatch &&
+    Boolean(team1Id && team2Id) &&
+    playedPairs.includes([team1Id, team2Id].sort().join("-"));
+
+  const team1 = teams.find((t) => t.id === team1Id);
+  const team2 = teams.find((t) => t.id === team2Id);
+
+  return (
+    <div className="page">
+      <h1>
+        Record Doubles{" "}
+        {knockoutMatch?.phase === "final"
+          ? "Final"
+          : knockoutMatch
+            ? "Semifinal"
+            : "League Match"}
+      </h1>
+
+      <Form method="post" className="record-form">
+        {actionData?.error && (
+          <div className="error-message">{actionData.error}</div>
+        )}
+
+        {hasPlayed && (
+          <div className="error-message">
+            These teams have already played each other
+          </div>
+        )}
+
+        {knockoutMatch ? (
+          <input type="hidden" name="match_id" value={knockoutMatch.id} />
+        ) : (
+          <div className="player-select-grid">
+            <div className="form-group">
+              <label htmlFor="team1_id">Team 1</label>
+              <select
+                id="team1_id"
+                name="team1_id"
+                className="form-select"
+                value={team1Id}
+                onChange={(e) => setTeam1Id(e.target.value)}
+                required
+                disabled={isSubmitting}
+              >
+                <option value="">Select team...</option>
+                {teams.map((team) => (
+                  <option key={team.id} value={team.id}>
+                    {team.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="vs-separator">vs</div>
+
+            <div className="form-group">
+              <label htmlFor="team2_id">Team 2</label>
+              <select
+                id="team2_id"
+                name="team2_id"
+                className="form-select"
+                value={team2Id}
+                onChange={(e) => setTeam2Id(e.target.value)}
+                required
+                disabled={isSubmitting || !team1Id}
+              >
+                <option value="">Select team...</option>
+                {teams
+                  .filter((t) => t.id !== team1Id)
+                  .map((team) => {
+                    const alreadyPlayed = playedPairs.includes(
+                      [team1Id, team.id].sort().join("-")
+                    );
+                    return (
+                      <option
+                        key={team.id}
+                        value={team.id}
+                        disabled={alreadyPlayed}
+                      >
+                        {team.name}
+                        {alreadyPlayed ? " ✓ played" : ""}
+                      </option>
+                    );
+                  })}
+              </select>
+            </div>
+          </div>
+        )}
+
+        {team1 && team2 && !hasPlayed && (
+          <>
+            <div className="record-match-header">
+              <div className="record-player">
+                <span className="record-player-name">{team1.name}</span>
+              </div>
+              <span className="record-vs">vs</span>
+              <div className="record-player">
+                <span className="record-player-name">{team2.name}</span>
+              </div>
+            </div>
+            <p className="help-text">
+              {team1.player1.name} &amp; {team1.player2.name} vs{" "}
+              {team2.player1.name} &amp; {team2.player2.name}
+            </p>
+
+            <SetScoreInputs
+              format={format}
+              player1Name={team1.name}
+              player2Name={team2.name}
+              disabled={isSubmitting}
+            />
+
+            <div className="form-actions">
+              <button
+                type="submit"
+                className="btn btn-primary"
+                disabled={isSubmitting}
+              >
+                {isSubmitting ? "Saving..." : "Save Result"}
+              </button>
+              <a href="/doubles" className="btn btn-secondary">
+                Cancel
+              </a>
+            </div>
+          </>
+        )}
+      </Form>
+    </div>
+  );
+}
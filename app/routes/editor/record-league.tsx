@@ -7,10 +7,21 @@ import {
   useNavigation,
 } from "react-router";
 import { useState } from "react";
+import { ResultTypeFields } from "~/components/match/ResultTypeFields";
+import { SetScoreInputs } from "~/components/match/SetScoreInputs";
 import { requireRole } from "~/lib/auth.server";
+import {
+  hasScheduledLeagueMatches,
+  parseLeagueFormat,
+} from "~/lib/league-format";
+import { parseMatchFormats } from "~/lib/match-format";
+import { parseMatchResultForm } from "~/lib/match-result";
+import { notifyResultRecorded } from "~/lib/notifications.server";
+import { getActiveSeason } from "~/lib/seasons.server";
 import { createSupabaseServerClient } from "~/lib/supabase.server";
 import { getLeagueProgress } from "~/lib/tournament.server";
-import type { Player } from "~/lib/types";
+import type { MatchResultType, Player } from "~/lib/types";
+import { emitMatchEvent } from "~/lib/webhooks.server";
 import type { Route } from "./+types/record-league";
 
 export function meta() {
@@ -21,22 +32,39 @@ export async function loader({ request }: Route.LoaderArgs) {
   const { headers } = await requireRole(request, ["admin", "editor"]);
 
   const { supabase } = createSupabaseServerClient(request);
+  const season = await getActiveSeason(supabase);
 
   // Get all players
   const { data: players } = await supabase
     .from("players")
     .select("*")
+    .eq("season_id", season.id)
     .order("name");
 
   const { data: completedMatches } = await supabase
     .from("matches")
     .select("player1_id, player2_id")
+    .eq("season_id", season.id)
     .eq("phase", "league")
     .eq("status", "completed");
 
+  const { data: settings } = await supabase
+    .from("tournament_settings")
+    .select("match_formats, league_format")
+    .eq("season_id", season.id)
+    .single();
+  const leagueFormat = parseLeagueFormat(settings?.league_format);
+
+  // Swiss rounds and group fixtures are generated and recorded from the open
+  // matches
+  if (hasScheduledLeagueMatches(leagueFormat)) {
+    return routerRedirect("/editor/matches?phase=league", { headers });
+  }
+
   const leagueProgress = getLeagueProgress(
     (players as Player[])?.length || 0,
-    completedMatches?.length || 0
+    completedMatches?.length || 0,
+    leagueFormat
   );
 
   if (leagueProgress.isFinished) {
@@ -54,6 +82,7 @@ export async function loader({ request }: Route.LoaderArgs) {
     {
       players: (players as Player[]) || [],
       playedPairs: Array.from(playedPairs),
+      format: parseMatchFormats(settings?.match_formats).league,
     },
     { headers }
   );
@@ -79,16 +108,41 @@ export async function action({ request }: Route.ActionArgs) {
     return { error: "Please select two different players" };
   }
 
-  const { data: players } = await supabase.from("players").select("id");
+  const season = await getActiveSeason(supabase);
+  const { data: players } = await supabase
+    .from("players")
+    .select("id")
+    .eq("season_id", season.id);
+
+  const seasonPlayerIds = new Set((players || []).map((p) => p.id));
+  if (!seasonPlayerIds.has(player1Id) || !seasonPlayerIds.has(player2Id)) {
+    return { error: "Both players must be registered in the current season" };
+  }
+
+  const { data: settings } = await supabase
+    .from("tournament_settings")
+    .select("match_formats, league_format")
+    .eq("season_id", season.id)
+    .single();
+  const leagueFormat = parseLeagueFormat(settings?.league_format);
+
+  if (hasScheduledLeagueMatches(leagueFormat)) {
+    return {
+      error: "League matches are scheduled for this format. Record them from the open matches.",
+    };
+  }
+
   const { count: completedLeagueMatches } = await supabase
     .from("matches")
     .select("*", { count: "exact", head: true })
+    .eq("season_id", season.id)
     .eq("phase", "league")
     .eq("status", "completed");
 
   const leagueProgress = getLeagueProgress(
     players?.length || 0,
-    completedLeagueMatches || 0
+    completedLeagueMatches || 0,
+    leagueFormat
   );
 
   if (leagueProgress.isFinished) {
@@ -100,84 +154,82 @@ export async function action({ request }: Route.ActionArgs) {
   // Check if this match already exists
   const { data: existingMatch } = await supabase
     .from("matches")
-    .select("id")
+    .select("id, status")
+    .eq("season_id", season.id)
     .eq("phase", "league")
     .or(
       `and(player1_id.eq.${player1Id},player2_id.eq.${player2Id}),and(player1_id.eq.${player2Id},player2_id.eq.${player1Id})`
     )
     .single();
 
-  if (existingMatch) {
-    return { error: "This match has already been recorded" };
+  if (
+    existingMatch?.status === "pending_confirmation" ||
+    existingMatch?.status === "disputed"
+  ) {
+    return {
+      error:
+        "The players already self-reported this match. Resolve it from Result Disputes.",
+    };
   }
 
-  const set1_p1 = parseInt(formData.get("set1_p1") as string) || 0;
-  const set1_p2 = parseInt(formData.get("set1_p2") as string) || 0;
-  const set2_p1 = parseInt(formData.get("set2_p1") as string) || 0;
-  const set2_p2 = parseInt(formData.get("set2_p2") as string) || 0;
-  const set3_p1 = formData.get("set3_p1")
-    ? parseInt(formData.get("set3_p1") as string)
-    : null;
-  const set3_p2 = formData.get("set3_p2")
-    ? parseInt(formData.get("set3_p2") as string)
-    : null;
-
-  // Calculate sets won
-  let p1Sets = 0;
-  let p2Sets = 0;
-
-  if (set1_p1 > set1_p2) p1Sets++;
-  else if (set1_p2 > set1_p1) p2Sets++;
-
-  if (set2_p1 > set2_p2) p1Sets++;
-  else if (set2_p2 > set2_p1) p2Sets++;
-
-  if (set3_p1 !== null && set3_p2 !== null) {
-    if (set3_p1 > set3_p2) p1Sets++;
-    else if (set3_p2 > set3_p1) p2Sets++;
+  if (existingMatch?.status === "scheduled") {
+    return {
+      error: "This match is booked in the schedule. Record it from the open matches.",
+    };
   }
 
-  // Validate: someone must win 2 sets (best of 3)
-  if (p1Sets < 2 && p2Sets < 2) {
-    return { error: "Match must have a winner (best of 3 sets)" };
+  if (existingMatch) {
+    return { error: "This match has already been recorded" };
   }
 
-  const winnerId = p1Sets > p2Sets ? player1Id : player2Id;
+  const result = parseMatchResultForm(
+    formData,
+    player1Id,
+    player2Id,
+    parseMatchFormats(settings?.match_formats).league
+  );
+  if ("error" in result) {
+    return { error: result.error };
+  }
 
   // Create the match with result in one step
-  const { error } = await supabase.from("matches").insert({
-    player1_id: player1Id,
-    player2_id: player2Id,
-    phase: "league",
-    status: "completed",
-    set1_p1,
-    set1_p2,
-    set2_p1,
-    set2_p2,
-    set3_p1,
-    set3_p2,
-    winner_id: winnerId,
-    recorded_by: user.id,
-    recorded_at: new Date().toISOString(),
-  });
+  const { data: inserted, error } = await supabase
+    .from("matches")
+    .insert({
+      season_id: season.id,
+      player1_id: player1Id,
+      player2_id: player2Id,
+      phase: "league",
+      status: "completed",
+      ...result.values,
+      recorded_by: user.id,
+      recorded_at: new Date().toISOString(),
+    })
+    .select("id")
+    .single();
 
   if (error) {
     return { error: error.message };
   }
 
+  await notifyResultRecorded(supabase, inserted.id);
+  await emitMatchEvent(supabase, "match.completed", inserted.id);
+
   const allHeaders = new Headers(authHeaders);
   headers.forEach((value, key) => allHeaders.append(key, value));
   return routerRedirect("/results", { headers: allHeaders });
 }
 
 export default function RecordLeagueMatch() {
-  const { players, playedPairs } = useLoaderData<typeof loader>();
+  const { players, playedPairs, format } = useLoaderData<typeof loader>();
   const actionData = useActionData<typeof action>();
   const navigation = useNavigation();
   const isSubmitting = navigation.state === "submitting";
 
   const [player1Id, setPlayer1Id] = useState("");
   const [player2Id, setPlayer2Id] = useState("");
+  const [resultType, setResultType] = useState<MatchResultType>("normal");
+  const showSets = resultType === "normal" || resultType === "retired";
 
   // Check if the selected pair has already played
   const hasPlayed = (() => {
@@ -281,86 +333,23 @@ export default function RecordLeagueMatch() {
               </div>
             </div>
 
-            <div className="sets-input-grid">
-              <div className="set-input-group">
-                <label className="set-label">Set 1</label>
-                <div className="set-inputs">
-                  <input
-                    type="number"
-                    name="set1_p1"
-                    min="0"
-                    max="99"
-                    placeholder={player1.name.split(" ")[0]}
-                    className="form-input score-input"
-                    required
-                    disabled={isSubmitting}
-                  />
-                  <span className="score-separator">-</span>
-                  <input
-                    type="number"
-                    name="set1_p2"
-                    min="0"
-                    max="99"
-                    placeholder={player2.name.split(" ")[0]}
-                    className="form-input score-input"
-                    required
-                    disabled={isSubmitting}
-                  />
-                </div>
-              </div>
-
-              <div className="set-input-group">
-                <label className="set-label">Set 2</label>
-                <div className="set-inputs">
-                  <input
-                    type="number"
-                    name="set2_p1"
-                    min="0"
-                    max="99"
-                    placeholder={player1.name.split(" ")[0]}
-                    className="form-input score-input"
-                    required
-                    disabled={isSubmitting}
-                  />
-                  <span className="score-separator">-</span>
-                  <input
-                    type="number"
-                    name="set2_p2"
-                    min="0"
-                    max="99"
-                    placeholder={player2.name.split(" ")[0]}
-                    className="form-input score-input"
-                    required
-                    disabled={isSubmitting}
-                  />
-                </div>
-              </div>
-
-              <div className="set-input-group">
-                <label className="set-label">Set 3 (if needed)</label>
-                <div className="set-inputs">
-                  <input
-                    type="number"
-                    name="set3_p1"
-                    min="0"
-                    max="99"
-                    placeholder={player1.name.split(" ")[0]}
-                    className="form-input score-input"
-                    disabled={isSubmitting}
-                  />
-                  <span className="score-separator">-</span>
-                  <input
-                    type="number"
-                    name="set3_p2"
-                    min="0"
-                    max="99"
-                    placeholder={player2.name.split(" ")[0]}
-                    className="form-input score-input"
-                    disabled={isSubmitting}
-                  />
-                </div>
-              </div>
-            </div>
+            <ResultTypeFields
+              player1={player1}
+              player2={player2}
+              resultType={resultType}
+              onResultTypeChange={setResultType}
+              disabled={isSubmitting}
+            />
+
+            {showSets && (
+              <SetScoreInputs
+                format={format}
+                player1Name={player1.name}
+                player2Name={player2.name}
+                retired={resultType === "retired"}
+                disabled={isSubmitting}
+              />
+            )}
 
             <div className="form-actions">
               <button
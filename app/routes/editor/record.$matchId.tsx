@@ -6,14 +6,36 @@ import {
   useLoaderData,
   useNavigation,
 } from "react-router";
+import { useState } from "react";
+import { ResultTypeFields } from "~/components/match/ResultTypeFields";
+import { SetScoreInputs } from "~/components/match/SetScoreInputs";
 import { requireRole } from "~/lib/auth.server";
+import { parseBracketFormat } from "~/lib/bracket";
+import { parseLeagueFormat } from "~/lib/league-format";
+import { getMatchFormat, parseMatchFormats } from "~/lib/match-format";
+import { parseMatchResultForm } from "~/lib/match-result";
+import {
+  notifyKnockoutMatchupsCreated,
+  notifyResultRecorded,
+} from "~/lib/notifications.server";
+import { getActiveSeason } from "~/lib/seasons.server";
 import { createSupabaseServerClient } from "~/lib/supabase.server";
 import {
-  calculateStandings,
+  calculateSeedingStandings,
   getLeagueProgress,
   getKnockoutRoundUpdates,
 } from "~/lib/tournament.server";
-import type { Match, MatchWithPlayers, Player } from "~/lib/types";
+import {
+  emitKnockoutRoundCreated,
+  emitMatchEvent,
+} from "~/lib/webhooks.server";
+import type {
+  Match,
+  MatchResultType,
+  MatchWithPlayers,
+  Player,
+  SwissBye,
+} from "~/lib/types";
 import type { Route } from "./+types/record.$matchId";
 
 export function meta({ data }: Route.MetaArgs) {
@@ -48,23 +70,50 @@ export async function loader({ request, params }: Route.LoaderArgs) {
     throw new Response("Match not found", { status: 404 });
   }
 
-  const { data: players } = await supabase.from("players").select("id");
+  const season = await getActiveSeason(supabase);
+  if (match.season_id !== season.id) {
+    throw new Response("Matches from past seasons are read-only", {
+      status: 403,
+    });
+  }
+
+  const { data: players } = await supabase
+    .from("players")
+    .select("id")
+    .eq("season_id", season.id);
   const { count: completedLeagueMatches } = await supabase
     .from("matches")
     .select("*", { count: "exact", head: true })
+    .eq("season_id", season.id)
     .eq("phase", "league")
     .eq("status", "completed");
 
+  const { data: settings } = await supabase
+    .from("tournament_settings")
+    .select("match_formats, league_format")
+    .eq("season_id", season.id)
+    .single();
+
   const leagueProgress = getLeagueProgress(
     players?.length || 0,
-    completedLeagueMatches || 0
+    completedLeagueMatches || 0,
+    parseLeagueFormat(settings?.league_format)
   );
 
   if (leagueProgress.isFinished && match.phase === "league") {
     return redirect("/editor/matches", { headers });
   }
 
-  return data({ match: match as MatchWithPlayers }, { headers });
+  return data(
+    {
+      match: match as MatchWithPlayers,
+      format: getMatchFormat(
+        parseMatchFormats(settings?.match_formats),
+        match.phase
+      ),
+    },
+    { headers }
+  );
 }
 
 export async function action({ request, params }: Route.ActionArgs) {
@@ -76,41 +125,10 @@ export async function action({ request, params }: Route.ActionArgs) {
   const { supabase, headers } = createSupabaseServerClient(request);
   const formData = await request.formData();
 
-  const set1_p1 = parseInt(formData.get("set1_p1") as string) || 0;
-  const set1_p2 = parseInt(formData.get("set1_p2") as string) || 0;
-  const set2_p1 = parseInt(formData.get("set2_p1") as string) || 0;
-  const set2_p2 = parseInt(formData.get("set2_p2") as string) || 0;
-  const set3_p1 = formData.get("set3_p1")
-    ? parseInt(formData.get("set3_p1") as string)
-    : null;
-  const set3_p2 = formData.get("set3_p2")
-    ? parseInt(formData.get("set3_p2") as string)
-    : null;
-
-  // Calculate sets won
-  let p1Sets = 0;
-  let p2Sets = 0;
-
-  if (set1_p1 > set1_p2) p1Sets++;
-  else if (set1_p2 > set1_p1) p2Sets++;
-
-  if (set2_p1 > set2_p2) p1Sets++;
-  else if (set2_p2 > set2_p1) p2Sets++;
-
-  if (set3_p1 !== null && set3_p2 !== null) {
-    if (set3_p1 > set3_p2) p1Sets++;
-    else if (set3_p2 > set3_p1) p2Sets++;
-  }
-
-  // Validate: someone must win 2 sets (best of 3)
-  if (p1Sets < 2 && p2Sets < 2) {
-    return { error: "Match must have a winner (best of 3 sets)" };
-  }
-
   // Get the match to determine winner and phase
   const { data: match } = await supabase
     .from("matches")
-    .select("player1_id, player2_id, phase, status")
+    .select("player1_id, player2_id, phase, status, season_id")
     .eq("id", params.matchId)
     .single();
 
@@ -118,16 +136,43 @@ export async function action({ request, params }: Route.ActionArgs) {
     return { error: "Match not found" };
   }
 
-  const { data: players } = await supabase.from("players").select("id");
+  const season = await getActiveSeason(supabase);
+  if (match.season_id !== season.id) {
+    return { error: "Matches from past seasons are read-only" };
+  }
+
+  const { data: settings } = await supabase
+    .from("tournament_settings")
+    .select("bracket_format, match_formats, league_format")
+    .eq("season_id", season.id)
+    .single();
+
+  const result = parseMatchResultForm(
+    formData,
+    match.player1_id,
+    match.player2_id,
+    getMatchFormat(parseMatchFormats(settings?.match_formats), match.phase)
+  );
+  if ("error" in result) {
+    return { error: result.error };
+  }
+
+  const { data: players } = await supabase
+    .from("players")
+    .select("id")
+    .eq("season_id", season.id);
   const { count: completedLeagueMatches } = await supabase
     .from("matches")
     .select("*", { count: "exact", head: true })
+    .eq("season_id", season.id)
     .eq("phase", "league")
     .eq("status", "completed");
 
+  const leagueFormat = parseLeagueFormat(settings?.league_format);
   const leagueProgress = getLeagueProgress(
     players?.length || 0,
-    completedLeagueMatches || 0
+    completedLeagueMatches || 0,
+    leagueFormat
   );
 
   if (leagueProgress.isFinished && match.phase === "league") {
@@ -136,18 +181,12 @@ export async function action({ request, params }: Route.ActionArgs) {
     };
   }
 
-  const winnerId = p1Sets > p2Sets ? match.player1_id : match.player2_id;
+  const winnerId = result.values.winner_id;
 
   const { error } = await supabase
     .from("matches")
     .update({
-      set1_p1,
-      set1_p2,
-      set2_p1,
-      set2_p2,
-      set3_p1,
-      set3_p2,
-      winner_id: winnerId,
+      ...result.values,
       status: "completed",
       recorded_by: user.id,
       recorded_at: new Date().toISOString(),
@@ -158,12 +197,23 @@ export async function action({ request, params }: Route.ActionArgs) {
     return { error: error.message };
   }
 
+  // Corrections to a recorded result aren't announced again
+  if (match.status !== "completed") {
+    await notifyResultRecorded(supabase, params.matchId);
+  }
+  await emitMatchEvent(
+    supabase,
+    match.status === "completed" ? "match.updated" : "match.completed",
+    params.matchId
+  );
+
   // Check if this was a knockout match and generate next round if needed
   if (match.phase !== "league") {
     // Get all knockout matches to check progression
     const { data: knockoutMatches } = await supabase
       .from("matches")
       .select("*")
+      .eq("season_id", season.id)
       .neq("phase", "league");
 
     // Ensure the current match is updated in the array (in case of read-after-write delay)
@@ -174,7 +224,10 @@ export async function action({ request, params }: Route.ActionArgs) {
     );
 
     // Get standings for seeding
-    const { data: players } = await supabase.from("players").select("*");
+    const { data: players } = await supabase
+      .from("players")
+      .select("*")
+      .eq("season_id", season.id);
     const { data: leagueMatches } = await supabase
       .from("matches")
       .select(
@@ -184,18 +237,27 @@ export async function action({ request, params }: Route.ActionArgs) {
         player2:players!matches_player2_id_fkey(*)
       `
       )
+      .eq("season_id", season.id)
       .eq("phase", "league")
       .eq("status", "completed");
 
-    const standings = calculateStandings(
+    const { data: swissByes } = await supabase
+      .from("swiss_byes")
+      .select("*")
+      .eq("season_id", season.id);
+
+    const standings = calculateSeedingStandings(
       (players as Player[]) || [],
-      (leagueMatches as MatchWithPlayers[]) || []
+      (leagueMatches as MatchWithPlayers[]) || [],
+      leagueFormat,
+      (swissByes as SwissBye[]) || []
     );
 
     // Check if we need to create or update next round matches
     const roundUpdates = getKnockoutRoundUpdates(
       updatedKnockoutMatches as Match[],
-      standings
+      standings,
+      parseBracketFormat(settings?.bracket_format)
     );
 
     // Delete stale scheduled matches first
@@ -212,12 +274,19 @@ export async function action({ request, params }: Route.ActionArgs) {
 
     // Insert new/updated matches
     if (roundUpdates.inserts.length > 0) {
-      const { error: insertError } = await supabase
+      const { data: inserted, error: insertError } = await supabase
         .from("matches")
-        .insert(roundUpdates.inserts);
+        .insert(
+          roundUpdates.inserts.map((m) => ({ ...m, season_id: season.id }))
+        )
+        .select("id");
 
       if (insertError) {
         console.error("Failed to generate next knockout round:", insertError);
+      } else {
+        const insertedIds = (inserted || []).map((m) => m.id);
+        await notifyKnockoutMatchupsCreated(supabase, insertedIds);
+        await emitKnockoutRoundCreated(supabase, insertedIds);
       }
     }
   }
@@ -228,10 +297,14 @@ export async function action({ request, params }: Route.ActionArgs) {
 }
 
 export default function RecordMatch() {
-  const { match } = useLoaderData<typeof loader>();
+  const { match, format } = useLoaderData<typeof loader>();
   const actionData = useActionData<typeof action>();
   const navigation = useNavigation();
   const isSubmitting = navigation.state === "submitting";
+  const [resultType, setResultType] = useState<MatchResultType>(
+    match.result_type || "normal"
+  );
+  const showSets = resultType === "normal" || resultType === "retired";
 
   return (
     <div className="page">
@@ -258,92 +331,26 @@ export default function RecordMatch() {
           <div className="error-message">{actionData.error}</div>
         )}
 
-        <div className="sets-input-grid">
-          <div className="set-input-group">
-            <label className="set-label">Set 1</label>
-            <div className="set-inputs">
-              <input
-                type="number"
-                name="set1_p1"
-                min="0"
-                max="99"
-                defaultValue={match.set1_p1 ?? ""}
-                placeholder={match.player1.name.split(" ")[0]}
-                className="form-input score-input"
-                required
-                disabled={isSubmitting}
-              />
-              <span className="score-separator">-</span>
-              <input
-                type="number"
-                name="set1_p2"
-                min="0"
-                max="99"
-                defaultValue={match.set1_p2 ?? ""}
-                placeholder={match.player2.name.split(" ")[0]}
-                className="form-input score-input"
-                required
-                disabled={isSubmitting}
-              />
-            </div>
-          </div>
-
-          <div className="set-input-group">
-            <label className="set-label">Set 2</label>
-            <div className="set-inputs">
-              <input
-                type="number"
-                name="set2_p1"
-                min="0"
-                max="99"
-                defaultValue={match.set2_p1 ?? ""}
-                placeholder={match.player1.name.split(" ")[0]}
-                className="form-input score-input"
-                required
-                disabled={isSubmitting}
-              />
-              <span className="score-separator">-</span>
-              <input
-                type="number"
-                name="set2_p2"
-                min="0"
-                max="99"
-                defaultValue={match.set2_p2 ?? ""}
-                placeholder={match.player2.name.split(" ")[0]}
-                className="form-input score-input"
-                required
-                disabled={isSubmitting}
-              />
-            </div>
-          </div>
-
-          <div className="set-input-group">
-            <label className="set-label">Set 3 (if needed)</label>
-            <div className="set-inputs">
-              <input
-                type="number"
-                name="set3_p1"
-                min="0"
-                max="99"
-                defaultValue={match.set3_p1 ?? ""}
-                placeholder={match.player1.name.split(" ")[0]}
-                className="form-input score-input"
-                disabled={isSubmitting}
-              />
-              <span className="score-separator">-</span>
-              <input
-                type="number"
-                name="set3_p2"
-                min="0"
-                max="99"
-                defaultValue={match.set3_p2 ?? ""}
-                placeholder={match.player2.name.split(" ")[0]}
-                className="form-input score-input"
-                disabled={isSubmitting}
-              />
-            </div>
-          </div>
-        </div>
+        <ResultTypeFields
+          player1={match.player1}
+          player2={match.player2}
+          resultType={resultType}
+          onResultTypeChange={setResultType}
+          defaultWinnerId={match.winner_id}
+          defaultReason={match.result_reason}
+          disabled={isSubmitting}
+        />
+
+        {showSets && (
+          <SetScoreInputs
+            format={format}
+            player1Name={match.player1.name}
+            player2Name={match.player2.name}
+            defaultScores={match.set_scores}
+            retired={resultType === "retired"}
+            disabled={isSubmitting}
+          />
+        )}
 
         <div className="form-actions">
           <button
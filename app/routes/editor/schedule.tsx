@@ -0,0 +1,728 @@
+import {
+  data,
+  Form,
+  Link,
+  redirect,
+  useActionData,
+  useLoaderData,
+  useNavigation,
+} from "react-router";
+import { requireRole } from "~/lib/auth.server";
+import { getRoundLabel } from "~/lib/bracket";
+import {
+  hasScheduledLeagueMatches,
+  parseLeagueFormat,
+} from "~/lib/league-format";
+import {
+  REMINDER_DAYS,
+  sendDeadlineReminders,
+} from "~/lib/notifications.server";
+import {
+  findScheduleConflicts,
+  formatScheduleTime,
+  getMatchDeadline,
+  isOverdue,
+  isWithinAvailability,
+  parseDateTimeInput,
+  parseScheduleSettings,
+} from "~/lib/schedule";
+import { getActiveSeason } from "~/lib/seasons.server";
+import { generateUnplayedLeagueMatchups } from "~/lib/suggestions";
+import { createSupabaseServerClient } from "~/lib/supabase.server";
+import { getLeagueProgress } from "~/lib/tournament.server";
+import type { MatchWithPlayers, Player, PlayerAvailability } from "~/lib/types";
+import { emitMatchEvent } from "~/lib/webhooks.server";
+import type { Route } from "./+types/schedule";
+
+export function meta() {
+  return [{ title: "Book Matches | PD Table Tennis" }];
+}
+
+const MATCH_SELECT = `
+  *,
+  player1:players!matches_player1_id_fkey(*),
+  player2:players!matches_player2_id_fkey(*)
+`;
+
+export async function loader({ request }: Route.LoaderArgs) {
+  const { headers } = await requireRole(request, ["admin", "editor"]);
+
+  const { supabase } = createSupabaseServerClient(request);
+  const season = await getActiveSeason(supabase);
+
+  const { data: settings } = await supabase
+    .from("tournament_settings")
+    .select("league_deadline, league_format, schedule_settings")
+    .eq("season_id", season.id)
+    .single();
+  const scheduleSettings = parseScheduleSettings(settings?.schedule_settings);
+  const leagueFormat = parseLeagueFormat(settings?.league_format);
+  const leagueDeadline = settings?.league_deadline ?? null;
+
+  const { data: players } = await supabase
+    .from("players")
+    .select("*")
+    .eq("season_id", season.id)
+    .order("name");
+
+  const { data: matches } = await supabase
+    .from("matches")
+    .select(MATCH_SELECT)
+    .eq("season_id", season.id);
+
+  const { data: availability } = await supabase
+    .from("player_availability")
+    .select("*")
+    .eq("season_id", season.id)
+    .order("starts_at");
+
+  const allMatches = (matches as MatchWithPlayers[]) || [];
+  const openMatches = allMatches
+    .filter((m) => m.status === "scheduled")
+    .sort((a, b) =>
+      (a.scheduled_at || "~").localeCompare(b.scheduled_at || "~")
+    );
+
+  // A round robin has no rows for unplayed pairs; booking one creates it
+  const leagueMatches = allMatches.filter((m) => m.phase === "league");
+  const leagueFinished = getLeagueProgress(
+    players?.length || 0,
+    leagueMatches.filter((m) => m.status === "completed").length,
+    leagueFormat
+  ).isFinished;
+  const unbookedPairs =
+    hasScheduledLeagueMatches(leagueFormat) || leagueFinished
+      ? []
+      : generateUnplayedLeagueMatchups(
+          (players as Player[]) || [],
+          leagueMatches
+        );
+
+  const nameById = new Map(
+    ((players as Player[]) || []).map((p) => [p.id, p.name])
+  );
+
+  return data(
+    {
+      players: (players as Player[]) || [],
+      openMatches: openMatches.map((match) => ({
+        ...match,
+        overdue: isOverdue(
+          match,
+          getMatchDeadline(match.phase, scheduleSettings, leagueDeadline),
+          scheduleSettings.time_zone
+        ),
+      })),
+      unbookedPairs: unbookedPairs.map(({ player1, player2 }) => ({
+        key: `pair:${player1.id}:${player2.id}`,
+        label: `${player1.name} vs ${player2.name}`,
+      })),
+      availability: ((availability as PlayerAvailability[]) || []).map(
+        (window) => ({
+          ...window,
+          playerName: nameById.get(window.player_id) || "Unknown player",
+        })
+      ),
+      tables: scheduleSettings.tables,
+      slotMinutes: scheduleSettings.slot_minutes,
+      timeZone: scheduleSettings.time_zone,
+    },
+    { headers }
+  );
+}
+
+export async function action({ request }: Route.ActionArgs) {
+  const { headers: authHeaders } = await requireRole(request, [
+    "admin",
+    "editor",
+  ]);
+
+  const { supabase, headers } = createSupabaseServerClient(request);
+  const season = await getActiveSeason(supabase);
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+
+  if (intent === "book") {
+    const target = (formData.get("target") as string) || "";
+    const tableLabel = (formData.get("table_label") as string) || "";
+
+    const { data: settings } = await supabase
+      .from("tournament_settings")
+      .select("league_format, schedule_settings")
+      .eq("season_id", season.id)
+      .single();
+    const scheduleSettings = parseScheduleSettings(settings?.schedule_settings);
+    const scheduledAt = parseDateTimeInput(
+      formData.get("scheduled_at"),
+      scheduleSettings.time_zone
+    );
+
+    if (!target) {
+      return data({ error: "Please select a match" }, { headers: authHeaders });
+    }
+
+    if (!scheduledAt) {
+      return data(
+        { error: "Please enter a date and time" },
+        { headers: authHeaders }
+      );
+    }
+
+    if (!scheduleSettings.tables.includes(tableLabel)) {
+      return data({ error: "Please select a table" }, { headers: authHeaders });
+    }
+
+    const { data: seasonMatches } = await supabase
+      .from("matches")
+      .select(MATCH_SELECT)
+      .eq("season_id", season.id);
+    const matches = (seasonMatches as MatchWithPlayers[]) || [];
+
+    let existing: MatchWithPlayers | null = null;
+    let pair: [string, string];
+
+    if (target.startsWith("pair:")) {
+      const [, player1Id, player2Id] = target.split(":");
+      if (
+        hasScheduledLeagueMatches(parseLeagueFormat(settings?.league_format))
+      ) {
+        return data(
+          { error: "League matches are scheduled for this format" },
+          { headers: authHeaders }
+        );
+      }
+
+      const { data: players } = await supabase
+        .from("players")
+        .select("id")
+        .eq("season_id", season.id)
+        .in("id", [player1Id, player2Id]);
+      if (player1Id === player2Id || players?.length !== 2) {
+        return data(
+          { error: "Both players must be registered in the current season" },
+          { headers: authHeaders }
+        );
+      }
+
+      const alreadyPlayed = matches.some(
+        (m) =>
+          m.phase === "league" &&
+          ((m.player1_id === player1Id && m.player2_id === player2Id) ||
+            (m.player1_id === player2Id && m.player2_id === player1Id))
+      );
+      if (alreadyPlayed) {
+        return data(
+          { error: "These players already have a league match" },
+          { headers: authHeaders }
+        );
+      }
+
+      pair = [player1Id, player2Id];
+    } else {
+      existing =
+        matches.find((m) => m.id === target && m.status === "scheduled") ||
+        null;
+      if (!existing) {
+        return data(
+          { error: "This match has already been played" },
+          { headers: authHeaders }
+        );
+      }
+      pair = [existing.player1_id, existing.player2_id];
+    }
+
+    const conflicts = findScheduleConflicts(
+      {
+        id: existing?.id || "",
+        player1_id: pair[0],
+        player2_id: pair[1],
+        scheduled_at: scheduledAt,
+        table_label: tableLabel,
+      },
+      matches,
+      scheduleSettings.slot_minutes,
+      scheduleSettings.time_zone
+    );
+    if (conflicts.length > 0) {
+      return data(
+        {
+          error: `Double booking: ${conflicts.map((c) => c.description).join("; ")}`,
+        },
+        { headers: authHeaders }
+      );
+    }
+
+    if (formData.get("ignore_availability") !== "on") {
+      const { data: windows } = await supabase
+        .from("player_availability")
+        .select("player_id, starts_at, ends_at")
+        .in("player_id", pair);
+
+      const { data: players } = await supabase
+        .from("players")
+        .select("id, name")
+        .in("id", pair);
+
+      const unavailable = (players || []).filter(
+        (player) =>
+          !isWithinAvailability(
+            scheduledAt,
+            scheduleSettings.slot_minutes,
+            (windows || []).filter((w) => w.player_id === player.id)
+          )
+      );
+      if (unavailable.length > 0) {
+        return data(
+          {
+            error: `${unavailable.map((p) => p.name).join(" and ")} ${unavailable.length === 1 ? "isn't" : "aren't"} available then. Pick another time or tick "Ignore availability".`,
+          },
+          { headers: authHeaders }
+        );
+      }
+    }
+
+    const { error } = existing
+      ? await supabase
+          .from("matches")
+          .update({ scheduled_at: scheduledAt, table_label: tableLabel })
+          .eq("id", existing.id)
+          .eq("status", "scheduled")
+      : await supabase.from("matches").insert({
+          season_id: season.id,
+          player1_id: pair[0],
+          player2_id: pair[1],
+          phase: "league",
+          status: "scheduled",
+          scheduled_at: scheduledAt,
+          table_label: tableLabel,
+        });
+
+    if (error) {
+      return data({ error: error.message }, { headers: authHeaders });
+    }
+
+    if (existing) {
+      await emitMatchEvent(supabase, "match.updated", existing.id);
+    }
+  }
+
+  if (intent === "unbook") {
+    const matchId = formData.get("match_id") as string;
+
+    const { data: match } = await supabase
+      .from("matches")
+      .select("id, phase, swiss_round, group_name")
+      .eq("season_id", season.id)
+      .eq("id", matchId)
+      .eq("status", "scheduled")
+      .single();
+
+    if (!match) {
+      return data(
+        { error: "This match has already been played" },
+        { headers: authHeaders }
+      );
+    }
+
+    // Round robin matches only exist because they were booked
+    const isBookedPair =
+      match.phase === "league" && !match.swiss_round && !match.group_name;
+    const { error } = isBookedPair
+      ? await supabase.from("matches").delete().eq("id", match.id)
+      : await supabase
+          .from("matches")
+          .update({ scheduled_at: null, table_label: null })
+          .eq("id", match.id);
+
+    if (error) {
+      return data({ error: error.message }, { headers: authHeaders });
+    }
+
+    if (!isBookedPair) {
+      await emitMatchEvent(supabase, "match.updated", match.id);
+    }
+  }
+
+  if (intent === "add_availability") {
+    const playerId = formData.get("player_id") as string;
+
+    const { data: settings } = await supabase
+      .from("tournament_settings")
+      .select("schedule_settings")
+      .eq("season_id", season.id)
+      .single();
+    const { time_zone: timeZone } = parseScheduleSettings(
+      settings?.schedule_settings
+    );
+    const startsAt = parseDateTimeInput(formData.get("starts_at"), timeZone);
+    const endsAt = parseDateTimeInput(formData.get("ends_at"), timeZone);
+
+    if (!playerId || !startsAt || !endsAt) {
+      return data(
+        { error: "Please select a player and both times" },
+        { headers: authHeaders }
+      );
+    }
+
+    if (endsAt <= startsAt) {
+      return data(
+        { error: "The window must end after it starts" },
+        { headers: authHeaders }
+      );
+    }
+
+    const { error } = await supabase.from("player_availability").insert({
+      season_id: season.id,
+      player_id: playerId,
+      starts_at: startsAt,
+      ends_at: endsAt,
+    });
+
+    if (error) {
+      return data({ error: error.message }, { headers: authHeaders });
+    }
+  }
+
+  if (intent === "delete_availability") {
+    const { error } = await supabase
+      .from("player_availability")
+      .delete()
+      .eq("id", formData.get("availability_id") as string)
+      .eq("season_id", season.id);
+
+    if (error) {
+      return data({ error: error.message }, { headers: authHeaders });
+    }
+  }
+
+  if (intent === "send_reminders") {
+    const count = await sendDeadlineReminders(supabase, season.id);
+    return data(
+      {
+        message:
+          count === 0
+            ? "No open matches are due soon"
+            : `Sent a reminder for ${count} ${count === 1 ? "match" : "matches"}`,
+      },
+      { headers: authHeaders }
+    );
+  }
+
+  const allHeaders = new Headers(authHeaders);
+  headers.forEach((value, key) => allHeaders.append(key, value));
+  return redirect("/editor/schedule", { headers: allHeaders });
+}
+
+export default function EditorSchedule() {
+  const {
+    players,
+    openMatches,
+    unbookedPairs,
+    availability,
+    tables,
+    slotMinutes,
+    timeZone,
+  } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === "submitting";
+
+  const bookedMatches = openMatches.filter((m) => m.scheduled_at);
+
+  return (
+    <div className="page">
+      <div className="page-header">
+        <h1>Book Matches</h1>
+        <p>
+          Bookings last {slotMinutes} minutes. A player or table can't be booked
+          twice at the same time. Times are in {timeZone}.
+        </p>
+      </div>
+
+      <div className="results-actions">
+        <Link to="/schedule" className="btn btn-secondary">
+          View Schedule
+        </Link>
+        <Form method="post" style={{ display: "inline" }}>
+          <button
+            type="submit"
+            name="intent"
+            value="send_reminders"
+            className="btn btn-secondary"
+            disabled={isSubmitting}
+            title={`Notify players of open matches that are overdue or due within ${REMINDER_DAYS} days`}
+          >
+            Send Deadline Reminders
+          </button>
+        </Form>
+      </div>
+
+      {actionData && "error" in actionData && (
+        <div className="error-message">{actionData.error}</div>
+      )}
+      {actionData && "message" in actionData && (
+        <div className="success-message">{actionData.message}</div>
+      )}
+
+      <section className="admin-section">
+        <h2>Book a Match</h2>
+        <Form method="post" className="admin-form">
+          <input type="hidden" name="intent" value="book" />
+          <div className="form-group">
+            <label htmlFor="target" className="form-label">
+              Match
+            </label>
+            <select
+              id="target"
+              name="target"
+              className="form-select"
+              required
+              disabled={isSubmitting}
+            >
+              <option value="">Select match...</option>
+              {openMatches.length > 0 && (
+                <optgroup label="Open matches">
+                  {openMatches.map((match) => (
+                    <option key={match.id} value={match.id}>
+                      {formatPhase(match.phase)}: {match.player1.name} vs{" "}
+                      {match.player2.name}
+                      {match.scheduled_at &&
+                        ` (booked ${formatScheduleTime(match.scheduled_at, timeZone)})`}
+                    </option>
+                  ))}
+                </optgroup>
+              )}
+              {unbookedPairs.length > 0 && (
+                <optgroup label="League matches not yet played">
+                  {unbookedPairs.map((pair) => (
+                    <option key={pair.key} value={pair.key}>
+                      {pair.label}
+                    </option>
+                  ))}
+                </optgroup>
+              )}
+            </select>
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="scheduled_at" className="form-label">
+              Date and Time
+            </label>
+            <input
+              type="datetime-local"
+              id="scheduled_at"
+              name="scheduled_at"
+              className="form-input"
+              required
+              disabled={isSubmitting}
+            />
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="table_label" className="form-label">
+              Table
+            </label>
+            <select
+              id="table_label"
+              name="table_label"
+              className="form-select"
+              disabled={isSubmitting}
+            >
+              {tables.map((table) => (
+                <option key={table} value={table}>
+                  {table}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="form-group">
+            <label className="form-label" htmlFor="ignore_availability">
+              <input
+                type="checkbox"
+                id="ignore_availability"
+                name="ignore_availability"
+                disabled={isSubmitting}
+              />{" "}
+              Ignore availability
+            </label>
+            <p className="help-text">
+              Players who have given availability windows can only be booked
+              inside them unless this is ticked.
+            </p>
+          </div>
+
+          <div className="form-actions">
+            <button
+              type="submit"
+              className="btn btn-primary"
+              disabled={isSubmitting}
+            >
+              {isSubmitting ? "Saving..." : "Book Match"}
+            </button>
+          </div>
+        </Form>
+      </section>
+
+      <section className="admin-section">
+        <h2>Booked Matches ({bookedMatches.length})</h2>
+        {bookedMatches.length === 0 ? (
+          <p className="empty">No matches booked.</p>
+        ) : (
+          <table className="data-table">
+            <thead>
+              <tr>
+                <th>When</th>
+                <th>Table</th>
+                <th>Match</th>
+                <th>Phase</th>
+                <th className="text-right">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {bookedMatches.map((match) => (
+                <tr key={match.id}>
+                  <td>
+                    {formatScheduleTime(match.scheduled_at!, timeZone)}
+                    {match.overdue && (
+                      <span className="overdue-badge">Overdue</span>
+                    )}
+                  </td>
+                  <td>{match.table_label || "-"}</td>
+                  <td>
+                    {match.player1.name} vs {match.player2.name}
+                  </td>
+                  <td>{formatPhase(match.phase)}</td>
+                  <td className="text-right">
+                    <Form method="post" style={{ display: "inline" }}>
+                      <input type="hidden" name="match_id" value={match.id} />
+                      <button
+                        type="submit"
+                        name="intent"
+                        value="unbook"
+                        className="btn btn-secondary"
+                        disabled={isSubmitting}
+                      >
+                        Cancel Booking
+                      </button>
+                    </Form>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+
+      <section className="admin-section">
+        <h2>Player Availability</h2>
+        <Form method="post" className="admin-form availability-form">
+          <input type="hidden" name="intent" value="add_availability" />
+          <div className="form-group">
+            <label htmlFor="player_id" className="form-label">
+              Player
+            </label>
+            <select
+              id="player_id"
+              name="player_id"
+              className="form-select"
+              required
+              disabled={isSubmitting}
+            >
+              <option value="">Select player...</option>
+              {players.map((player) => (
+                <option key={player.id} value={player.id}>
+                  {player.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="form-group">
+            <label htmlFor="starts_at" className="form-label">
+              From
+            </label>
+            <input
+              type="datetime-local"
+              id="starts_at"
+              name="starts_at"
+              className="form-input"
+              required
+              disabled={isSubmitting}
+            />
+          </div>
+          <div className="form-group">
+            <label htmlFor="ends_at" className="form-label">
+              Until
+            </label>
+            <input
+              type="datetime-local"
+              id="ends_at"
+              name="ends_at"
+              className="form-input"
+              required
+              disabled={isSubmitting}
+            />
+          </div>
+          <div className="form-actions">
+            <button
+              type="submit"
+              className="btn btn-primary"
+              disabled={isSubmitting}
+            >
+              Add Window
+            </button>
+          </div>
+        </Form>
+
+        {availability.length === 0 ? (
+          <p className="empty">
+            No availability given yet. Players without windows can be booked at
+            any time.
+          </p>
+        ) : (
+          <table className="data-table">
+            <thead>
+              <tr>
+                <th>Player</th>
+                <th>From</th>
+                <th>Until</th>
+                <th className="text-right">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {availability.map((window) => (
+                <tr key={window.id}>
+                  <td>{window.playerName}</td>
+                  <td>{formatScheduleTime(window.starts_at, timeZone)}</td>
+                  <td>{formatScheduleTime(window.ends_at, timeZone)}</td>
+                  <td className="text-right">
+                    <Form method="post" style={{ display: "inline" }}>
+                      <input
+                        type="hidden"
+                        name="availability_id"
+                        value={window.id}
+                      />
+                      <button
+                        type="submit"
+                        name="intent"
+                        value="delete_availability"
+                        className="btn btn-danger"
+                        disabled={isSubmitting}
+                      >
+                        Delete
+                      </button>
+                    </Form>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+    </div>
+  );
+}
+
+function formatPhase(phase: string): string {
+  return phase === "league" ? "League" : getRoundLabel(phase);
+}
@@ -0,0 +1,59 @@
+import type { Route } from "./+types/final-standings.export";
+import { formatPlace } from "~/lib/bracket";
+import { loadFinalStandings } from "~/lib/final-standings.server";
+import { resolveSeason } from "~/lib/seasons.server";
+import { createSupabaseServerClient } from "~/lib/supabase.server";
+
+// One row per player, for prizes and certificates
+export async function loader({ request }: Route.LoaderArgs) {
+  const { supabase } = createSupabaseServerClient(request);
+  const { season } = await resolveSeason(supabase, request);
+
+  const { standings, isFinal } = await loadFinalStandings(supabase, season.id);
+
+  const headers = [
+    "Place",
+    "Place Label",
+    "Player",
+    "Department",
+    "Tier",
+    "Result",
+    "League Position",
+    "Season",
+    "Status",
+  ];
+
+  const rows = standings.map((standing) => [
+    standing.place,
+    formatPlace(standing.place),
+    standing.player.name,
+    standing.player.department || "",
+    standing.player.tier,
+    standing.result,
+    standing.leagueRank,
+    season.name,
+    isFinal ? "Final" : "Provisional",
+  ]);
+
+  const csvContent = [
+    headers.join(","),
+    ...rows.map((row) => row.map(escapeCsvField).join(",")),
+  ].join("\n");
+
+  const filename = `final-standings-${new Date().toISOString().split("T")[0]}.csv`;
+
+  return new Response(csvContent, {
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${filename}"`,
+    },
+  });
+}
+
+function escapeCsvField(field: unknown): string {
+  const str = String(field);
+  if (str.includes(",") || str.includes('"') || str.includes("\n")) {
+    return `"${str.replace(/"/g, '""')}"`;
+  }
+  return str;
+}
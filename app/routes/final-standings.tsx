@@ -0,0 +1,123 @@
+import { Link, useLoaderData } from "react-router";
+import { SeasonSelector } from "~/components/season/SeasonSelector";
+import { formatPlace } from "~/lib/bracket";
+import { loadFinalStandings } from "~/lib/final-standings.server";
+import { resolveSeason } from "~/lib/seasons.server";
+import { createSupabaseServerClient } from "~/lib/supabase.server";
+import type { Route } from "./+types/final-standings";
+
+export function meta() {
+  return [
+    { title: "Final Standings | PD Table Tennis" },
+    {
+      name: "description",
+      content: "Overall tournament placements for every player",
+    },
+  ];
+}
+
+export async function loader({ request }: Route.LoaderArgs) {
+  const { supabase } = createSupabaseServerClient(request);
+  const { season, seasons } = await resolveSeason(supabase, request);
+
+  const { standings, isFinal } = await loadFinalStandings(supabase, season.id);
+
+  return { standings, isFinal, season, seasons };
+}
+
+export default function FinalStandings() {
+  const { standings, isFinal, season, seasons } =
+    useLoaderData<typeof loader>();
+
+  const exportHref = season.is_active
+    ? "/final-standings/export"
+    : `/final-standings/export?season=${season.id}`;
+
+  return (
+    <main className="page">
+      <div className="page-header">
+        <h1>Final Standings</h1>
+        <p>
+          Knockout players by how far they got, then everyone else by league
+          position
+        </p>
+      </div>
+
+      <SeasonSelector season={season} seasons={seasons} />
+
+      {!isFinal && standings.length > 0 && (
+        <div className="provisional-banner">
+          <strong>Provisional:</strong> The tournament isn't finished yet.
+          Placements will change as knockout matches are completed.
+        </div>
+      )}
+
+      {standings.length === 0 ? (
+        <p className="empty">No players registered yet.</p>
+      ) : (
+        <>
+          <div className="results-actions">
+            <a href={exportHref} className="btn btn-secondary" download>
+              Export CSV
+            </a>
+          </div>
+
+          <div className="standings-table-container">
+            <table className="data-table standings-table">
+              <thead>
+                <tr>
+                  <th className="text-center">Place</th>
+                  <th>Player</th>
+                  <th className="hide-mobile">Department</th>
+                  <th className="text-center hide-mobile">Tier</th>
+                  <th>Result</th>
+                  <th className="text-center">League</th>
+                </tr>
+              </thead>
+              <tbody>
+                {standings.map((standing) => (
+                  <tr
+                    key={standing.player.id}
+                    className={
+                      isFinal && standing.place <= 3
+                        ? `final-standing-${standing.place}`
+                        : ""
+                    }
+                  >
+                    <td className="text-center rank-cell">
+                      <span className="rank-badge">
+                        {formatPlace(standing.place)}
+                      </span>
+                    </td>
+                    <td>
+                      <Link
+                        to={`/player/${standing.player.id}`}
+                        className="player-link"
+                      >
+                        {standing.player.name}
+                      </Link>
+                    </td>
+                    <td className="hide-mobile">
+                      {standing.player.department || "-"}
+                    </td>
+                    <td className="text-center hide-mobile">
+                      <span
+                        className={`tier-badge tier-${standing.player.tier}`}
+                      >
+                        {standing.player.tier}
+                      </span>
+                    </td>
+                    <td>{standing.result}</td>
+                    <td className="text-center">
+                      {formatPlace(standing.leagueRank)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </main>
+  );
+}
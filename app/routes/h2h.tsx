@@ -0,0 +1,415 @@
+import { Form, Link, useLoaderData } from "react-router";
+import { FormBadges } from "~/components/player/FormBadges";
+import { getRoundLabel } from "~/lib/bracket";
+import {
+  calculateHeadToHead,
+  FORM_MATCH_COUNT,
+  getRecentForm,
+} from "~/lib/head-to-head.server";
+import { parseLeagueFormat } from "~/lib/league-format";
+import { formatSetScores } from "~/lib/match-format";
+import { getCreditedSetCounts, MATCH_RESULT_LABELS } from "~/lib/match-result";
+import { resolveSeason } from "~/lib/seasons.server";
+import { createSupabaseServerClient } from "~/lib/supabase.server";
+import { calculateStandings } from "~/lib/tournament.server";
+import type {
+  MatchWithPlayers,
+  Player,
+  PlayerStanding,
+  SwissBye,
+} from "~/lib/types";
+import type { Route } from "./+types/h2h";
+
+export function meta({ data }: Route.MetaArgs) {
+  const title =
+    data?.player1 && data?.player2
+      ? `${data.player1.name} vs ${data.player2.name}`
+      : "Head to Head";
+  return [
+    { title: `${title} | PD Table Tennis` },
+    { name: "description", content: "Head-to-head record between two players" },
+  ];
+}
+
+const MATCH_SELECT = `
+  *,
+  player1:players!matches_player1_id_fkey(*),
+  player2:players!matches_player2_id_fkey(*)
+`;
+
+export async function loader({ request }: Route.LoaderArgs) {
+  const { supabase } = createSupabaseServerClient(request);
+  const url = new URL(request.url);
+  const player1Id = url.searchParams.get("p1");
+  const player2Id = url.searchParams.get("p2");
+  const { season, seasons } = await resolveSeason(supabase, request);
+
+  const selectedIds = [player1Id, player2Id].filter((id): id is string =>
+    Boolean(id),
+  );
+  const { data: selected } =
+    selectedIds.length > 0
+      ? await supabase.from("players").select("*").in("id", selectedIds)
+      : { data: [] };
+
+  const player1 =
+    ((selected as Player[]) || []).find((p) => p.id === player1Id) || null;
+  const player2 =
+    ((selected as Player[]) || []).find((p) => p.id === player2Id) || null;
+
+  // Player rows are per season; the picker and standings use the season of
+  // the first player
+  const seasonId = player1?.season_id || player2?.season_id || season.id;
+
+  const { data: players } = await supabase
+    .from("players")
+    .select("*")
+    .eq("season_id", seasonId)
+    .order("name");
+
+  const base = {
+    players: (players as Player[]) || [],
+    player1,
+    player2,
+    seasonName: seasons.find((s) => s.id === seasonId)?.name || season.name,
+  };
+
+  if (!player1 || !player2) {
+    return { ...base, error: null, comparison: null };
+  }
+
+  if (player1.id === player2.id) {
+    return {
+      ...base,
+      error: "Pick two different players",
+      comparison: null,
+    };
+  }
+
+  if (player1.season_id !== player2.season_id) {
+    return {
+      ...base,
+      error: "Pick two players from the same season",
+      comparison: null,
+    };
+  }
+
+  // Meetings are counted across every season both people played in
+  const { data: personRows } = await supabase
+    .from("players")
+    .select("id, person_id")
+    .in("person_id", [player1.person_id, player2.person_id]);
+
+  const side1Ids = new Set(
+    (personRows || [])
+      .filter((p) => p.person_id === player1.person_id)
+      .map((p) => p.id),
+  );
+  const side2Ids = new Set(
+    (personRows || [])
+      .filter((p) => p.person_id === player2.person_id)
+      .map((p) => p.id),
+  );
+
+  const side1List = Array.from(side1Ids).join(",");
+  const side2List = Array.from(side2Ids).join(",");
+  const { data: meetings } = await supabase
+    .from("matches")
+    .select(MATCH_SELECT)
+    .or(
+      `and(player1_id.in.(${side1List}),player2_id.in.(${side2List})),and(player1_id.in.(${side2List}),player2_id.in.(${side1List}))`,
+    )
+    .eq("status", "completed");
+
+  const { data: seasonMatches } = await supabase
+    .from("matches")
+    .select(MATCH_SELECT)
+    .eq("season_id", seasonId)
+    .eq("status", "completed");
+
+  const { data: settings } = await supabase
+    .from("tournament_settings")
+    .select("league_format")
+    .eq("season_id", seasonId)
+    .single();
+
+  const { data: swissByes } = await supabase
+    .from("swiss_byes")
+    .select("*")
+    .eq("season_id", seasonId);
+
+  const completedMatches = (seasonMatches as MatchWithPlayers[]) || [];
+  const standings = calculateStandings(
+    (players as Player[]) || [],
+    completedMatches.filter((m) => m.phase === "league"),
+    parseLeagueFormat(settings?.league_format),
+    (swissByes as SwissBye[]) || [],
+  );
+  const findStanding = (playerId: string) =>
+    standings.find((standing) => standing.player.id === playerId) || null;
+
+  return {
+    ...base,
+    error: null,
+    comparison: {
+      summary: calculateHeadToHead(
+        side1Ids,
+        side2Ids,
+        (meetings as MatchWithPlayers[]) || [],
+      ),
+      form: [
+        getRecentForm(player1.id, completedMatches),
+        getRecentForm(player2.id, completedMatches),
+      ],
+      standings: [findStanding(player1.id), findStanding(player2.id)],
+      seasonNames: Object.fromEntries(seasons.map((s) => [s.id, s.name])),
+    },
+  };
+}
+
+export default function HeadToHead() {
+  const { players, player1, player2, seasonName, error, comparison } =
+    useLoaderData<typeof loader>();
+
+  return (
+    <main className="page">
+      <div className="page-header">
+        <h1>Head to Head</h1>
+        <p>Every meeting between two players, across all seasons</p>
+      </div>
+
+      <Form method="get" className="h2h-picker">
+        <select
+          name="p1"
+          defaultValue={player1?.id || ""}
+          className="form-select"
+          aria-label="First player"
+        >
+          <option value="">Select player...</option>
+          {players.map((player) => (
+            <option key={player.id} value={player.id}>
+              {player.name}
+            </option>
+          ))}
+        </select>
+        <span className="vs-separator">vs</span>
+        <select
+          name="p2"
+          defaultValue={player2?.id || ""}
+          className="form-select"
+          aria-label="Second player"
+        >
+          <option value="">Select player...</option>
+          {players
+            .filter((player) => player.id !== player1?.id)
+            .map((player) => (
+              <option key={player.id} value={player.id}>
+                {player.name}
+              </option>
+            ))}
+        </select>
+        <button type="submit" className="btn btn-primary">
+          Compare
+        </button>
+      </Form>
+      <p className="help-text">Players from {seasonName}</p>
+
+      {error && <div className="error-message">{error}</div>}
+
+      {player1 && player2 && comparison && (
+        <>
+          <section className="h2h-scoreboard">
+            <Link to={`/player/${player1.id}`} className="h2h-player">
+              {player1.name}
+            </Link>
+            <span className="h2h-score">
+              {comparison.summary.wins[0]} - {comparison.summary.wins[1]}
+            </span>
+            <Link to={`/player/${player2.id}`} className="h2h-player">
+              {player2.name}
+            </Link>
+          </section>
+
+          <section className="player-stats-section">
+            <h2>Comparison</h2>
+            <div className="standings-table-container">
+              <table className="data-table h2h-table">
+                <thead>
+                  <tr>
+                    <th className="text-right">{player1.name}</th>
+                    <th className="text-center" />
+                    <th>{player2.name}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  <CompareRow
+                    label="Meetings won"
+                    values={comparison.summary.wins}
+                  />
+                  <CompareRow
+                    label="Sets won"
+                    values={comparison.summary.setsWon}
+                  />
+                  <CompareRow
+                    label="Points won"
+                    values={comparison.summary.pointsWon}
+                  />
+                  <CompareRow
+                    label="Avg. margin in sets won"
+                    values={comparison.summary.averageSetMargin}
+                  />
+                  <CompareRow
+                    label="League rank"
+                    values={comparison.standings.map(
+                      (standing) => standing?.rank ?? null,
+                    )}
+                    lowerIsBetter
+                  />
+                  <CompareRow
+                    label="League points"
+                    values={comparison.standings.map(
+                      (standing) => standing?.points ?? null,
+                    )}
+                  />
+                  <CompareRow
+                    label="League W-L"
+                    values={comparison.standings.map(formatRecord)}
+                  />
+                  <CompareRow
+                    label="League set diff"
+                    values={comparison.standings.map(
+                      (standing) => standing?.setDiff ?? null,
+                    )}
+                  />
+                  <tr>
+                    <td className="text-right">
+                      <FormBadges form={comparison.form[0]} />
+                    </td>
+                    <td className="text-center h2h-label">
+                      Last {FORM_MATCH_COUNT}
+                    </td>
+                    <td>
+                      <FormBadges form={comparison.form[1]} />
+                    </td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          </section>
+
+          <section className="player-matches-section">
+            <h2>Meetings</h2>
+            {comparison.summary.meetings.length === 0 ? (
+              <p className="empty">These players haven't met yet.</p>
+            ) : (
+              <div className="standings-table-container">
+                <table className="data-table">
+                  <thead>
+                    <tr>
+                      <th>Date</th>
+                      <th className="hide-mobile">Season</th>
+                      <th>Phase</th>
+                      <th>Winner</th>
+                      <th className="text-center">Sets</th>
+                      <th className="hide-mobile">Scores</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {comparison.summary.meetings.map((match) => (
+                      <tr key={match.id}>
+                        <td>
+                          <Link
+                            to={`/match/${match.id}`}
+                            className="player-link"
+                          >
+                            {match.recorded_at
+                              ? new Date(match.recorded_at).toLocaleDateString()
+                              : "-"}
+                          </Link>
+                        </td>
+                        <td className="hide-mobile">
+                          {comparison.seasonNames[match.season_id] || "-"}
+                        </td>
+                        <td>{formatPhase(match.phase)}</td>
+                        <td>{getWinnerName(match)}</td>
+                        <td className="text-center">
+                          {formatMeetingSets(match, player1)}
+                        </td>
+                        <td className="hide-mobile">
+                          {match.result_type === "normal"
+                            ? formatSetScores(orientSets(match, player1))
+                            : MATCH_RESULT_LABELS[match.result_type]}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </section>
+        </>
+      )}
+    </main>
+  );
+}
+
+/**
+ * One comparison line, highlighting the better value. Numbers are compared;
+ * text values (e.g. a W-L record) are shown as they are.
+ */
+function CompareRow({
+  label,
+  values,
+  lowerIsBetter,
+}: {
+  label: string;
+  values: (number | string | null)[];
+  lowerIsBetter?: boolean;
+}) {
+  const [left, right] = values;
+  const comparable = typeof left === "number" && typeof right === "number";
+  const leftBetter =
+    comparable && (lowerIsBetter ? left < right : left > right);
+  const rightBetter =
+    comparable && (lowerIsBetter ? right < left : right > left);
+
+  return (
+    <tr>
+      <td className={`text-right ${leftBetter ? "h2h-better" : ""}`}>
+        {left ?? "-"}
+      </td>
+      <td className="text-center h2h-label">{label}</td>
+      <td className={rightBetter ? "h2h-better" : ""}>{right ?? "-"}</td>
+    </tr>
+  );
+}
+
+function formatRecord(standing: PlayerStanding | null): string | null {
+  return standing ? `${standing.wins}-${standing.losses}` : null;
+}
+
+function formatPhase(phase: string): string {
+  return phase === "league" ? "League" : getRoundLabel(phase);
+}
+
+function getWinnerName(match: MatchWithPlayers): string {
+  return match.winner_id === match.player1_id
+    ? match.player1.name
+    : match.player2.name;
+}
+
+/**
+ * Sets won in a meeting from the compared first player's side, e.g. "3-1".
+ */
+function formatMeetingSets(match: MatchWithPlayers, player1: Player): string {
+  const [p1Sets, p2Sets] = getCreditedSetCounts(match);
+  return match.player1.person_id === player1.person_id
+    ? `${p1Sets}-${p2Sets}`
+    : `${p2Sets}-${p1Sets}`;
+}
+
+function orientSets(match: MatchWithPlayers, player1: Player) {
+  return match.player1.person_id === player1.person_id
+    ? match.set_scores
+    : match.set_scores.map(([p1, p2]) => [p2, p1] as [number, number]);
+}
@@ -1,6 +1,17 @@
 import { Link, useLoaderData, useOutletContext } from "react-router";
+import { Podium } from "~/components/bracket/Podium";
+import {
+  calculateAchievements,
+  getAchievement,
+  getRecentUnlocks,
+} from "~/lib/achievements.server";
+import { getKnockoutPlacements, parseBracketFormat } from "~/lib/bracket";
+import { parseLeagueFormat } from "~/lib/league-format";
+import { countSetsWon } from "~/lib/match-format";
+import { getActiveSeason } from "~/lib/seasons.server";
 import { createSupabaseServerClient } from "~/lib/supabase.server";
 import {
+  calculateSeedingStandings,
   calculateStandings,
   deriveStandingsQualification,
 } from "~/lib/tournament.server";
@@ -8,6 +19,7 @@ import type {
   AppUser,
   MatchWithPlayers,
   Player,
+  SwissBye,
   TournamentSettings,
 } from "~/lib/types";
 import type { Route } from "./+types/home";
@@ -21,17 +33,20 @@ export function meta() {
 
 export async function loader({ request }: Route.LoaderArgs) {
   const { supabase } = createSupabaseServerClient(request);
+  const season = await getActiveSeason(supabase);
 
   // Get tournament settings
   const { data: settings } = await supabase
     .from("tournament_settings")
     .select("*")
+    .eq("season_id", season.id)
     .single();
 
   // Get all players for standings
   const { data: players } = await supabase
     .from("players")
     .select("*")
+    .eq("season_id", season.id)
     .order("name");
 
   // Get all completed league matches for standings
@@ -44,21 +59,37 @@ export async function loader({ request }: Route.LoaderArgs) {
       player2:players!matches_player2_id_fkey(*)
     `,
     )
+    .eq("season_id", season.id)
     .eq("phase", "league")
     .eq("status", "completed");
 
   const { count: completedMatches } = await supabase
     .from("matches")
     .select("*", { count: "exact", head: true })
+    .eq("season_id", season.id)
     .eq("phase", "league")
     .eq("status", "completed");
 
   const { count: remainingKnockoutMatches } = await supabase
     .from("matches")
     .select("*", { count: "exact", head: true })
+    .eq("season_id", season.id)
     .neq("phase", "league")
     .eq("status", "scheduled");
 
+  const { data: knockoutResults } = await supabase
+    .from("matches")
+    .select(
+      `
+      *,
+      player1:players!matches_player1_id_fkey(*),
+      player2:players!matches_player2_id_fkey(*)
+    `,
+    )
+    .eq("season_id", season.id)
+    .neq("phase", "league")
+    .eq("status", "completed");
+
   // Get recent results (last 5 completed matches)
   const { data: recentMatches } = await supabase
     .from("matches")
@@ -70,24 +101,69 @@ export async function loader({ request }: Route.LoaderArgs) {
       winner:players!matches_winner_id_fkey(*)
     `,
     )
+    .eq("season_id", season.id)
     .eq("status", "completed")
     .order("recorded_at", { ascending: false })
     .limit(7);
 
+  const { data: swissByes } = await supabase
+    .from("swiss_byes")
+    .select("*")
+    .eq("season_id", season.id);
+
   // Calculate standings
+  const leagueFormat = parseLeagueFormat(
+    (settings as TournamentSettings | null)?.league_format,
+  );
   const standings = calculateStandings(
     (players as Player[]) || [],
     (leagueMatches as MatchWithPlayers[]) || [],
+    leagueFormat,
+    (swissByes as SwissBye[]) || [],
+  );
+  const format = parseBracketFormat(
+    (settings as TournamentSettings | null)?.bracket_format,
+  );
+  const qualification = deriveStandingsQualification(
+    calculateSeedingStandings(
+      (players as Player[]) || [],
+      (leagueMatches as MatchWithPlayers[]) || [],
+      leagueFormat,
+      (swissByes as SwissBye[]) || [],
+    ),
+    format,
   );
-  const qualification = deriveStandingsQualification(standings);
   const standingsPreviewLimit = Math.max(
-    10,
+    format.qualifier_count,
     ...qualification.qualifiedPlayerIds.map((playerId) => {
       const standing = standings.find((entry) => entry.player.id === playerId);
       return standing?.rank || 0;
     }),
   );
 
+  const playerById = new Map(
+    ((players as Player[]) || []).map((player) => [player.id, player]),
+  );
+  const recentUnlocks = getRecentUnlocks(
+    calculateAchievements((players as Player[]) || [], [
+      ...((leagueMatches as MatchWithPlayers[]) || []),
+      ...((knockoutResults as MatchWithPlayers[]) || []),
+    ]),
+  ).flatMap((unlock) => {
+    const achievement = getAchievement(unlock.achievementId);
+    const player = playerById.get(unlock.playerId);
+    return achievement && player
+      ? [
+          {
+            ...unlock,
+            playerName: player.name,
+            name: achievement.name,
+            icon: achievement.icon,
+          },
+        ]
+      : [];
+  });
+
   // Calculate unique players who have played at least one league match
   const playersWhoPlayed = new Set(
     (leagueMatches || []).flatMap((m) => [m.player1_id, m.player2_id]),
@@ -100,8 +176,16 @@ export async function loader({ request }: Route.LoaderArgs) {
     remainingKnockoutMatches: remainingKnockoutMatches || 0,
     playersWhoPlayed,
     recentMatches: (recentMatches as MatchWithPlayers[]) || [],
+    recentUnlocks,
     standings: standings.slice(0, standingsPreviewLimit),
     qualification,
+    format,
+    knockoutResults: (knockoutResults as MatchWithPlayers[]) || [],
+    hasPodium:
+      getKnockoutPlacements(
+        (knockoutResults as MatchWithPlayers[]) || [],
+        format,
+      ).length > 0,
   };
 }
 
@@ -113,8 +197,12 @@ export default function Home() {
     remainingKnockoutMatches,
     playersWhoPlayed,
     recentMatches,
+    recentUnlocks,
     standings,
     qualification,
+    format,
+    knockoutResults,
+    hasPodium,
   } = useLoaderData<typeof loader>();
   const { user } = useOutletContext<{ user: AppUser | null }>();
   const canEdit = user?.role === "admin" || user?.role === "editor";
@@ -145,6 +233,18 @@ export default function Home() {
         </div>
       </section>
 
+      {hasPodium && (
+        <section className="home-podium">
+          <div className="column-header">
+            <h2>Final Placements</h2>
+            <Link to="/final-standings" className="view-all-link">
+              View all
+            </Link>
+          </div>
+          <Podium knockoutMatches={knockoutResults} format={format} />
+        </section>
+      )}
+
       <section className="home-columns">
         <div className="home-column">
           <div className="column-header">
@@ -219,6 +319,39 @@ export default function Home() {
         </div>
       </section>
 
+      {recentUnlocks.length > 0 && (
+        <section className="home-achievements">
+          <div className="column-header">
+            <h2>Recent Achievements</h2>
+          </div>
+          <div className="achievement-feed">
+            {recentUnlocks.map((unlock) => (
+              <Link
+                key={`${unlock.playerId}-${unlock.achievementId}`}
+                to={`/player/${unlock.playerId}`}
+                className="achievement-feed-item"
+              >
+                <span
+                  className="achievement-icon"
+                  role="img"
+                  aria-label={unlock.name}
+                >
+                  {unlock.icon}
+                </span>
+                <span>
+                  <strong>{unlock.playerName}</strong> unlocked {unlock.name}
+                </span>
+                {unlock.unlockedAt && (
+                  <span className="achievement-date">
+                    {new Date(unlock.unlockedAt).toLocaleDateString()}
+                  </span>
+                )}
+              </Link>
+            ))}
+          </div>
+        </section>
+      )}
+
       <section className="quick-links">
         <Link to="/standings" className="quick-link-card">
           <h3>Standings</h3>
@@ -250,7 +383,7 @@ function getRankClass(
   playerId: string,
   qualification: Route.ComponentProps["loaderData"]["qualification"],
 ): string {
-  if (qualification.semifinalPlayerIds.includes(playerId)) {
+  if (qualification.byePlayerIds.includes(playerId)) {
     return "rank-semifinal";
   }
   if (qualification.knockoutPlayerIds.includes(playerId))
@@ -259,21 +392,7 @@ function getRankClass(
 }
 
 function getMatchScore(match: MatchWithPlayers): string {
-  let p1Sets = 0;
-  let p2Sets = 0;
-
-  if (match.set1_p1 !== null && match.set1_p2 !== null) {
-    if (match.set1_p1 > match.set1_p2) p1Sets++;
-    else p2Sets++;
-  }
-  if (match.set2_p1 !== null && match.set2_p2 !== null) {
-    if (match.set2_p1 > match.set2_p2) p1Sets++;
-    else p2Sets++;
-  }
-  if (match.set3_p1 !== null && match.set3_p2 !== null) {
-    if (match.set3_p1 > match.set3_p2) p1Sets++;
-    else p2Sets++;
-  }
+  const [p1Sets, p2Sets] = countSetsWon(match.set_scores);
 
   return `${p1Sets} - ${p2Sets}`;
 }
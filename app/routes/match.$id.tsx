@@ -1,5 +1,18 @@
 import { Link, useLoaderData } from "react-router";
 import { getUser } from "~/lib/auth.server";
+import {
+  decidesTournament,
+  getRoundLabel,
+  parseBracketFormat,
+} from "~/lib/bracket";
+import { parseLeagueFormat } from "~/lib/league-format";
+import { formatSetScores } from "~/lib/match-format";
+import {
+  describeMatchResult,
+  getCreditedSetCounts,
+  MATCH_RESULT_LABELS,
+} from "~/lib/match-result";
+import { getActiveSeason } from "~/lib/seasons.server";
 import { createSupabaseServerClient } from "~/lib/supabase.server";
 import { getLeagueProgress } from "~/lib/tournament.server";
 import type { MatchWithPlayers } from "~/lib/types";
@@ -37,37 +50,63 @@ export async function loader({ request, params }: Route.LoaderArgs) {
     throw new Response("Match not found", { status: 404 });
   }
 
-  const canEdit = user?.role === "admin" || user?.role === "editor";
-  const { data: players } = await supabase.from("players").select("id");
+  // Matches from archived seasons are read-only
+  const season = await getActiveSeason(supabase);
+  const canEdit =
+    match.season_id === season.id &&
+    (user?.role === "admin" || user?.role === "editor");
+  const { data: players } = await supabase
+    .from("players")
+    .select("id")
+    .eq("season_id", season.id);
   const { count: completedLeagueMatches } = await supabase
     .from("matches")
     .select("*", { count: "exact", head: true })
+    .eq("season_id", season.id)
     .eq("phase", "league")
     .eq("status", "completed");
+  const { data: settings } = await supabase
+    .from("tournament_settings")
+    .select("league_format")
+    .eq("season_id", season.id)
+    .single();
 
   const leagueProgress = getLeagueProgress(
     players?.length || 0,
-    completedLeagueMatches || 0
+    completedLeagueMatches || 0,
+    parseLeagueFormat(settings?.league_format)
   );
   const canSubmitResult =
     canEdit &&
     (!leagueProgress.isFinished ||
       (match.phase !== "league" && match.status === "scheduled"));
 
-  return { match: match as MatchWithPlayers, canSubmitResult };
+  // A grand final only wins the tournament if no reset is needed
+  const { data: matchSeasonSettings } = await supabase
+    .from("tournament_settings")
+    .select("bracket_format")
+    .eq("season_id", match.season_id)
+    .single();
+  const winsTournament = decidesTournament(
+    match,
+    parseBracketFormat(matchSeasonSettings?.bracket_format)
+  );
+
+  return { match: match as MatchWithPlayers, canSubmitResult, winsTournament };
 }
 
 export default function MatchDetails() {
-  const { match, canSubmitResult } = useLoaderData<typeof loader>();
+  const { match, canSubmitResult, winsTournament } =
+    useLoaderData<typeof loader>();
 
-  const sets = [
-    { num: 1, p1: match.set1_p1, p2: match.set1_p2 },
-    { num: 2, p1: match.set2_p1, p2: match.set2_p2 },
-    { num: 3, p1: match.set3_p1, p2: match.set3_p2 },
-  ].filter((s) => s.p1 !== null && s.p2 !== null);
+  const sets = match.set_scores.map(([p1, p2], index) => ({
+    num: index + 1,
+    p1,
+    p2,
+  }));
 
-  const p1SetsWon = sets.filter((s) => s.p1! > s.p2!).length;
-  const p2SetsWon = sets.filter((s) => s.p2! > s.p1!).length;
+  // Includes the sets credited for a walkover, forfeit or retirement
+  const [p1SetsWon, p2SetsWon] = getCreditedSetCounts(match);
 
   const winner =
     match.winner_id === match.player1_id ? match.player1 : match.player2;
@@ -75,6 +114,10 @@ export default function MatchDetails() {
     match.winner_id === match.player1_id ? match.player2 : match.player1;
   const pointsEarned =
     match.status === "completed" ? TIER_POINTS[loser.tier as 1 | 2 | 3 | 4] : 0;
+  const resultDescription =
+    match.status === "completed"
+      ? describeMatchResult(match, winner.name, loser.name)
+      : null;
 
   return (
     <main className="page">
@@ -86,6 +129,19 @@ export default function MatchDetails() {
           {match.status === "scheduled" && (
             <span className="status-badge scheduled">Scheduled</span>
           )}
+          {match.status === "pending_confirmation" && (
+            <span className="status-badge pending_confirmation">
+              Awaiting confirmation
+            </span>
+          )}
+          {match.status === "disputed" && (
+            <span className="status-badge disputed">Disputed</span>
+          )}
+          {match.status === "completed" && match.result_type !== "normal" && (
+            <span className={`result-type-badge ${match.result_type}`}>
+              {MATCH_RESULT_LABELS[match.result_type]}
+            </span>
+          )}
           {canSubmitResult && (
             <Link
               to={`/editor/record/${match.id}`}
@@ -152,11 +208,11 @@ export default function MatchDetails() {
                 <div key={set.num} className="set-box">
                   <span className="set-label">Set {set.num}</span>
                   <div className="set-scores">
-                    <span className={set.p1! > set.p2! ? "set-winner" : ""}>
+                    <span className={set.p1 > set.p2 ? "set-winner" : ""}>
                       {set.p1}
                     </span>
                     <span className="set-separator">-</span>
-                    <span className={set.p2! > set.p1! ? "set-winner" : ""}>
+                    <span className={set.p2 > set.p1 ? "set-winner" : ""}>
                       {set.p2}
                     </span>
                   </div>
@@ -168,6 +224,7 @@ export default function MatchDetails() {
 
         {match.status === "completed" && (
           <div className="match-summary">
+            {resultDescription && <p>{resultDescription}</p>}
             {match.phase === "league" ? (
               <p>
                 <strong>{winner.name}</strong> won and earned{" "}
@@ -177,7 +234,7 @@ export default function MatchDetails() {
             ) : (
               <p>
                 <strong>{winner.name}</strong> won
-                {match.phase === "final"
+                {winsTournament
                   ? " the tournament!"
                   : " and advances to the next round"}
               </p>
@@ -185,6 +242,28 @@ export default function MatchDetails() {
           </div>
         )}
 
+        {(match.status === "pending_confirmation" ||
+          match.status === "disputed") && (
+          <div className="match-summary">
+            <p>
+              Self-reported result
+              {sets.length > 0 && ` (${formatSetScores(match.set_scores)})`}.{" "}
+              {match.status === "disputed"
+                ? "The opponent disputed it and an editor will review it."
+                : "It counts once the opponent confirms it."}
+            </p>
+          </div>
+        )}
+
+        <div className="match-h2h-link">
+          <Link
+            to={`/h2h?p1=${match.player1_id}&p2=${match.player2_id}`}
+            className="btn btn-secondary"
+          >
+            Head to head
+          </Link>
+        </div>
+
         {match.recorded_at && (
           <div className="match-recorded">
             Recorded {new Date(match.recorded_at).toLocaleDateString()}
@@ -203,5 +282,5 @@ function formatPhase(phase: string): string {
     semifinal: "Semifinal",
     final: "Final",
   };
-  return phases[phase] || phase;
+  return phases[phase] || getRoundLabel(phase);
 }
@@ -0,0 +1,36 @@
+import type { Route } from "./+types/player.$id.schedule.ics";
+import {
+  calendarResponse,
+  loadCalendarEvents,
+  renderCalendar,
+} from "~/lib/calendar.server";
+import { createSupabaseServerClient } from "~/lib/supabase.server";
+import type { Player, Season } from "~/lib/types";
+
+// A player's own booked matches plus the season's deadlines
+export async function loader({ request, params }: Route.LoaderArgs) {
+  const { supabase } = createSupabaseServerClient(request);
+
+  const { data } = await supabase
+    .from("players")
+    .select("*, season:seasons(*)")
+    .eq("id", params.id)
+    .single();
+
+  const player = data as (Player & { season: Season }) | null;
+  if (!player) {
+    throw new Response("Player not found", { status: 404 });
+  }
+
+  const events = await loadCalendarEvents(
+    supabase,
+    player.season,
+    new URL(request.url).origin,
+    player.id,
+  );
+
+  return calendarResponse(
+    renderCalendar(`PD Table Tennis: ${player.name}`, events),
+    `${player.name.toLowerCase().replace(/[^a-z0-9]+/g, "-")}.ics`,
+  );
+}
@@ -1,7 +1,21 @@
 import { Link, useLoaderData } from "react-router";
 import type { Route } from "./+types/player.$id";
+import { FormBadges } from "~/components/player/FormBadges";
+import { PointsTrendChart, TierRecordChart } from "~/components/player/TrendCharts";
+import { ACHIEVEMENTS, calculateAchievements } from "~/lib/achievements.server";
+import { calculatePlayerDoublesRecords } from "~/lib/doubles.server";
+import { countSetsWon } from "~/lib/match-format";
+import { calculatePlayerAnalytics } from "~/lib/player-analytics.server";
+import { calculateRatings } from "~/lib/ratings.server";
 import { createSupabaseServerClient } from "~/lib/supabase.server";
-import type { Player, Match, MatchWithPlayers } from "~/lib/types";
+import type {
+  DoublesMatch,
+  Player,
+  Match,
+  MatchWithPlayers,
+  Season,
+  TeamWithPlayers,
+} from "~/lib/types";
 import { TIER_POINTS } from "~/lib/types";
 
 export function meta({ data }: Route.MetaArgs) {
@@ -38,11 +52,110 @@ export async function loader({ request, params }: Route.LoaderArgs) {
 
   // Calculate stats
   const stats = calculatePlayerStats(player as Player, (matches as MatchWithPlayers[]) || []);
+  const analytics = calculatePlayerAnalytics(player.id, (matches as MatchWithPlayers[]) || []);
+
+  // Ratings are replayed over the player's whole season
+  const { data: seasonRoster } = await supabase
+    .from("players")
+    .select("*")
+    .eq("season_id", player.season_id);
+  const { data: seasonMatches } = await supabase
+    .from("matches")
+    .select("*")
+    .eq("season_id", player.season_id)
+    .eq("status", "completed");
+
+  const rating = calculateRatings(
+    (seasonRoster as Player[]) || [],
+    (seasonMatches as Match[]) || []
+  ).find((r) => r.player.id === player.id);
+  const nameByPlayerId = new Map(
+    ((seasonRoster as Player[]) || []).map((p) => [p.id, p.name])
+  );
+
+  // Achievements are replayed from the season's results, like ratings
+  const unlocks = calculateAchievements(
+    (seasonRoster as Player[]) || [],
+    (seasonMatches as Match[]) || []
+  ).filter((unlock) => unlock.playerId === player.id);
+  const achievements = ACHIEVEMENTS.map(({ id, name, description, icon }) => ({
+    id,
+    name,
+    description,
+    icon,
+    unlock: unlocks.find((unlock) => unlock.achievementId === id) || null,
+  }));
+
+  // Career: the same person is a separate player row in each season
+  const { data: seasonPlayers } = await supabase
+    .from("players")
+    .select("*, season:seasons(*)")
+    .eq("person_id", player.person_id);
+
+  const seasonPlayerIds = (seasonPlayers || []).map((p) => p.id).join(",");
+  const { data: careerMatches } = await supabase
+    .from("matches")
+    .select(`
+      *,
+      player1:players!matches_player1_id_fkey(*),
+      player2:players!matches_player2_id_fkey(*)
+    `)
+    .or(`player1_id.in.(${seasonPlayerIds}),player2_id.in.(${seasonPlayerIds})`)
+    .eq("status", "completed");
+
+  const career = calculateCareerStats(
+    (seasonPlayers as (Player & { season: Season })[]) || [],
+    (careerMatches as MatchWithPlayers[]) || []
+  );
+
+  // Doubles record from the teams this season's player row played in
+  const { data: teams } = await supabase
+    .from("teams")
+    .select(`
+      *,
+      player1:players!teams_player1_id_fkey(*),
+      player2:players!teams_player2_id_fkey(*)
+    `)
+    .or(`player1_id.eq.${player.id},player2_id.eq.${player.id}`);
+
+  const teamIds = (teams || []).map((t) => t.id).join(",");
+  const { data: doublesMatches } = teamIds
+    ? await supabase
+        .from("doubles_matches")
+        .select("*")
+        .or(`team1_id.in.(${teamIds}),team2_id.in.(${teamIds})`)
+        .eq("status", "completed")
+    : { data: [] };
+
+  const doubles = calculatePlayerDoublesRecords(
+    player.id,
+    (teams as TeamWithPlayers[]) || [],
+    (doublesMatches as DoublesMatch[]) || []
+  );
 
   return {
     player: player as Player,
+    season: (seasonPlayers || []).find((p) => p.id === player.id)?.season as
+      | Season
+      | undefined,
     matches: (matches as MatchWithPlayers[]) || [],
-    stats
+    stats,
+    analytics,
+    achievements,
+    career,
+    doubles,
+    rating: rating
+      ? {
+          rating: rating.rating,
+          rank: rating.rank,
+          peakRating: rating.peakRating,
+          provisional: rating.provisional,
+          history: [...rating.history].reverse().map((change) => ({
+            ...change,
+            opponentName: nameByPlayerId.get(change.opponentId) || "Unknown",
+          })),
+        }
+      : null,
   };
 }
 
@@ -79,23 +192,9 @@ function calculatePlayerStats(player: Player, matches: MatchWithPlayers[]): Play
     }
 
     // Calculate sets
-    const sets = [
-      [match.set1_p1, match.set1_p2],
-      [match.set2_p1, match.set2_p2],
-      [match.set3_p1, match.set3_p2],
-    ];
-
-    for (const [p1, p2] of sets) {
-      if (p1 !== null && p2 !== null) {
-        if (isPlayer1) {
-          if (p1 > p2) setsWon++;
-          else setsLost++;
-        } else {
-          if (p2 > p1) setsWon++;
-          else setsLost++;
-        }
-      }
-    }
+    const [p1Sets, p2Sets] = countSetsWon(match.set_scores);
+    setsWon += isPlayer1 ? p1Sets : p2Sets;
+    setsLost += isPlayer1 ? p2Sets : p1Sets;
   }
 
   return {
@@ -109,8 +208,68 @@ function calculatePlayerStats(player: Player, matches: MatchWithPlayers[]): Play
   };
 }
 
+interface CareerSeason {
+  playerId: string;
+  season: Season;
+  tier: number;
+  stats: PlayerStats;
+}
+
+function calculateCareerStats(
+  seasonPlayers: (Player & { season: Season })[],
+  matches: MatchWithPlayers[]
+): { seasons: CareerSeason[]; totals: PlayerStats } {
+  const seasons = seasonPlayers
+    .map((seasonPlayer) => ({
+      playerId: seasonPlayer.id,
+      season: seasonPlayer.season,
+      tier: seasonPlayer.tier,
+      stats: calculatePlayerStats(
+        seasonPlayer,
+        matches.filter(
+          (m) =>
+            m.player1_id === seasonPlayer.id || m.player2_id === seasonPlayer.id
+        )
+      ),
+    }))
+    .sort((a, b) => b.season.created_at.localeCompare(a.season.created_at));
+
+  const totals = seasons.reduce<PlayerStats>(
+    (sum, { stats }) => ({
+      matchesPlayed: sum.matchesPlayed + stats.matchesPlayed,
+      wins: sum.wins + stats.wins,
+      losses: sum.losses + stats.losses,
+      points: sum.points + stats.points,
+      setsWon: sum.setsWon + stats.setsWon,
+      setsLost: sum.setsLost + stats.setsLost,
+      setDiff: sum.setDiff + stats.setDiff,
+    }),
+    {
+      matchesPlayed: 0,
+      wins: 0,
+      losses: 0,
+      points: 0,
+      setsWon: 0,
+      setsLost: 0,
+      setDiff: 0,
+    }
+  );
+
+  return { seasons, totals };
+}
+
 export default function PlayerProfile() {
-  const { player, matches, stats } = useLoaderData<typeof loader>();
+  const {
+    player,
+    season,
+    matches,
+    stats,
+    analytics,
+    achievements,
+    career,
+    doubles,
+    rating,
+  } = useLoaderData<typeof loader>();
 
   return (
     <main className="page">
@@ -124,7 +283,14 @@ export default function PlayerProfile() {
             <span className={`tier-badge tier-${player.tier}`}>{player.tier}</span>
             <span>Tier {player.tier}</span>
             {player.department && <span>• {player.department}</span>}
+            {season && <span>• {season.name}</span>}
           </div>
+          <Link to={`/h2h?p1=${player.id}`} className="btn btn-secondary">
+            Compare head to head
+          </Link>
+          <a href={`/player/${player.id}/schedule.ics`} className="btn btn-secondary">
+            Calendar feed
+          </a>
         </div>
       </div>
 
@@ -155,9 +321,234 @@ export default function PlayerProfile() {
             <span className="stat-value">{stats.setDiff > 0 ? `+${stats.setDiff}` : stats.setDiff}</span>
             <span className="stat-label">Set Diff</span>
           </div>
+          {rating && (
+            <Link to="/ratings" className="stat-card">
+              <span className="stat-value">
+                {rating.rating}
+                {rating.provisional && (
+                  <span className="rating-provisional" title="Provisional rating">?</span>
+                )}
+              </span>
+              <span className="stat-label">Rating (#{rating.rank})</span>
+            </Link>
+          )}
+        </div>
+      </section>
+
+      <section className="player-stats-section">
+        <h2>Achievements</h2>
+        <div className="achievement-grid">
+          {achievements.map((achievement) => (
+            <div
+              key={achievement.id}
+              className={`achievement-card ${achievement.unlock ? "unlocked" : "locked"}`}
+              title={achievement.description}
+            >
+              <span className="achievement-icon" role="img" aria-label={achievement.name}>
+                {achievement.icon}
+              </span>
+              <span className="achievement-name">{achievement.name}</span>
+              <span className="achievement-description">{achievement.description}</span>
+              {achievement.unlock && (
+                <Link to={`/match/${achievement.unlock.matchId}`} className="achievement-date">
+                  {achievement.unlock.unlockedAt
+                    ? new Date(achievement.unlock.unlockedAt).toLocaleDateString()
+                    : "Unlocked"}
+                </Link>
+              )}
+            </div>
+          ))}
         </div>
       </section>
 
+      {stats.matchesPlayed > 0 && (
+        <section className="player-stats-section">
+          <h2>Form &amp; Trends</h2>
+          <div className="player-stats-grid">
+            <div className="stat-card">
+              <span className="stat-value">
+                {analytics.currentStreak
+                  ? `${analytics.currentStreak.won ? "W" : "L"}${analytics.currentStreak.length}`
+                  : "-"}
+              </span>
+              <span className="stat-label">Current Streak</span>
+            </div>
+            <div className="stat-card">
+              <span className="stat-value">{analytics.longestWinStreak}</span>
+              <span className="stat-label">Longest Win Streak</span>
+            </div>
+            <div className="stat-card">
+              <span className="stat-value">
+                {analytics.comebacks.wins}/{analytics.comebacks.chances}
+              </span>
+              <span className="stat-label">Comebacks After Losing Set 1</span>
+            </div>
+            <div className="stat-card">
+              <span className="stat-value">
+                {analytics.decidingSets.won}-{analytics.decidingSets.lost}
+              </span>
+              <span className="stat-label">Deciding Sets W-L</span>
+            </div>
+          </div>
+
+          <div className="analytics-block">
+            <h3>Last {analytics.form.length} Results</h3>
+            <FormBadges form={analytics.form} />
+          </div>
+
+          <div className="analytics-block">
+            <h3>Against Each Tier</h3>
+            <TierRecordChart byTier={analytics.byTier} />
+          </div>
+
+          <div className="analytics-block">
+            <h3>Points per Set</h3>
+            <PointsTrendChart games={analytics.pointsPerGame} />
+          </div>
+        </section>
+      )}
+
+      {rating && rating.history.length > 0 && (
+        <section className="player-stats-section rating-history">
+          <h2>Rating History</h2>
+          <p className="help-text">Peak rating: {rating.peakRating}</p>
+          <div className="standings-table-container">
+            <table className="data-table">
+              <thead>
+                <tr>
+                  <th>Date</th>
+                  <th>Opponent</th>
+                  <th className="text-center">Result</th>
+                  <th className="text-right">Change</th>
+                  <th className="text-right">Rating</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rating.history.map((change) => (
+                  <tr key={change.matchId}>
+                    <td>{new Date(change.recordedAt).toLocaleDateString()}</td>
+                    <td>
+                      <Link to={`/match/${change.matchId}`} className="player-link">
+                        {change.opponentName}
+                      </Link>
+                    </td>
+                    <td className="text-center">{change.won ? "W" : "L"}</td>
+                    <td className="text-right">
+                      <span className={`rating-delta ${change.delta > 0 ? "up" : change.delta < 0 ? "down" : ""}`}>
+                        {change.delta > 0 ? `+${change.delta}` : change.delta}
+                      </span>
+                    </td>
+                    <td className="text-right">{change.ratingAfter}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      )}
+
+      {career.seasons.length > 1 && (
+        <section className="player-stats-section">
+          <h2>Career</h2>
+          <div className="standings-table-container">
+            <table className="data-table">
+              <thead>
+                <tr>
+                  <th>Season</th>
+                  <th className="text-center">Tier</th>
+                  <th className="text-center">P</th>
+                  <th className="text-center">W</th>
+                  <th className="text-center">L</th>
+                  <th className="text-right">Pts</th>
+                  <th className="text-center hide-mobile">Sets</th>
+                </tr>
+              </thead>
+              <tbody>
+                {career.seasons.map((entry) => (
+                  <tr key={entry.playerId}>
+                    <td>
+                      <Link
+                        to={`/player/${entry.playerId}`}
+                        className="player-link"
+                      >
+                        {entry.season.name}
+                      </Link>
+                    </td>
+                    <td className="text-center">
+                      <span className={`tier-badge tier-${entry.tier}`}>
+                        {entry.tier}
+                      </span>
+                    </td>
+                    <td className="text-center">{entry.stats.matchesPlayed}</td>
+                    <td className="text-center">{entry.stats.wins}</td>
+                    <td className="text-center">{entry.stats.losses}</td>
+                    <td className="text-right">{entry.stats.points}</td>
+                    <td className="text-center hide-mobile">
+                      {entry.stats.setsWon}-{entry.stats.setsLost}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot>
+                <tr className="career-totals-row">
+                  <td>Total</td>
+                  <td />
+                  <td className="text-center">{career.totals.matchesPlayed}</td>
+                  <td className="text-center">{career.totals.wins}</td>
+                  <td className="text-center">{career.totals.losses}</td>
+                  <td className="text-right">{career.totals.points}</td>
+                  <td className="text-center hide-mobile">
+                    {career.totals.setsWon}-{career.totals.setsLost}
+                  </td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+        </section>
+      )}
+
+      {doubles.length > 0 && (
+        <section className="player-stats-section">
+          <h2>Doubles</h2>
+          <div className="standings-table-container">
+            <table className="data-table">
+              <thead>
+                <tr>
+                  <th>Team</th>
+                  <th>Partner</th>
+                  <th className="text-center">P</th>
+                  <th className="text-center">W</th>
+                  <th className="text-center">L</th>
+                  <th className="text-center hide-mobile">Sets</th>
+                </tr>
+              </thead>
+              <tbody>
+                {doubles.map((record) => (
+                  <tr key={record.team.id}>
+                    <td>
+                      <Link to="/doubles" className="player-link">
+                        {record.team.name}
+                      </Link>
+                    </td>
+                    <td>
+                      <Link to={`/player/${record.partner.id}`} className="player-link">
+                        {record.partner.name}
+                      </Link>
+                    </td>
+                    <td className="text-center">{record.matchesPlayed}</td>
+                    <td className="text-center">{record.wins}</td>
+                    <td className="text-center">{record.losses}</td>
+                    <td className="text-center hide-mobile">
+                      {record.setsWon}-{record.setsLost}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      )}
+
       <section className="player-matches-section">
         <h2>Match History</h2>
         {matches.length === 0 ? (
@@ -202,26 +593,7 @@ export default function PlayerProfile() {
 }
 
 function getMatchScore(match: MatchWithPlayers, isPlayer1: boolean): string {
-  let mySets = 0;
-  let oppSets = 0;
-
-  const sets = [
-    [match.set1_p1, match.set1_p2],
-    [match.set2_p1, match.set2_p2],
-    [match.set3_p1, match.set3_p2],
-  ];
-
-  for (const [p1, p2] of sets) {
-    if (p1 !== null && p2 !== null) {
-      if (isPlayer1) {
-        if (p1 > p2) mySets++;
-        else oppSets++;
-      } else {
-        if (p2 > p1) mySets++;
-        else oppSets++;
-      }
-    }
-  }
+  const [p1Sets, p2Sets] = countSetsWon(match.set_scores);
 
-  return `${mySets} - ${oppSets}`;
+  return isPlayer1 ? `${p1Sets} - ${p2Sets}` : `${p2Sets} - ${p1Sets}`;
 }
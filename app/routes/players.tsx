@@ -1,7 +1,9 @@
 import { Link, useLoaderData } from "react-router";
 import type { Route } from "./+types/players";
+import { calculateRatings } from "~/lib/ratings.server";
+import { getActiveSeason } from "~/lib/seasons.server";
 import { createSupabaseServerClient } from "~/lib/supabase.server";
-import type { Player } from "~/lib/types";
+import type { Match, Player } from "~/lib/types";
 
 export function meta() {
   return [
@@ -12,10 +14,12 @@ export function meta() {
 
 export async function loader({ request }: Route.LoaderArgs) {
   const { supabase } = createSupabaseServerClient(request);
+  const season = await getActiveSeason(supabase);
 
   const { data: players, error } = await supabase
     .from("players")
     .select("*")
+    .eq("season_id", season.id)
     .order("tier", { ascending: true })
     .order("name", { ascending: true });
 
@@ -23,11 +27,27 @@ export async function loader({ request }: Route.LoaderArgs) {
     console.error("Error loading players:", error);
   }
 
-  return { players: (players as Player[]) || [] };
+  const { data: matches } = await supabase
+    .from("matches")
+    .select("*")
+    .eq("season_id", season.id)
+    .eq("status", "completed");
+
+  const ratings = calculateRatings(
+    (players as Player[]) || [],
+    (matches as Match[]) || []
+  );
+
+  return {
+    players: (players as Player[]) || [],
+    ratingByPlayerId: Object.fromEntries(
+      ratings.map((rating) => [rating.player.id, rating.rating])
+    ),
+  };
 }
 
 export default function Players() {
-  const { players } = useLoaderData<typeof loader>();
+  const { players, ratingByPlayerId } = useLoaderData<typeof loader>();
 
   const playersByTier = players.reduce(
     (acc, player) => {
@@ -43,7 +63,10 @@ export default function Players() {
     <main className="page">
       <div className="page-header">
         <h1>Players</h1>
-        <p>{players.length} participants</p>
+        <p>
+          {players.length} participants ·{" "}
+          <Link to="/ratings">Rating leaderboard</Link>
+        </p>
       </div>
 
       {players.length === 0 ? (
@@ -76,6 +99,9 @@ export default function Players() {
                               {player.department}
                             </span>
                           )}
+                          <span className="player-rating">
+                            Rating {ratingByPlayerId[player.id]}
+                          </span>
                         </div>
                       </Link>
                     ))}
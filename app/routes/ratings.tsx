@@ -0,0 +1,146 @@
+import { Link, useLoaderData } from "react-router";
+import {
+  calculateRatings,
+  PROVISIONAL_MATCH_COUNT,
+  RATING_K_FACTOR,
+} from "~/lib/ratings.server";
+import { getActiveSeason } from "~/lib/seasons.server";
+import { createSupabaseServerClient } from "~/lib/supabase.server";
+import type { Match, Player } from "~/lib/types";
+import type { Route } from "./+types/ratings";
+
+export function meta() {
+  return [
+    { title: "Ratings | PD Table Tennis" },
+    { name: "description", content: "Elo rating leaderboard" },
+  ];
+}
+
+export async function loader({ request }: Route.LoaderArgs) {
+  const { supabase } = createSupabaseServerClient(request);
+  const season = await getActiveSeason(supabase);
+
+  const { data: players } = await supabase
+    .from("players")
+    .select("*")
+    .eq("season_id", season.id);
+
+  const { data: matches } = await supabase
+    .from("matches")
+    .select("*")
+    .eq("season_id", season.id)
+    .eq("status", "completed");
+
+  const ratings = calculateRatings(
+    (players as Player[]) || [],
+    (matches as Match[]) || [],
+  );
+
+  return {
+    ratings: ratings.map(({ history, ...rating }) => ({
+      ...rating,
+      lastChange: history.length > 0 ? history[history.length - 1].delta : null,
+    })),
+    kFactor: RATING_K_FACTOR,
+    provisionalMatchCount: PROVISIONAL_MATCH_COUNT,
+  };
+}
+
+export default function Ratings() {
+  const { ratings, kFactor, provisionalMatchCount } =
+    useLoaderData<typeof loader>();
+
+  return (
+    <main className="page">
+      <div className="page-header">
+        <h1>Ratings</h1>
+        <p>Elo ratings from every completed match, in the order recorded</p>
+      </div>
+
+      {ratings.length === 0 ? (
+        <p className="empty">No players registered yet.</p>
+      ) : (
+        <div className="standings-table-container">
+          <table className="data-table standings-table">
+            <thead>
+              <tr>
+                <th className="text-center">#</th>
+                <th>Player</th>
+                <th className="text-center hide-mobile">Tier</th>
+                <th className="text-right">Rating</th>
+                <th className="text-right">Last</th>
+                <th className="text-right hide-mobile">Peak</th>
+                <th className="text-center">P</th>
+              </tr>
+            </thead>
+            <tbody>
+              {ratings.map((rating) => (
+                <tr key={rating.player.id}>
+                  <td className="text-center rank-cell">
+                    <span className="rank-badge">{rating.rank}</span>
+                  </td>
+                  <td>
+                    <Link
+                      to={`/player/${rating.player.id}`}
+                      className="player-link"
+                    >
+                      {rating.player.name}
+                    </Link>
+                  </td>
+                  <td className="text-center hide-mobile">
+                    <span className={`tier-badge tier-${rating.player.tier}`}>
+                      {rating.player.tier}
+                    </span>
+                  </td>
+                  <td className="text-right points-cell">
+                    {rating.rating}
+                    {rating.provisional && (
+                      <span
+                        className="rating-provisional"
+                        title="Provisional rating"
+                      >
+                        ?
+                      </span>
+                    )}
+                  </td>
+                  <td className="text-right">
+                    <RatingDelta delta={rating.lastChange} />
+                  </td>
+                  <td className="text-right hide-mobile">{rating.peakRating}</td>
+                  <td className="text-center">{rating.matchesPlayed}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <section className="standings-tiebreak">
+        <h2>How ratings work</h2>
+        <p>
+          Everyone starts from a rating based on their tier (Tier 1: 1800, Tier
+          2: 1650, Tier 3: 1500, Tier 4: 1350). After each completed match, the
+          winner takes rating points from the loser. Beating a higher-rated
+          player earns more than beating a lower-rated one (K = {kFactor}).
+        </p>
+        <p>
+          Ratings marked <span className="rating-provisional">?</span> are
+          provisional until a player has {provisionalMatchCount} rated
+          matches. Ratings do not affect league points or qualification.
+        </p>
+      </section>
+    </main>
+  );
+}
+
+function RatingDelta({ delta }: { delta: number | null }) {
+  if (delta === null) return <span className="rating-delta">-</span>;
+
+  return (
+    <span
+      className={`rating-delta ${delta > 0 ? "up" : delta < 0 ? "down" : ""}`}
+    >
+      {delta > 0 ? `+${delta}` : delta}
+    </span>
+  );
+}
@@ -1,11 +1,16 @@
 import { useMemo, useState } from "react";
 import { useLoaderData } from "react-router";
+import {
+  hasScheduledLeagueMatches,
+  parseLeagueFormat,
+} from "~/lib/league-format";
 import {
   generateUnplayedLeagueMatchups,
   type MatchPairInput,
   type Matchup,
   type PlayerSummary,
 } from "~/lib/suggestions";
+import { getActiveSeason } from "~/lib/seasons.server";
 import { createSupabaseServerClient } from "~/lib/supabase.server";
 import type { Player } from "~/lib/types";
 import type { Route } from "./+types/recommendations";
@@ -19,26 +24,49 @@ export function meta() {
 
 export async function loader({ request }: Route.LoaderArgs) {
   const { supabase } = createSupabaseServerClient(request);
+  const season = await getActiveSeason(supabase);
 
   const { data: players } = await supabase
     .from("players")
     .select("id, name, tier, slack_handle")
+    .eq("season_id", season.id)
     .order("name");
 
   const { data: completedMatches } = await supabase
     .from("matches")
     .select("player1_id, player2_id")
+    .eq("season_id", season.id)
     .eq("phase", "league")
     .eq("status", "completed");
 
+  const { data: settings } = await supabase
+    .from("tournament_settings")
+    .select("league_format")
+    .eq("season_id", season.id)
+    .single();
+
+  // Swiss leagues and group stages only have their scheduled fixtures to play
+  let pairings: MatchPairInput[] | null = null;
+  if (hasScheduledLeagueMatches(parseLeagueFormat(settings?.league_format))) {
+    const { data: scheduledMatches } = await supabase
+      .from("matches")
+      .select("player1_id, player2_id")
+      .eq("season_id", season.id)
+      .eq("phase", "league")
+      .eq("status", "scheduled");
+    pairings = (scheduledMatches as MatchPairInput[]) || [];
+  }
+
   return {
     players: (players as Player[]) || [],
     completedMatches: (completedMatches as MatchPairInput[]) || [],
+    pairings,
   };
 }
 
 export default function Recommendations() {
-  const { players, completedMatches } = useLoaderData<typeof loader>();
+  const { players, completedMatches, pairings } =
+    useLoaderData<typeof loader>();
   const [selectedPlayerIds, setSelectedPlayerIds] = useState<string[]>([]);
   const [copiedTab, setCopiedTab] = useState<"weekly" | "custom" | null>(null);
 
@@ -53,8 +81,9 @@ export default function Recommendations() {
     return generateUnplayedLeagueMatchups(
       selectedPlayers as PlayerSummary[],
       completedMatches,
+      pairings ?? undefined,
     );
-  }, [completedMatches, selectedPlayers]);
+  }, [completedMatches, pairings, selectedPlayers]);
 
   const customCopyText = useMemo(() => {
     if (!suggestedMatches.length) return "";
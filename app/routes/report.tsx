@@ -0,0 +1,650 @@
+import {
+  data,
+  Form,
+  Link,
+  redirect,
+  useActionData,
+  useLoaderData,
+  useNavigation,
+} from "react-router";
+import { useState } from "react";
+import { SetScoreInputs } from "~/components/match/SetScoreInputs";
+import { requireUser } from "~/lib/auth.server";
+import {
+  countSetsWon,
+  formatSetScores,
+  parseMatchFormats,
+  validateSetScores,
+} from "~/lib/match-format";
+import {
+  hasScheduledLeagueMatches,
+  parseLeagueFormat,
+} from "~/lib/league-format";
+import { readSetScores } from "~/lib/match-result";
+import { notifyResultRecorded } from "~/lib/notifications.server";
+import { getActiveSeason } from "~/lib/seasons.server";
+import { createSupabaseServerClient } from "~/lib/supabase.server";
+import { getLeagueProgress } from "~/lib/tournament.server";
+import type { MatchWithPlayers, Player } from "~/lib/types";
+import { emitMatchConfirmed } from "~/lib/webhooks.server";
+import type { Route } from "./+types/report";
+
+export function meta() {
+  return [{ title: "Report Result | PD Table Tennis" }];
+}
+
+export async function loader({ request }: Route.LoaderArgs) {
+  const { user, headers } = await requireUser(request);
+
+  const { supabase } = createSupabaseServerClient(request);
+  const season = await getActiveSeason(supabase);
+
+  const { data: players } = await supabase
+    .from("players")
+    .select("*")
+    .eq("season_id", season.id)
+    .order("name");
+
+  const me = ((players as Player[]) || []).find(
+    (p) => p.id === user.playerId
+  );
+
+  const { data: settings } = await supabase
+    .from("tournament_settings")
+    .select("match_formats, league_format")
+    .eq("season_id", season.id)
+    .single();
+  const format = parseMatchFormats(settings?.match_formats).league;
+  const leagueFormat = parseLeagueFormat(settings?.league_format);
+
+  if (!me) {
+    return data(
+      {
+        me: null,
+        opponents: [],
+        awaitingMe: [],
+        awaitingOpponent: [],
+        disputed: [],
+        leagueFinished: false,
+        leagueMode: leagueFormat.mode,
+        format,
+      },
+      { headers }
+    );
+  }
+
+  const { data: myMatches } = await supabase
+    .from("matches")
+    .select(
+      `
+      *,
+      player1:players!matches_player1_id_fkey(*),
+      player2:players!matches_player2_id_fkey(*)
+    `
+    )
+    .eq("season_id", season.id)
+    .eq("phase", "league")
+    .or(`player1_id.eq.${me.id},player2_id.eq.${me.id}`)
+    .order("reported_at", { ascending: false });
+
+  const { count: completedLeagueMatches } = await supabase
+    .from("matches")
+    .select("*", { count: "exact", head: true })
+    .eq("season_id", season.id)
+    .eq("phase", "league")
+    .eq("status", "completed");
+
+  const matches = (myMatches as MatchWithPlayers[]) || [];
+  const leagueProgress = getLeagueProgress(
+    players?.length || 0,
+    completedLeagueMatches || 0,
+    leagueFormat
+  );
+
+  const opponentOf = (m: MatchWithPlayers) =>
+    m.player1_id === me.id ? m.player2_id : m.player1_id;
+  // Any league result (completed, pending or disputed) blocks a new report; a
+  // booked match doesn't. In a Swiss league or group stage only scheduled
+  // fixtures can be reported.
+  const metOpponentIds = new Set(
+    matches.filter((m) => m.status !== "scheduled").map(opponentOf)
+  );
+  const pairedOpponentIds = new Set(
+    matches.filter((m) => m.status === "scheduled").map(opponentOf)
+  );
+
+  return data(
+    {
+      me,
+      opponents: ((players as Player[]) || []).filter((p) =>
+        hasScheduledLeagueMatches(leagueFormat)
+          ? pairedOpponentIds.has(p.id)
+          : p.id !== me.id && !metOpponentIds.has(p.id)
+      ),
+      awaitingMe: matches.filter(
+        (m) =>
+          m.status === "pending_confirmation" &&
+          m.reported_by_player_id !== me.id
+      ),
+      awaitingOpponent: matches.filter(
+        (m) =>
+          m.status === "pending_confirmation" &&
+          m.reported_by_player_id === me.id
+      ),
+      disputed: matches.filter((m) => m.status === "disputed"),
+      leagueFinished: leagueProgress.isFinished,
+      leagueMode: leagueFormat.mode,
+      format,
+    },
+    { headers }
+  );
+}
+
+export async function action({ request }: Route.ActionArgs) {
+  const { user, headers: authHeaders } = await requireUser(request);
+
+  const { supabase, headers } = createSupabaseServerClient(request);
+  const season = await getActiveSeason(supabase);
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+
+  const allHeaders = new Headers(authHeaders);
+  headers.forEach((value, key) => allHeaders.append(key, value));
+
+  const { data: me } = await supabase
+    .from("players")
+    .select("id")
+    .eq("season_id", season.id)
+    .eq("id", user.playerId ?? "")
+    .single();
+
+  if (!me) {
+    return data(
+      { error: "Your account is not linked to a player in this season" },
+      { headers: allHeaders }
+    );
+  }
+
+  if (intent === "report") {
+    const opponentId = formData.get("opponent_id") as string;
+    if (!opponentId || opponentId === me.id) {
+      return data(
+        { error: "Please select your opponent" },
+        { headers: allHeaders }
+      );
+    }
+
+    const { data: players } = await supabase
+      .from("players")
+      .select("id")
+      .eq("season_id", season.id);
+    if (!(players || []).some((p) => p.id === opponentId)) {
+      return data(
+        { error: "Your opponent must be registered in the current season" },
+        { headers: allHeaders }
+      );
+    }
+
+    const { count: completedLeagueMatches } = await supabase
+      .from("matches")
+      .select("*", { count: "exact", head: true })
+      .eq("season_id", season.id)
+      .eq("phase", "league")
+      .eq("status", "completed");
+
+    const { data: settings } = await supabase
+      .from("tournament_settings")
+      .select("match_formats, league_format")
+      .eq("season_id", season.id)
+      .single();
+    const format = parseMatchFormats(settings?.match_formats).league;
+    const leagueFormat = parseLeagueFormat(settings?.league_format);
+
+    if (
+      getLeagueProgress(
+        players?.length || 0,
+        completedLeagueMatches || 0,
+        leagueFormat
+      ).isFinished
+    ) {
+      return data(
+        { error: "The league stage is complete." },
+        { headers: allHeaders }
+      );
+    }
+
+    const { data: existingMatch } = await supabase
+      .from("matches")
+      .select("id, player1_id, status")
+      .eq("season_id", season.id)
+      .eq("phase", "league")
+      .or(
+        `and(player1_id.eq.${me.id},player2_id.eq.${opponentId}),and(player1_id.eq.${opponentId},player2_id.eq.${me.id})`
+      )
+      .maybeSingle();
+
+    // Swiss pairings, group fixtures and booked round robin matches
+    const isFixture = existingMatch?.status === "scheduled";
+
+    if (hasScheduledLeagueMatches(leagueFormat) && !isFixture) {
+      return data(
+        {
+          error:
+            "You can only report a match you have been drawn or paired for",
+        },
+        { headers: allHeaders }
+      );
+    }
+
+    if (existingMatch && !isFixture) {
+      return data(
+        { error: "A result for this match has already been reported" },
+        { headers: allHeaders }
+      );
+    }
+
+    const sets = readSetScores(formData, format.best_of);
+    if ("error" in sets) {
+      return data({ error: sets.error }, { headers: allHeaders });
+    }
+
+    const setsError = validateSetScores(sets.setScores, format, {
+      finished: true,
+    });
+    if (setsError) {
+      return data({ error: setsError }, { headers: allHeaders });
+    }
+
+    const [p1Sets, p2Sets] = countSetsWon(sets.setScores);
+
+    if (isFixture) {
+      // The fixture may list the opponent first; scores are entered mine first
+      const iAmPlayer1 = existingMatch.player1_id === me.id;
+      const { data: reportedId, error } = await supabase.rpc(
+        "report_scheduled_match",
+        {
+          target_match_id: existingMatch.id,
+          reported_set_scores: iAmPlayer1
+            ? sets.setScores
+            : sets.setScores.map(([mine, theirs]) => [theirs, mine]),
+          reported_best_of: format.best_of,
+          reported_winner_id: p1Sets > p2Sets ? me.id : opponentId,
+        }
+      );
+
+      if (error) {
+        return data({ error: error.message }, { headers: allHeaders });
+      }
+
+      if (!reportedId) {
+        return data(
+          { error: "A result for this match has already been reported" },
+          { headers: allHeaders }
+        );
+      }
+
+      return redirect("/report", { headers: allHeaders });
+    }
+
+    const { error } = await supabase.from("matches").insert({
+      season_id: season.id,
+      player1_id: me.id,
+      player2_id: opponentId,
+      phase: "league",
+      status: "pending_confirmation",
+      set_scores: sets.setScores,
+      best_of: format.best_of,
+      winner_id: p1Sets > p2Sets ? me.id : opponentId,
+      reported_by_player_id: me.id,
+      reported_at: new Date().toISOString(),
+    });
+
+    if (error) {
+      return data({ error: error.message }, { headers: allHeaders });
+    }
+
+    return redirect("/report", { headers: allHeaders });
+  }
+
+  const matchId = formData.get("match_id") as string;
+  const { data: match } = await supabase
+    .from("matches")
+    .select(
+      "id, player1_id, player2_id, status, reported_by_player_id, swiss_round, group_name, scheduled_at"
+    )
+    .eq("season_id", season.id)
+    .eq("id", matchId)
+    .single();
+
+  if (!match || match.status !== "pending_confirmation") {
+    return data(
+      { error: "This result is no longer awaiting confirmation" },
+      { headers: allHeaders }
+    );
+  }
+
+  if (match.player1_id !== me.id && match.player2_id !== me.id) {
+    return data(
+      { error: "You can only respond to your own matches" },
+      { headers: allHeaders }
+    );
+  }
+
+  const isReporter = match.reported_by_player_id === me.id;
+
+  if (intent === "confirm" || intent === "dispute") {
+    if (isReporter) {
+      return data(
+        { error: "Your opponent has to confirm the result you reported" },
+        { headers: allHeaders }
+      );
+    }
+
+    const disputeReason =
+      (formData.get("dispute_reason") as string)?.trim() || null;
+    if (intent === "dispute" && !disputeReason) {
+      return data(
+        { error: "Please explain what is wrong with the reported result" },
+        { headers: allHeaders }
+      );
+    }
+
+    const { data: updatedId, error } =
+      intent === "confirm"
+        ? await supabase.rpc("confirm_match_report", {
+            target_match_id: match.id,
+          })
+        : await supabase.rpc("dispute_match_report", {
+            target_match_id: match.id,
+            reason: disputeReason,
+          });
+
+    if (error) {
+      return data({ error: error.message }, { headers: allHeaders });
+    }
+
+    if (!updatedId) {
+      return data(
+        { error: "This result is no longer awaiting confirmation" },
+        { headers: allHeaders }
+      );
+    }
+
+    if (intent === "confirm") {
+      await notifyResultRecorded(supabase, match.id);
+      await emitMatchConfirmed(supabase, match.id);
+    }
+
+    return redirect("/report", { headers: allHeaders });
+  }
+
+  if (intent === "withdraw") {
+    if (!isReporter) {
+      return data(
+        { error: "Only the player who reported a result can withdraw it" },
+        { headers: allHeaders }
+      );
+    }
+
+    // Swiss pairings, group fixtures and booked matches go back to scheduled
+    let withdrawn: boolean;
+    if (match.swiss_round || match.group_name || match.scheduled_at) {
+      const { data: withdrawnId, error } = await supabase.rpc(
+        "withdraw_match_report",
+        { target_match_id: match.id }
+      );
+      if (error) {
+        return data({ error: error.message }, { headers: allHeaders });
+      }
+      withdrawn = !!withdrawnId;
+    } else {
+      const { data: deleted, error } = await supabase
+        .from("matches")
+        .delete()
+        .eq("id", match.id)
+        .eq("status", "pending_confirmation")
+        .select("id");
+      if (error) {
+        return data({ error: error.message }, { headers: allHeaders });
+      }
+      withdrawn = !!deleted?.length;
+    }
+
+    if (!withdrawn) {
+      return data(
+        { error: "This result is no longer awaiting confirmation" },
+        { headers: allHeaders }
+      );
+    }
+
+    return redirect("/report", { headers: allHeaders });
+  }
+
+  return data({ error: "Invalid action" }, { headers: allHeaders });
+}
+
+export default function ReportResult() {
+  const {
+    me,
+    opponents,
+    awaitingMe,
+    awaitingOpponent,
+    disputed,
+    leagueFinished,
+    leagueMode,
+    format,
+  } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === "submitting";
+  const [opponentId, setOpponentId] = useState("");
+
+  if (!me) {
+    return (
+      <div className="page">
+        <h1>Report Result</h1>
+        <p className="empty">
+          Your account is not linked to a player in the current season. Ask an
+          admin to link it on the Users page.
+        </p>
+      </div>
+    );
+  }
+
+  const opponent = opponents.find((p) => p.id === opponentId);
+
+  return (
+    <div className="page">
+      <div className="page-header">
+        <h1>Report Result</h1>
+        <p>Results you report count once your opponent confirms them.</p>
+      </div>
+
+      {actionData?.error && (
+        <div className="error-message">{actionData.error}</div>
+      )}
+
+      {awaitingMe.length > 0 && (
+        <section className="admin-section">
+          <h2>Waiting for your confirmation ({awaitingMe.length})</h2>
+          <div className="results-list">
+            {awaitingMe.map((match) => (
+              <div key={match.id} className="results-card pending_confirmation">
+                <ReportedMatchSummary match={match} />
+                <div className="report-response">
+                  <Form method="post">
+                    <input type="hidden" name="match_id" value={match.id} />
+                    <button
+                      type="submit"
+                      name="intent"
+                      value="confirm"
+                      className="btn btn-primary"
+                      disabled={isSubmitting}
+                    >
+                      Confirm
+                    </button>
+                  </Form>
+                  <Form method="post" className="report-dispute-form">
+                    <input type="hidden" name="match_id" value={match.id} />
+                    <input
+                      type="text"
+                      name="dispute_reason"
+                      className="form-input"
+                      placeholder="What's wrong with this result?"
+                      required
+                      disabled={isSubmitting}
+                    />
+                    <button
+                      type="submit"
+                      name="intent"
+                      value="dispute"
+                      className="btn btn-danger"
+                      disabled={isSubmitting}
+                    >
+                      Dispute
+                    </button>
+                  </Form>
+                </div>
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {awaitingOpponent.length > 0 && (
+        <section className="admin-section">
+          <h2>Waiting for your opponent ({awaitingOpponent.length})</h2>
+          <div className="results-list">
+            {awaitingOpponent.map((match) => (
+              <div key={match.id} className="results-card pending_confirmation">
+                <ReportedMatchSummary match={match} />
+                <div className="results-card-actions">
+                  <Form method="post">
+                    <input type="hidden" name="match_id" value={match.id} />
+                    <button
+                      type="submit"
+                      name="intent"
+                      value="withdraw"
+                      className="btn btn-secondary"
+                      disabled={isSubmitting}
+                    >
+                      Withdraw
+                    </button>
+                  </Form>
+                </div>
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {disputed.length > 0 && (
+        <section className="admin-section">
+          <h2>Disputed ({disputed.length})</h2>
+          <p className="help-text">An editor will review these results.</p>
+          <div className="results-list">
+            {disputed.map((match) => (
+              <div key={match.id} className="results-card disputed">
+                <ReportedMatchSummary match={match} />
+                {match.dispute_reason && (
+                  <p className="dispute-reason">“{match.dispute_reason}”</p>
+                )}
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+
+      <section className="admin-section">
+        <h2>Report a League Match</h2>
+        {leagueFinished ? (
+          <p className="empty">The league stage is complete.</p>
+        ) : opponents.length === 0 ? (
+          <p className="empty">
+            {leagueMode === "swiss"
+              ? "You have no open pairing this round."
+              : leagueMode === "groups"
+                ? "You have a result for every group match already."
+                : "You have a result for every opponent already."}
+          </p>
+        ) : (
+          <Form method="post" className="record-form">
+            <input type="hidden" name="intent" value="report" />
+
+            <div className="form-group">
+              <label htmlFor="opponent_id">Opponent</label>
+              <select
+                id="opponent_id"
+                name="opponent_id"
+                className="form-select"
+                value={opponentId}
+                onChange={(e) => setOpponentId(e.target.value)}
+                required
+                disabled={isSubmitting}
+              >
+                <option value="">Select opponent...</option>
+                {opponents.map((player) => (
+                  <option key={player.id} value={player.id}>
+                    {player.name} (Tier {player.tier})
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {opponent && (
+              <>
+                <SetScoreInputs
+                  format={format}
+                  player1Name={me.name}
+                  player2Name={opponent.name}
+                  disabled={isSubmitting}
+                />
+
+                <div className="form-actions">
+                  <button
+                    type="submit"
+                    className="btn btn-primary"
+                    disabled={isSubmitting}
+                  >
+                    {isSubmitting ? "Sending..." : "Send for Confirmation"}
+                  </button>
+                  <Link to="/results" className="btn btn-secondary">
+                    Cancel
+                  </Link>
+                </div>
+              </>
+            )}
+          </Form>
+        )}
+      </section>
+    </div>
+  );
+}
+
+function ReportedMatchSummary({ match }: { match: MatchWithPlayers }) {
+  return (
+    <div className="results-card-main">
+      <div className="results-player">
+        <span
+          className={match.winner_id === match.player1_id ? "winner" : ""}
+        >
+          {match.player1.name}
+        </span>
+      </div>
+      <div className="results-vs">
+        <span className="results-score">{getSetScore(match)}</span>
+      </div>
+      <div className="results-player">
+        <span
+          className={match.winner_id === match.player2_id ? "winner" : ""}
+        >
+          {match.player2.name}
+        </span>
+      </div>
+    </div>
+  );
+}
+
+function getSetScore(match: MatchWithPlayers): string {
+  return formatSetScores(match.set_scores);
+}
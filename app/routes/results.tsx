@@ -4,6 +4,11 @@ import {
   useOutletContext,
   useSearchParams,
 } from "react-router";
+import { SeasonSelector } from "~/components/season/SeasonSelector";
+import { getRoundLabel } from "~/lib/bracket";
+import { countSetsWon } from "~/lib/match-format";
+import { isUnplayedResult, MATCH_RESULT_LABELS } from "~/lib/match-result";
+import { resolveSeason } from "~/lib/seasons.server";
 import { createSupabaseServerClient } from "~/lib/supabase.server";
 import type { AppUser, MatchWithPlayers } from "~/lib/types";
 import type { Route } from "./+types/results";
@@ -21,11 +26,16 @@ export async function loader({ request }: Route.LoaderArgs) {
   const status = url.searchParams.get("status") || "all";
   const phase = url.searchParams.get("phase") || "all";
   const playerId = url.searchParams.get("player") || "all";
+  const { season, seasons, isArchived } = await resolveSeason(
+    supabase,
+    request,
+  );
 
   // Fetch all players for the filter dropdown
   const { data: players } = await supabase
     .from("players")
     .select("id, name")
+    .eq("season_id", season.id)
     .order("name", { ascending: true });
 
   let query = supabase
@@ -37,6 +47,7 @@ export async function loader({ request }: Route.LoaderArgs) {
       player2:players!matches_player2_id_fkey(*)
     `,
     )
+    .eq("season_id", season.id)
     .order("created_at", { ascending: false });
 
   if (status !== "all") {
@@ -56,11 +67,15 @@ export async function loader({ request }: Route.LoaderArgs) {
   return {
     matches: (matches as MatchWithPlayers[]) || [],
     players: players || [],
+    season,
+    seasons,
+    isArchived,
   };
 }
 
 export default function Results() {
-  const { matches, players } = useLoaderData<typeof loader>();
+  const { matches, players, season, seasons, isArchived } =
+    useLoaderData<typeof loader>();
   const { user } = useOutletContext<{ user: AppUser | null }>();
   const [searchParams, setSearchParams] = useSearchParams();
 
@@ -71,7 +86,8 @@ export default function Results() {
   const completedMatches = matches.filter((m) => m.status === "completed");
   const scheduledMatches = matches.filter((m) => m.status === "scheduled");
 
-  const canEdit = user?.role === "admin" || user?.role === "editor";
+  const canEdit =
+    !isArchived && (user?.role === "admin" || user?.role === "editor");
 
   function updateFilter(key: string, value: string) {
     const newParams = new URLSearchParams(searchParams);
@@ -93,6 +109,8 @@ export default function Results() {
         </p>
       </div>
 
+      <SeasonSelector season={season} seasons={seasons} />
+
       {canEdit && (
         <div className="results-actions">
           <Link to="/editor/matches" className="btn btn-primary">
@@ -112,6 +130,8 @@ export default function Results() {
             <option value="all">All</option>
             <option value="scheduled">Scheduled</option>
             <option value="completed">Completed</option>
+            <option value="pending_confirmation">Awaiting confirmation</option>
+            <option value="disputed">Disputed</option>
           </select>
         </div>
         <div className="filter-group">
@@ -127,6 +147,7 @@ export default function Results() {
             <option value="knockout_r2">Knockout R2</option>
             <option value="semifinal">Semifinals</option>
             <option value="final">Final</option>
+            <option value="third_place">Third Place</option>
           </select>
         </div>
         <div className="filter-group">
@@ -196,6 +217,20 @@ export default function Results() {
                 {match.status === "scheduled" && (
                   <span className="status-badge scheduled">Results</span>
                 )}
+                {match.status === "pending_confirmation" && (
+                  <span className="status-badge pending_confirmation">
+                    Awaiting confirmation
+                  </span>
+                )}
+                {match.status === "disputed" && (
+                  <span className="status-badge disputed">Disputed</span>
+                )}
+                {match.status === "completed" &&
+                  match.result_type !== "normal" && (
+                    <span className={`result-type-badge ${match.result_type}`}>
+                      {MATCH_RESULT_LABELS[match.result_type]}
+                    </span>
+                  )}
               </div>
             </Link>
           ))}
@@ -206,23 +241,15 @@ export default function Results() {
 }
 
 function getSetScore(match: MatchWithPlayers): string {
-  let p1Sets = 0;
-  let p2Sets = 0;
-
-  if (match.set1_p1 !== null && match.set1_p2 !== null) {
-    if (match.set1_p1 > match.set1_p2) p1Sets++;
-    else p2Sets++;
-  }
-  if (match.set2_p1 !== null && match.set2_p2 !== null) {
-    if (match.set2_p1 > match.set2_p2) p1Sets++;
-    else p2Sets++;
-  }
-  if (match.set3_p1 !== null && match.set3_p2 !== null) {
-    if (match.set3_p1 > match.set3_p2) p1Sets++;
-    else p2Sets++;
+  if (isUnplayedResult(match)) {
+    return MATCH_RESULT_LABELS[match.result_type];
   }
 
-  return `${p1Sets} - ${p2Sets}`;
+  const [p1Sets, p2Sets] = countSetsWon(match.set_scores);
+
+  return match.result_type === "retired"
+    ? `${p1Sets} - ${p2Sets} ret.`
+    : `${p1Sets} - ${p2Sets}`;
 }
 
 function formatPhase(phase: string): string {
@@ -233,5 +260,5 @@ function formatPhase(phase: string): string {
     semifinal: "Semifinal",
     final: "Final",
   };
-  return phases[phase] || phase;
+  return phases[phase] || getRoundLabel(phase);
 }
@@ -0,0 +1,25 @@
+import type { Route } from "./+types/schedule.ics";
+import {
+  calendarResponse,
+  loadCalendarEvents,
+  renderCalendar,
+} from "~/lib/calendar.server";
+import { resolveSeason } from "~/lib/seasons.server";
+import { createSupabaseServerClient } from "~/lib/supabase.server";
+
+// Every booked match and deadline in the season, for calendar subscriptions
+export async function loader({ request }: Route.LoaderArgs) {
+  const { supabase } = createSupabaseServerClient(request);
+  const { season } = await resolveSeason(supabase, request);
+
+  const events = await loadCalendarEvents(
+    supabase,
+    season,
+    new URL(request.url).origin,
+  );
+
+  return calendarResponse(
+    renderCalendar(`PD Table Tennis: ${season.name}`, events),
+    "pd-table-tennis.ics",
+  );
+}
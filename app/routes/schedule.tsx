@@ -0,0 +1,264 @@
+import {
+  Link,
+  useLoaderData,
+  useOutletContext,
+  useSearchParams,
+} from "react-router";
+import { SeasonSelector } from "~/components/season/SeasonSelector";
+import { getRoundLabel } from "~/lib/bracket";
+import {
+  addDays,
+  formatScheduleTime,
+  getMatchDeadline,
+  getWeekStart,
+  isOverdue,
+  parseScheduleSettings,
+  toDateKey,
+} from "~/lib/schedule";
+import { resolveSeason } from "~/lib/seasons.server";
+import { createSupabaseServerClient } from "~/lib/supabase.server";
+import type { AppUser, MatchWithPlayers } from "~/lib/types";
+import type { Route } from "./+types/schedule";
+
+export function meta() {
+  return [
+    { title: "Schedule | PD Table Tennis" },
+    { name: "description", content: "Upcoming matches by day and table" },
+  ];
+}
+
+export async function loader({ request }: Route.LoaderArgs) {
+  const { supabase } = createSupabaseServerClient(request);
+  const url = new URL(request.url);
+  const { season, seasons, isArchived } = await resolveSeason(
+    supabase,
+    request,
+  );
+
+  const { data: settings } = await supabase
+    .from("tournament_settings")
+    .select("league_deadline, schedule_settings")
+    .eq("season_id", season.id)
+    .single();
+  const scheduleSettings = parseScheduleSettings(settings?.schedule_settings);
+  const timeZone = scheduleSettings.time_zone;
+
+  // Days run midnight to midnight in the tournament's time zone
+  const weekParam = url.searchParams.get("week");
+  const weekStart = getWeekStart(
+    weekParam && !Number.isNaN(Date.parse(`${weekParam}T00:00:00Z`))
+      ? weekParam
+      : toDateKey(new Date(), timeZone),
+  );
+
+  const { data: matches } = await supabase
+    .from("matches")
+    .select(
+      `
+      *,
+      player1:players!matches_player1_id_fkey(*),
+      player2:players!matches_player2_id_fkey(*)
+    `,
+    )
+    .eq("season_id", season.id)
+    .eq("status", "scheduled")
+    .order("scheduled_at", { ascending: true });
+
+  const openMatches = ((matches as MatchWithPlayers[]) || []).map((match) => {
+    const deadline = getMatchDeadline(
+      match.phase,
+      scheduleSettings,
+      settings?.league_deadline ?? null,
+    );
+    return {
+      ...match,
+      deadline,
+      overdue: isOverdue(match, deadline, timeZone),
+    };
+  });
+
+  const weekEnd = addDays(weekStart, 7);
+  const days = Array.from({ length: 7 }, (_, i) => {
+    const day = addDays(weekStart, i);
+    return {
+      key: day,
+      label: new Date(`${day}T00:00:00Z`).toLocaleDateString("en-GB", {
+        weekday: "short",
+        day: "numeric",
+        month: "short",
+        timeZone: "UTC",
+      }),
+      matches: openMatches.filter(
+        (m) =>
+          m.scheduled_at &&
+          toDateKey(new Date(m.scheduled_at), timeZone) === day,
+      ),
+    };
+  });
+
+  return {
+    season,
+    seasons,
+    isArchived,
+    days,
+    weekStart,
+    previousWeek: addDays(weekStart, -7),
+    nextWeek: weekEnd,
+    overdue: openMatches.filter((m) => m.overdue),
+    unbooked: openMatches.filter((m) => !m.scheduled_at),
+    tables: scheduleSettings.tables,
+    timeZone,
+  };
+}
+
+export default function Schedule() {
+  const {
+    season,
+    seasons,
+    isArchived,
+    days,
+    weekStart,
+    previousWeek,
+    nextWeek,
+    overdue,
+    unbooked,
+    tables,
+    timeZone,
+  } = useLoaderData<typeof loader>();
+  const { user } = useOutletContext<{ user: AppUser | null }>();
+  const [searchParams] = useSearchParams();
+
+  const canEdit =
+    !isArchived && (user?.role === "admin" || user?.role === "editor");
+  const bookedCount = days.reduce((sum, day) => sum + day.matches.length, 0);
+
+  function weekLink(week: string) {
+    const params = new URLSearchParams(searchParams);
+    params.set("week", week);
+    return `/schedule?${params.toString()}`;
+  }
+
+  return (
+    <main className="page">
+      <div className="page-header">
+        <h1>Schedule</h1>
+        <p>
+          {bookedCount} {bookedCount === 1 ? "match" : "matches"} booked this
+          week across {tables.length} {tables.length === 1 ? "table" : "tables"}
+          , times in {timeZone}
+        </p>
+      </div>
+
+      <SeasonSelector season={season} seasons={seasons} />
+
+      <div className="results-actions">
+        {canEdit && (
+          <Link to="/editor/schedule" className="btn btn-primary">
+            Book Matches
+          </Link>
+        )}
+        <a
+          href={
+            season.is_active
+              ? "/schedule.ics"
+              : `/schedule.ics?season=${season.id}`
+          }
+          className="btn btn-secondary"
+          title="Subscribe to this link in your calendar app"
+        >
+          Calendar Feed
+        </a>
+      </div>
+
+      <div className="schedule-nav">
+        <Link to={weekLink(previousWeek)} className="btn btn-secondary">
+          ← Previous week
+        </Link>
+        <span className="schedule-week">Week of {weekStart}</span>
+        <Link to={weekLink(nextWeek)} className="btn btn-secondary">
+          Next week →
+        </Link>
+      </div>
+
+      <div className="schedule-grid">
+        {days.map((day) => (
+          <section key={day.key} className="schedule-day">
+            <h2 className="schedule-day-label">{day.label}</h2>
+            {day.matches.length === 0 ? (
+              <p className="schedule-empty">No matches</p>
+            ) : (
+              day.matches.map((match) => (
+                <Link
+                  key={match.id}
+                  to={`/match/${match.id}`}
+                  className={`schedule-slot ${match.overdue ? "overdue" : ""}`}
+                >
+                  <span className="schedule-time">
+                    {new Date(match.scheduled_at!).toLocaleTimeString("en-GB", {
+                      hour: "2-digit",
+                      minute: "2-digit",
+                      timeZone,
+                    })}
+                  </span>
+                  <span className="schedule-table">{match.table_label}</span>
+                  <span className="schedule-players">
+                    {match.player1.name} vs {match.player2.name}
+                  </span>
+                  <span className="schedule-phase">
+                    {formatPhase(match.phase)}
+                    {match.overdue && (
+                      <span className="overdue-badge">Overdue</span>
+                    )}
+                  </span>
+                </Link>
+              ))
+            )}
+          </section>
+        ))}
+      </div>
+
+      {overdue.length > 0 && (
+        <section className="schedule-section">
+          <h2>Overdue ({overdue.length})</h2>
+          <ul className="schedule-list">
+            {overdue.map((match) => (
+              <li key={match.id}>
+                <Link to={`/match/${match.id}`}>
+                  {match.player1.name} vs {match.player2.name}
+                </Link>{" "}
+                <span className="schedule-meta">
+                  {formatPhase(match.phase)}, due {match.deadline}
+                  {match.scheduled_at &&
+                    `, booked ${formatScheduleTime(match.scheduled_at, timeZone)}`}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {unbooked.length > 0 && (
+        <section className="schedule-section">
+          <h2>Not Yet Booked ({unbooked.length})</h2>
+          <ul className="schedule-list">
+            {unbooked.map((match) => (
+              <li key={match.id}>
+                <Link to={`/match/${match.id}`}>
+                  {match.player1.name} vs {match.player2.name}
+                </Link>{" "}
+                <span className="schedule-meta">
+                  {formatPhase(match.phase)}
+                  {match.deadline && `, due ${match.deadline}`}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+    </main>
+  );
+}
+
+function formatPhase(phase: string): string {
+  return phase === "league" ? "League" : getRoundLabel(phase);
+}
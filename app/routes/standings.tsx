@@ -1,11 +1,49 @@
 import { useMemo, useState } from "react";
-import { Link, useLoaderData } from "react-router";
+import {
+  Link,
+  useFetcher,
+  useLoaderData,
+  type ShouldRevalidateFunctionArgs,
+} from "react-router";
+import { SeasonSelector } from "~/components/season/SeasonSelector";
+import {
+  describeBracketFormat,
+  formatSeedRange,
+  getKnockoutRounds,
+  getRoundLabel,
+  parseBracketFormat,
+} from "~/lib/bracket";
+import {
+  describeLeagueFormat,
+  hasScheduledLeagueMatches,
+  parseLeagueFormat,
+} from "~/lib/league-format";
+import { getMatchFormat, parseMatchFormats } from "~/lib/match-format";
+import {
+  calculateQualificationStatuses,
+  simulateStandings,
+} from "~/lib/scenarios.server";
+import { resolveSeason } from "~/lib/seasons.server";
+import {
+  generateUnplayedLeagueMatchups,
+  type MatchPairInput,
+} from "~/lib/suggestions";
 import { createSupabaseServerClient } from "~/lib/supabase.server";
 import {
+  calculateGroupStandings,
+  calculateSeedingStandings,
   calculateStandings,
   deriveStandingsQualification,
 } from "~/lib/tournament.server";
-import type { MatchWithPlayers, Player } from "~/lib/types";
+import type {
+  MatchWithPlayers,
+  Player,
+  PlayerStanding,
+  QualificationStatus,
+  SimulatedOutcome,
+  StandingsQualification,
+  SwissBye,
+} from "~/lib/types";
 import type { Route } from "./+types/standings";
 
 export function meta() {
@@ -15,16 +53,31 @@ export function meta() {
   ];
 }
 
-export async function loader({ request }: Route.LoaderArgs) {
-  const { supabase } = createSupabaseServerClient(request);
+/**
+ * Players, league matches, Swiss byes and formats for a season, shared by the table and
+ * the what-if simulator.
+ */
+async function loadLeague(
+  supabase: ReturnType<typeof createSupabaseServerClient>["supabase"],
+  seasonId: string,
+) {
+  const { data: settings } = await supabase
+    .from("tournament_settings")
+    .select("bracket_format, league_format, match_formats")
+    .eq("season_id", seasonId)
+    .single();
+  const format = parseBracketFormat(settings?.bracket_format);
+  const leagueFormat = parseLeagueFormat(settings?.league_format);
 
   // Get all players
   const { data: players } = await supabase
     .from("players")
     .select("*")
+    .eq("season_id", seasonId)
     .order("name");
 
-  // Get all completed league matches
+  // Get all league matches. Only completed ones count; scheduled group
+  // fixtures tell us who is in which group.
   const { data: matches } = await supabase
     .from("matches")
     .select(
@@ -34,30 +87,163 @@ export async function loader({ request }: Route.LoaderArgs) {
       player2:players!matches_player2_id_fkey(*)
     `,
     )
-    .eq("phase", "league")
-    .eq("status", "completed");
+    .eq("season_id", seasonId)
+    .eq("phase", "league");
 
-  const standings = calculateStandings(
+  const { data: swissByes } = await supabase
+    .from("swiss_byes")
+    .select("*")
+    .eq("season_id", seasonId);
+
+  const leagueMatches = (matches as MatchWithPlayers[]) || [];
+
+  // Swiss leagues and group stages only have their scheduled fixtures to play
+  const remaining: MatchPairInput[] = generateUnplayedLeagueMatchups(
     (players as Player[]) || [],
-    (matches as MatchWithPlayers[]) || [],
+    leagueMatches.filter((m) => m.status === "completed"),
+    hasScheduledLeagueMatches(leagueFormat)
+      ? leagueMatches.filter((m) => m.status === "scheduled")
+      : undefined,
+  ).map(({ player1, player2 }) => ({
+    player1_id: player1.id,
+    player2_id: player2.id,
+  }));
+
+  return {
+    players: (players as Player[]) || [],
+    matches: leagueMatches,
+    swissByes: (swissByes as SwissBye[]) || [],
+    remaining,
+    format,
+    leagueFormat,
+    bestOf: getMatchFormat(parseMatchFormats(settings?.match_formats), "league")
+      .best_of,
+  };
+}
+
+export async function loader({ request }: Route.LoaderArgs) {
+  const { supabase } = createSupabaseServerClient(request);
+  const { season, seasons } = await resolveSeason(supabase, request);
+  const { players, matches, swissByes, remaining, format, leagueFormat } =
+    await loadLeague(supabase, season.id);
+
+  const standings = calculateStandings(
+    players,
+    matches,
+    leagueFormat,
+    swissByes,
+  );
+  const groups =
+    leagueFormat.mode === "groups"
+      ? calculateGroupStandings(players, matches, leagueFormat)
+      : [];
+  const qualification = deriveStandingsQualification(
+    calculateSeedingStandings(players, matches, leagueFormat, swissByes),
+    format,
+  );
+  const statuses = calculateQualificationStatuses(
+    players,
+    matches,
+    remaining,
+    leagueFormat,
+    format,
   );
-  const qualification = deriveStandingsQualification(standings);
 
   // Get unique departments for filter
   const departments = [
     ...new Set(
-      (players as Player[])
-        ?.map((p) => p.department)
-        .filter((d): d is string => d !== null),
+      players.map((p) => p.department).filter((d): d is string => d !== null),
     ),
   ].sort();
 
-  return { standings, departments, qualification };
+  const nameById = new Map(players.map((p) => [p.id, p.name]));
+
+  return {
+    standings,
+    groups,
+    departments,
+    qualification,
+    statuses,
+    remainingPairs: remaining.map((pair) => ({
+      player1: {
+        id: pair.player1_id,
+        name: nameById.get(pair.player1_id) || "",
+      },
+      player2: {
+        id: pair.player2_id,
+        name: nameById.get(pair.player2_id) || "",
+      },
+    })),
+    format,
+    leagueFormat,
+    season,
+    seasons,
+  };
+}
+
+// What-if simulator: re-run the table with hypothetical results. Nothing is
+// saved. Each outcome is "player1Id:player2Id:winnerId".
+export async function action({ request }: Route.ActionArgs) {
+  const { supabase } = createSupabaseServerClient(request);
+  const { season } = await resolveSeason(supabase, request);
+  const formData = await request.formData();
+
+  const outcomes: SimulatedOutcome[] = formData
+    .getAll("outcome")
+    .map((value) => String(value).split(":"))
+    .filter((parts) => parts.length === 3)
+    .map(([player1Id, player2Id, winnerId]) => ({
+      player1Id,
+      player2Id,
+      winnerId,
+    }));
+
+  const {
+    players,
+    matches,
+    swissByes,
+    remaining,
+    format,
+    leagueFormat,
+    bestOf,
+  } = await loadLeague(supabase, season.id);
+
+  return simulateStandings(
+    players,
+    matches,
+    remaining,
+    outcomes,
+    leagueFormat,
+    format,
+    bestOf,
+    swissByes,
+  );
+}
+
+// Simulations don't change any data, so the table doesn't need reloading
+export function shouldRevalidate({
+  formMethod,
+  defaultShouldRevalidate,
+}: ShouldRevalidateFunctionArgs) {
+  return formMethod === "POST" ? false : defaultShouldRevalidate;
 }
 
 export default function Standings() {
-  const { standings, departments, qualification } =
-    useLoaderData<typeof loader>();
+  const {
+    standings,
+    groups,
+    departments,
+    qualification,
+    statuses,
+    remainingPairs,
+    format,
+    leagueFormat,
+    season,
+    seasons,
+  } = useLoaderData<typeof loader>();
+  const isSwiss = leagueFormat.mode === "swiss";
+  const isGroups = leagueFormat.mode === "groups" && groups.length > 0;
+  const byeRound = getKnockoutRounds(format).find((round) => round.byesEnter);
   const [selectedDepartment, setSelectedDepartment] = useState<string>("");
 
   const filteredStandings = useMemo(() => {
@@ -65,13 +251,27 @@ export default function Standings() {
     return standings.filter((s) => s.player.department === selectedDepartment);
   }, [standings, selectedDepartment]);
 
+  const filteredGroups = useMemo(() => {
+    if (!selectedDepartment) return groups;
+    return groups.map((group) => ({
+      ...group,
+      standings: group.standings.filter(
+        (s) => s.player.department === selectedDepartment,
+      ),
+    }));
+  }, [groups, selectedDepartment]);
+
   return (
     <main className="page">
       <div className="page-header">
         <h1>League Standings</h1>
-        <p>Top 10 qualify for playoffs. 1st and 2nd get byes to semifinals.</p>
+        <p>
+          {describeLeagueFormat(leagueFormat)} · {describeBracketFormat(format)}
+        </p>
       </div>
 
+      <SeasonSelector season={season} seasons={seasons} />
+
       {departments.length > 0 && (
         <div className="filter-bar">
           <label htmlFor="department-filter">Department:</label>
@@ -97,86 +297,46 @@ export default function Standings() {
             ? "No players registered yet."
             : "No players in this department."}
         </p>
-      ) : (
-        <div className="standings-table-container">
-          <table className="data-table standings-table">
-            <thead>
-              <tr>
-                <th className="text-center">#</th>
-                <th>Player</th>
-                <th className="text-center hide-mobile">Tier</th>
-                <th className="text-center">P</th>
-                <th className="text-center">W</th>
-                <th className="text-center">L</th>
-                <th className="text-right">Pts</th>
-                <th className="text-center hide-mobile">Sets</th>
-                <th className="text-center hide-mobile">Diff</th>
-              </tr>
-            </thead>
-            <tbody>
-              {filteredStandings.map((standing) => (
-                <tr
-                  key={standing.player.id}
-                  className={getRowClass(standing.player.id, qualification)}
-                >
-                  <td className="text-center rank-cell">
-                    <span
-                      className={`rank-badge ${getRankClass(
-                        standing.player.id,
-                        qualification,
-                      )}`}
-                    >
-                      {standing.rank}
-                    </span>
-                  </td>
-                  <td>
-                    <Link
-                      to={`/player/${standing.player.id}`}
-                      className={`player-link ${
-                        standing.player.disqualified_from_qualification
-                          ? "player-link-disqualified"
-                          : ""
-                      }`}
-                    >
-                      {standing.player.name}
-                      {standing.player.disqualified_from_qualification && (
-                        <sup className="standings-note-marker">
-                          {getNoteNumber(standing.player.id, qualification)}
-                        </sup>
-                      )}
-                    </Link>
-                  </td>
-                  <td className="text-center hide-mobile">
-                    <span className={`tier-badge tier-${standing.player.tier}`}>
-                      {standing.player.tier}
-                    </span>
-                  </td>
-                  <td className="text-center">{standing.matchesPlayed}</td>
-                  <td className="text-center">{standing.wins}</td>
-                  <td className="text-center">{standing.losses}</td>
-                  <td className="text-right points-cell">{standing.points}</td>
-                  <td className="text-center hide-mobile">
-                    {standing.setsWon}-{standing.setsLost}
-                  </td>
-                  <td className="text-center hide-mobile">
-                    {standing.setDiff > 0
-                      ? `+${standing.setDiff}`
-                      : standing.setDiff}
-                  </td>
-                </tr>
-              ))}
-            </tbody>
-          </table>
+      ) : isGroups ? (
+        <div className="group-standings">
+          {filteredGroups.map((group) => (
+            <section key={group.group} className="group-standings-section">
+              <h2>Group {group.group}</h2>
+              {group.standings.length === 0 ? (
+                <p className="empty">No players in this department.</p>
+              ) : (
+                <StandingsTable
+                  standings={group.standings}
+                  qualification={qualification}
+                  statuses={statuses}
+                  showSwissColumns={false}
+                />
+              )}
+            </section>
+          ))}
         </div>
+      ) : (
+        <StandingsTable
+          standings={filteredStandings}
+          qualification={qualification}
+          statuses={statuses}
+          showSwissColumns={isSwiss}
+        />
       )}
 
       <div className="standings-legend">
+        {byeRound && (
+          <div className="legend-item">
+            <span className="rank-badge rank-semifinal">
+              {formatSeedRange(format.bye_pattern)}
+            </span>
+            <span>Bye to {getRoundLabel(byeRound.phase).toLowerCase()}</span>
+          </div>
+        )}
         <div className="legend-item">
-          <span className="rank-badge rank-semifinal">1-2</span>
-          <span>Direct to semifinals</span>
-        </div>
-        <div className="legend-item">
-          <span className="rank-badge rank-knockout">3-10</span>
+          <span className="rank-badge rank-knockout">
+            {formatSeedRange(format.seeding_pattern)}
+          </span>
           <span>Knockout round</span>
         </div>
         <div className="legend-item">
@@ -187,6 +347,13 @@ export default function Standings() {
           <span className="legend-disqualified-name">Disqualified</span>
           <span>Stats count, but qualification passes down</span>
         </div>
+        {Object.keys(statuses).length > 0 && (
+          <div className="legend-item">
+            <span className="qualification-status clinched">Clinched</span>
+            <span className="qualification-status eliminated">Eliminated</span>
+            <span>Decided whatever the remaining results</span>
+          </div>
+        )}
       </div>
 
       {qualification.noteEntries.length > 0 && (
@@ -202,15 +369,49 @@ export default function Standings() {
         </section>
       )}
 
+      {remainingPairs.length > 0 && (
+        <WhatIfSimulator
+          remainingPairs={remainingPairs}
+          actionPath={
+            season.is_active ? "/standings" : `/standings?season=${season.id}`
+          }
+          showSwissColumns={isSwiss}
+        />
+      )}
+
       <section className="standings-tiebreak">
         <h2>Tie-break rules</h2>
-        <ol>
-          <li>Higher league points</li>
-          <li>Head-to-head wins (only among tied players)</li>
-          <li>More matches played</li>
-          <li>Better set difference</li>
-          <li>More total points scored (in sets)</li>
-        </ol>
+        {isSwiss ? (
+          <ol>
+            <li>Higher league points</li>
+            <li>Higher Buchholz (sum of all your opponents' points)</li>
+            <li>
+              Higher Sonneborn-Berger (sum of the points of the opponents you
+              beat)
+            </li>
+            <li>Head-to-head wins (only among tied players)</li>
+            <li>Better set difference</li>
+            <li>More total points scored (in sets)</li>
+          </ol>
+        ) : (
+          <ol>
+            <li>Higher league points</li>
+            <li>Head-to-head wins (only among tied players)</li>
+            <li>More matches played</li>
+            <li>Better set difference</li>
+            <li>More total points scored (in sets)</li>
+          </ol>
+        )}
+        {isGroups && (
+          <p>
+            These rules rank players within their group. The top{" "}
+            {leagueFormat.advance_per_group} of each group go through; knockout
+            seeds go to the group winners first, then the runners-up, and so on,
+            each ranked against the others by points, set difference and points
+            scored. Players from the same group are kept apart in the first
+            knockout round where possible.
+          </p>
+        )}
       </section>
 
       <section className="standings-tiebreak">
@@ -265,24 +466,305 @@ export default function Standings() {
           </p>
         </div>
 
-        <div className="faq-item">
-          <h3>Can playing more matches help in ties?</h3>
-          <p>
-            Yes. After head-to-head, more matches played is the next rule.
-            Example: two players tied on points and head-to-head, with 8 matches
-            vs 7 matches played; the player with 8 is ranked higher.
-          </p>
-        </div>
+        {isGroups && (
+          <div className="faq-item">
+            <h3>How were the groups drawn?</h3>
+            <p>
+              Tiers are used as pots. Players are shuffled within their tier and
+              dealt out across the groups, so every group gets a similar mix.
+              Example: with 4 groups, each group gets one of the first four Tier
+              1 players before anyone gets a second.
+            </p>
+          </div>
+        )}
+
+        {isSwiss ? (
+          <div className="faq-item">
+            <h3>How are Swiss rounds paired?</h3>
+            <p>
+              Each round pairs players on similar league points who haven't met
+              yet. Example: after round 2, the player in 1st meets the highest
+              player below them they haven't played. With an odd number of
+              players, the lowest-placed player who hasn't sat out yet gets a
+              bye. Once the round is complete, the bye counts as a win worth the
+              points for beating a player of their own tier.
+            </p>
+          </div>
+        ) : (
+          <div className="faq-item">
+            <h3>Can playing more matches help in ties?</h3>
+            <p>
+              Yes. After head-to-head, more matches played is the next rule.
+              Example: two players tied on points and head-to-head, with 8
+              matches vs 7 matches played; the player with 8 is ranked higher.
+            </p>
+          </div>
+        )}
       </section>
     </main>
   );
 }
 
+/**
+ * Pick winners for the league pairs still to play and see the table those
+ * results would give. Choices are kept in state so filtering by player
+ * doesn't lose them; every change re-runs the table on the server.
+ */
+function WhatIfSimulator({
+  remainingPairs,
+  actionPath,
+  showSwissColumns,
+}: {
+  remainingPairs: Route.ComponentProps["loaderData"]["remainingPairs"];
+  actionPath: string;
+  showSwissColumns: boolean;
+}) {
+  const fetcher = useFetcher<typeof action>();
+  const [outcomes, setOutcomes] = useState<Record<string, string>>({});
+  const [playerFilter, setPlayerFilter] = useState("");
+
+  const players = useMemo(() => {
+    const byId = new Map(
+      remainingPairs.flatMap((pair) => [
+        [pair.player1.id, pair.player1],
+        [pair.player2.id, pair.player2],
+      ]),
+    );
+    return Array.from(byId.values()).sort((a, b) =>
+      a.name.localeCompare(b.name),
+    );
+  }, [remainingPairs]);
+
+  const visiblePairs = playerFilter
+    ? remainingPairs.filter(
+        (pair) =>
+          pair.player1.id === playerFilter || pair.player2.id === playerFilter,
+      )
+    : remainingPairs;
+
+  const simulate = (next: Record<string, string>) => {
+    setOutcomes(next);
+
+    const formData = new FormData();
+    for (const [pairKey, winnerId] of Object.entries(next)) {
+      formData.append("outcome", `${pairKey}:${winnerId}`);
+    }
+    fetcher.submit(formData, { method: "post", action: actionPath });
+  };
+
+  const setOutcome = (pairKey: string, winnerId: string) => {
+    const next = { ...outcomes };
+    if (winnerId) {
+      next[pairKey] = winnerId;
+    } else {
+      delete next[pairKey];
+    }
+    simulate(next);
+  };
+
+  const chosenCount = Object.keys(outcomes).length;
+  const simulation = chosenCount > 0 ? fetcher.data : undefined;
+
+  return (
+    <section className="what-if">
+      <h2>What if?</h2>
+      <p className="help-text">
+        Pick winners for matches still to play to see how the table and
+        qualification would look. Nothing is saved. Simulated wins count like a
+        walkover: full points and sets, but no rally points.
+      </p>
+
+      <div className="what-if-controls">
+        <select
+          value={playerFilter}
+          onChange={(e) => setPlayerFilter(e.target.value)}
+          className="filter-select"
+          aria-label="Show matches for player"
+        >
+          <option value="">All remaining matches</option>
+          {players.map((player) => (
+            <option key={player.id} value={player.id}>
+              {player.name}
+            </option>
+          ))}
+        </select>
+        {chosenCount > 0 && (
+          <button
+            type="button"
+            className="btn btn-secondary"
+            onClick={() => simulate({})}
+          >
+            Reset ({chosenCount})
+          </button>
+        )}
+      </div>
+
+      <div className="what-if-pairs">
+        {visiblePairs.map((pair) => {
+          const pairKey = `${pair.player1.id}:${pair.player2.id}`;
+          return (
+            <label key={pairKey} className="what-if-pair">
+              <span>
+                {pair.player1.name} vs {pair.player2.name}
+              </span>
+              <select
+                value={outcomes[pairKey] || ""}
+                onChange={(e) => setOutcome(pairKey, e.target.value)}
+                className="form-select"
+              >
+                <option value="">Not played</option>
+                <option value={pair.player1.id}>
+                  {pair.player1.name} wins
+                </option>
+                <option value={pair.player2.id}>
+                  {pair.player2.name} wins
+                </option>
+              </select>
+            </label>
+          );
+        })}
+      </div>
+
+      {simulation && (
+        <div
+          className={`what-if-result ${fetcher.state !== "idle" ? "loading" : ""}`}
+        >
+          <h3>Simulated table</h3>
+          <StandingsTable
+            standings={simulation.standings}
+            qualification={simulation.qualification}
+            showSwissColumns={showSwissColumns}
+          />
+        </div>
+      )}
+    </section>
+  );
+}
+
+const QUALIFICATION_STATUS_LABELS: Record<QualificationStatus, string> = {
+  clinched: "Clinched",
+  eliminated: "Eliminated",
+  alive: "Still alive",
+};
+
+function StandingsTable({
+  standings,
+  qualification,
+  statuses,
+  showSwissColumns,
+}: {
+  standings: PlayerStanding[];
+  qualification: StandingsQualification;
+  statuses?: Record<string, QualificationStatus>;
+  showSwissColumns: boolean;
+}) {
+  return (
+    <div className="standings-table-container">
+      <table className="data-table standings-table">
+        <thead>
+          <tr>
+            <th className="text-center">#</th>
+            <th>Player</th>
+            <th className="text-center hide-mobile">Tier</th>
+            <th className="text-center">P</th>
+            <th className="text-center">W</th>
+            <th className="text-center">L</th>
+            <th className="text-right">Pts</th>
+            {showSwissColumns && (
+              <>
+                <th className="text-center" title="Buchholz">
+                  Bu
+                </th>
+                <th
+                  className="text-center hide-mobile"
+                  title="Sonneborn-Berger"
+                >
+                  SB
+                </th>
+              </>
+            )}
+            <th className="text-center hide-mobile">Sets</th>
+            <th className="text-center hide-mobile">Diff</th>
+          </tr>
+        </thead>
+        <tbody>
+          {standings.map((standing) => (
+            <tr
+              key={standing.player.id}
+              className={getRowClass(standing.player.id, qualification)}
+            >
+              <td className="text-center rank-cell">
+                <span
+                  className={`rank-badge ${getRankClass(
+                    standing.player.id,
+                    qualification,
+                  )}`}
+                >
+                  {standing.rank}
+                </span>
+              </td>
+              <td>
+                <Link
+                  to={`/player/${standing.player.id}`}
+                  className={`player-link ${
+                    standing.player.disqualified_from_qualification
+                      ? "player-link-disqualified"
+                      : ""
+                  }`}
+                >
+                  {standing.player.name}
+                  {standing.player.disqualified_from_qualification && (
+                    <sup className="standings-note-marker">
+                      {getNoteNumber(standing.player.id, qualification)}
+                    </sup>
+                  )}
+                </Link>
+                {statuses?.[standing.player.id] && (
+                  <span
+                    className={`qualification-status ${statuses[standing.player.id]}`}
+                  >
+                    {QUALIFICATION_STATUS_LABELS[statuses[standing.player.id]]}
+                  </span>
+                )}
+              </td>
+              <td className="text-center hide-mobile">
+                <span className={`tier-badge tier-${standing.player.tier}`}>
+                  {standing.player.tier}
+                </span>
+              </td>
+              <td className="text-center">{standing.matchesPlayed}</td>
+              <td className="text-center">{standing.wins}</td>
+              <td className="text-center">{standing.losses}</td>
+              <td className="text-right points-cell">{standing.points}</td>
+              {showSwissColumns && (
+                <>
+                  <td className="text-center">{standing.buchholz}</td>
+                  <td className="text-center hide-mobile">
+                    {standing.sonnebornBerger}
+                  </td>
+                </>
+              )}
+              <td className="text-center hide-mobile">
+                {standing.setsWon}-{standing.setsLost}
+              </td>
+              <td className="text-center hide-mobile">
+                {standing.setDiff > 0
+                  ? `+${standing.setDiff}`
+                  : standing.setDiff}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
 function getRowClass(
   playerId: string,
   qualification: Route.ComponentProps["loaderData"]["qualification"],
 ): string {
-  if (qualification.semifinalPlayerIds.includes(playerId))
+  if (qualification.byePlayerIds.includes(playerId))
     return "row-semifinal";
   if (qualification.knockoutPlayerIds.includes(playerId)) return "row-knockout";
   return "";
@@ -292,7 +774,7 @@ function getRankClass(
   playerId: string,
   qualification: Route.ComponentProps["loaderData"]["qualification"],
 ): string {
-  if (qualification.semifinalPlayerIds.includes(playerId)) {
+  if (qualification.byePlayerIds.includes(playerId)) {
     return "rank-semifinal";
   }
   if (qualification.knockoutPlayerIds.includes(playerId))
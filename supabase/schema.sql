@@ -1,6 +1,29 @@
 -- PD Table Tennis Tournament Schema
 -- Run this in Supabase SQL Editor
 
+-- Seasons (one active; past seasons are kept read-only)
+CREATE TABLE IF NOT EXISTS seasons (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_seasons_single_active
+  ON seasons(is_active) WHERE is_active;
+
+-- Create the first season when upgrading an existing single-season database
+INSERT INTO seasons (name, is_active)
+SELECT 'Season 1', true
+WHERE NOT EXISTS (SELECT 1 FROM seasons);
+
+-- Default season for new rows
+CREATE OR REPLACE FUNCTION active_season_id()
+RETURNS UUID AS $$
+  SELECT id FROM seasons WHERE is_active LIMIT 1;
+$$ LANGUAGE sql STABLE;
+
 -- Players (tournament participants)
 CREATE TABLE IF NOT EXISTS players (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -20,6 +43,30 @@ ALTER TABLE players
 ALTER TABLE players
   ADD COLUMN IF NOT EXISTS disqualification_note TEXT;
 
+-- Players belong to a season; person_id links the same person across seasons
+ALTER TABLE players
+  ADD COLUMN IF NOT EXISTS season_id UUID REFERENCES seasons(id) ON DELETE CASCADE;
+
+UPDATE players SET season_id = active_season_id() WHERE season_id IS NULL;
+
+ALTER TABLE players
+  ALTER COLUMN season_id SET DEFAULT active_season_id(),
+  ALTER COLUMN season_id SET NOT NULL;
+
+ALTER TABLE players
+  ADD COLUMN IF NOT EXISTS person_id UUID NOT NULL DEFAULT gen_random_uuid();
+
+-- Tier the player's rating starts from, fixed when the player is added so
+-- later tier changes don't rewrite their rating history. Filled from tier by
+-- the set_players_starting_tier trigger.
+ALTER TABLE players
+  ADD COLUMN IF NOT EXISTS starting_tier INTEGER CHECK (starting_tier >= 1 AND starting_tier <= 4);
+
+UPDATE players SET starting_tier = tier WHERE starting_tier IS NULL;
+
+ALTER TABLE players
+  ALTER COLUMN starting_tier SET NOT NULL;
+
 -- Users (authenticated app users, linked to Supabase Auth)
 CREATE TABLE IF NOT EXISTS users (
   id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
@@ -32,9 +79,10 @@ CREATE TABLE IF NOT EXISTS users (
   updated_at TIMESTAMPTZ DEFAULT NOW()
 );
 
--- Tournament settings (singleton table - only one row allowed)
+-- Tournament settings (one row per season)
 CREATE TABLE IF NOT EXISTS tournament_settings (
-  id INTEGER PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+  id SERIAL PRIMARY KEY,
+  season_id UUID REFERENCES seasons(id) ON DELETE CASCADE DEFAULT active_season_id(),
   name TEXT NOT NULL DEFAULT 'PD Table Tennis',
   league_deadline DATE,
   is_active BOOLEAN DEFAULT true,
@@ -42,26 +90,56 @@ CREATE TABLE IF NOT EXISTS tournament_settings (
   updated_at TIMESTAMPTZ DEFAULT NOW()
 );
 
--- Insert default tournament settings
-INSERT INTO tournament_settings (id, name)
-VALUES (1, 'PD Table Tennis')
-ON CONFLICT (id) DO NOTHING;
+-- Knockout bracket format: qualifier count, byes and seeding pattern (NULL = default top 10)
+ALTER TABLE tournament_settings
+  ADD COLUMN IF NOT EXISTS bracket_format JSONB;
+
+-- Match format per stage (league, knockout, semifinal, final): sets, points
+-- per set and win-by-two. Stages left out play the default best of 3 to 11.
+ALTER TABLE tournament_settings
+  ADD COLUMN IF NOT EXISTS match_formats JSONB;
+
+-- League format: round robin, a Swiss system with a fixed number of rounds,
+-- or groups feeding the knockout (NULL = round robin)
+ALTER TABLE tournament_settings
+  ADD COLUMN IF NOT EXISTS league_format JSONB;
+
+-- Upgrade the former singleton row (id = 1) to per-season settings
+ALTER TABLE tournament_settings DROP CONSTRAINT IF EXISTS tournament_settings_id_check;
+
+CREATE SEQUENCE IF NOT EXISTS tournament_settings_id_seq OWNED BY tournament_settings.id;
+SELECT setval('tournament_settings_id_seq', GREATEST((SELECT MAX(id) FROM tournament_settings), 1));
+ALTER TABLE tournament_settings
+  ALTER COLUMN id SET DEFAULT nextval('tournament_settings_id_seq');
+
+ALTER TABLE tournament_settings
+  ADD COLUMN IF NOT EXISTS season_id UUID REFERENCES seasons(id) ON DELETE CASCADE;
+
+UPDATE tournament_settings SET season_id = active_season_id() WHERE season_id IS NULL;
+
+ALTER TABLE tournament_settings
+  ALTER COLUMN season_id SET DEFAULT active_season_id(),
+  ALTER COLUMN season_id SET NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tournament_settings_season
+  ON tournament_settings(season_id);
+
+-- Insert default tournament settings for the active season
+INSERT INTO tournament_settings (season_id, name)
+VALUES (active_season_id(), 'PD Table Tennis')
+ON CONFLICT (season_id) DO NOTHING;
 
 -- Matches
 CREATE TABLE IF NOT EXISTS matches (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
   player1_id UUID NOT NULL REFERENCES players(id) ON DELETE CASCADE,
   player2_id UUID NOT NULL REFERENCES players(id) ON DELETE CASCADE,
-  phase TEXT NOT NULL CHECK (phase IN ('league', 'knockout_r1', 'knockout_r2', 'semifinal', 'final')),
-  status TEXT NOT NULL DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'completed')),
+  phase TEXT NOT NULL CHECK (phase IN ('league', 'semifinal', 'final') OR phase ~ '^knockout_r[0-9]+$'),
+  status TEXT NOT NULL DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'completed', 'pending_confirmation', 'disputed')),
   winner_id UUID REFERENCES players(id) ON DELETE SET NULL,
-  -- Set scores (best of 3)
-  set1_p1 INTEGER,
-  set1_p2 INTEGER,
-  set2_p1 INTEGER,
-  set2_p2 INTEGER,
-  set3_p1 INTEGER,
-  set3_p2 INTEGER,
+  -- Set scores: one [player1, player2] pair per set, in the order played
+  set_scores JSONB NOT NULL DEFAULT '[]',
+  best_of INTEGER NOT NULL DEFAULT 3,
   -- Knockout specific
   knockout_position INTEGER,
   -- Audit
@@ -72,6 +150,231 @@ CREATE TABLE IF NOT EXISTS matches (
   CONSTRAINT different_players CHECK (player1_id != player2_id)
 );
 
+ALTER TABLE matches
+  ADD COLUMN IF NOT EXISTS season_id UUID REFERENCES seasons(id) ON DELETE CASCADE;
+
+UPDATE matches SET season_id = active_season_id() WHERE season_id IS NULL;
+
+ALTER TABLE matches
+  ALTER COLUMN season_id SET DEFAULT active_season_id(),
+  ALTER COLUMN season_id SET NOT NULL;
+
+-- Knockout rounds depend on the bracket format (knockout_r1, knockout_r2, ...);
+-- double elimination uses winners_rN, losers_rN and the grand final (reset);
+-- single elimination can add a third-place match
+ALTER TABLE matches DROP CONSTRAINT IF EXISTS matches_phase_check;
+ALTER TABLE matches ADD CONSTRAINT matches_phase_check
+  CHECK (
+    phase IN ('league', 'semifinal', 'final', 'third_place', 'grand_final', 'grand_final_reset')
+    OR phase ~ '^(knockout|winners|losers)_r[0-9]+$'
+  );
+
+-- Players can self-report results; they count once the opponent confirms
+ALTER TABLE matches DROP CONSTRAINT IF EXISTS matches_status_check;
+ALTER TABLE matches ADD CONSTRAINT matches_status_check
+  CHECK (status IN ('scheduled', 'completed', 'pending_confirmation', 'disputed'));
+
+ALTER TABLE matches
+  ADD COLUMN IF NOT EXISTS reported_by_player_id UUID REFERENCES players(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS reported_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS confirmed_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS dispute_reason TEXT;
+
+-- Matches can be decided without being played out: walkover (no-show),
+-- forfeit (conceded or ruled out) or retired (stopped mid-match)
+ALTER TABLE matches
+  ADD COLUMN IF NOT EXISTS result_type TEXT NOT NULL DEFAULT 'normal',
+  ADD COLUMN IF NOT EXISTS result_reason TEXT;
+
+ALTER TABLE matches DROP CONSTRAINT IF EXISTS matches_result_type_check;
+ALTER TABLE matches ADD CONSTRAINT matches_result_type_check
+  CHECK (result_type IN ('normal', 'walkover', 'forfeit', 'retired'));
+
+-- Set scores move from three fixed column pairs (set1_p1 ... set3_p2) to a
+-- list, so matches can be best of 5 or 7. best_of keeps the format a result
+-- was recorded under, so changing the settings later doesn't reinterpret it.
+ALTER TABLE matches
+  ADD COLUMN IF NOT EXISTS set_scores JSONB NOT NULL DEFAULT '[]',
+  ADD COLUMN IF NOT EXISTS best_of INTEGER NOT NULL DEFAULT 3;
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'matches' AND column_name = 'set1_p1'
+  ) THEN
+    UPDATE matches
+    SET set_scores = (
+      SELECT COALESCE(jsonb_agg(jsonb_build_array(s.p1, s.p2) ORDER BY s.num), '[]')
+      FROM (VALUES (1, set1_p1, set1_p2), (2, set2_p1, set2_p2), (3, set3_p1, set3_p2)) AS s(num, p1, p2)
+      WHERE s.p1 IS NOT NULL AND s.p2 IS NOT NULL
+    );
+
+    ALTER TABLE matches
+      DROP COLUMN set1_p1,
+      DROP COLUMN set1_p2,
+      DROP COLUMN set2_p1,
+      DROP COLUMN set2_p2,
+      DROP COLUMN set3_p1,
+      DROP COLUMN set3_p2;
+  END IF;
+END $$;
+
+ALTER TABLE matches DROP CONSTRAINT IF EXISTS matches_set_scores_check;
+ALTER TABLE matches ADD CONSTRAINT matches_set_scores_check
+  CHECK (jsonb_typeof(set_scores) = 'array');
+
+ALTER TABLE matches DROP CONSTRAINT IF EXISTS matches_best_of_check;
+ALTER TABLE matches ADD CONSTRAINT matches_best_of_check
+  CHECK (best_of IN (3, 5, 7));
+
+-- Swiss leagues schedule their league matches one round at a time
+ALTER TABLE matches
+  ADD COLUMN IF NOT EXISTS swiss_round INTEGER CHECK (swiss_round > 0);
+
+-- Swiss byes: the player who sat out each round, written when the round is
+-- paired. A bye counts as a win in the standings.
+CREATE TABLE IF NOT EXISTS swiss_byes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  season_id UUID NOT NULL DEFAULT active_season_id() REFERENCES seasons(id) ON DELETE CASCADE,
+  round INTEGER NOT NULL CHECK (round > 0),
+  player_id UUID NOT NULL REFERENCES players(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT one_bye_per_round UNIQUE (season_id, round)
+);
+
+-- Rounds paired before byes were stored: the bye went to the only player who
+-- was in the season when the round was paired and has no match in it
+INSERT INTO swiss_byes (season_id, round, player_id)
+SELECT r.season_id, r.swiss_round, MIN(p.id::TEXT)::UUID
+FROM (
+  SELECT season_id, swiss_round, MIN(created_at) AS paired_at
+  FROM matches
+  WHERE phase = 'league' AND swiss_round IS NOT NULL
+  GROUP BY season_id, swiss_round
+  HAVING bool_and(status = 'completed')
+) r
+JOIN players p ON p.season_id = r.season_id AND p.created_at <= r.paired_at
+WHERE NOT EXISTS (
+  SELECT 1 FROM matches m
+  WHERE m.season_id = r.season_id
+    AND m.swiss_round = r.swiss_round
+    AND p.id IN (m.player1_id, m.player2_id)
+)
+GROUP BY r.season_id, r.swiss_round
+HAVING COUNT(*) = 1
+ON CONFLICT (season_id, round) DO NOTHING;
+
+-- Group stages draw their league fixtures per group ('A', 'B', ...)
+ALTER TABLE matches
+  ADD COLUMN IF NOT EXISTS group_name TEXT;
+
+-- Scheduling: when and on which table a match is booked. Double bookings of
+-- a player or table are checked by the app. Round robin league matches get a
+-- scheduled row when they are booked.
+ALTER TABLE matches
+  ADD COLUMN IF NOT EXISTS scheduled_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS table_label TEXT;
+
+-- Bookable tables, slot length and knockout round deadlines (NULL = one
+-- table, 30 minute slots, no round deadlines)
+ALTER TABLE tournament_settings
+  ADD COLUMN IF NOT EXISTS schedule_settings JSONB;
+
+-- Player availability: windows in which a player has said they can play.
+-- Players without any windows can be booked at any time.
+CREATE TABLE IF NOT EXISTS player_availability (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  season_id UUID NOT NULL DEFAULT active_season_id() REFERENCES seasons(id) ON DELETE CASCADE,
+  player_id UUID NOT NULL REFERENCES players(id) ON DELETE CASCADE,
+  starts_at TIMESTAMPTZ NOT NULL,
+  ends_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT availability_window_order CHECK (ends_at > starts_at)
+);
+
+-- Outgoing webhooks: URLs that receive a signed JSON POST for the events they
+-- subscribe to. Deliveries keep the exact body sent and every attempt's
+-- outcome for the admin delivery log.
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+CREATE TABLE IF NOT EXISTS webhook_subscriptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  url TEXT NOT NULL CHECK (url ~ '^https?://'),
+  description TEXT,
+  events TEXT[] NOT NULL DEFAULT '{}',
+  secret TEXT NOT NULL DEFAULT encode(gen_random_bytes(32), 'hex'),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  subscription_id UUID NOT NULL REFERENCES webhook_subscriptions(id) ON DELETE CASCADE,
+  event TEXT NOT NULL,
+  data JSONB NOT NULL,
+  body TEXT NOT NULL,
+  signature TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  response_status INTEGER,
+  last_error TEXT,
+  redelivery_of UUID REFERENCES webhook_deliveries(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  last_attempt_at TIMESTAMPTZ
+);
+
+-- Retries are driven from the stored deliveries: next_attempt_at is when a
+-- pending delivery is next due. queued_by may make the first attempt; the
+-- scheduled webhook job (api/cron/webhooks) retries.
+ALTER TABLE webhook_deliveries
+  ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMPTZ DEFAULT NOW(),
+  ADD COLUMN IF NOT EXISTS queued_by UUID REFERENCES users(id) ON DELETE SET NULL;
+
+-- Seasons owed a standings.changed webhook after a league result confirmed by
+-- a player. Players can't send the table, so it waits for the scheduled
+-- webhook job.
+CREATE TABLE IF NOT EXISTS webhook_pending_standings (
+  season_id UUID PRIMARY KEY REFERENCES seasons(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Doubles teams: two players of the same season. A player is in at most one
+-- team per season (checked by the app).
+CREATE TABLE IF NOT EXISTS teams (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  season_id UUID NOT NULL DEFAULT active_season_id() REFERENCES seasons(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  player1_id UUID NOT NULL REFERENCES players(id) ON DELETE CASCADE,
+  player2_id UUID NOT NULL REFERENCES players(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT different_team_players CHECK (player1_id != player2_id)
+);
+
+-- Doubles matches: a league between teams, then semifinals and a final for
+-- the top 4. Kept apart from matches so singles standings and tier points
+-- are unaffected.
+CREATE TABLE IF NOT EXISTS doubles_matches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  season_id UUID NOT NULL DEFAULT active_season_id() REFERENCES seasons(id) ON DELETE CASCADE,
+  team1_id UUID NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  team2_id UUID NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  phase TEXT NOT NULL CHECK (phase IN ('league', 'semifinal', 'final')),
+  status TEXT NOT NULL DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'completed')),
+  winner_team_id UUID REFERENCES teams(id) ON DELETE SET NULL,
+  set_scores JSONB NOT NULL DEFAULT '[]' CHECK (jsonb_typeof(set_scores) = 'array'),
+  best_of INTEGER NOT NULL DEFAULT 3 CHECK (best_of IN (3, 5, 7)),
+  knockout_position INTEGER,
+  recorded_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  recorded_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT different_teams CHECK (team1_id != team2_id)
+);
+
 -- Weekly match recommendations
 CREATE TABLE IF NOT EXISTS weekly_recommendations (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -84,24 +387,140 @@ CREATE TABLE IF NOT EXISTS weekly_recommendations (
   CONSTRAINT different_recommendation_players CHECK (player1_id != player2_id)
 );
 
+ALTER TABLE weekly_recommendations
+  ADD COLUMN IF NOT EXISTS season_id UUID REFERENCES seasons(id) ON DELETE CASCADE;
+
+UPDATE weekly_recommendations SET season_id = active_season_id() WHERE season_id IS NULL;
+
+ALTER TABLE weekly_recommendations
+  ALTER COLUMN season_id SET DEFAULT active_season_id(),
+  ALTER COLUMN season_id SET NOT NULL;
+
+-- Audit log (append-only; written by triggers, never by the app)
+-- actor_id and season_id have no foreign keys so history survives deletes
+CREATE TABLE IF NOT EXISTS audit_log (
+  id BIGSERIAL PRIMARY KEY,
+  table_name TEXT NOT NULL,
+  record_id TEXT NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('create', 'update', 'delete')),
+  before_data JSONB,
+  after_data JSONB,
+  actor_id UUID,
+  actor_email TEXT,
+  season_id UUID,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Trash: snapshots of bulk deletes so an admin can restore them within the
+-- retention window. Rows are copied here as JSON before they are deleted.
+CREATE TABLE IF NOT EXISTS trash (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  season_id UUID NOT NULL REFERENCES seasons(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('player', 'league_matches', 'knockout_matches', 'reset')),
+  label TEXT NOT NULL,
+  players JSONB NOT NULL DEFAULT '[]',
+  matches JSONB NOT NULL DEFAULT '[]',
+  recommendations JSONB NOT NULL DEFAULT '[]',
+  linked_user_ids JSONB NOT NULL DEFAULT '[]',
+  deleted_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  deleted_at TIMESTAMPTZ DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL DEFAULT NOW() + INTERVAL '30 days',
+  restored_at TIMESTAMPTZ
+);
+
+-- Matches trashed before set_scores existed: convert their set columns so they
+-- can still be restored
+UPDATE trash
+SET matches = (
+  SELECT jsonb_agg(
+    (m - 'set1_p1' - 'set1_p2' - 'set2_p1' - 'set2_p2' - 'set3_p1' - 'set3_p2')
+    || jsonb_build_object('set_scores', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_array(s.p1, s.p2) ORDER BY s.num), '[]')
+      FROM (VALUES
+        (1, m -> 'set1_p1', m -> 'set1_p2'),
+        (2, m -> 'set2_p1', m -> 'set2_p2'),
+        (3, m -> 'set3_p1', m -> 'set3_p2')
+      ) AS s(num, p1, p2)
+      WHERE jsonb_typeof(s.p1) = 'number' AND jsonb_typeof(s.p2) = 'number'
+    ))
+    ORDER BY position
+  )
+  FROM jsonb_array_elements(trash.matches) WITH ORDINALITY AS e(m, position)
+)
+WHERE EXISTS (
+  SELECT 1 FROM jsonb_array_elements(trash.matches) AS e(m) WHERE m ? 'set1_p1'
+);
+
+-- Doubles teams, doubles matches and availability windows also cascade from
+-- a deleted player, so player snapshots keep them too
+ALTER TABLE trash
+  ADD COLUMN IF NOT EXISTS teams JSONB NOT NULL DEFAULT '[]',
+  ADD COLUMN IF NOT EXISTS doubles_matches JSONB NOT NULL DEFAULT '[]',
+  ADD COLUMN IF NOT EXISTS availability JSONB NOT NULL DEFAULT '[]';
+
+-- Swiss byes go with their player and with the league matches
+ALTER TABLE trash
+  ADD COLUMN IF NOT EXISTS swiss_byes JSONB NOT NULL DEFAULT '[]';
+
 -- Indexes for performance
 CREATE INDEX IF NOT EXISTS idx_matches_player1 ON matches(player1_id);
 CREATE INDEX IF NOT EXISTS idx_matches_player2 ON matches(player2_id);
 CREATE INDEX IF NOT EXISTS idx_matches_phase ON matches(phase);
 CREATE INDEX IF NOT EXISTS idx_matches_status ON matches(status);
 CREATE INDEX IF NOT EXISTS idx_players_tier ON players(tier);
-CREATE UNIQUE INDEX IF NOT EXISTS idx_players_slack_handle ON players(slack_handle);
+-- Slack handles are unique within a season (the same person is re-added each season)
+DROP INDEX IF EXISTS idx_players_slack_handle;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_players_slack_handle ON players(season_id, slack_handle);
+CREATE INDEX IF NOT EXISTS idx_players_season ON players(season_id);
+CREATE INDEX IF NOT EXISTS idx_players_person ON players(person_id);
+CREATE INDEX IF NOT EXISTS idx_matches_season ON matches(season_id);
+CREATE INDEX IF NOT EXISTS idx_recommendations_season ON weekly_recommendations(season_id);
 CREATE INDEX IF NOT EXISTS idx_recommendations_week_date ON weekly_recommendations(week_date);
+CREATE INDEX IF NOT EXISTS idx_audit_log_created_at ON audit_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_record ON audit_log(table_name, record_id);
+CREATE INDEX IF NOT EXISTS idx_audit_log_actor ON audit_log(actor_id);
+CREATE INDEX IF NOT EXISTS idx_trash_season ON trash(season_id, deleted_at DESC);
+CREATE INDEX IF NOT EXISTS idx_teams_season ON teams(season_id);
+CREATE INDEX IF NOT EXISTS idx_doubles_matches_season ON doubles_matches(season_id);
+CREATE INDEX IF NOT EXISTS idx_matches_scheduled_at ON matches(scheduled_at);
+CREATE INDEX IF NOT EXISTS idx_player_availability_player ON player_availability(player_id);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_created_at ON webhook_deliveries(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_subscription ON webhook_deliveries(subscription_id);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(next_attempt_at) WHERE status = 'pending';
 
 -- Enable Row Level Security
+ALTER TABLE seasons ENABLE ROW LEVEL SECURITY;
 ALTER TABLE players ENABLE ROW LEVEL SECURITY;
 ALTER TABLE users ENABLE ROW LEVEL SECURITY;
 ALTER TABLE matches ENABLE ROW LEVEL SECURITY;
 ALTER TABLE tournament_settings ENABLE ROW LEVEL SECURITY;
 ALTER TABLE weekly_recommendations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+ALTER TABLE trash ENABLE ROW LEVEL SECURITY;
+ALTER TABLE teams ENABLE ROW LEVEL SECURITY;
+ALTER TABLE doubles_matches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE player_availability ENABLE ROW LEVEL SECURITY;
+ALTER TABLE swiss_byes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_pending_standings ENABLE ROW LEVEL SECURITY;
 
 -- RLS Policies
 
+-- Seasons: Public read, Admin write
+CREATE POLICY "Anyone can view seasons" ON seasons
+  FOR SELECT USING (true);
+
+CREATE POLICY "Admins can insert seasons" ON seasons
+  FOR INSERT WITH CHECK (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin')
+  );
+
+CREATE POLICY "Admins can update seasons" ON seasons
+  FOR UPDATE USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin')
+  );
+
 -- Players: Public read, Admin write
 CREATE POLICY "Anyone can view players" ON players
   FOR SELECT USING (true);
@@ -157,10 +576,121 @@ CREATE POLICY "Editors and admins can delete matches" ON matches
     EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('admin', 'editor'))
   );
 
+-- Matches: Linked players self-report league results and confirm or dispute
+-- their opponent's report. Editors resolve disputes.
+CREATE OR REPLACE FUNCTION current_player_id()
+RETURNS UUID AS $$
+  SELECT player_id FROM users WHERE id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE POLICY "Players can report their own league matches" ON matches
+  FOR INSERT WITH CHECK (
+    phase = 'league'
+    AND status = 'pending_confirmation'
+    AND reported_by_player_id = current_player_id()
+    AND current_player_id() IN (player1_id, player2_id)
+  );
+
+DROP POLICY IF EXISTS "Opponents can confirm or dispute reported matches" ON matches;
+
+CREATE POLICY "Players can withdraw their pending reports" ON matches
+  FOR DELETE USING (
+    status = 'pending_confirmation'
+    AND reported_by_player_id = current_player_id()
+  );
+
+-- Swiss pairings, group fixtures and booked matches already exist as
+-- scheduled rows. Players can't update those directly (an UPDATE policy
+-- would let them change any column), so reporting and withdrawing go
+-- through these functions, and so do confirming and disputing an
+-- opponent's report. Each returns the match id, or NULL if the match
+-- is no longer in a state the player can change.
+CREATE OR REPLACE FUNCTION report_scheduled_match(
+  target_match_id UUID,
+  reported_set_scores JSONB,
+  reported_best_of INTEGER,
+  reported_winner_id UUID
+)
+RETURNS UUID AS $$
+  UPDATE matches
+  SET
+    status = 'pending_confirmation',
+    set_scores = reported_set_scores,
+    best_of = reported_best_of,
+    winner_id = reported_winner_id,
+    reported_by_player_id = current_player_id(),
+    reported_at = NOW()
+  WHERE id = target_match_id
+    AND phase = 'league'
+    AND status = 'scheduled'
+    AND current_player_id() IN (player1_id, player2_id)
+    AND reported_winner_id IN (player1_id, player2_id)
+  RETURNING id;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- Puts the match back to scheduled (the values of CLEARED_REPORT_VALUES in
+-- app/lib/match-result.ts)
+CREATE OR REPLACE FUNCTION withdraw_match_report(target_match_id UUID)
+RETURNS UUID AS $$
+  UPDATE matches
+  SET
+    status = 'scheduled',
+    winner_id = NULL,
+    set_scores = '[]',
+    result_type = 'normal',
+    result_reason = NULL,
+    reported_by_player_id = NULL,
+    reported_at = NULL,
+    dispute_reason = NULL
+  WHERE id = target_match_id
+    AND status = 'pending_confirmation'
+    AND reported_by_player_id = current_player_id()
+  RETURNING id;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- Only the opponent of the reporting player can confirm or dispute, and
+-- only the confirmation fields change
+CREATE OR REPLACE FUNCTION confirm_match_report(target_match_id UUID)
+RETURNS UUID AS $$
+  UPDATE matches
+  SET
+    status = 'completed',
+    confirmed_at = NOW(),
+    recorded_by = auth.uid(),
+    recorded_at = NOW()
+  WHERE id = target_match_id
+    AND status = 'pending_confirmation'
+    AND current_player_id() IN (player1_id, player2_id)
+    AND reported_by_player_id IS DISTINCT FROM current_player_id()
+  RETURNING id;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION dispute_match_report(
+  target_match_id UUID,
+  reason TEXT
+)
+RETURNS UUID AS $$
+  UPDATE matches
+  SET
+    status = 'disputed',
+    dispute_reason = reason
+  WHERE id = target_match_id
+    AND status = 'pending_confirmation'
+    AND current_player_id() IN (player1_id, player2_id)
+    AND reported_by_player_id IS DISTINCT FROM current_player_id()
+    AND NULLIF(TRIM(reason), '') IS NOT NULL
+  RETURNING id;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
 -- Tournament settings: Public read, Admin write
 CREATE POLICY "Anyone can view tournament settings" ON tournament_settings
   FOR SELECT USING (true);
 
+CREATE POLICY "Admins can insert tournament settings" ON tournament_settings
+  FOR INSERT WITH CHECK (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin')
+  );
+
 CREATE POLICY "Admins can update tournament settings" ON tournament_settings
   FOR UPDATE USING (
     EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin')
@@ -180,6 +710,861 @@ CREATE POLICY "Admins can delete recommendations" ON weekly_recommendations
     EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin')
   );
 
+-- Doubles teams: Public read, Admin write
+CREATE POLICY "Anyone can view teams" ON teams
+  FOR SELECT USING (true);
+
+CREATE POLICY "Admins can insert teams" ON teams
+  FOR INSERT WITH CHECK (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin')
+  );
+
+CREATE POLICY "Admins can update teams" ON teams
+  FOR UPDATE USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin')
+  );
+
+CREATE POLICY "Admins can delete teams" ON teams
+  FOR DELETE USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin')
+  );
+
+-- Doubles matches: Public read, Editor+ write
+CREATE POLICY "Anyone can view doubles matches" ON doubles_matches
+  FOR SELECT USING (true);
+
+CREATE POLICY "Editors and admins can insert doubles matches" ON doubles_matches
+  FOR INSERT WITH CHECK (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('admin', 'editor'))
+  );
+
+CREATE POLICY "Editors and admins can update doubles matches" ON doubles_matches
+  FOR UPDATE USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('admin', 'editor'))
+  );
+
+CREATE POLICY "Editors and admins can delete doubles matches" ON doubles_matches
+  FOR DELETE USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('admin', 'editor'))
+  );
+
+-- Player availability: Public read, Editor+ write
+CREATE POLICY "Anyone can view player availability" ON player_availability
+  FOR SELECT USING (true);
+
+CREATE POLICY "Editors and admins can insert player availability" ON player_availability
+  FOR INSERT WITH CHECK (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('admin', 'editor'))
+  );
+
+CREATE POLICY "Editors and admins can delete player availability" ON player_availability
+  FOR DELETE USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('admin', 'editor'))
+  );
+
+-- Swiss byes: Public read, Admin write (written with the round's pairings)
+CREATE POLICY "Anyone can view swiss byes" ON swiss_byes
+  FOR SELECT USING (true);
+
+CREATE POLICY "Admins can insert swiss byes" ON swiss_byes
+  FOR INSERT WITH CHECK (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin')
+  );
+
+CREATE POLICY "Admins can update swiss byes" ON swiss_byes
+  FOR UPDATE USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin')
+  );
+
+CREATE POLICY "Admins can delete swiss byes" ON swiss_byes
+  FOR DELETE USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin')
+  );
+
+-- Webhooks: Admin only. Deliveries are queued and updated through the
+-- functions below, so anyone whose change raises an event can send it without
+-- seeing the subscriptions or their secrets.
+CREATE POLICY "Admins can view webhook subscriptions" ON webhook_subscriptions
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin')
+  );
+
+CREATE POLICY "Admins can insert webhook subscriptions" ON webhook_subscriptions
+  FOR INSERT WITH CHECK (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin')
+  );
+
+CREATE POLICY "Admins can update webhook subscriptions" ON webhook_subscriptions
+  FOR UPDATE USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin')
+  );
+
+CREATE POLICY "Admins can delete webhook subscriptions" ON webhook_subscriptions
+  FOR DELETE USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin')
+  );
+
+CREATE POLICY "Admins can view webhook deliveries" ON webhook_deliveries
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin')
+  );
+
+-- Start a new season in one transaction: archive the active season, copy its
+-- settings and optionally carry its players forward (same person_id and tier).
+-- Linked user accounts follow their player into the new season.
+CREATE OR REPLACE FUNCTION start_new_season(season_name TEXT, carry_over_players BOOLEAN)
+RETURNS UUID AS $$
+DECLARE
+  previous_season_id UUID := active_season_id();
+  new_season_id UUID;
+BEGIN
+  UPDATE seasons SET is_active = false WHERE id = previous_season_id;
+
+  INSERT INTO seasons (name, is_active)
+  VALUES (season_name, true)
+  RETURNING id INTO new_season_id;
+
+  -- Tables and slot length carry over; round deadlines are per season
+  INSERT INTO tournament_settings (season_id, name, bracket_format, match_formats, league_format, schedule_settings)
+  SELECT new_season_id, name, bracket_format, match_formats, league_format, schedule_settings - 'round_deadlines'
+  FROM tournament_settings
+  WHERE season_id = previous_season_id;
+
+  INSERT INTO tournament_settings (season_id, name)
+  VALUES (new_season_id, 'PD Table Tennis')
+  ON CONFLICT (season_id) DO NOTHING;
+
+  IF carry_over_players THEN
+    INSERT INTO players (season_id, person_id, name, department, slack_handle, tier)
+    SELECT new_season_id, person_id, name, department, slack_handle, tier
+    FROM players
+    WHERE season_id = previous_season_id;
+
+    UPDATE users
+    SET player_id = new_player.id
+    FROM players AS old_player
+    JOIN players AS new_player
+      ON new_player.person_id = old_player.person_id
+      AND new_player.season_id = new_season_id
+    WHERE users.player_id = old_player.id;
+  END IF;
+
+  RETURN new_season_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Audit log: Admin read only. Rows are inserted by the audit trigger.
+CREATE POLICY "Admins can view audit log" ON audit_log
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin')
+  );
+
+-- Trash: Admin only
+CREATE POLICY "Admins can view trash" ON trash
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin')
+  );
+
+CREATE POLICY "Admins can insert trash" ON trash
+  FOR INSERT WITH CHECK (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin')
+  );
+
+CREATE POLICY "Admins can update trash" ON trash
+  FOR UPDATE USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin')
+  );
+
+CREATE POLICY "Admins can delete trash" ON trash
+  FOR DELETE USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin')
+  );
+
+-- Apply several tier changes ([{ "player_id": ..., "tier": ... }]) in one
+-- transaction: all of them, or none if any player isn't in the active season
+-- (or the caller may not change them).
+CREATE OR REPLACE FUNCTION set_player_tiers(tier_changes JSONB)
+RETURNS VOID AS $$
+DECLARE
+  changed INTEGER;
+BEGIN
+  UPDATE players p
+  SET tier = c.tier
+  FROM jsonb_to_recordset(tier_changes) AS c(player_id UUID, tier INTEGER)
+  WHERE p.id = c.player_id AND p.season_id = active_season_id();
+
+  GET DIAGNOSTICS changed = ROW_COUNT;
+  IF changed <> jsonb_array_length(tier_changes) THEN
+    RAISE EXCEPTION 'Some players were not found in the current season';
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Move a player of the active season to the trash together with everything
+-- the delete cascades to (their matches, recommendations, doubles team and
+-- its matches, availability windows and Swiss byes) and the user accounts
+-- linked to them.
+CREATE OR REPLACE FUNCTION trash_player(target_player_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  trash_id UUID;
+BEGIN
+  INSERT INTO trash (
+    season_id, kind, label, players, matches, recommendations,
+    teams, doubles_matches, availability, swiss_byes, linked_user_ids, deleted_by
+  )
+  SELECT
+    p.season_id,
+    'player',
+    p.name,
+    jsonb_build_array(to_jsonb(p)),
+    COALESCE((
+      SELECT jsonb_agg(to_jsonb(m))
+      FROM matches m
+      WHERE m.player1_id = p.id OR m.player2_id = p.id
+    ), '[]'),
+    COALESCE((
+      SELECT jsonb_agg(to_jsonb(r))
+      FROM weekly_recommendations r
+      WHERE r.player1_id = p.id OR r.player2_id = p.id
+    ), '[]'),
+    COALESCE((
+      SELECT jsonb_agg(to_jsonb(t))
+      FROM teams t
+      WHERE t.player1_id = p.id OR t.player2_id = p.id
+    ), '[]'),
+    COALESCE((
+      SELECT jsonb_agg(to_jsonb(d))
+      FROM doubles_matches d
+      WHERE EXISTS (
+        SELECT 1 FROM teams t
+        WHERE t.id IN (d.team1_id, d.team2_id)
+          AND (t.player1_id = p.id OR t.player2_id = p.id)
+      )
+    ), '[]'),
+    COALESCE((
+      SELECT jsonb_agg(to_jsonb(a))
+      FROM player_availability a
+      WHERE a.player_id = p.id
+    ), '[]'),
+    COALESCE((
+      SELECT jsonb_agg(to_jsonb(b))
+      FROM swiss_byes b
+      WHERE b.player_id = p.id
+    ), '[]'),
+    COALESCE((
+      SELECT jsonb_agg(u.id)
+      FROM users u
+      WHERE u.player_id = p.id
+    ), '[]'),
+    auth.uid()
+  FROM players p
+  WHERE p.id = target_player_id AND p.season_id = active_season_id()
+  RETURNING id INTO trash_id;
+
+  IF trash_id IS NULL THEN
+    RAISE EXCEPTION 'Player not found in the current season';
+  END IF;
+
+  DELETE FROM players WHERE id = target_player_id;
+
+  RETURN trash_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Move the active season's league matches, knockout matches or all matches
+-- ('reset') to the trash. Swiss byes go with the league matches.
+CREATE OR REPLACE FUNCTION trash_matches(trash_kind TEXT)
+RETURNS UUID AS $$
+DECLARE
+  trash_id UUID;
+  current_season_id UUID := active_season_id();
+BEGIN
+  IF trash_kind NOT IN ('league_matches', 'knockout_matches', 'reset') THEN
+    RAISE EXCEPTION 'Unknown trash kind: %', trash_kind;
+  END IF;
+
+  INSERT INTO trash (season_id, kind, label, matches, swiss_byes, deleted_by)
+  SELECT
+    current_season_id,
+    trash_kind,
+    CASE trash_kind
+      WHEN 'league_matches' THEN 'All league matches'
+      WHEN 'knockout_matches' THEN 'All knockout matches'
+      ELSE 'Tournament reset'
+    END,
+    COALESCE(jsonb_agg(to_jsonb(m)), '[]'),
+    CASE WHEN trash_kind = 'knockout_matches' THEN '[]'::JSONB ELSE COALESCE((
+      SELECT jsonb_agg(to_jsonb(b))
+      FROM swiss_byes b
+      WHERE b.season_id = current_season_id
+    ), '[]') END,
+    auth.uid()
+  FROM matches m
+  WHERE m.season_id = current_season_id
+    AND (
+      trash_kind = 'reset'
+      OR (trash_kind = 'league_matches' AND m.phase = 'league')
+      OR (trash_kind = 'knockout_matches' AND m.phase <> 'league')
+    )
+  RETURNING id INTO trash_id;
+
+  DELETE FROM matches m
+  WHERE m.season_id = current_season_id
+    AND (
+      trash_kind = 'reset'
+      OR (trash_kind = 'league_matches' AND m.phase = 'league')
+      OR (trash_kind = 'knockout_matches' AND m.phase <> 'league')
+    );
+
+  IF trash_kind <> 'knockout_matches' THEN
+    DELETE FROM swiss_byes WHERE season_id = current_season_id;
+  END IF;
+
+  RETURN trash_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Put a trashed snapshot back in one transaction. Rows keep their original
+-- ids, so restoring fails cleanly (and changes nothing) if the data has moved
+-- on in a way that conflicts, e.g. a bracket was generated again.
+CREATE OR REPLACE FUNCTION restore_trash(trash_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  item trash%ROWTYPE;
+BEGIN
+  SELECT * INTO item FROM trash WHERE id = trash_id FOR UPDATE;
+
+  IF item.id IS NULL THEN
+    RAISE EXCEPTION 'Trash item not found';
+  END IF;
+
+  IF item.restored_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This item has already been restored';
+  END IF;
+
+  IF item.expires_at <= NOW() THEN
+    RAISE EXCEPTION 'This item is past the retention window and can no longer be restored';
+  END IF;
+
+  IF item.season_id IS DISTINCT FROM active_season_id() THEN
+    RAISE EXCEPTION 'Only items from the current season can be restored';
+  END IF;
+
+  IF item.kind IN ('league_matches', 'reset') AND EXISTS (
+    SELECT 1 FROM matches WHERE season_id = item.season_id AND phase = 'league'
+  ) THEN
+    RAISE EXCEPTION 'Delete the current league matches before restoring';
+  END IF;
+
+  IF item.kind IN ('knockout_matches', 'reset') AND EXISTS (
+    SELECT 1 FROM matches WHERE season_id = item.season_id AND phase <> 'league'
+  ) THEN
+    RAISE EXCEPTION 'Delete the current knockout matches before restoring';
+  END IF;
+
+  INSERT INTO players
+  SELECT * FROM jsonb_populate_recordset(NULL::players, item.players);
+
+  INSERT INTO matches
+  SELECT * FROM jsonb_populate_recordset(NULL::matches, item.matches);
+
+  INSERT INTO weekly_recommendations
+  SELECT * FROM jsonb_populate_recordset(NULL::weekly_recommendations, item.recommendations);
+
+  INSERT INTO teams
+  SELECT * FROM jsonb_populate_recordset(NULL::teams, item.teams);
+
+  INSERT INTO doubles_matches
+  SELECT * FROM jsonb_populate_recordset(NULL::doubles_matches, item.doubles_matches);
+
+  INSERT INTO player_availability
+  SELECT * FROM jsonb_populate_recordset(NULL::player_availability, item.availability);
+
+  INSERT INTO swiss_byes
+  SELECT * FROM jsonb_populate_recordset(NULL::swiss_byes, item.swiss_byes);
+
+  IF jsonb_array_length(item.players) = 1 THEN
+    UPDATE users
+    SET player_id = (item.players -> 0 ->> 'id')::UUID
+    WHERE player_id IS NULL
+      AND id IN (SELECT value::UUID FROM jsonb_array_elements_text(item.linked_user_ids));
+  END IF;
+
+  UPDATE trash SET restored_at = NOW() WHERE id = trash_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Replace the active season's data with an imported backup in one
+-- transaction. Rows keep their ids, so re-importing the same file changes
+-- nothing; rows missing from the file are deleted. User references arrive
+-- already resolved to this project's user ids. Files from before doubles,
+-- availability or Swiss byes were exported pass NULL for those tables, which
+-- leaves them as they are (apart from rows of deleted players).
+DROP FUNCTION IF EXISTS import_tournament(JSONB, JSONB, JSONB, JSONB, JSONB);
+DROP FUNCTION IF EXISTS import_tournament(JSONB, JSONB, JSONB, JSONB, JSONB, JSONB, JSONB, JSONB);
+
+CREATE OR REPLACE FUNCTION import_tournament(
+  imported_settings JSONB,
+  imported_players JSONB,
+  imported_matches JSONB,
+  imported_recommendations JSONB,
+  imported_user_links JSONB,
+  imported_teams JSONB,
+  imported_doubles_matches JSONB,
+  imported_availability JSONB,
+  imported_swiss_byes JSONB
+)
+RETURNS VOID AS $$
+DECLARE
+  current_season_id UUID := active_season_id();
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM players
+    WHERE season_id <> current_season_id
+      AND id IN (SELECT id FROM jsonb_populate_recordset(NULL::players, imported_players))
+  ) OR EXISTS (
+    SELECT 1 FROM matches
+    WHERE season_id <> current_season_id
+      AND id IN (SELECT id FROM jsonb_populate_recordset(NULL::matches, imported_matches))
+  ) OR EXISTS (
+    SELECT 1 FROM weekly_recommendations
+    WHERE season_id <> current_season_id
+      AND id IN (SELECT id FROM jsonb_populate_recordset(NULL::weekly_recommendations, imported_recommendations))
+  ) OR EXISTS (
+    SELECT 1 FROM teams
+    WHERE season_id <> current_season_id
+      AND id IN (SELECT id FROM jsonb_populate_recordset(NULL::teams, imported_teams))
+  ) OR EXISTS (
+    SELECT 1 FROM doubles_matches
+    WHERE season_id <> current_season_id
+      AND id IN (SELECT id FROM jsonb_populate_recordset(NULL::doubles_matches, imported_doubles_matches))
+  ) OR EXISTS (
+    SELECT 1 FROM player_availability
+    WHERE season_id <> current_season_id
+      AND id IN (SELECT id FROM jsonb_populate_recordset(NULL::player_availability, imported_availability))
+  ) OR EXISTS (
+    SELECT 1 FROM swiss_byes
+    WHERE season_id <> current_season_id
+      AND id IN (SELECT id FROM jsonb_populate_recordset(NULL::swiss_byes, imported_swiss_byes))
+  ) THEN
+    RAISE EXCEPTION 'The file contains players or matches that belong to another season in this project';
+  END IF;
+
+  DELETE FROM matches
+  WHERE season_id = current_season_id
+    AND id NOT IN (SELECT id FROM jsonb_populate_recordset(NULL::matches, imported_matches));
+
+  DELETE FROM weekly_recommendations
+  WHERE season_id = current_season_id
+    AND id NOT IN (SELECT id FROM jsonb_populate_recordset(NULL::weekly_recommendations, imported_recommendations));
+
+  IF imported_doubles_matches IS NOT NULL THEN
+    DELETE FROM doubles_matches
+    WHERE season_id = current_season_id
+      AND id NOT IN (SELECT id FROM jsonb_populate_recordset(NULL::doubles_matches, imported_doubles_matches));
+  END IF;
+
+  IF imported_teams IS NOT NULL THEN
+    DELETE FROM teams
+    WHERE season_id = current_season_id
+      AND id NOT IN (SELECT id FROM jsonb_populate_recordset(NULL::teams, imported_teams));
+  END IF;
+
+  IF imported_availability IS NOT NULL THEN
+    DELETE FROM player_availability
+    WHERE season_id = current_season_id
+      AND id NOT IN (SELECT id FROM jsonb_populate_recordset(NULL::player_availability, imported_availability));
+  END IF;
+
+  IF imported_swiss_byes IS NOT NULL THEN
+    DELETE FROM swiss_byes
+    WHERE season_id = current_season_id
+      AND id NOT IN (SELECT id FROM jsonb_populate_recordset(NULL::swiss_byes, imported_swiss_byes));
+  END IF;
+
+  DELETE FROM players
+  WHERE season_id = current_season_id
+    AND id NOT IN (SELECT id FROM jsonb_populate_recordset(NULL::players, imported_players));
+
+  INSERT INTO players (
+    id, season_id, person_id, name, department, slack_handle, tier, starting_tier,
+    disqualified_from_qualification, disqualification_note, created_at
+  )
+  SELECT
+    id, current_season_id, person_id, name, department, slack_handle, tier, starting_tier,
+    disqualified_from_qualification, disqualification_note, COALESCE(created_at, NOW())
+  FROM jsonb_populate_recordset(NULL::players, imported_players)
+  ON CONFLICT (id) DO UPDATE SET
+    person_id = EXCLUDED.person_id,
+    name = EXCLUDED.name,
+    department = EXCLUDED.department,
+    slack_handle = EXCLUDED.slack_handle,
+    tier = EXCLUDED.tier,
+    starting_tier = EXCLUDED.starting_tier,
+    disqualified_from_qualification = EXCLUDED.disqualified_from_qualification,
+    disqualification_note = EXCLUDED.disqualification_note;
+
+  INSERT INTO matches (
+    id, season_id, player1_id, player2_id, phase, status, winner_id,
+    set_scores, best_of, knockout_position, swiss_round, group_name,
+    scheduled_at, table_label,
+    recorded_by, recorded_at, reported_by_player_id, reported_at, confirmed_at,
+    dispute_reason, result_type, result_reason, created_at
+  )
+  SELECT
+    id, current_season_id, player1_id, player2_id, phase, status, winner_id,
+    COALESCE(set_scores, '[]'), COALESCE(best_of, 3), knockout_position, swiss_round, group_name,
+    scheduled_at, table_label,
+    recorded_by, recorded_at, reported_by_player_id, reported_at, confirmed_at,
+    dispute_reason, COALESCE(result_type, 'normal'), result_reason, COALESCE(created_at, NOW())
+  FROM jsonb_populate_recordset(NULL::matches, imported_matches)
+  ON CONFLICT (id) DO UPDATE SET
+    player1_id = EXCLUDED.player1_id,
+    player2_id = EXCLUDED.player2_id,
+    phase = EXCLUDED.phase,
+    status = EXCLUDED.status,
+    winner_id = EXCLUDED.winner_id,
+    set_scores = EXCLUDED.set_scores,
+    best_of = EXCLUDED.best_of,
+    knockout_position = EXCLUDED.knockout_position,
+    swiss_round = EXCLUDED.swiss_round,
+    group_name = EXCLUDED.group_name,
+    scheduled_at = EXCLUDED.scheduled_at,
+    table_label = EXCLUDED.table_label,
+    recorded_by = EXCLUDED.recorded_by,
+    recorded_at = EXCLUDED.recorded_at,
+    reported_by_player_id = EXCLUDED.reported_by_player_id,
+    reported_at = EXCLUDED.reported_at,
+    confirmed_at = EXCLUDED.confirmed_at,
+    dispute_reason = EXCLUDED.dispute_reason,
+    result_type = EXCLUDED.result_type,
+    result_reason = EXCLUDED.result_reason;
+
+  INSERT INTO weekly_recommendations (
+    id, season_id, week_date, player1_id, player2_id, is_extra_match, created_by, created_at
+  )
+  SELECT
+    id, current_season_id, week_date, player1_id, player2_id, is_extra_match, created_by,
+    COALESCE(created_at, NOW())
+  FROM jsonb_populate_recordset(NULL::weekly_recommendations, imported_recommendations)
+  ON CONFLICT (id) DO UPDATE SET
+    week_date = EXCLUDED.week_date,
+    player1_id = EXCLUDED.player1_id,
+    player2_id = EXCLUDED.player2_id,
+    is_extra_match = EXCLUDED.is_extra_match,
+    created_by = EXCLUDED.created_by;
+
+  INSERT INTO teams (id, season_id, name, player1_id, player2_id, created_at)
+  SELECT id, current_season_id, name, player1_id, player2_id, COALESCE(created_at, NOW())
+  FROM jsonb_populate_recordset(NULL::teams, COALESCE(imported_teams, '[]'))
+  ON CONFLICT (id) DO UPDATE SET
+    name = EXCLUDED.name,
+    player1_id = EXCLUDED.player1_id,
+    player2_id = EXCLUDED.player2_id;
+
+  INSERT INTO doubles_matches (
+    id, season_id, team1_id, team2_id, phase, status, winner_team_id,
+    set_scores, best_of, knockout_position, recorded_by, recorded_at, created_at
+  )
+  SELECT
+    id, current_season_id, team1_id, team2_id, phase, status, winner_team_id,
+    COALESCE(set_scores, '[]'), COALESCE(best_of, 3), knockout_position, recorded_by, recorded_at,
+    COALESCE(created_at, NOW())
+  FROM jsonb_populate_recordset(NULL::doubles_matches, COALESCE(imported_doubles_matches, '[]'))
+  ON CONFLICT (id) DO UPDATE SET
+    team1_id = EXCLUDED.team1_id,
+    team2_id = EXCLUDED.team2_id,
+    phase = EXCLUDED.phase,
+    status = EXCLUDED.status,
+    winner_team_id = EXCLUDED.winner_team_id,
+    set_scores = EXCLUDED.set_scores,
+    best_of = EXCLUDED.best_of,
+    knockout_position = EXCLUDED.knockout_position,
+    recorded_by = EXCLUDED.recorded_by,
+    recorded_at = EXCLUDED.recorded_at;
+
+  INSERT INTO player_availability (id, season_id, player_id, starts_at, ends_at, created_at)
+  SELECT id, current_season_id, player_id, starts_at, ends_at, COALESCE(created_at, NOW())
+  FROM jsonb_populate_recordset(NULL::player_availability, COALESCE(imported_availability, '[]'))
+  ON CONFLICT (id) DO UPDATE SET
+    player_id = EXCLUDED.player_id,
+    starts_at = EXCLUDED.starts_at,
+    ends_at = EXCLUDED.ends_at;
+
+  INSERT INTO swiss_byes (id, season_id, round, player_id, created_at)
+  SELECT id, current_season_id, round, player_id, COALESCE(created_at, NOW())
+  FROM jsonb_populate_recordset(NULL::swiss_byes, COALESCE(imported_swiss_byes, '[]'))
+  ON CONFLICT (id) DO UPDATE SET
+    round = EXCLUDED.round,
+    player_id = EXCLUDED.player_id;
+
+  UPDATE tournament_settings
+  SET
+    name = imported_settings ->> 'name',
+    league_deadline = (imported_settings ->> 'league_deadline')::DATE,
+    is_active = COALESCE((imported_settings ->> 'is_active')::BOOLEAN, true),
+    bracket_format = NULLIF(imported_settings -> 'bracket_format', 'null'::JSONB),
+    match_formats = NULLIF(imported_settings -> 'match_formats', 'null'::JSONB),
+    league_format = NULLIF(imported_settings -> 'league_format', 'null'::JSONB),
+    schedule_settings = NULLIF(imported_settings -> 'schedule_settings', 'null'::JSONB)
+  WHERE season_id = current_season_id;
+
+  -- Player links: unlink accounts the file doesn't mention, then link the rest
+  UPDATE users
+  SET player_id = NULL
+  WHERE player_id IN (SELECT id FROM players WHERE season_id = current_season_id)
+    AND id NOT IN (
+      SELECT user_id FROM jsonb_to_recordset(imported_user_links) AS l(user_id UUID, player_id UUID)
+    );
+
+  UPDATE users
+  SET player_id = l.player_id
+  FROM jsonb_to_recordset(imported_user_links) AS l(user_id UUID, player_id UUID)
+  WHERE users.id = l.user_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Queue a delivery of an event to every active subscription that wants it.
+-- The body is signed here with HMAC-SHA256 so the secret never leaves the
+-- database; callers get back what to POST and where. Only editors, admins and
+-- the scheduled webhook job (the service role) may queue events, since the
+-- body is theirs to write; players' confirmations go through
+-- queue_match_completed_webhooks. Each delivery is held for its
+-- first attempt until the lease in next_attempt_at runs out.
+CREATE OR REPLACE FUNCTION queue_webhook_deliveries(event_name TEXT, event_data JSONB)
+RETURNS TABLE (id UUID, url TEXT, body TEXT, signature TEXT) AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND NOT EXISTS (
+    SELECT 1 FROM users WHERE users.id = auth.uid() AND role IN ('admin', 'editor')
+  ) THEN
+    RAISE EXCEPTION 'Only editors and admins can send webhooks';
+  END IF;
+
+  RETURN QUERY
+  WITH targets AS (
+    SELECT gen_random_uuid() AS delivery_id, s.id AS subscription_id, s.url, s.secret
+    FROM webhook_subscriptions s
+    WHERE s.is_active AND event_name = ANY(s.events)
+  ),
+  queued AS (
+    SELECT t.*,
+      jsonb_build_object('id', t.delivery_id, 'event', event_name, 'created_at', NOW(), 'data', event_data)::text AS body
+    FROM targets t
+  ),
+  inserted AS (
+    INSERT INTO webhook_deliveries (
+      id, subscription_id, event, data, body, signature, queued_by, next_attempt_at
+    )
+    SELECT q.delivery_id, q.subscription_id, event_name, event_data, q.body,
+      encode(hmac(q.body, q.secret, 'sha256'), 'hex'), auth.uid(), NOW() + INTERVAL '5 minutes'
+    FROM queued q
+    RETURNING webhook_deliveries.id, webhook_deliveries.subscription_id, webhook_deliveries.body, webhook_deliveries.signature
+  )
+  SELECT i.id, q.url, i.body, i.signature
+  FROM inserted i
+  JOIN queued q ON q.delivery_id = i.id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+-- Queue match.completed for a result a player has just confirmed. The body is
+-- built here from the match (as toApiMatch does) rather than taken from the
+-- caller, and is queued once per change to the match. A league result also
+-- owes standings.changed, which the scheduled webhook job sends.
+CREATE OR REPLACE FUNCTION queue_match_completed_webhooks(target_match_id UUID)
+RETURNS TABLE (id UUID, url TEXT, body TEXT, signature TEXT) AS $$
+DECLARE
+  confirmed matches;
+  event_data JSONB;
+BEGIN
+  SELECT * INTO confirmed FROM matches m
+  WHERE m.id = target_match_id
+    AND m.status = 'completed'
+    AND m.confirmed_at IS NOT NULL
+    AND current_player_id() IN (m.player1_id, m.player2_id);
+
+  IF confirmed.id IS NULL THEN
+    RAISE EXCEPTION 'Only the players of a confirmed match can announce it';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM webhook_deliveries d
+    WHERE d.event = 'match.completed'
+      AND d.data -> 'match' ->> 'id' = confirmed.id::text
+      AND d.created_at >= confirmed.updated_at
+  ) THEN
+    RETURN;
+  END IF;
+
+  SELECT jsonb_build_object('match', jsonb_build_object(
+    'id', confirmed.id,
+    'season_id', confirmed.season_id,
+    'phase', confirmed.phase,
+    'status', confirmed.status,
+    'player1', jsonb_build_object(
+      'id', p1.id, 'name', p1.name, 'department', p1.department, 'tier', p1.tier, 'season_id', p1.season_id
+    ),
+    'player2', jsonb_build_object(
+      'id', p2.id, 'name', p2.name, 'department', p2.department, 'tier', p2.tier, 'season_id', p2.season_id
+    ),
+    'winner_id', confirmed.winner_id,
+    'set_scores', confirmed.set_scores,
+    'result_type', confirmed.result_type,
+    'result_reason', confirmed.result_reason,
+    'knockout_position', confirmed.knockout_position,
+    'scheduled_at', confirmed.scheduled_at,
+    'table_label', confirmed.table_label,
+    'recorded_at', confirmed.recorded_at
+  ))
+  INTO event_data
+  FROM players p1, players p2
+  WHERE p1.id = confirmed.player1_id AND p2.id = confirmed.player2_id;
+
+  IF confirmed.phase = 'league' THEN
+    INSERT INTO webhook_pending_standings (season_id)
+    VALUES (confirmed.season_id)
+    ON CONFLICT (season_id) DO NOTHING;
+  END IF;
+
+  RETURN QUERY
+  WITH targets AS (
+    SELECT gen_random_uuid() AS delivery_id, s.id AS subscription_id, s.url, s.secret
+    FROM webhook_subscriptions s
+    WHERE s.is_active AND 'match.completed' = ANY(s.events)
+  ),
+  queued AS (
+    SELECT t.*,
+      jsonb_build_object('id', t.delivery_id, 'event', 'match.completed', 'created_at', NOW(), 'data', event_data)::text AS body
+    FROM targets t
+  ),
+  inserted AS (
+    INSERT INTO webhook_deliveries (
+      id, subscription_id, event, data, body, signature, queued_by, next_attempt_at
+    )
+    SELECT q.delivery_id, q.subscription_id, 'match.completed', event_data, q.body,
+      encode(hmac(q.body, q.secret, 'sha256'), 'hex'), auth.uid(), NOW() + INTERVAL '5 minutes'
+    FROM queued q
+    RETURNING webhook_deliveries.id, webhook_deliveries.subscription_id, webhook_deliveries.body, webhook_deliveries.signature
+  )
+  SELECT i.id, q.url, i.body, i.signature
+  FROM inserted i
+  JOIN queued q ON q.delivery_id = i.id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+-- Hand the seasons owed standings.changed to the scheduled webhook job (or an
+-- editor or admin) to send
+CREATE OR REPLACE FUNCTION take_pending_standings_webhooks()
+RETURNS SETOF UUID AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND NOT EXISTS (
+    SELECT 1 FROM users WHERE users.id = auth.uid() AND role IN ('admin', 'editor')
+  ) THEN
+    RAISE EXCEPTION 'Only editors and admins can send webhooks';
+  END IF;
+
+  RETURN QUERY DELETE FROM webhook_pending_standings RETURNING season_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Hand the pending deliveries that are due to the scheduled webhook job (or an
+-- editor or admin) to retry.
+-- Each is leased for five minutes so two servers don't send it at once;
+-- recording the attempt sets when it is next due.
+CREATE OR REPLACE FUNCTION claim_due_webhook_deliveries()
+RETURNS TABLE (id UUID, url TEXT, body TEXT, signature TEXT, attempts INTEGER) AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND NOT EXISTS (
+    SELECT 1 FROM users WHERE users.id = auth.uid() AND role IN ('admin', 'editor')
+  ) THEN
+    RAISE EXCEPTION 'Only editors and admins can send webhooks';
+  END IF;
+
+  RETURN QUERY
+  UPDATE webhook_deliveries d
+  SET next_attempt_at = NOW() + INTERVAL '5 minutes'
+  FROM webhook_subscriptions s
+  WHERE s.id = d.subscription_id
+    AND s.is_active
+    AND d.status = 'pending'
+    AND d.next_attempt_at <= NOW()
+  RETURNING d.id, s.url, d.body, d.signature, d.attempts;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Record the outcome of one delivery attempt. A delivery that succeeded or
+-- was given up on is final and can't be changed again. A failed attempt is
+-- retried after 1, 2, 4, 8... minutes. Editors, admins and the scheduled
+-- webhook job record any attempt; whoever queued a delivery only its first.
+CREATE OR REPLACE FUNCTION record_webhook_attempt(
+  delivery_id UUID,
+  succeeded BOOLEAN,
+  give_up BOOLEAN,
+  http_status INTEGER,
+  error_message TEXT
+)
+RETURNS VOID AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND NOT EXISTS (
+    SELECT 1 FROM users WHERE users.id = auth.uid() AND role IN ('admin', 'editor')
+  ) AND NOT EXISTS (
+    SELECT 1 FROM webhook_deliveries d
+    WHERE d.id = delivery_id AND d.queued_by = auth.uid() AND d.attempts = 0
+  ) THEN
+    RAISE EXCEPTION 'Only editors and admins can record webhook attempts';
+  END IF;
+
+  UPDATE webhook_deliveries
+  SET
+    attempts = attempts + 1,
+    last_attempt_at = NOW(),
+    next_attempt_at = NOW() + make_interval(mins => power(2, attempts)::INTEGER),
+    response_status = http_status,
+    last_error = error_message,
+    status = CASE
+      WHEN succeeded THEN 'succeeded'
+      WHEN give_up THEN 'failed'
+      ELSE 'pending'
+    END
+  WHERE id = delivery_id AND status = 'pending';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Send a past delivery again as a new delivery: same event and data, with a
+-- new id and signed with the subscription's current secret.
+CREATE OR REPLACE FUNCTION redeliver_webhook(original_id UUID)
+RETURNS TABLE (id UUID, url TEXT, body TEXT, signature TEXT) AS $$
+DECLARE
+  new_id UUID := gen_random_uuid();
+  new_body TEXT;
+  target webhook_subscriptions;
+  original webhook_deliveries;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can redeliver webhooks';
+  END IF;
+
+  SELECT * INTO original FROM webhook_deliveries d WHERE d.id = original_id;
+  IF original.id IS NULL THEN
+    RAISE EXCEPTION 'Delivery not found';
+  END IF;
+
+  SELECT * INTO target FROM webhook_subscriptions s WHERE s.id = original.subscription_id;
+
+  new_body := jsonb_build_object('id', new_id, 'event', original.event, 'created_at', NOW(), 'data', original.data)::text;
+
+  INSERT INTO webhook_deliveries (
+    id, subscription_id, event, data, body, signature, redelivery_of, queued_by, next_attempt_at
+  )
+  VALUES (new_id, target.id, original.event, original.data, new_body,
+    encode(hmac(new_body, target.secret, 'sha256'), 'hex'), original.id,
+    auth.uid(), NOW() + INTERVAL '5 minutes');
+
+  RETURN QUERY SELECT new_id, target.url, new_body,
+    encode(hmac(new_body, target.secret, 'sha256'), 'hex');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
 -- Function to update updated_at timestamp
 CREATE OR REPLACE FUNCTION update_updated_at_column()
 RETURNS TRIGGER AS $$
@@ -189,6 +1574,19 @@ BEGIN
 END;
 $$ language 'plpgsql';
 
+-- New players start their rating from the tier they are added with
+CREATE OR REPLACE FUNCTION set_starting_tier()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.starting_tier = COALESCE(NEW.starting_tier, NEW.tier);
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER set_players_starting_tier
+  BEFORE INSERT ON players
+  FOR EACH ROW EXECUTE FUNCTION set_starting_tier();
+
 -- Triggers to auto-update updated_at
 CREATE TRIGGER update_players_updated_at
   BEFORE UPDATE ON players
@@ -202,6 +1600,91 @@ CREATE TRIGGER update_matches_updated_at
   BEFORE UPDATE ON matches
   FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_seasons_updated_at
+  BEFORE UPDATE ON seasons
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 CREATE TRIGGER update_tournament_settings_updated_at
   BEFORE UPDATE ON tournament_settings
   FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_teams_updated_at
+  BEFORE UPDATE ON teams
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_doubles_matches_updated_at
+  BEFORE UPDATE ON doubles_matches
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_webhook_subscriptions_updated_at
+  BEFORE UPDATE ON webhook_subscriptions
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Audit trail: record every create, update and delete with before/after values
+-- and the acting user (auth.uid() of the request that made the change)
+CREATE OR REPLACE FUNCTION record_audit_log()
+RETURNS TRIGGER AS $$
+DECLARE
+  before_row JSONB := CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE to_jsonb(OLD) END;
+  after_row JSONB := CASE WHEN TG_OP = 'DELETE' THEN NULL ELSE to_jsonb(NEW) END;
+  changed_row JSONB := COALESCE(after_row, before_row);
+BEGIN
+  -- Skip no-op updates (only updated_at changed)
+  IF TG_OP = 'UPDATE' AND (before_row - 'updated_at') = (after_row - 'updated_at') THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO audit_log (table_name, record_id, action, before_data, after_data, actor_id, actor_email, season_id)
+  VALUES (
+    TG_TABLE_NAME,
+    changed_row ->> 'id',
+    CASE TG_OP WHEN 'INSERT' THEN 'create' WHEN 'UPDATE' THEN 'update' ELSE 'delete' END,
+    before_row,
+    after_row,
+    auth.uid(),
+    (SELECT email FROM users WHERE id = auth.uid()),
+    (changed_row ->> 'season_id')::UUID
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION prevent_audit_log_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_log is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER audit_players
+  AFTER INSERT OR UPDATE OR DELETE ON players
+  FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+
+CREATE TRIGGER audit_matches
+  AFTER INSERT OR UPDATE OR DELETE ON matches
+  FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+
+CREATE TRIGGER audit_users
+  AFTER INSERT OR UPDATE OR DELETE ON users
+  FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+
+CREATE TRIGGER audit_tournament_settings
+  AFTER INSERT OR UPDATE OR DELETE ON tournament_settings
+  FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+
+CREATE TRIGGER audit_weekly_recommendations
+  AFTER INSERT OR UPDATE OR DELETE ON weekly_recommendations
+  FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+
+CREATE TRIGGER audit_teams
+  AFTER INSERT OR UPDATE OR DELETE ON teams
+  FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+
+CREATE TRIGGER audit_doubles_matches
+  AFTER INSERT OR UPDATE OR DELETE ON doubles_matches
+  FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+
+CREATE TRIGGER audit_log_append_only
+  BEFORE UPDATE OR DELETE ON audit_log
+  FOR EACH ROW EXECUTE FUNCTION prevent_audit_log_changes();